@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /**
+   * Адрес REST API дерева. Если не задан, App показывает демонстрационные данные
+   */
+  readonly VITE_TREE_API_URL?: string;
+}
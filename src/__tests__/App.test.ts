@@ -1,5 +1,5 @@
-import { describe, it, expect, afterEach } from 'vitest';
-import { shallowMount } from '@vue/test-utils';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { flushPromises, shallowMount } from '@vue/test-utils';
 import App from '../App.vue';
 import TreeGrid from '@/components/TreeGrid.vue';
 import itemsJson from '@/mocks/items.json';
@@ -10,6 +10,8 @@ describe('App', () => {
   afterEach(() => {
     wrapper?.unmount();
     wrapper = null;
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
   });
 
   const getWrapper = () => shallowMount(App);
@@ -29,4 +31,20 @@ describe('App', () => {
 
     expect(treeGrid.props('items')).toEqual(itemsJson);
   });
+
+  it('should load items through the REST API when its address is set', async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(new Response(JSON.stringify(itemsJson))));
+    vi.stubEnv('VITE_TREE_API_URL', 'https://api.test');
+    vi.stubGlobal('fetch', fetchMock);
+
+    wrapper = getWrapper();
+    await flushPromises();
+
+    const treeGrid = wrapper.findComponent(TreeGrid);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/items', expect.objectContaining({ method: 'GET' }));
+    expect(treeGrid.props('items')).toBeUndefined();
+    expect(treeGrid.props('store').getAll()).toHaveLength(itemsJson.length);
+    expect(treeGrid.props('persistence')).toBeDefined();
+  });
 });
@@ -3,6 +3,10 @@ import { shallowMount } from '@vue/test-utils';
 import { nextTick } from 'vue';
 import TreeGrid from '../TreeGrid.vue';
 import TreeStore from '@/core/TreeStore';
+import TreePersistence from '@/core/TreePersistence';
+import TreePersistenceError from '@/core/TreePersistenceError';
+import MemoryTreeDataSource from '@/mocks/MemoryTreeDataSource';
+import { countTreeDiff, createTreeSnapshot, diffTrees } from '@/utils/tree.diff';
 import type { ITreeItem } from '@/types/tree.types';
 import * as treeUtils from '@/utils/tree.utils';
 import { AgGridVue } from 'ag-grid-vue3';
@@ -10,6 +14,14 @@ import { AgGridVue } from 'ag-grid-vue3';
 vi.mock('@/utils/tree.utils', () => ({
   sortTreeItemsDFS: vi.fn((items) => items),
   convertToAgGridFormat: vi.fn((items) => items),
+  determineCategory: vi.fn(() => 'Элемент'),
+  getItemPath: vi.fn(() => []),
+  buildRowTransaction: vi.fn(() => ({ add: [], update: [], remove: [] })),
+  generateTreeItemId: vi.fn(() => 3),
+  getDropPosition: vi.fn(() => 'inside'),
+  getPlaceholderId: vi.fn((parent) => `__placeholder__:${parent ?? ''}`),
+  getPlaceholderRows: vi.fn(() => []),
+  resolveDropTarget: vi.fn(() => null),
 }));
 
 describe('TreeGrid', () => {
@@ -109,6 +121,25 @@ describe('TreeGrid', () => {
       expect(columnDefs.length).toBe(3);
     });
 
+    it('should append columns for payload fields after default columns', () => {
+      // shallowMount не выводит параметр типа компонента из props
+      wrapper = shallowMount(TreeGrid, {
+        props: {
+          items: [{ id: 1, parent: null, label: 'Root', quantity: 5 }],
+          columns: [{ header: 'Количество', field: 'quantity' }],
+        } as any,
+      });
+
+      const columnDefs = wrapper.findComponent(AgGridVue).props('columnDefs');
+
+      expect(columnDefs.map((column: { headerName: string }) => column.headerName)).toEqual([
+        '№ п/п',
+        'Категория',
+        'Наименование',
+        'Количество',
+      ]);
+    });
+
     it('should pass column-defs with correct structure', () => {
       wrapper = getWrapper();
 
@@ -155,7 +186,7 @@ describe('TreeGrid', () => {
       const gridOptions = agGrid.props('gridOptions');
 
       expect(gridOptions.treeData).toBe(true);
-      expect(gridOptions.groupDefaultExpanded).toBe(-1);
+      expect(gridOptions.isGroupOpenByDefault({ rowNode: { data: mockItems[0] } })).toBe(true);
       expect(gridOptions.domLayout).toBe('autoHeight');
       expect(gridOptions.pagination).toBe(false);
       expect(gridOptions.rowHeight).toBe(40);
@@ -170,8 +201,10 @@ describe('TreeGrid', () => {
       const gridOptions = agGrid.props('gridOptions');
 
       expect(gridOptions.rowSelection).toBeDefined();
-      expect(gridOptions.rowSelection.mode).toBe('singleRow');
-      expect(gridOptions.rowSelection.checkboxes).toBe(false);
+      expect(gridOptions.rowSelection.mode).toBe('multiRow');
+      expect(gridOptions.rowSelection.checkboxes).toBe(true);
+      expect(gridOptions.rowSelection.groupSelects).toBe('descendants');
+      expect(gridOptions.rowSelection.isRowSelectable({ data: { id: 'p', placeholder: 'loading' } })).toBe(false);
     });
 
     it('should pass grid-options with localeText', () => {
@@ -195,4 +228,1122 @@ describe('TreeGrid', () => {
       expect(typeof gridOptions.getDataPath).toBe('function');
     });
   });
+
+  describe('incremental updates', () => {
+    const getGridApi = () => ({
+      sizeColumnsToFit: vi.fn(),
+      applyTransaction: vi.fn(),
+    });
+
+    it('should apply store mutations as ag-grid transactions after grid is ready', async () => {
+      const transaction = { add: [], update: [{ id: 2, parent: 1, label: 'Renamed' }], remove: [] };
+      vi.mocked(treeUtils.buildRowTransaction).mockReturnValue(transaction);
+      const gridApi = getGridApi();
+      wrapper = getWrapper();
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api: gridApi });
+      await nextTick();
+
+      wrapper.vm.treeStore.updateItem({ id: 2, parent: 1, label: 'Renamed' });
+
+      expect(treeUtils.buildRowTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'updated' }),
+        wrapper.vm.treeStore
+      );
+      expect(gridApi.applyTransaction).toHaveBeenCalledWith(transaction);
+    });
+
+    it('should rebuild row data instead of transaction on reset', async () => {
+      vi.mocked(treeUtils.buildRowTransaction).mockReturnValue(null);
+      const gridApi = getGridApi();
+      wrapper = getWrapper();
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api: gridApi });
+      vi.mocked(treeUtils.sortTreeItemsDFS).mockClear();
+
+      await wrapper.setProps({ items: [{ id: 10, parent: null, label: 'New Root' }] });
+
+      expect(treeUtils.sortTreeItemsDFS).toHaveBeenCalledTimes(1);
+      expect(gridApi.applyTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should provide getRowId based on item id', () => {
+      wrapper = getWrapper();
+
+      const gridOptions = wrapper.findComponent(AgGridVue).props('gridOptions');
+
+      expect(gridOptions.getRowId({ data: { id: 42 } })).toBe('42');
+    });
+  });
+
+  describe('editing and context menu', () => {
+    const getGridOptions = () => wrapper.findComponent(AgGridVue).props('gridOptions');
+
+    const getMenu = (data: ITreeItem | null) => getGridOptions().getContextMenuItems({
+      node: data ? { data } : null,
+    });
+
+    const clickMenuItem = (data: ITreeItem | null, name: string) => {
+      getMenu(data).find((item: any) => item.name === name).action();
+    };
+
+    it('should enable context menu with CRUD actions for a row', () => {
+      wrapper = getWrapper();
+
+      const names = getMenu(mockItems[0]!).map((item: any) => item.name);
+
+      expect(getGridOptions().suppressContextMenu).toBeUndefined();
+      expect(names).toEqual([
+        'Добавить дочерний',
+        'Добавить соседний',
+        'Переименовать',
+        'Удалить с потомками',
+      ]);
+    });
+
+    it('should offer adding a root item on empty space', () => {
+      wrapper = getWrapper();
+
+      clickMenuItem(null, 'Добавить корневой элемент');
+
+      expect(wrapper.emitted('add')[0][0]).toEqual({ id: 3, parent: null, label: 'Новый элемент' });
+    });
+
+    it('should add child through the store and emit add', () => {
+      wrapper = getWrapper();
+
+      clickMenuItem(mockItems[1]!, 'Добавить дочерний');
+
+      expect(wrapper.vm.treeStore.getChildren(2).map((item: ITreeItem) => item.id)).toEqual([3]);
+      expect(wrapper.emitted('add')[0][0]).toEqual({ id: 3, parent: 2, label: 'Новый элемент' });
+    });
+
+    it('should not mutate items passed through props', () => {
+      wrapper = getWrapper();
+
+      clickMenuItem(mockItems[1]!, 'Добавить дочерний');
+
+      expect(mockItems.length).toBe(2);
+    });
+
+    it('should add sibling with the same parent', () => {
+      wrapper = getWrapper();
+
+      clickMenuItem(mockItems[1]!, 'Добавить соседний');
+
+      expect(wrapper.emitted('add')[0][0].parent).toBe(1);
+    });
+
+    it('should use createItem prop as item factory', () => {
+      wrapper = shallowMount(TreeGrid, {
+        props: {
+          items: mockItems,
+          createItem: (parent: any) => ({ id: 'custom', parent, label: 'Custom' }),
+        },
+      });
+
+      clickMenuItem(mockItems[0]!, 'Добавить дочерний');
+
+      expect(wrapper.emitted('add')[0][0]).toEqual({ id: 'custom', parent: 1, label: 'Custom' });
+    });
+
+    it('should delete row with descendants and emit removed items', () => {
+      wrapper = getWrapper();
+
+      clickMenuItem(mockItems[0]!, 'Удалить с потомками');
+
+      expect(wrapper.vm.treeStore.getAll()).toEqual([]);
+      expect(wrapper.emitted('remove')[0][0].map((item: ITreeItem) => item.id)).toEqual([1, 2]);
+    });
+
+    it('should start label editing on rename', () => {
+      const startEditingCell = vi.fn();
+      const node = { rowIndex: 1, level: 1, parent: { level: -1, parent: null } };
+      wrapper = getWrapper();
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', {
+        api: { sizeColumnsToFit: vi.fn(), getRowNode: () => node, ensureNodeVisible: vi.fn(), startEditingCell },
+      });
+
+      clickMenuItem(mockItems[1]!, 'Переименовать');
+
+      expect(startEditingCell).toHaveBeenCalledWith({ rowIndex: 1, colKey: 'label' });
+    });
+
+    it('should route label cell edits through the store and emit update', () => {
+      wrapper = getWrapper();
+      const labelColumn = wrapper.findComponent(AgGridVue).props('columnDefs')[2];
+
+      const result = labelColumn.valueSetter({ data: mockItems[1], newValue: '  Renamed ' });
+
+      expect(labelColumn.editable).toBe(true);
+      expect(result).toBe(false);
+      expect(wrapper.vm.treeStore.getItem(2).label).toBe('Renamed');
+      expect(wrapper.emitted('update')[0]).toEqual([
+        { id: 2, parent: 1, label: 'Renamed' },
+        { id: 2, parent: 1, label: 'Child' },
+      ]);
+    });
+
+    it('should ignore empty label edits', () => {
+      wrapper = getWrapper();
+      const labelColumn = wrapper.findComponent(AgGridVue).props('columnDefs')[2];
+
+      labelColumn.valueSetter({ data: mockItems[1], newValue: '   ' });
+
+      expect(wrapper.emitted('update')).toBeUndefined();
+    });
+  });
+
+  describe('drag and drop', () => {
+    const getGridOptions = () => wrapper.findComponent(AgGridVue).props('gridOptions');
+
+    const getDragEndEvent = (dragged: ITreeItem, over: ITreeItem | null) => ({
+      node: { data: dragged },
+      overNode: over ? { data: over, rowTop: 40, rowHeight: 40 } : undefined,
+      y: 60,
+    });
+
+    it('should enable row dragging on category column', () => {
+      wrapper = getWrapper();
+
+      expect(wrapper.findComponent(AgGridVue).props('columnDefs')[1].rowDrag).toBe(true);
+    });
+
+    it('should move item through the store and emit move', () => {
+      vi.mocked(treeUtils.resolveDropTarget).mockReturnValue({ parent: null, index: 0 });
+      wrapper = getWrapper();
+
+      getGridOptions().onRowDragEnd(getDragEndEvent(mockItems[1]!, mockItems[0]!));
+
+      expect(treeUtils.getDropPosition).toHaveBeenCalledWith(20, 40);
+      expect(wrapper.vm.treeStore.getRoots().map((item: ITreeItem) => item.id)).toEqual([2, 1]);
+      expect(wrapper.emitted('move')[0]).toEqual([
+        { id: 2, parent: null, label: 'Child', order: 0 },
+        0,
+        { id: 2, parent: 1, label: 'Child' },
+      ]);
+    });
+
+    it('should emit update for siblings ranked during the move', () => {
+      vi.mocked(treeUtils.resolveDropTarget).mockReturnValue({ parent: null, index: 0 });
+      wrapper = getWrapper();
+
+      getGridOptions().onRowDragEnd(getDragEndEvent(mockItems[1]!, mockItems[0]!));
+
+      expect(wrapper.emitted('update')).toEqual([
+        [{ id: 1, parent: null, label: 'Root', order: 1 }, { id: 1, parent: null, label: 'Root' }],
+      ]);
+    });
+
+    it('should refuse drop when target is not resolved', () => {
+      vi.mocked(treeUtils.resolveDropTarget).mockReturnValue(null);
+      wrapper = getWrapper();
+
+      getGridOptions().onRowDragEnd(getDragEndEvent(mockItems[0]!, mockItems[1]!));
+
+      expect(wrapper.emitted('move')).toBeUndefined();
+    });
+
+    it('should ignore drop outside of rows', () => {
+      wrapper = getWrapper();
+
+      getGridOptions().onRowDragEnd(getDragEndEvent(mockItems[1]!, null));
+
+      expect(treeUtils.resolveDropTarget).not.toHaveBeenCalled();
+    });
+
+    it('should order group rows by store sibling order', () => {
+      wrapper = getWrapper();
+      wrapper.vm.treeStore.addItem({ id: 3, parent: 1, label: 'Second' });
+      wrapper.vm.treeStore.moveItem(3, 1, 0);
+      const nodes = [{ data: { id: 2, parent: 1 } }, { data: { id: 3, parent: 1 } }];
+
+      getGridOptions().postSortRows({ nodes, api: { getColumnState: () => [] } });
+
+      expect(nodes.map((node) => node.data.id)).toEqual([3, 2]);
+    });
+
+    it('should keep user column sort', () => {
+      wrapper = getWrapper();
+      wrapper.vm.treeStore.addItem({ id: 3, parent: 1, label: 'Second' });
+      wrapper.vm.treeStore.moveItem(3, 1, 0);
+      const nodes = [{ data: { id: 2, parent: 1 } }, { data: { id: 3, parent: 1 } }];
+
+      getGridOptions().postSortRows({ nodes, api: { getColumnState: () => [{ sort: 'asc' }] } });
+
+      expect(nodes.map((node) => node.data.id)).toEqual([2, 3]);
+    });
+  });
+
+  describe('column schema and layout', () => {
+    const getGridOptions = () => wrapper.findComponent(AgGridVue).props('gridOptions');
+
+    const getLayoutWrapper = () => shallowMount(TreeGrid, {
+      props: {
+        items: [{ id: 1, parent: null, label: 'Root', quantity: 5 }],
+        columns: [{ header: 'Количество', field: 'quantity', editor: 'number' }],
+        layoutKey: 'estimate',
+      } as any,
+    });
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should offer columns tool panel as column chooser', () => {
+      wrapper = getWrapper();
+
+      const [panel] = getGridOptions().sideBar.toolPanels;
+
+      expect(panel.toolPanel).toBe('agColumnsToolPanel');
+      expect(wrapper.findComponent(AgGridVue).props('columnDefs')[1].lockVisible).toBe(true);
+    });
+
+    it('should route schema column edits through the store', () => {
+      wrapper = getLayoutWrapper();
+      const quantityColumn = wrapper.findComponent(AgGridVue).props('columnDefs')[3];
+
+      quantityColumn.valueSetter({ data: wrapper.vm.treeStore.getItem(1), newValue: 7 });
+
+      expect(wrapper.vm.treeStore.getItem(1).quantity).toBe(7);
+      expect(wrapper.emitted('update')[0][0]).toEqual({ id: 1, parent: null, label: 'Root', quantity: 7 });
+    });
+
+    it('should restore saved layout on grid ready', () => {
+      const layout = [{ colId: 'quantity', hide: true, pinned: null }];
+      localStorage.setItem('tree-grid:columns:estimate', JSON.stringify(layout));
+      const api = { sizeColumnsToFit: vi.fn(), applyColumnState: vi.fn() };
+      wrapper = getLayoutWrapper();
+
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+
+      expect(api.applyColumnState).toHaveBeenCalledWith({ state: layout, applyOrder: true });
+      expect(api.sizeColumnsToFit).not.toHaveBeenCalled();
+    });
+
+    it('should persist layout when user finishes changing columns', () => {
+      const api = { getColumnState: () => [{ colId: 'label', hide: false, width: 300, pinned: null }] };
+      wrapper = getLayoutWrapper();
+
+      getGridOptions().onColumnMoved({ api, finished: false });
+
+      expect(localStorage.getItem('tree-grid:columns:estimate')).toBeNull();
+
+      getGridOptions().onColumnVisible({ api });
+
+      expect(JSON.parse(localStorage.getItem('tree-grid:columns:estimate')!)).toEqual([
+        { colId: 'label', hide: false, width: 300, pinned: null },
+      ]);
+    });
+
+    it('should refresh aggregated cells of ancestor rows', () => {
+      const nodes: Record<string, object> = { 1: { id: 'node-1' } };
+      const api = {
+        sizeColumnsToFit: vi.fn(),
+        applyTransaction: vi.fn(),
+        refreshCells: vi.fn(),
+        getRowNode: (id: string) => nodes[id],
+      };
+      wrapper = shallowMount(TreeGrid, {
+        props: {
+          items: [
+            { id: 1, parent: null, label: 'Root', quantity: 0 },
+            { id: 2, parent: 1, label: 'Leaf', quantity: 5 },
+          ],
+          columns: [{ header: 'Количество', field: 'quantity', aggregate: 'sum' }],
+        } as any,
+      });
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+
+      wrapper.vm.treeStore.updateItem({ id: 2, parent: 1, label: 'Leaf', quantity: 8 });
+
+      expect(api.refreshCells).toHaveBeenCalledWith({ rowNodes: [nodes[1]], columns: ['quantity'] });
+      expect(wrapper.findComponent(AgGridVue).props('columnDefs')[3].valueGetter({
+        data: { id: 1, hasChildren: true },
+      })).toBe(8);
+    });
+
+    it('should not persist layout without layoutKey', () => {
+      const api = { getColumnState: vi.fn(() => []) };
+      wrapper = getWrapper();
+
+      getGridOptions().onColumnResized({ api, finished: true });
+
+      expect(api.getColumnState).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search', () => {
+    const getGridOptions = () => wrapper.findComponent(AgGridVue).props('gridOptions');
+
+    const getSearchApi = () => {
+      const nodes = new Map([1, 2, 3].map((id) => [String(id), {
+        rowIndex: id - 1,
+        group: id === 1,
+        data: { id },
+        setExpanded: vi.fn(),
+        setSelected: vi.fn(),
+      }]));
+
+      return {
+        nodes,
+        forEachNode: (callback: (node: object) => void) => nodes.forEach((node) => callback(node)),
+        sizeColumnsToFit: vi.fn(),
+        applyTransaction: vi.fn(),
+        refreshCells: vi.fn(),
+        ensureNodeVisible: vi.fn(),
+        setFocusedCell: vi.fn(),
+        getRowNode: (id: string) => nodes.get(id),
+      };
+    };
+
+    it('should expand ancestors and focus the first match', async () => {
+      const api = getSearchApi();
+      wrapper = shallowMount(TreeGrid, { props: { items: mockItems, expanded: [] } });
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+
+      await wrapper.find('input').setValue('chi');
+
+      expect(api.nodes.get('1')!.setExpanded).toHaveBeenCalledWith(true);
+      expect(api.refreshCells).toHaveBeenCalledWith({ columns: ['label'], force: true });
+      expect(api.ensureNodeVisible).toHaveBeenCalledWith(api.nodes.get('2'));
+      expect(api.setFocusedCell).toHaveBeenCalledWith(1, 'label');
+      expect(wrapper.find('.tree-grid__search-counter').text()).toBe('1 из 1');
+    });
+
+    it('should cycle through matches', () => {
+      const api = getSearchApi();
+      wrapper = getWrapper();
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+
+      wrapper.vm.treeStore.addItem({ id: 3, parent: 1, label: 'Child 2' });
+      wrapper.vm.search('child');
+      wrapper.vm.nextMatch();
+      wrapper.vm.nextMatch();
+      wrapper.vm.previousMatch();
+
+      expect(api.ensureNodeVisible.mock.calls.map(([node]) => node.rowIndex)).toEqual([1, 2, 1, 2]);
+    });
+
+    it('should report missing matches', async () => {
+      wrapper = getWrapper();
+
+      await wrapper.find('input').setValue('absent');
+
+      expect(wrapper.find('.tree-grid__search-counter').text()).toBe('Не найдено');
+      expect(wrapper.find('.tree-grid__search-button').attributes('disabled')).toBeDefined();
+    });
+
+    it('should highlight match in the label cell', () => {
+      wrapper = getWrapper();
+      wrapper.vm.search('oo');
+
+      const labelColumn = wrapper.findComponent(AgGridVue).props('columnDefs')[2];
+
+      expect(labelColumn.cellRenderer({ value: 'Root' })).toBe('R<mark class="tree-grid__match">oo</mark>t');
+      expect(getGridOptions().treeData).toBe(true);
+    });
+
+    it('should keep matches in sync with store changes', async () => {
+      wrapper = getWrapper();
+      wrapper.vm.search('child');
+
+      wrapper.vm.treeStore.addItem({ id: 3, parent: 1, label: 'Child 2' });
+      await nextTick();
+
+      expect(wrapper.find('.tree-grid__search-counter').text()).toBe('1 из 2');
+    });
+  });
+
+  describe('row filter', () => {
+    const getGridOptions = () => wrapper.findComponent(AgGridVue).props('gridOptions');
+
+    const passes = (data: object) => getGridOptions().doesExternalFilterPass({ data });
+
+    it('should not filter rows without rowFilter', () => {
+      wrapper = getWrapper();
+
+      expect(getGridOptions().isExternalFilterPresent()).toBe(false);
+    });
+
+    it('should show rows of the filtered view', () => {
+      wrapper = shallowMount(TreeGrid, {
+        props: {
+          items: mockItems,
+          rowFilter: { predicate: (item: ITreeItem) => item.id === 2 },
+        },
+      });
+
+      expect(getGridOptions().isExternalFilterPresent()).toBe(true);
+      expect(getGridOptions().excludeChildrenWhenTreeDataFiltering).toBe(true);
+      expect(passes(mockItems[0]!)).toBe(true);
+      expect(passes(mockItems[1]!)).toBe(true);
+      expect(passes({ id: 3, parent: 1, label: 'New' })).toBe(false);
+    });
+
+    it('should rebuild the view on store changes and on filter replacement', async () => {
+      const api = { sizeColumnsToFit: vi.fn(), applyTransaction: vi.fn(), onFilterChanged: vi.fn() };
+      wrapper = shallowMount(TreeGrid, {
+        props: {
+          items: mockItems,
+          rowFilter: { predicate: (item: ITreeItem) => item.label.startsWith('C') },
+        },
+      });
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+
+      wrapper.vm.treeStore.addItem({ id: 3, parent: 1, label: 'Cement' });
+
+      expect(passes({ id: 3, parent: 1, label: 'Cement' })).toBe(true);
+
+      await wrapper.setProps({ rowFilter: { predicate: (item: ITreeItem) => item.id === 1, mode: 'strict' } });
+
+      expect(api.onFilterChanged).toHaveBeenCalled();
+      expect(passes(mockItems[1]!)).toBe(false);
+    });
+
+    it('should show placeholder of a visible branch', () => {
+      wrapper = shallowMount(TreeGrid, {
+        props: {
+          items: mockItems,
+          rowFilter: { predicate: (item: ITreeItem) => item.id === 1, mode: 'strict' },
+        },
+      });
+
+      expect(passes({ id: '__placeholder__:1', parent: 1, placeholder: 'unloaded' })).toBe(true);
+      expect(passes({ id: '__placeholder__:2', parent: 2, placeholder: 'unloaded' })).toBe(false);
+    });
+  });
+
+  describe('expansion state', () => {
+    const getGridOptions = () => wrapper.findComponent(AgGridVue).props('gridOptions');
+
+    const isOpen = (item: ITreeItem) => getGridOptions().isGroupOpenByDefault({ rowNode: { data: item } });
+
+    const getExpansionApi = () => {
+      const nodes = mockItems.map((item) => ({
+        data: item,
+        group: item.id === 1,
+        rowIndex: Number(item.id) - 1,
+        setExpanded: vi.fn(),
+      }));
+
+      return {
+        nodes,
+        sizeColumnsToFit: vi.fn(),
+        ensureNodeVisible: vi.fn(),
+        forEachNode: (callback: (node: object) => void) => nodes.forEach(callback),
+        getRowNode: (id: string) => nodes.find((node) => String(node.data.id) === id),
+      };
+    };
+
+    const mountExpansion = (props: object = {}) => {
+      wrapper = shallowMount(TreeGrid, { props: { items: mockItems, ...props } });
+
+      const api = getExpansionApi();
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+
+      return api;
+    };
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should open groups from v-model', () => {
+      mountExpansion({ expanded: [] });
+
+      expect(isOpen(mockItems[0]!)).toBe(false);
+    });
+
+    it('should collapse all rows and emit the state', () => {
+      const api = mountExpansion();
+
+      wrapper.vm.collapseAll();
+
+      expect(api.nodes[0]!.setExpanded).toHaveBeenCalledWith(false);
+      expect(wrapper.emitted('update:expanded')[0][0]).toEqual([]);
+      expect(isOpen(mockItems[0]!)).toBe(false);
+    });
+
+    it('should expand to level and expand all', () => {
+      mountExpansion({ expanded: [] });
+
+      wrapper.vm.expandToLevel(0);
+      wrapper.vm.expandAll();
+
+      expect(wrapper.emitted('update:expanded').map(([ids]: [number[]]) => ids)).toEqual([[], [1]]);
+    });
+
+    it('should track user expansion', () => {
+      mountExpansion({ expanded: [] });
+
+      getGridOptions().onRowGroupOpened({ node: { data: mockItems[0] }, expanded: true });
+
+      expect(wrapper.emitted('update:expanded')[0][0]).toEqual([1]);
+    });
+
+    it('should not emit for echoed programmatic expansion', () => {
+      mountExpansion({ expanded: [] });
+
+      wrapper.vm.expandAll();
+      getGridOptions().onRowGroupOpened({ node: { data: mockItems[0] }, expanded: true });
+
+      expect(wrapper.emitted('update:expanded')).toHaveLength(1);
+    });
+
+    it('should apply v-model changes to rows', async () => {
+      const api = mountExpansion({ expanded: [] });
+
+      await wrapper.setProps({ expanded: [1] });
+
+      expect(api.nodes[0]!.setExpanded).toHaveBeenCalledWith(true);
+    });
+
+    it('should reveal item by expanding its ancestors', () => {
+      const api = mountExpansion({ expanded: [] });
+
+      const node = wrapper.vm.revealItem(2);
+
+      expect(node).toBe(api.nodes[1]);
+      expect(isOpen(mockItems[0]!)).toBe(true);
+      expect(api.ensureNodeVisible).toHaveBeenCalledWith(api.nodes[1]);
+    });
+
+    it('should persist state by tree id and restore it across data updates', async () => {
+      mountExpansion({ treeId: 'estimate' });
+
+      wrapper.vm.collapseAll();
+      wrapper.unmount();
+      mountExpansion({ treeId: 'estimate' });
+      await wrapper.setProps({ items: [...mockItems] });
+
+      expect(JSON.parse(localStorage.getItem('tree-grid:expansion:estimate')!)).toEqual([]);
+      expect(isOpen(mockItems[0]!)).toBe(false);
+    });
+  });
+
+  describe('export', () => {
+    const treeItems = [
+      { id: 1, parent: null, label: 'Root' },
+      { id: 2, parent: 1, label: 'Child 1', price: 10 },
+      { id: 3, parent: 1, label: 'Child 2', price: 5 },
+      { id: 4, parent: null, label: 'Other', price: 1 },
+    ];
+
+    const createObjectURL = vi.fn(() => 'blob:tree');
+
+    beforeEach(() => {
+      vi.mocked(treeUtils.sortTreeItemsDFS).mockImplementation((items) => items);
+      vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+      vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.unstubAllGlobals();
+    });
+
+    const mountExport = (props: object = {}) => {
+      wrapper = shallowMount(TreeGrid, {
+        props: {
+          items: treeItems,
+          treeId: 'estimate',
+          columns: [{ field: 'price', header: 'Цена', aggregate: 'sum' }],
+          ...props,
+        } as any,
+      });
+
+      const api = {
+        sizeColumnsToFit: vi.fn(),
+        applyTransaction: vi.fn(),
+        deselectAll: vi.fn(),
+        setNodesSelected: vi.fn(),
+        getRowNode: vi.fn(),
+        getAllDisplayedColumns: () => ['ag-Grid-SelectionColumn', 'index', 'label', 'price']
+          .map((colId) => ({ getColId: () => colId })),
+      };
+
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+    };
+
+    it('should export visible columns with group aggregates', () => {
+      mountExport();
+
+      const csv = wrapper.vm.exportData('csv');
+
+      expect(csv.split('\r\n')).toEqual([
+        'level,path,Наименование,Цена',
+        '0,,Root,15',
+        '1,,Child 1,10',
+        '1,,Child 2,5',
+        '0,,Other,1',
+      ]);
+      expect((createObjectURL.mock.calls[0] as unknown as [Blob])[0].type).toBe('text/csv;charset=utf-8');
+    });
+
+    it('should export only selected items', () => {
+      mountExport({ selected: [2, 4] });
+
+      const json = JSON.parse(wrapper.vm.exportData('json'));
+
+      expect(json.map((item: ITreeItem) => item.id)).toEqual([2, 4]);
+    });
+
+    it('should export only rows passing the filter', () => {
+      mountExport({ rowFilter: { predicate: (item: ITreeItem) => item.id === 3 } });
+
+      const json = JSON.parse(wrapper.vm.exportData('json'));
+
+      expect(json).toEqual([
+        { id: 1, parent: null, label: 'Root', children: [{ id: 3, parent: 1, label: 'Child 2', price: 5, children: [] }] },
+      ]);
+    });
+
+    it('should export Excel file from toolbar', async () => {
+      mountExport();
+
+      const buttons = wrapper.findAll('.tree-grid__export-button');
+
+      expect(buttons.map((button: { text: () => string }) => button.text())).toEqual(['CSV', 'JSON', 'Excel']);
+
+      await buttons[2].trigger('click');
+
+      expect((createObjectURL.mock.calls[0] as unknown as [Blob])[0].type)
+        .toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    });
+  });
+
+  describe('multi-selection', () => {
+    const treeItems: ITreeItem[] = [
+      { id: 1, parent: null, label: 'Root' },
+      { id: 2, parent: 1, label: 'Child 1' },
+      { id: 3, parent: 1, label: 'Child 2' },
+      { id: 4, parent: null, label: 'Other' },
+    ];
+
+    const getGridOptions = () => wrapper.findComponent(AgGridVue).props('gridOptions');
+
+    const getSelectionApi = () => {
+      const nodes = treeItems.map((item) => ({ data: item }));
+
+      return {
+        nodes,
+        sizeColumnsToFit: vi.fn(),
+        applyTransaction: vi.fn(),
+        deselectAll: vi.fn(),
+        setNodesSelected: vi.fn(),
+        getRowNode: (id: string) => nodes.find((node) => String(node.data.id) === id),
+      };
+    };
+
+    const mountSelection = (selected?: number[]) => {
+      wrapper = shallowMount(TreeGrid, { props: { items: treeItems, selected } });
+
+      const api = getSelectionApi();
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+
+      return api;
+    };
+
+    const lastSelected = () => wrapper.emitted('update:selected').at(-1)[0];
+
+    it('should normalize initial selection and mark rows on grid ready', () => {
+      const api = mountSelection([1, 42]);
+
+      const nodes = api.setNodesSelected.mock.calls[0]![0].nodes;
+
+      expect(nodes.map((node: { data: ITreeItem }) => node.data.id)).toEqual([1, 2, 3]);
+      expect(wrapper.emitted('update:selected')).toBeUndefined();
+    });
+
+    it('should select group with all descendants', () => {
+      mountSelection();
+
+      wrapper.vm.selectItem(1);
+
+      expect(lastSelected()).toEqual([1, 2, 3]);
+    });
+
+    it('should drop group when a descendant is deselected', () => {
+      mountSelection([1]);
+
+      wrapper.vm.selectItem(3, false);
+
+      expect(lastSelected()).toEqual([2]);
+    });
+
+    it('should emit selection made with checkboxes', () => {
+      mountSelection();
+
+      getGridOptions().onSelectionChanged({
+        api: { getSelectedNodes: () => [{ data: treeItems[1] }, { data: treeItems[2] }] },
+      });
+
+      expect(lastSelected()).toEqual([2, 3, 1]);
+    });
+
+    it('should ignore selection events caused by v-model sync', async () => {
+      const api = mountSelection();
+      api.setNodesSelected.mockImplementation(() => {
+        getGridOptions().onSelectionChanged({ api: { getSelectedNodes: () => [] } });
+      });
+
+      await wrapper.setProps({ selected: [4] });
+
+      expect(wrapper.emitted('update:selected')).toEqual([[[4]]]);
+    });
+
+    it('should delete selected subtrees', () => {
+      mountSelection([1, 4]);
+
+      wrapper.vm.removeSelected();
+
+      expect(wrapper.vm.treeStore.getAll()).toEqual([]);
+      expect(wrapper.emitted('remove').map(([items]: [ITreeItem[]]) => items.length)).toEqual([3, 1]);
+      expect(lastSelected()).toEqual([]);
+    });
+
+    it('should move selected items to a new parent', () => {
+      mountSelection([4]);
+
+      getGridOptions()
+        .getContextMenuItems({ node: { data: treeItems[1] } })
+        .find((item: any) => item.name === 'Переместить выбранные сюда')
+        .action();
+
+      expect(wrapper.vm.treeStore.getItem(4).parent).toBe(2);
+    });
+
+    it('should not move selected items into themselves', () => {
+      mountSelection([1]);
+
+      expect(wrapper.vm.moveSelected(2)).toBe(0);
+      expect(wrapper.vm.treeStore.getItem(1).parent).toBeNull();
+    });
+
+    it('should export selected items in tree order', async () => {
+      mountSelection([4, 2]);
+      await nextTick();
+
+      await wrapper.find('.tree-grid__bulk-button:nth-of-type(2)').trigger('click');
+
+      expect(wrapper.emitted('export')[0][0].map((item: ITreeItem) => item.id)).toEqual([2, 4]);
+    });
+
+    it('should show bulk actions only with selection', async () => {
+      mountSelection();
+
+      expect(wrapper.find('.tree-grid__bulk').exists()).toBe(false);
+
+      wrapper.vm.selectAll();
+      await nextTick();
+
+      expect(wrapper.find('.tree-grid__bulk-counter').text()).toBe('Выбрано: 4');
+    });
+  });
+
+  describe('compare mode', () => {
+    const getGridOptions = () => wrapper.findComponent(AgGridVue).props('gridOptions');
+    const getRowClass = (data: object) => getGridOptions().getRowClass({ data });
+
+    it('should not color rows without compareWith', () => {
+      wrapper = getWrapper();
+
+      expect(wrapper.find('.tree-grid__compare').exists()).toBe(false);
+      expect(getRowClass({ id: 1 })).toBeUndefined();
+    });
+
+    it('should color rows by diff status', () => {
+      wrapper = shallowMount(TreeGrid, {
+        props: {
+          items: mockItems,
+          compareWith: createTreeSnapshot([
+            { id: 1, parent: null, label: 'Old root' },
+            { id: 5, parent: 1, label: 'Removed' },
+          ]),
+        },
+      });
+
+      expect(getRowClass({ id: 1 })).toBe('tree-grid__row--renamed');
+      expect(getRowClass({ id: 2 })).toBe('tree-grid__row--added');
+      expect(getRowClass({ id: 5, placeholder: 'loading' })).toBeUndefined();
+      expect(wrapper.find('.tree-grid__compare').text()).toContain('Удалено: 1');
+    });
+
+    it('should update statuses after mutations', async () => {
+      wrapper = shallowMount(TreeGrid, {
+        props: { items: mockItems, compareWith: createTreeSnapshot(mockItems) },
+      });
+
+      expect(getRowClass({ id: 2 })).toBeUndefined();
+
+      wrapper.vm.renameItem(2, 'Renamed');
+      await nextTick();
+
+      expect(getRowClass({ id: 2 })).toBe('tree-grid__row--renamed');
+      expect(wrapper.find('.tree-grid__compare').text()).toContain('Переименовано: 1');
+    });
+
+    it('should keep statuses in line with a full diff after mutations', async () => {
+      const compareWith = createTreeSnapshot(mockItems);
+      wrapper = shallowMount(TreeGrid, { props: { items: mockItems, compareWith } });
+      const { treeStore } = wrapper.vm;
+
+      treeStore.addItem({ id: 3, parent: 1, label: 'New' });
+      // Перенос в корень назначает ранг и корневому элементу
+      treeStore.moveItem(3, null);
+      treeStore.removeItem(2);
+      await nextTick();
+
+      const legend = wrapper.find('.tree-grid__compare').text();
+
+      expect(countTreeDiff(diffTrees(compareWith, treeStore.snapshot()))).toMatchObject({ added: 1, removed: 1, changed: 1 });
+      expect(legend).toContain('Добавлено: 1');
+      expect(legend).toContain('Удалено: 1');
+      expect(legend).toContain('Изменено: 1');
+      expect(getRowClass({ id: 1 })).toBe('tree-grid__row--changed');
+      expect(getRowClass({ id: 3 })).toBe('tree-grid__row--added');
+    });
+
+    it('should redraw rows when compared version changes', async () => {
+      const api = { sizeColumnsToFit: vi.fn(), redrawRows: vi.fn() };
+      wrapper = shallowMount(TreeGrid, {
+        props: { items: mockItems, compareWith: createTreeSnapshot(mockItems) },
+      });
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+
+      await wrapper.setProps({ compareWith: createTreeSnapshot([]) });
+
+      expect(api.redrawRows).toHaveBeenCalled();
+      expect(getRowClass({ id: 1 })).toBe('tree-grid__row--added');
+    });
+  });
+
+  describe('remote selections', () => {
+    const getRowStyle = (data: object) => wrapper.findComponent(AgGridVue).props('gridOptions').getRowStyle({ data });
+    const remoteSelections = [
+      { clientId: 'a', user: { name: 'Анна', color: '#e53935' }, ids: [2, 3] },
+      { clientId: 'b', user: { name: 'Борис', color: '#43a047' }, ids: [3] },
+      { clientId: 'c', user: { name: 'Вера', color: '#fb8c00' }, ids: [] },
+    ];
+
+    it('should mark rows selected by other participants', () => {
+      wrapper = shallowMount(TreeGrid, { props: { items: mockItems, remoteSelections } });
+
+      expect(getRowStyle({ id: 2 })).toEqual({ boxShadow: 'inset 4px 0 0 #e53935' });
+      expect(getRowStyle({ id: 3 })).toEqual({ boxShadow: 'inset 4px 0 0 #e53935' });
+      expect(getRowStyle({ id: 1 })).toBeUndefined();
+      expect(getRowStyle({ id: 2, placeholder: 'loading' })).toBeUndefined();
+    });
+
+    it('should list participants with selected rows', () => {
+      wrapper = shallowMount(TreeGrid, { props: { items: mockItems, remoteSelections } });
+
+      const users = wrapper.findAll('.tree-grid__presence-user').map((user: { text: () => string }) => user.text());
+
+      expect(users).toEqual(['Анна: 2', 'Борис: 1']);
+    });
+
+    it('should redraw rows when selections change', async () => {
+      const api = { sizeColumnsToFit: vi.fn(), redrawRows: vi.fn() };
+      wrapper = shallowMount(TreeGrid, { props: { items: mockItems } });
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+
+      expect(wrapper.find('.tree-grid__presence').exists()).toBe(false);
+
+      await wrapper.setProps({ remoteSelections });
+
+      expect(api.redrawRows).toHaveBeenCalled();
+      expect(getRowStyle({ id: 3 })).toEqual({ boxShadow: 'inset 4px 0 0 #e53935' });
+    });
+  });
+
+  describe('persistence', () => {
+    const createPersistence = (update: () => Promise<void>) => {
+      const store = new TreeStore({ validationMode: 'quarantine' });
+      store.update([...mockItems]);
+      const persistence = new TreePersistence(store, {
+        list: () => Promise.resolve([...mockItems]),
+        create: () => Promise.resolve(),
+        update,
+        delete: () => Promise.resolve(),
+        move: () => Promise.resolve(),
+      }, { retries: 0 });
+
+      return { store, persistence };
+    };
+
+    it('should not show the status bar without persistence', () => {
+      wrapper = getWrapper();
+
+      expect(wrapper.find('.tree-grid__persistence').exists()).toBe(false);
+    });
+
+    it('should show pending changes while saving', async () => {
+      const { store, persistence } = createPersistence(() => Promise.resolve());
+      wrapper = shallowMount(TreeGrid, { props: { store, persistence } });
+
+      store.updateItem({ id: 1, parent: null, label: 'Saving' });
+      await nextTick();
+
+      expect(wrapper.find('.tree-grid__persistence--saving').text()).toBe('Сохранение изменений: 1');
+
+      await persistence.flush();
+      await nextTick();
+
+      expect(wrapper.find('.tree-grid__persistence').exists()).toBe(false);
+    });
+
+    it('should show a rejected change and hide the error on request', async () => {
+      const { store, persistence } = createPersistence(() => Promise.reject(new TreePersistenceError('Нет прав', 403)));
+      wrapper = shallowMount(TreeGrid, { props: { store, persistence } });
+
+      store.updateItem({ id: 1, parent: null, label: 'Rejected' });
+      await persistence.flush();
+      await nextTick();
+
+      expect(wrapper.find('.tree-grid__persistence--error').text()).toContain('Нет прав');
+      expect(store.getItem(1)?.label).toBe(mockItems[0]!.label);
+
+      await wrapper.find('.tree-grid__persistence-button').trigger('click');
+
+      expect(wrapper.find('.tree-grid__persistence').exists()).toBe(false);
+    });
+  });
+
+  describe('external store', () => {
+    const getSharedStore = () => {
+      const store = new TreeStore({ validationMode: 'quarantine' });
+      store.update([...mockItems]);
+
+      return store;
+    };
+
+    it('should show current data of the injected store', () => {
+      const store = getSharedStore();
+      updateSpy.mockClear();
+      vi.mocked(treeUtils.sortTreeItemsDFS).mockImplementation((items) => items);
+
+      wrapper = shallowMount(TreeGrid, { props: { store } });
+
+      expect(wrapper.vm.treeStore).toBe(store);
+      expect(updateSpy).not.toHaveBeenCalled();
+      expect(wrapper.findComponent(AgGridVue).props('rowData')).toEqual(mockItems);
+    });
+
+    it('should react to mutations made outside the grid', () => {
+      const store = getSharedStore();
+      const api = { sizeColumnsToFit: vi.fn(), applyTransaction: vi.fn() };
+      vi.mocked(treeUtils.buildRowTransaction).mockReturnValue({ add: [], update: [], remove: [] });
+      wrapper = shallowMount(TreeGrid, { props: { store } });
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+
+      store.addItem({ id: 3, parent: 1, label: 'External' });
+
+      expect(api.applyTransaction).toHaveBeenCalled();
+      expect(wrapper.emitted('add')![0]).toEqual([{ id: 3, parent: 1, label: 'External' }]);
+    });
+
+    it('should leave the store usable after unmount', () => {
+      const store = getSharedStore();
+      wrapper = shallowMount(TreeGrid, { props: { store } });
+
+      wrapper.unmount();
+      wrapper = null;
+
+      expect(store.addItem({ id: 3, parent: 1, label: 'After' })).toBe(true);
+      expect(store.getChildren(1)).toHaveLength(2);
+    });
+
+    it('should load roots of a lazy store', async () => {
+      const source = new MemoryTreeDataSource([{ id: 1, parent: null, label: 'Root' }]);
+      const store = new TreeStore<ITreeItem>({ validationMode: 'quarantine', dataSource: source });
+      wrapper = shallowMount(TreeGrid, { props: { store } });
+
+      await vi.waitFor(() => expect(store.getLoadState(null)).toBe('loaded'));
+
+      expect(source.requests).toEqual([null]);
+      expect(wrapper.findComponent(AgGridVue).props('gridOptions')
+        .isGroupOpenByDefault({ rowNode: { data: { id: 1, parent: null } } })).toBe(false);
+    });
+  });
+
+  describe('lazy loading', () => {
+    let source: MemoryTreeDataSource;
+
+    const getGridOptions = () => wrapper.findComponent(AgGridVue).props('gridOptions');
+
+    const getLazyWrapper = () => shallowMount(TreeGrid, {
+      props: {
+        dataSource: source,
+      },
+    });
+
+    beforeEach(() => {
+      source = new MemoryTreeDataSource([
+        { id: 1, parent: null, label: 'Root' },
+        { id: 2, parent: 1, label: 'Child' },
+      ]);
+    });
+
+    it('should load roots from data source without items', async () => {
+      wrapper = getLazyWrapper();
+      await vi.waitFor(() => expect(wrapper.vm.treeStore.getLoadState(null)).toBe('loaded'));
+
+      expect(updateSpy).not.toHaveBeenCalled();
+      expect(source.requests).toEqual([null]);
+      expect(wrapper.vm.treeStore.getAll()).toEqual([{ id: 1, parent: null, label: 'Root' }]);
+      expect(getGridOptions().isGroupOpenByDefault({ rowNode: { data: { id: 1, parent: null } } })).toBe(false);
+    });
+
+    it('should apply loading events as transactions without emits', async () => {
+      const transaction = { add: [{ id: 1, parent: null, label: 'Root' }], update: [], remove: [] };
+      vi.mocked(treeUtils.buildRowTransaction).mockReturnValue(transaction);
+      const api = { sizeColumnsToFit: vi.fn(), applyTransaction: vi.fn() };
+      wrapper = getLazyWrapper();
+      wrapper.findComponent(AgGridVue).vm.$emit('grid-ready', { api });
+      await vi.waitFor(() => expect(wrapper.vm.treeStore.getLoadState(null)).toBe('loaded'));
+
+      expect(treeUtils.buildRowTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'loaded' }),
+        wrapper.vm.treeStore
+      );
+      expect(api.applyTransaction).toHaveBeenCalledWith(transaction);
+      expect(wrapper.emitted('add')).toBeUndefined();
+    });
+
+    it('should load children when a branch is expanded', async () => {
+      wrapper = getLazyWrapper();
+      await vi.waitFor(() => expect(wrapper.vm.treeStore.getLoadState(null)).toBe('loaded'));
+
+      const node = { data: wrapper.vm.treeStore.getItem(1) };
+
+      getGridOptions().onRowGroupOpened({ node, expanded: true });
+      await vi.waitFor(() => expect(wrapper.vm.treeStore.getLoadState(1)).toBe('loaded'));
+
+      getGridOptions().onRowGroupOpened({ node, expanded: true });
+
+      expect(source.requests).toEqual([null, 1]);
+    });
+
+    it('should offer retry on error placeholder', async () => {
+      source.setFailure(null);
+      wrapper = getLazyWrapper();
+      await vi.waitFor(() => expect(wrapper.vm.treeStore.getLoadState(null)).toBe('error'));
+
+      source.setFailure(null, false);
+      getGridOptions()
+        .getContextMenuItems({ node: { data: { id: '__placeholder__:', parent: null, placeholder: 'error' } } })
+        .find((item: any) => item.name === 'Повторить загрузку')
+        .action();
+      await vi.waitFor(() => expect(wrapper.vm.treeStore.getLoadState(null)).toBe('loaded'));
+
+      expect(source.requests).toEqual([null, null]);
+    });
+
+    it('should place placeholder under its branch', () => {
+      wrapper = getWrapper();
+
+      expect(getGridOptions().getDataPath({ id: '__placeholder__:2', parent: 2, placeholder: 'unloaded' }))
+        .toEqual(['1', '2', '__placeholder__:2']);
+    });
+  });
 });
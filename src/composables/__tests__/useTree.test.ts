@@ -0,0 +1,153 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { effectScope, nextTick, ref, watchEffect, type EffectScope } from 'vue';
+import { useTree } from '../useTree';
+import MemoryTreeDataSource from '@/mocks/MemoryTreeDataSource';
+import type { ITreeItem } from '@/types/tree.types';
+
+describe('useTree', () => {
+  let scope: EffectScope;
+
+  const getMockItems = (): ITreeItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child 1' },
+    { id: 3, parent: 1, label: 'Child 2' },
+    { id: 4, parent: 2, label: 'Grandchild' },
+    { id: 5, parent: null, label: 'Other' },
+  ];
+
+  const setup = <R>(factory: () => R): R => {
+    scope = effectScope();
+
+    return scope.run(factory)!;
+  };
+
+  // Считает перезапуски эффекта, читающего значение, как при рендере компонента
+  const countRuns = (read: () => unknown) => {
+    const counter = { runs: 0 };
+
+    scope.run(() => watchEffect(() => {
+      read();
+      counter.runs++;
+    }, { flush: 'sync' }));
+
+    return counter;
+  };
+
+  afterEach(() => {
+    scope.stop();
+  });
+
+  it('should expose nodes, children and paths', () => {
+    const { useNode, useChildren, usePath } = setup(() => useTree(getMockItems()));
+
+    expect(useNode(4).value?.label).toBe('Grandchild');
+    expect(useNode(10).value).toBeUndefined();
+    expect(useChildren(null).value.map((item) => item.id)).toEqual([1, 5]);
+    expect(useChildren(1).value.map((item) => item.id)).toEqual([2, 3]);
+    expect(usePath(4).value.map((item) => item.id)).toEqual([1, 2, 4]);
+    expect(usePath(10).value).toEqual([]);
+  });
+
+  it('should invalidate only the changed node', () => {
+    const { treeStore, useNode } = setup(() => useTree(getMockItems()));
+    const node2 = useNode(2);
+    const node3 = useNode(3);
+    const runs2 = countRuns(() => node2.value);
+    const runs3 = countRuns(() => node3.value);
+
+    treeStore.updateItem({ id: 2, parent: 1, label: 'Renamed' });
+
+    expect(node2.value?.label).toBe('Renamed');
+    expect(runs2.runs).toBe(2);
+    expect(runs3.runs).toBe(1);
+  });
+
+  it('should invalidate children of affected parents only', () => {
+    const { treeStore, useChildren } = setup(() => useTree(getMockItems()));
+    const children1 = useChildren(1);
+    const children2 = useChildren(2);
+    const roots = useChildren(null);
+    const runs1 = countRuns(() => children1.value);
+    const runs2 = countRuns(() => children2.value);
+    const rootRuns = countRuns(() => roots.value);
+
+    treeStore.addItem({ id: 6, parent: 1, label: 'Added' });
+
+    expect(children1.value.map((item) => item.id)).toEqual([2, 3, 6]);
+    expect([runs1.runs, runs2.runs, rootRuns.runs]).toEqual([2, 1, 1]);
+
+    treeStore.moveItem(4, 3);
+
+    expect(children2.value).toEqual([]);
+    expect([runs1.runs, runs2.runs, rootRuns.runs]).toEqual([2, 2, 1]);
+
+    treeStore.removeItem(5);
+
+    expect(roots.value.map((item) => item.id)).toEqual([1]);
+    expect([runs1.runs, runs2.runs, rootRuns.runs]).toEqual([2, 2, 2]);
+  });
+
+  it('should update paths when an ancestor changes', () => {
+    const { treeStore, usePath } = setup(() => useTree(getMockItems()));
+    const path = usePath(4);
+    const otherPath = usePath(3);
+    const runs = countRuns(() => path.value);
+    const otherRuns = countRuns(() => otherPath.value);
+
+    treeStore.updateItem({ id: 2, parent: 1, label: 'Renamed' });
+
+    expect(path.value.map((item) => item.label)).toEqual(['Root', 'Renamed', 'Grandchild']);
+
+    treeStore.moveItem(2, 5);
+
+    expect(path.value.map((item) => item.id)).toEqual([5, 2, 4]);
+    expect(runs.runs).toBe(3);
+    expect(otherRuns.runs).toBe(1);
+  });
+
+  it('should follow reactive id', () => {
+    const id = ref<ITreeItem['id']>(2);
+    const { useNode } = setup(() => useTree(getMockItems()));
+    const node = useNode(id);
+
+    expect(node.value?.label).toBe('Child 1');
+
+    id.value = 3;
+
+    expect(node.value?.label).toBe('Child 2');
+  });
+
+  it('should replace contents when items ref changes', async () => {
+    const items = ref(getMockItems());
+    const { useNode, useChildren } = setup(() => useTree(items));
+    const node = useNode(2);
+    const roots = useChildren(null);
+
+    items.value = [{ id: 2, parent: null, label: 'New root' }];
+    await nextTick();
+
+    expect(node.value?.label).toBe('New root');
+    expect(roots.value.map((item) => item.id)).toEqual([2]);
+  });
+
+  it('should show lazily loaded children', async () => {
+    const source = new MemoryTreeDataSource(getMockItems());
+    const { treeStore, useChildren } = setup(() => useTree(undefined, { dataSource: source }));
+    const roots = useChildren(null);
+
+    await treeStore.loadChildren(null);
+
+    expect(roots.value.map((item) => item.id)).toEqual([1, 5]);
+  });
+
+  it('should stop tracking store events when scope is disposed', () => {
+    const { treeStore, useNode } = setup(() => useTree(getMockItems()));
+    const node = useNode(2);
+    const runs = countRuns(() => node.value);
+
+    scope.stop();
+    treeStore.updateItem({ id: 2, parent: 1, label: 'Renamed' });
+
+    expect(runs.runs).toBe(1);
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  computed,
+  markRaw,
+  onScopeDispose,
+  shallowRef,
+  toValue,
+  watch,
+  type ComputedRef,
+  type MaybeRefOrGetter,
+  type ShallowRef,
+} from 'vue';
+import type { ITreeItem, ITreeStoreOptions, TreeItemId } from '@/types/tree.types.ts';
+import TreeStore from '@/core/TreeStore.ts';
+
+/**
+ * Счетчики изменений по ключу: чтение подписывает computed, увеличение перезапускает только его
+ */
+type VersionMap<K> = Map<K, ShallowRef<number>>;
+
+/**
+ * Подписывает текущий computed на изменения ключа
+ *
+ * @param {VersionMap<K>} versions - Счетчики изменений
+ * @param {K} key - Ключ
+ */
+function track<K>(versions: VersionMap<K>, key: K): void {
+  let version = versions.get(key);
+
+  if (!version) {
+    version = shallowRef(0);
+    versions.set(key, version);
+  }
+
+  void version.value;
+}
+
+/**
+ * Сообщает подписчикам ключа об изменении. Ключи без подписчиков пропускаются
+ *
+ * @param {VersionMap<K>} versions - Счетчики изменений
+ * @param {K} key - Ключ
+ */
+function trigger<K>(versions: VersionMap<K>, key: K): void {
+  const version = versions.get(key);
+
+  if (version) {
+    version.value++;
+  }
+}
+
+/**
+ * Создает дерево с точечной реактивностью поверх TreeStore.
+ * Хранилище не оборачивается в reactive: computed-ссылки подписываются на отдельные узлы
+ * и списки детей, а события хранилища перезапускают только затронутые из них.
+ * Поэтому компонент узла перерисовывается лишь при изменении своего узла, детей или предков
+ *
+ * items отслеживается целиком: новый массив заменяет содержимое через TreeStore.update.
+ * Мутации через treeStore (addItem, moveItem и т.д.) и ленивая загрузка также видны всем ссылкам
+ *
+ * @param {MaybeRefOrGetter<T[] | undefined>} items - Элементы дерева (ref, геттер или массив).
+ *   undefined оставляет данные хранилищу: например, при загрузке из options.dataSource
+ * @param {ITreeStoreOptions<T>} [options] - Параметры TreeStore. По умолчанию некорректные
+ *   элементы уходят в карантин, как в TreeGrid
+ * @returns Хранилище и фабрики computed-ссылок
+ */
+export function useTree<T extends ITreeItem = ITreeItem>(
+  items: MaybeRefOrGetter<T[] | undefined>,
+  options: ITreeStoreOptions<T> = {}
+) {
+  const treeStore = markRaw(new TreeStore<T>({ validationMode: 'quarantine', ...options }));
+
+  // Данные узла по id и список детей по id родителя (null - корни)
+  const nodeVersions: VersionMap<TreeItemId> = new Map();
+  const childrenVersions: VersionMap<TreeItemId | null> = new Map();
+
+  const unsubscribers = [
+    treeStore.on('reset', () => {
+      nodeVersions.forEach((version) => version.value++);
+      childrenVersions.forEach((version) => version.value++);
+    }),
+    treeStore.on('added', ({ item }) => {
+      trigger(nodeVersions, item.id);
+      trigger(childrenVersions, item.parent);
+    }),
+    treeStore.on('removed', ({ item, items: removedItems }) => {
+      removedItems.forEach((removed) => {
+        trigger(nodeVersions, removed.id);
+        trigger(childrenVersions, removed.id);
+      });
+      trigger(childrenVersions, item.parent);
+    }),
+    treeStore.on('updated', ({ newItem }) => {
+      trigger(nodeVersions, newItem.id);
+      trigger(childrenVersions, newItem.parent);
+    }),
+    // Пути потомков перенесенного элемента пересчитываются через подписку на предков
+    treeStore.on('moved', ({ newItem, oldParent, newParent, reordered }) => {
+      trigger(nodeVersions, newItem.id);
+      reordered.forEach((change) => trigger(nodeVersions, change.newItem.id));
+      trigger(childrenVersions, oldParent);
+      trigger(childrenVersions, newParent);
+    }),
+    treeStore.on('loaded', ({ parent, items: loadedItems }) => {
+      loadedItems.forEach((item) => trigger(nodeVersions, item.id));
+      trigger(childrenVersions, parent);
+    }),
+  ];
+
+  watch(() => toValue(items), (value) => {
+    if (value) {
+      treeStore.update([...value]);
+    }
+  }, {
+    immediate: true,
+  });
+
+  onScopeDispose(() => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  });
+
+  /**
+   * Возвращает элемент по id. Пересчитывается только при изменении этого элемента
+   *
+   * @param {MaybeRefOrGetter<TreeItemId>} id - Идентификатор элемента
+   * @returns {ComputedRef<T | undefined>} Элемент или undefined, если его нет
+   */
+  const useNode = (id: MaybeRefOrGetter<TreeItemId>): ComputedRef<T | undefined> => computed(() => {
+    const itemId = toValue(id);
+
+    track(nodeVersions, itemId);
+
+    return treeStore.getItem(itemId);
+  });
+
+  /**
+   * Возвращает прямых детей в порядке отображения.
+   * Пересчитывается при добавлении, удалении, переносе и изменении детей
+   *
+   * @param {MaybeRefOrGetter<TreeItemId | null>} id - Идентификатор родителя (null - корни)
+   * @returns {ComputedRef<T[]>} Дочерние элементы
+   */
+  const useChildren = (id: MaybeRefOrGetter<TreeItemId | null>): ComputedRef<T[]> => computed(() => {
+    const parentId = toValue(id);
+
+    track(childrenVersions, parentId);
+
+    // Копия: хранилище меняет свои массивы на месте, а computed сравнивает результат по ссылке
+    return [...parentId === null ? treeStore.getRoots() : treeStore.getChildren(parentId)];
+  });
+
+  /**
+   * Возвращает путь от корня до элемента включительно.
+   * Пересчитывается при изменении или переносе элемента и любого из его предков
+   *
+   * @param {MaybeRefOrGetter<TreeItemId>} id - Идентификатор элемента
+   * @returns {ComputedRef<T[]>} Элементы пути (пустой массив, если элемента нет)
+   */
+  const usePath = (id: MaybeRefOrGetter<TreeItemId>): ComputedRef<T[]> => computed(() => {
+    const itemId = toValue(id);
+
+    track(nodeVersions, itemId);
+
+    const path = treeStore.getAllParents(itemId).reverse();
+
+    path.forEach((item) => track(nodeVersions, item.id));
+
+    return path;
+  });
+
+  return {
+    treeStore,
+    useNode,
+    useChildren,
+    usePath,
+  };
+}
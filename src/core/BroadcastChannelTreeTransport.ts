@@ -0,0 +1,38 @@
+import type { ITreeSyncTransport, TreeSyncMessage } from '@/types/tree.types.ts';
+
+/**
+ * Транспорт совместного редактирования между вкладками одного браузера через BroadcastChannel.
+ * Канал не доставляет сообщение отправителю, сервер не нужен
+ *
+ * @class BroadcastChannelTreeTransport
+ */
+export default class BroadcastChannelTreeTransport implements ITreeSyncTransport {
+  /**
+   * Канал между вкладками
+   * @private
+   */
+  private channel: BroadcastChannel;
+
+  /**
+   * @param {string} [name] - Имя канала: клиенты одного дерева используют одно имя
+   */
+  constructor(name: string = 'tree-sync') {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  public send(message: TreeSyncMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  public subscribe(handler: (message: TreeSyncMessage) => void): () => void {
+    const listener = (event: MessageEvent<TreeSyncMessage>) => handler(event.data);
+
+    this.channel.addEventListener('message', listener);
+
+    return () => this.channel.removeEventListener('message', listener);
+  }
+
+  public close(): void {
+    this.channel.close();
+  }
+}
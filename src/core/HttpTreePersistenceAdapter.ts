@@ -0,0 +1,126 @@
+import type {
+  ITreeHttpAdapterOptions,
+  ITreeItem,
+  ITreePersistenceAdapter,
+  TreeHttpAction,
+  TreeItemId,
+} from '@/types/tree.types.ts';
+import TreePersistenceError from '@/core/TreePersistenceError.ts';
+
+/**
+ * Точки доступа REST API по умолчанию
+ */
+const DEFAULT_ENDPOINTS: Record<TreeHttpAction, string> = {
+  list: 'GET /items',
+  create: 'POST /items',
+  update: 'PUT /items/:id',
+  delete: 'DELETE /items/:id',
+  move: 'POST /items/:id/move',
+};
+
+/**
+ * Адаптер сохранения дерева через REST API.
+ * Тела запросов и ответов передаются в JSON:
+ * - list возвращает массив элементов;
+ * - create и update принимают элемент;
+ * - move принимает { item, reordered }: элемент с новыми parent и order и соседей с новыми рангами
+ *
+ * @class HttpTreePersistenceAdapter
+ * @template T - Тип элемента дерева
+ */
+export default class HttpTreePersistenceAdapter<T extends ITreeItem = ITreeItem> implements ITreePersistenceAdapter<T> {
+  /**
+   * Точки доступа с учетом переопределений
+   * @private
+   */
+  private endpoints: Record<TreeHttpAction, string>;
+
+  /**
+   * @param {ITreeHttpAdapterOptions} options - Адрес API, точки доступа и заголовки
+   */
+  constructor(private options: ITreeHttpAdapterOptions) {
+    this.endpoints = { ...DEFAULT_ENDPOINTS, ...options.endpoints };
+  }
+
+  public async list(): Promise<T[]> {
+    return await this.request('list', undefined, undefined, Array.isArray) as T[];
+  }
+
+  public async create(item: T): Promise<void> {
+    await this.request('create', item.id, item);
+  }
+
+  public async update(item: T): Promise<void> {
+    await this.request('update', item.id, item);
+  }
+
+  public async delete(id: TreeItemId): Promise<void> {
+    await this.request('delete', id);
+  }
+
+  public async move(item: T, reordered: T[]): Promise<void> {
+    await this.request('move', item.id, { item, reordered });
+  }
+
+  /**
+   * Выполняет запрос к точке доступа
+   * @private
+   * @returns {Promise<unknown>} Тело ответа в JSON или null для пустого ответа
+   * @throws {TreePersistenceError} При сетевой ошибке, ответе с ошибкой или некорректном ответе
+   *   (невалидный JSON или тело, не прошедшее проверку isValid)
+   */
+  private async request(
+    action: TreeHttpAction,
+    id?: TreeItemId,
+    body?: unknown,
+    isValid?: (data: unknown) => boolean
+  ): Promise<unknown> {
+    const [method, path = ''] = this.endpoints[action].split(' ');
+    const url = this.options.baseUrl + path.replace(':id', encodeURIComponent(String(id ?? '')));
+    const fetchFn = this.options.fetch ?? fetch;
+    let response: Response;
+
+    try {
+      response = await fetchFn(url, {
+        method,
+        headers: {
+          'Accept': 'application/json',
+          ...body !== undefined ? { 'Content-Type': 'application/json' } : {},
+          ...this.options.headers,
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      throw new TreePersistenceError(`Сервер недоступен: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+
+      throw new TreePersistenceError(
+        `Сервер отклонил запрос ${method} ${path}: ${response.status}${details ? ` ${details}` : ''}`,
+        response.status
+      );
+    }
+
+    const text = await response.text();
+    const malformed = () => new TreePersistenceError(
+      `Сервер вернул некорректный ответ на запрос ${method} ${path}`,
+      response.status,
+      { malformed: true }
+    );
+    let data: unknown;
+
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      throw malformed();
+    }
+
+    if (isValid && !isValid(data)) {
+      throw malformed();
+    }
+
+    return data;
+  }
+}
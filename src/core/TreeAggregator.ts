@@ -0,0 +1,236 @@
+import type {
+  ITreeAggregateState,
+  ITreeAggregatorEvents,
+  ITreeItem,
+  TreeAggregateFunction,
+  TreeItemId,
+} from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+import TreeEventBus from '@/core/TreeEventBus.ts';
+import {
+  addLeafValue,
+  createAggregateState,
+  finalizeAggregate,
+  mergeAggregateState,
+} from '@/utils/tree.aggregation.ts';
+
+/**
+ * Иерархическая агрегация числовых полей по листовым элементам.
+ * Для каждой группы хранится промежуточное состояние (количество, сумма, минимум, максимум),
+ * поэтому любая функция (sum, min, max, avg, count) вычисляется за O(1).
+ *
+ * Агрегаты поддерживаются инкрементально по событиям TreeStore:
+ * после мутации пересчитывается только цепочка предков затронутого элемента,
+ * каждый предок - по состояниям своих прямых детей. Полный пересчет выполняется
+ * только при замене данных (reset) и смене набора полей.
+ * Ветки с еще не загруженными детьми листьями не считаются и в агрегаты не входят
+ *
+ * @class TreeAggregator
+ * @template T - Тип элемента дерева
+ */
+export default class TreeAggregator<T extends ITreeItem = ITreeItem> {
+  /**
+   * Состояния агрегации групп по полям
+   * @private
+   */
+  private states: Map<TreeItemId, Map<string, ITreeAggregateState>> = new Map();
+
+  /**
+   * Агрегируемые поля
+   * @private
+   */
+  private fields: Array<keyof T & string>;
+
+  /**
+   * Шина событий пересчета
+   * @private
+   */
+  private events: TreeEventBus<ITreeAggregatorEvents> = new TreeEventBus();
+
+  /**
+   * Функции отписки от событий хранилища
+   * @private
+   */
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(private treeStore: TreeStore<T>, fields: Array<keyof T & string> = []) {
+    this.fields = [...fields];
+    this.rebuild();
+
+    this.unsubscribers = [
+      treeStore.on('reset', () => this.notify(this.rebuild())),
+      treeStore.on('added', ({ item }) => this.notify(this.recomputeChain(item.parent))),
+      treeStore.on('loaded', ({ parent }) => this.notify(this.recomputeChain(parent))),
+      treeStore.on('removed', ({ item, ids }) => {
+        ids.forEach((id) => this.states.delete(id));
+        this.notify(this.recomputeChain(item.parent));
+      }),
+      treeStore.on('updated', ({ oldItem, newItem }) => {
+        if (this.fields.some((field) => !Object.is(oldItem[field], newItem[field]))) {
+          this.notify(this.recomputeChain(newItem.parent));
+        }
+      }),
+      treeStore.on('moved', ({ oldItem, newItem }) => {
+        const ids = new Set([
+          ...this.recomputeChain(oldItem.parent),
+          ...this.recomputeChain(newItem.parent),
+        ]);
+
+        this.notify([...ids]);
+      }),
+    ];
+  }
+
+  /**
+   * Агрегируемые поля
+   */
+  public getFields(): Array<keyof T & string> {
+    return [...this.fields];
+  }
+
+  /**
+   * Меняет набор агрегируемых полей и пересчитывает все агрегаты
+   *
+   * @param {Array<keyof T>} fields - Агрегируемые поля
+   */
+  public setFields(fields: Array<keyof T & string>): void {
+    this.fields = [...fields];
+    this.notify(this.rebuild());
+  }
+
+  /**
+   * Возвращает агрегат поля группы
+   *
+   * @param {TreeItemId} id - Идентификатор группы
+   * @param {keyof T} field - Агрегируемое поле
+   * @param {TreeAggregateFunction} fn - Функция агрегации
+   * @returns {number | null} Итог или null, если элемент не группа, поле не агрегируется
+   *   или числовых значений нет
+   */
+  public getAggregate(
+    id: TreeItemId,
+    field: keyof T & string,
+    fn: TreeAggregateFunction
+  ): number | null {
+    const state = this.states.get(id)?.get(field);
+
+    return state ? finalizeAggregate(state, fn) : null;
+  }
+
+  /**
+   * Подписывается на пересчет агрегатов
+   *
+   * @param {'changed'} event - Имя события
+   * @param {Function} handler - Обработчик, получает идентификаторы пересчитанных групп
+   * @returns {Function} Функция отписки
+   */
+  public on(
+    event: keyof ITreeAggregatorEvents,
+    handler: (payload: ITreeAggregatorEvents['changed']) => void
+  ): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Отписывается от событий хранилища
+   */
+  public destroy(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.states.clear();
+  }
+
+  /**
+   * Пересчитывает агрегаты всех групп снизу вверх
+   * @private
+   * @returns {TreeItemId[]} Идентификаторы групп
+   */
+  private rebuild(): TreeItemId[] {
+    this.states.clear();
+
+    if (this.fields.length === 0) {
+      return [];
+    }
+
+    const ids: TreeItemId[] = [];
+
+    // Обход в обратном порядке: дети пересчитываются раньше родителей
+    const visit = (item: T) => {
+      const children = this.treeStore.getChildren(item.id);
+
+      if (children.length === 0) {
+        return;
+      }
+
+      children.forEach(visit);
+      this.recompute(item.id);
+      ids.push(item.id);
+    };
+
+    this.treeStore.getRoots().forEach(visit);
+
+    return ids;
+  }
+
+  /**
+   * Пересчитывает группу и всех ее предков
+   * @private
+   * @returns {TreeItemId[]} Идентификаторы пересчитанных групп
+   */
+  private recomputeChain(parentId: TreeItemId | null): TreeItemId[] {
+    if (parentId === null || this.fields.length === 0) {
+      return [];
+    }
+
+    const chain = this.treeStore.getAllParents(parentId).map((item) => item.id);
+
+    chain.forEach((id) => this.recompute(id));
+
+    return chain;
+  }
+
+  /**
+   * Пересчитывает состояние группы по ее прямым детям
+   * @private
+   */
+  private recompute(id: TreeItemId): void {
+    const children = this.treeStore.getChildren(id);
+
+    // Элемент без детей - лист, его значение учитывают предки
+    if (children.length === 0) {
+      this.states.delete(id);
+
+      return;
+    }
+
+    const groupStates = new Map<string, ITreeAggregateState>();
+
+    for (const field of this.fields) {
+      const state = createAggregateState();
+
+      for (const child of children) {
+        const childState = this.states.get(child.id)?.get(field);
+
+        if (childState) {
+          mergeAggregateState(state, childState);
+        } else if (!this.treeStore.hasChildren(child.id)) {
+          addLeafValue(state, child[field]);
+        }
+      }
+
+      groupStates.set(field, state);
+    }
+
+    this.states.set(id, groupStates);
+  }
+
+  /**
+   * Сообщает о пересчете агрегатов
+   * @private
+   */
+  private notify(ids: TreeItemId[]): void {
+    if (ids.length > 0) {
+      this.events.emit('changed', { ids });
+    }
+  }
+}
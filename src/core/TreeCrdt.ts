@@ -0,0 +1,393 @@
+import type {
+  ITreeItem,
+  ITreeSyncStamp,
+  TreeItemId,
+  TreeSyncOperation,
+} from '@/types/tree.types.ts';
+
+/**
+ * Значение регистра "последняя запись побеждает"
+ */
+interface IRegister<V> {
+  value: V;
+  stamp: ITreeSyncStamp;
+}
+
+/**
+ * Запись положения элемента: родитель и ранг среди соседей
+ */
+interface IPositionWrite {
+  id: TreeItemId;
+  parent: TreeItemId | null;
+  order?: number;
+  /**
+   * Позиция среди соседей в общих исходных данных
+   */
+  index?: number;
+  stamp: ITreeSyncStamp;
+}
+
+/**
+ * Состояние элемента в CRDT
+ */
+interface ICrdtNode {
+  /**
+   * Существует ли элемент: create записывает true, delete - false
+   */
+  exists?: IRegister<boolean>;
+  /**
+   * Поля элемента кроме id, parent и order (undefined - поле удалено)
+   */
+  fields: Map<string, IRegister<unknown>>;
+}
+
+/**
+ * Сравнивает метки операций
+ *
+ * @param {ITreeSyncStamp} a - Первая метка
+ * @param {ITreeSyncStamp} b - Вторая метка
+ * @returns {number} Отрицательное число, если a раньше b, положительное - если позже, 0 - если равны
+ */
+export function compareSyncStamps(a: ITreeSyncStamp, b: ITreeSyncStamp): number {
+  if (a.counter !== b.counter) {
+    return a.counter - b.counter;
+  }
+
+  if (a.clientId === b.clientId) {
+    return 0;
+  }
+
+  return a.clientId < b.clientId ? -1 : 1;
+}
+
+/**
+ * Сравнивает идентификаторы элементов: числа - по значению и раньше строк, строки - посимвольно
+ *
+ * @param {TreeItemId} a - Первый идентификатор
+ * @param {TreeItemId} b - Второй идентификатор
+ * @returns {number} Отрицательное число, если a раньше b, положительное - если позже, 0 - если равны
+ */
+function compareItemIds(a: TreeItemId, b: TreeItemId): number {
+  if (typeof a !== typeof b) {
+    return typeof a === 'number' ? -1 : 1;
+  }
+
+  if (a === b) {
+    return 0;
+  }
+
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Реплицируемое дерево (CRDT) для совместного редактирования.
+ * Реплики, получившие один и тот же набор операций в любом порядке, строят одно и то же дерево:
+ * - поля элемента - независимые регистры "последняя запись побеждает" по метке Лэмпорта,
+ *   поэтому одновременные переименования сходятся к более поздней записи;
+ * - существование - такой же регистр: удаление скрывает поддерево, повторный create (отмена удаления) возвращает его;
+ * - положение (родитель и ранг) - журнал переносов, применяемый в порядке меток. Перенос, который
+ *   создал бы цикл, пропускается: при одновременных встречных переносах побеждает более ранний.
+ *   Операция с меткой старше уже примененных перестраивает положения с начала журнала
+ *
+ * Элемент виден, если он существует и все его предки видны. Перенос потомка из удаленного
+ * поддерева, выполненный одновременно с удалением, сохраняет потомка
+ *
+ * @class TreeCrdt
+ * @template T - Тип элемента дерева
+ */
+export default class TreeCrdt<T extends ITreeItem = ITreeItem> {
+  /**
+   * Логические часы Лэмпорта
+   * @private
+   */
+  private clock = 0;
+
+  /**
+   * Состояние элементов по id
+   * @private
+   */
+  private nodes: Map<TreeItemId, ICrdtNode> = new Map();
+
+  /**
+   * Записи положений, упорядоченные по меткам
+   * @private
+   */
+  private moves: IPositionWrite[] = [];
+
+  /**
+   * Действующие положения после применения журнала переносов
+   * @private
+   */
+  private positions: Map<TreeItemId, IPositionWrite> = new Map();
+
+  /**
+   * В журнал дописана запись с меткой старше последней: положения будут пересчитаны в конце пакета
+   * @private
+   */
+  private unordered = false;
+
+  /**
+   * Все примененные операции для передачи состояния новым клиентам
+   * @private
+   */
+  private operations: TreeSyncOperation[] = [];
+
+  /**
+   * Ключи примененных операций: повторная доставка игнорируется
+   * @private
+   */
+  private applied: Set<string> = new Set();
+
+  /**
+   * @param {string} clientId - Идентификатор реплики, различает одновременные операции
+   */
+  constructor(public readonly clientId: string) {}
+
+  /**
+   * Выдает метку для новой локальной операции
+   *
+   * @returns {ITreeSyncStamp} Метка старше всех известных реплике
+   */
+  public createStamp(): ITreeSyncStamp {
+    return { counter: ++this.clock, clientId: this.clientId };
+  }
+
+  /**
+   * Применяет операцию (локальную или полученную от другого клиента)
+   *
+   * @param {TreeSyncOperation} operation - Операция
+   * @returns {boolean} true, если операция новая; false, если уже была применена
+   */
+  public apply(operation: TreeSyncOperation): boolean {
+    return this.applyAll([operation]);
+  }
+
+  /**
+   * Применяет пакет операций. Если среди них есть переносы с меткой старше уже примененных,
+   * положения пересчитываются с начала журнала один раз на весь пакет
+   *
+   * @param {TreeSyncOperation[]} operations - Операции
+   * @returns {boolean} true, если среди операций есть новые
+   */
+  public applyAll(operations: TreeSyncOperation[]): boolean {
+    const changed = operations.reduce((result, operation) => this.applyOperation(operation) || result, false);
+
+    if (this.unordered) {
+      this.unordered = false;
+      // Сортировка устойчива: записи с равными метками сохраняют порядок применения
+      this.moves.sort((a, b) => compareSyncStamps(a.stamp, b.stamp));
+      this.positions.clear();
+      this.moves.forEach((move) => this.applyPosition(move));
+    }
+
+    return changed;
+  }
+
+  /**
+   * Проверяет, упоминался ли элемент в операциях (в том числе удаленный)
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {boolean} true, если элемент известен реплике
+   */
+  public has(id: TreeItemId): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Возвращает все примененные операции в порядке применения
+   *
+   * @returns {TreeSyncOperation[]} Операции
+   */
+  public getOperations(): TreeSyncOperation[] {
+    return [...this.operations];
+  }
+
+  /**
+   * Строит видимое дерево: элементы в порядке обхода в глубину, соседи упорядочены по рангу,
+   * элементы без ранга - в конце в порядке создания (исходные данные - в исходном порядке)
+   *
+   * @returns {T[]} Элементы дерева
+   */
+  public getItems(): T[] {
+    const children = new Map<TreeItemId | null, IPositionWrite[]>();
+
+    this.positions.forEach((position) => {
+      const siblings = children.get(position.parent) ?? [];
+
+      siblings.push(position);
+      children.set(position.parent, siblings);
+    });
+
+    const items: T[] = [];
+    const visit = (parent: TreeItemId | null) => {
+      const siblings = (children.get(parent) ?? []).sort((a, b) => this.compareSiblings(a, b));
+
+      for (const position of siblings) {
+        const node = this.nodes.get(position.id)!;
+
+        if (node.exists?.value) {
+          items.push(this.toItem(position, node));
+          visit(position.id);
+        }
+      }
+    };
+
+    visit(null);
+
+    return items;
+  }
+
+  /**
+   * Применяет одну операцию, не пересчитывая положения, пришедшие не по порядку
+   * @private
+   */
+  private applyOperation(operation: TreeSyncOperation): boolean {
+    const { stamp } = operation;
+    // Метка уникальна для операции клиента; общие исходные данные (счетчик 0) различаются по id
+    const key = `${stamp.counter}:${stamp.clientId}:${operation.type}:${operation.id}`;
+
+    if (this.applied.has(key)) {
+      return false;
+    }
+
+    this.applied.add(key);
+    this.operations.push(operation);
+    this.clock = Math.max(this.clock, stamp.counter);
+
+    const node = this.getNode(operation.id);
+
+    switch (operation.type) {
+      case 'create':
+        this.writeExists(node, true, stamp);
+        Object.entries(operation.fields).forEach(([field, value]) => this.writeField(node, field, value, stamp));
+        this.writePosition(operation);
+        break;
+      case 'set':
+        Object.entries(operation.fields).forEach(([field, value]) => this.writeField(node, field, value, stamp));
+        operation.unset.forEach((field) => this.writeField(node, field, undefined, stamp));
+        break;
+      case 'move':
+        this.writePosition(operation);
+        break;
+      case 'delete':
+        this.writeExists(node, false, stamp);
+        break;
+    }
+
+    return true;
+  }
+
+  /**
+   * Возвращает состояние элемента, создавая пустое при первом упоминании
+   * @private
+   */
+  private getNode(id: TreeItemId): ICrdtNode {
+    let node = this.nodes.get(id);
+
+    if (!node) {
+      node = { fields: new Map() };
+      this.nodes.set(id, node);
+    }
+
+    return node;
+  }
+
+  /**
+   * Записывает существование элемента, если метка новее
+   * @private
+   */
+  private writeExists(node: ICrdtNode, value: boolean, stamp: ITreeSyncStamp): void {
+    if (!node.exists || compareSyncStamps(stamp, node.exists.stamp) > 0) {
+      node.exists = { value, stamp };
+    }
+  }
+
+  /**
+   * Записывает поле, если метка новее
+   * @private
+   */
+  private writeField(node: ICrdtNode, field: string, value: unknown, stamp: ITreeSyncStamp): void {
+    const current = node.fields.get(field);
+
+    if (!current || compareSyncStamps(stamp, current.stamp) > 0) {
+      node.fields.set(field, { value, stamp });
+    }
+  }
+
+  /**
+   * Добавляет запись положения в журнал переносов
+   * @private
+   */
+  private writePosition({ id, parent, order, index, stamp }: IPositionWrite): void {
+    const write: IPositionWrite = { id, parent, order, index, stamp };
+    const last = this.moves[this.moves.length - 1];
+
+    // Записи с равными метками (общие исходные данные) дописываются в конец без пересчета
+    if (last && compareSyncStamps(stamp, last.stamp) < 0) {
+      this.unordered = true;
+    }
+
+    this.moves.push(write);
+
+    if (!this.unordered) {
+      this.applyPosition(write);
+    }
+  }
+
+  /**
+   * Применяет запись положения, если она не делает элемент собственным предком
+   * @private
+   */
+  private applyPosition(write: IPositionWrite): void {
+    let ancestor = write.parent;
+
+    while (ancestor !== null) {
+      if (ancestor === write.id) {
+        return;
+      }
+
+      ancestor = this.positions.get(ancestor)?.parent ?? null;
+    }
+
+    this.positions.set(write.id, write);
+  }
+
+  /**
+   * Порядок соседей: по рангу (без ранга - в конце), затем по метке. Метки совпадают только
+   * у исходных данных: они упорядочены по исходной позиции, а затем по id - одинаково у всех реплик
+   * @private
+   */
+  private compareSiblings(a: IPositionWrite, b: IPositionWrite): number {
+    if (a.order !== b.order) {
+      if (a.order === undefined || b.order === undefined) {
+        return a.order === undefined ? 1 : -1;
+      }
+
+      return a.order - b.order;
+    }
+
+    return compareSyncStamps(a.stamp, b.stamp)
+      || (a.index ?? Number.MAX_SAFE_INTEGER) - (b.index ?? Number.MAX_SAFE_INTEGER)
+      || compareItemIds(a.id, b.id);
+  }
+
+  /**
+   * Собирает элемент из положения и полей
+   * @private
+   */
+  private toItem(position: IPositionWrite, node: ICrdtNode): T {
+    const item: Record<string, unknown> = { id: position.id, parent: position.parent };
+
+    node.fields.forEach(({ value }, field) => {
+      if (value !== undefined) {
+        item[field] = value;
+      }
+    });
+
+    if (position.order !== undefined) {
+      item.order = position.order;
+    }
+
+    return item as T;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Минимальная типизированная шина событий.
+ * Ошибка в одном обработчике не прерывает остальные и не откатывает мутацию,
+ * которая уже применена к моменту рассылки события
+ *
+ * @class TreeEventBus
+ * @template TEvents - Карта "имя события → полезная нагрузка"
+ */
+export default class TreeEventBus<TEvents extends object> {
+  /**
+   * Подписчики по именам событий
+   * @private
+   */
+  private handlers: Map<keyof TEvents, Set<(payload: any) => void>> = new Map();
+
+  /**
+   * Подписывает обработчик на событие
+   *
+   * @param {keyof TEvents} event - Имя события
+   * @param {Function} handler - Обработчик
+   * @returns {Function} Функция отписки
+   */
+  public on<E extends keyof TEvents>(event: E, handler: (payload: TEvents[E]) => void): () => void {
+    const handlers = this.handlers.get(event) || new Set();
+    handlers.add(handler);
+    this.handlers.set(event, handlers);
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Отписывает обработчик от события
+   *
+   * @param {keyof TEvents} event - Имя события
+   * @param {Function} handler - Ранее подписанный обработчик
+   */
+  public off<E extends keyof TEvents>(event: E, handler: (payload: TEvents[E]) => void): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * Рассылает событие всем подписчикам
+   *
+   * @param {keyof TEvents} event - Имя события
+   * @param {TEvents[E]} payload - Полезная нагрузка
+   */
+  public emit<E extends keyof TEvents>(event: E, payload: TEvents[E]): void {
+    const handlers = this.handlers.get(event);
+
+    if (!handlers) {
+      return;
+    }
+
+    // Копия позволяет отписываться прямо из обработчика
+    for (const handler of [...handlers]) {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Ошибка в обработчике события "${String(event)}"`, error);
+      }
+    }
+  }
+
+  /**
+   * Проверяет наличие подписчиков на событие
+   *
+   * @param {keyof TEvents} event - Имя события
+   * @returns {boolean} true если есть хотя бы один подписчик
+   */
+  public hasListeners(event: keyof TEvents): boolean {
+    return (this.handlers.get(event)?.size ?? 0) > 0;
+  }
+}
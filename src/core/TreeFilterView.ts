@@ -0,0 +1,209 @@
+import type {
+  ITreeFilterOptions,
+  ITreeItem,
+  TreeFilterMode,
+  TreeItemId,
+  TreeItemPredicate,
+} from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+
+/**
+ * Отфильтрованное представление хранилища только для чтения.
+ * Строится один раз по текущему состоянию TreeStore и исходные данные не меняет;
+ * после мутаций хранилища представление нужно получить заново через TreeStore.filter().
+ *
+ * Родитель каждого элемента представления тоже входит в представление,
+ * поэтому getChildren(), getAllChildren() и getAllParents() согласованы между собой
+ * и сохраняют порядок соседей исходного дерева
+ *
+ * @class TreeFilterView
+ * @template T - Тип элемента дерева
+ */
+export default class TreeFilterView<T extends ITreeItem = ITreeItem> {
+  /**
+   * Режим фильтрации
+   */
+  public readonly mode: TreeFilterMode;
+
+  /**
+   * Элементы представления по идентификатору
+   * @private
+   */
+  private itemsMap: Map<TreeItemId, T> = new Map();
+
+  /**
+   * Дети элементов представления
+   * @private
+   */
+  private childrenMap: Map<TreeItemId, T[]> = new Map();
+
+  /**
+   * Корневые элементы представления
+   * @private
+   */
+  private rootItems: T[] = [];
+
+  /**
+   * Элементы, для которых выполнилось условие
+   * @private
+   */
+  private matches: Set<TreeItemId> = new Set();
+
+  constructor(
+    treeStore: TreeStore<T>,
+    predicate: TreeItemPredicate<T>,
+    options: ITreeFilterOptions = {}
+  ) {
+    this.mode = options.mode ?? 'keepAncestors';
+
+    // Обход в глубину: элемент попадает в представление после решения по его поддереву
+    const visit = (item: T, ancestorMatched: boolean): T | null => {
+      const matched = predicate(item);
+
+      if (matched) {
+        this.matches.add(item.id);
+      } else if (this.mode === 'strict') {
+        return null;
+      }
+
+      const inherited = ancestorMatched || matched;
+      const children = treeStore
+        .getChildren(item.id)
+        .map((child) => visit(child, inherited))
+        .filter((child): child is T => child !== null);
+
+      const keep = matched || children.length > 0 || (this.mode === 'keepDescendants' && inherited);
+
+      if (!keep) {
+        return null;
+      }
+
+      this.itemsMap.set(item.id, item);
+      this.childrenMap.set(item.id, children);
+
+      return item;
+    };
+
+    this.rootItems = treeStore
+      .getRoots()
+      .map((item) => visit(item, false))
+      .filter((item): item is T => item !== null);
+  }
+
+  /**
+   * Возвращает все элементы представления в порядке обхода дерева в глубину
+   *
+   * @returns {T[]} Элементы представления
+   */
+  public getAll(): T[] {
+    return this.rootItems.flatMap((item) => [item, ...this.getAllChildren(item.id)]);
+  }
+
+  /**
+   * Получает элемент представления
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {T | undefined} Элемент или undefined, если он отфильтрован
+   */
+  public getItem(id: TreeItemId): T | undefined {
+    return this.itemsMap.get(id);
+  }
+
+  /**
+   * Проверяет, входит ли элемент в представление
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {boolean} true если элемент показан
+   */
+  public has(id: TreeItemId): boolean {
+    return this.itemsMap.has(id);
+  }
+
+  /**
+   * Проверяет, выполнилось ли условие для самого элемента,
+   * а не только для его предков или потомков
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {boolean} true если элемент совпал
+   */
+  public isMatch(id: TreeItemId): boolean {
+    return this.matches.has(id);
+  }
+
+  /**
+   * Получает корневые элементы представления
+   *
+   * @returns {T[]} Корневые элементы
+   */
+  public getRoots(): T[] {
+    return this.rootItems;
+  }
+
+  /**
+   * Получает показанных детей элемента
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {T[]} Дети элемента (пустой массив, если элемент отфильтрован)
+   */
+  public getChildren(id: TreeItemId): T[] {
+    return this.childrenMap.get(id) || [];
+  }
+
+  /**
+   * Проверяет, есть ли у элемента показанные дети
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {boolean} true если дети есть
+   */
+  public hasChildren(id: TreeItemId): boolean {
+    return this.getChildren(id).length > 0;
+  }
+
+  /**
+   * Получает позицию элемента среди показанных соседей
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {number} Индекс или -1, если элемент отфильтрован
+   */
+  public getIndex(id: TreeItemId): number {
+    const item = this.getItem(id);
+
+    if (!item) {
+      return -1;
+    }
+
+    const siblings = item.parent === null ? this.rootItems : this.getChildren(item.parent);
+
+    return siblings.indexOf(item);
+  }
+
+  /**
+   * Получает всех показанных потомков элемента
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {T[]} Потомки в порядке обхода в глубину
+   */
+  public getAllChildren(id: TreeItemId): T[] {
+    return this.getChildren(id).flatMap((child) => [child, ...this.getAllChildren(child.id)]);
+  }
+
+  /**
+   * Получает цепочку элементов от элемента до корня
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {T[]} Цепочка (пустая, если элемент отфильтрован)
+   */
+  public getAllParents(id: TreeItemId): T[] {
+    const result: T[] = [];
+
+    for (
+      let item = this.getItem(id);
+      item;
+      item = item.parent === null ? undefined : this.getItem(item.parent)
+    ) {
+      result.push(item);
+    }
+
+    return result;
+  }
+}
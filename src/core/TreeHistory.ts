@@ -0,0 +1,314 @@
+import type {
+  ITreeHistoryEntry,
+  ITreeItem,
+  ITreeHistoryOptions,
+  TreeHistoryOperation,
+} from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+
+/**
+ * Наименования записей для мутаций вне транзакции
+ */
+const OPERATION_NAMES: Record<TreeHistoryOperation['type'], string> = {
+  add: 'Добавление',
+  remove: 'Удаление',
+  update: 'Изменение',
+  move: 'Перемещение',
+};
+
+/**
+ * История изменений хранилища с поддержкой undo/redo.
+ * Слушает события TreeStore и записывает каждую мутацию как обратимую операцию.
+ * Полная замена данных (событие reset) очищает историю
+ *
+ * @class TreeHistory
+ * @template T - Тип элемента дерева
+ */
+export default class TreeHistory<T extends ITreeItem = ITreeItem> {
+  /**
+   * Стек отменяемых записей (последняя запись - в конце)
+   * @private
+   */
+  private undoStack: ITreeHistoryEntry<T>[] = [];
+
+  /**
+   * Стек повторяемых записей (последняя отмененная - в конце)
+   * @private
+   */
+  private redoStack: ITreeHistoryEntry<T>[] = [];
+
+  /**
+   * Открытая транзакция, в которую собираются операции
+   * @private
+   */
+  private pendingTransaction: ITreeHistoryEntry<T> | null = null;
+
+  /**
+   * Флаг применения операций самой историей (события в этот момент не записываются)
+   * @private
+   */
+  private applying = false;
+
+  /**
+   * Максимальная глубина истории
+   * @private
+   */
+  private maxDepth: number;
+
+  /**
+   * Функции отписки от событий хранилища
+   * @private
+   */
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(private treeStore: TreeStore<T>, options: ITreeHistoryOptions = {}) {
+    this.maxDepth = options.maxDepth ?? 100;
+
+    this.unsubscribers = [
+      treeStore.on('added', ({ item }) => this.record({ type: 'add', item })),
+      treeStore.on('removed', ({ items, index }) => this.record({ type: 'remove', items, index })),
+      treeStore.on('updated', ({ oldItem, newItem }) => {
+        this.record({ type: 'update', oldItem, newItem });
+      }),
+      treeStore.on('moved', ({ oldItem, newItem, oldIndex, newIndex, reordered }) => {
+        this.record({ type: 'move', oldItem, newItem, oldIndex, newIndex, reordered });
+      }),
+      treeStore.on('reset', () => this.clear()),
+    ];
+  }
+
+  /**
+   * Есть ли записи для отмены
+   */
+  public get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Есть ли записи для повтора
+   */
+  public get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Наименование записи, которая будет отменена следующей
+   */
+  public get undoName(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.name ?? null;
+  }
+
+  /**
+   * Наименование записи, которая будет повторена следующей
+   */
+  public get redoName(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.name ?? null;
+  }
+
+  /**
+   * Выполняет несколько мутаций как одну запись истории.
+   * Если fn выбрасывает ошибку, уже примененные мутации откатываются, ошибка пробрасывается дальше.
+   * Вложенные транзакции сливаются с внешней
+   *
+   * @param {string} name - Наименование транзакции
+   * @param {Function} fn - Функция, выполняющая мутации хранилища
+   * @returns {R} Результат fn
+   */
+  public transaction<R>(name: string, fn: () => R): R {
+    if (this.pendingTransaction) {
+      return fn();
+    }
+
+    const transaction: ITreeHistoryEntry<T> = { name, operations: [] };
+    this.pendingTransaction = transaction;
+
+    try {
+      const result = fn();
+      this.pendingTransaction = null;
+      this.push(transaction);
+
+      return result;
+    } catch (error) {
+      this.pendingTransaction = null;
+      this.revert(transaction);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Отменяет последнюю запись
+   *
+   * @returns {boolean} true если запись была отменена
+   */
+  public undo(): boolean {
+    const entry = this.undoStack.pop();
+
+    if (!entry) {
+      return false;
+    }
+
+    this.revert(entry);
+    this.redoStack.push(entry);
+
+    return true;
+  }
+
+  /**
+   * Повторяет последнюю отмененную запись
+   *
+   * @returns {boolean} true если запись была повторена
+   */
+  public redo(): boolean {
+    const entry = this.redoStack.pop();
+
+    if (!entry) {
+      return false;
+    }
+
+    this.withoutRecording(() => {
+      for (const operation of entry.operations) {
+        this.applyForward(operation);
+      }
+    });
+    this.undoStack.push(entry);
+
+    return true;
+  }
+
+  /**
+   * Очищает историю
+   */
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * Отписывается от событий хранилища
+   */
+  public destroy(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.clear();
+  }
+
+  /**
+   * Записывает операцию в открытую транзакцию или отдельной записью
+   * @private
+   */
+  private record(operation: TreeHistoryOperation<T>): void {
+    if (this.applying) {
+      return;
+    }
+
+    if (this.pendingTransaction) {
+      this.pendingTransaction.operations.push(operation);
+
+      return;
+    }
+
+    this.push({ name: OPERATION_NAMES[operation.type], operations: [operation] });
+  }
+
+  /**
+   * Добавляет запись в стек отмены с учетом максимальной глубины
+   * @private
+   */
+  private push(entry: ITreeHistoryEntry<T>): void {
+    if (entry.operations.length === 0) {
+      return;
+    }
+
+    this.undoStack.push(entry);
+    this.redoStack = [];
+
+    if (this.undoStack.length > this.maxDepth) {
+      this.undoStack.splice(0, this.undoStack.length - this.maxDepth);
+    }
+  }
+
+  /**
+   * Откатывает операции записи в обратном порядке
+   * @private
+   */
+  private revert(entry: ITreeHistoryEntry<T>): void {
+    this.withoutRecording(() => {
+      for (const operation of [...entry.operations].reverse()) {
+        this.applyInverse(operation);
+      }
+    });
+  }
+
+  /**
+   * Применяет операцию
+   * @private
+   */
+  private applyForward(operation: TreeHistoryOperation<T>): void {
+    switch (operation.type) {
+      case 'add':
+        this.treeStore.addItem(operation.item);
+        break;
+      case 'remove':
+        this.treeStore.removeItem(operation.items[0]!.id);
+        break;
+      case 'update':
+        this.treeStore.updateItem(operation.newItem);
+        break;
+      case 'move':
+        // Сначала ранги соседей, затем сам элемент: newIndex записан относительно итогового порядка
+        this.restoreInPlace(operation.reordered.map(({ newItem }) => newItem));
+        this.treeStore.updateItem(operation.newItem, { index: operation.newIndex });
+        break;
+    }
+  }
+
+  /**
+   * Применяет операцию, обратную записанной
+   * @private
+   */
+  private applyInverse(operation: TreeHistoryOperation<T>): void {
+    switch (operation.type) {
+      case 'add':
+        this.treeStore.removeItem(operation.item.id);
+        break;
+      case 'remove':
+        // Поддерево записано в порядке DFS: родители восстанавливаются раньше детей
+        operation.items.forEach((item, position) => {
+          this.treeStore.addItem(item, position === 0 ? { index: operation.index } : {});
+        });
+        break;
+      case 'update':
+        this.treeStore.updateItem(operation.oldItem);
+        break;
+      case 'move':
+        this.treeStore.updateItem(operation.oldItem, { index: operation.oldIndex });
+        this.restoreInPlace(operation.reordered.map(({ oldItem }) => oldItem));
+        break;
+    }
+  }
+
+  /**
+   * Восстанавливает данные элементов, не меняя их позиций среди соседей
+   * @private
+   */
+  private restoreInPlace(items: T[]): void {
+    for (const item of items) {
+      this.treeStore.updateItem(item, { index: this.treeStore.getIndex(item.id) });
+    }
+  }
+
+  /**
+   * Выполняет fn, не записывая порождаемые события
+   * @private
+   */
+  private withoutRecording(fn: () => void): void {
+    this.applying = true;
+
+    try {
+      fn();
+    } finally {
+      this.applying = false;
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import type {
+  ITreeItem,
+  ITreeOperationLogEntry,
+  ITreeOperationLogOptions,
+  TreeOperation,
+} from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+
+/**
+ * Журнал изменений хранилища для аудита и офлайн-синхронизации.
+ * Слушает события TreeStore и записывает каждую мутацию как сериализуемую операцию
+ * с временем и автором. Журнал воспроизводится на другом хранилище через replayTreeOperations.
+ * Загрузка веток из источника данных (событие loaded) не является правкой и не записывается
+ *
+ * @class TreeOperationLog
+ * @template T - Тип элемента дерева
+ */
+export default class TreeOperationLog<T extends ITreeItem = ITreeItem> {
+  /**
+   * Записи в порядке мутаций
+   * @private
+   */
+  private entries: ITreeOperationLogEntry<T>[] = [];
+
+  /**
+   * Номер последней записи. Не сбрасывается очисткой, чтобы номера оставались уникальными
+   * @private
+   */
+  private lastSeq = 0;
+
+  /**
+   * Функции отписки от событий хранилища
+   * @private
+   */
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(treeStore: TreeStore<T>, private options: ITreeOperationLogOptions = {}) {
+    this.unsubscribers = [
+      treeStore.on('added', ({ item }) => {
+        this.record({ type: 'add', item, index: treeStore.getIndex(item.id) });
+      }),
+      treeStore.on('removed', ({ item, items }) => {
+        this.record({ type: 'remove', id: item.id, ids: items.map((removed) => removed.id) });
+      }),
+      treeStore.on('updated', ({ oldItem, newItem }) => {
+        this.record({ type: 'update', item: newItem, previous: oldItem });
+      }),
+      treeStore.on('moved', ({ oldItem, newItem, newIndex, reordered }) => {
+        this.record({
+          type: 'move',
+          item: newItem,
+          previous: oldItem,
+          index: newIndex,
+          reordered: reordered.map((change) => change.newItem),
+        });
+      }),
+      treeStore.on('reset', ({ items }) => this.record({ type: 'reset', items: [...items] })),
+    ];
+  }
+
+  /**
+   * Количество записей
+   */
+  public get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Возвращает записи журнала
+   *
+   * @param {number} [afterSeq] - Вернуть только записи с номером больше указанного (например, после синхронизации)
+   * @returns {ITreeOperationLogEntry<T>[]} Записи в порядке мутаций
+   */
+  public getEntries(afterSeq: number = 0): ITreeOperationLogEntry<T>[] {
+    return this.entries.filter((entry) => entry.seq > afterSeq);
+  }
+
+  /**
+   * Представление для JSON.stringify
+   *
+   * @returns {ITreeOperationLogEntry<T>[]} Записи журнала
+   */
+  public toJSON(): ITreeOperationLogEntry<T>[] {
+    return this.getEntries();
+  }
+
+  /**
+   * Сериализует журнал в JSON. Прочитать его можно через parseTreeOperations
+   *
+   * @returns {string} Записи журнала в JSON
+   */
+  public export(): string {
+    return JSON.stringify(this.entries);
+  }
+
+  /**
+   * Очищает журнал
+   */
+  public clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Отписывается от событий хранилища
+   */
+  public destroy(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Записывает операцию с временем и автором
+   * @private
+   */
+  private record(operation: TreeOperation<T>): void {
+    const { author, now = Date.now } = this.options;
+    const entry: ITreeOperationLogEntry<T> = { seq: ++this.lastSeq, timestamp: now(), operation };
+    const currentAuthor = typeof author === 'function' ? author() : author;
+
+    if (currentAuthor !== undefined) {
+      entry.author = currentAuthor;
+    }
+
+    this.entries.push(entry);
+  }
+}
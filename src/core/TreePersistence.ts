@@ -0,0 +1,366 @@
+import type {
+  ITreeItem,
+  ITreePersistenceAdapter,
+  ITreePersistenceEvents,
+  ITreePersistenceOptions,
+  ITreePersistenceState,
+  TreePersistenceMutation,
+} from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+import TreeEventBus from '@/core/TreeEventBus.ts';
+import TreePersistenceError from '@/core/TreePersistenceError.ts';
+
+/**
+ * Проверяет, совпадают ли значения перечисленных полей элементов
+ *
+ * @param {T} a - Первый элемент
+ * @param {T} b - Второй элемент
+ * @param {string[]} fields - Поля
+ * @returns {boolean} true, если значения равны
+ */
+function hasSameFields<T extends ITreeItem>(a: Readonly<T>, b: Readonly<T>, fields: string[]): boolean {
+  return fields.every((field) => Object.is((a as Record<string, unknown>)[field], (b as Record<string, unknown>)[field]));
+}
+
+/**
+ * Возвращает поля, значения которых различаются
+ *
+ * @param {T} oldItem - Прежняя версия
+ * @param {T} newItem - Новая версия
+ * @returns {string[]} Имена измененных полей
+ */
+function getChangedFields<T extends ITreeItem>(oldItem: Readonly<T>, newItem: Readonly<T>): string[] {
+  const fields = new Set([...Object.keys(oldItem), ...Object.keys(newItem)]);
+
+  return [...fields].filter((field) => !hasSameFields(oldItem, newItem, [field]));
+}
+
+/**
+ * Сохранение изменений хранилища на сервере с оптимистичным применением.
+ * Мутации TreeStore применяются сразу, а затем по очереди отправляются адаптеру:
+ * сетевые ошибки и ошибки сервера повторяются с растущей задержкой, а отклоненная сервером
+ * мутация откатывается в хранилище. Откат затрагивает только эту мутацию: каскадное удаление
+ * восстанавливает все поддерево, а поля, которые успела изменить более поздняя правка, не трогаются
+ *
+ * Полная замена данных (событие reset) и ленивая загрузка веток не отправляются:
+ * load() заменяет содержимое хранилища данными сервера
+ *
+ * @class TreePersistence
+ * @template T - Тип элемента дерева
+ */
+export default class TreePersistence<T extends ITreeItem = ITreeItem> {
+  /**
+   * Очередь отправки: мутации уходят на сервер в порядке применения
+   * @private
+   */
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Количество неотправленных мутаций
+   * @private
+   */
+  private pending = 0;
+
+  /**
+   * Идет загрузка дерева
+   * @private
+   */
+  private loading = false;
+
+  /**
+   * Сообщение последней ошибки
+   * @private
+   */
+  private error: string | null = null;
+
+  /**
+   * Флаг изменения хранилища самим сохранением (события в этот момент не отправляются)
+   * @private
+   */
+  private applying = false;
+
+  /**
+   * Шина событий сохранения
+   * @private
+   */
+  private events = new TreeEventBus<ITreePersistenceEvents<T>>();
+
+  /**
+   * Функции отписки от событий хранилища
+   * @private
+   */
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * @param {TreeStore<T>} treeStore - Сохраняемое хранилище
+   * @param {ITreePersistenceAdapter<T>} adapter - Адаптер сервера
+   * @param {ITreePersistenceOptions} [options] - Параметры повторов
+   */
+  constructor(
+    private treeStore: TreeStore<T>,
+    private adapter: ITreePersistenceAdapter<T>,
+    private options: ITreePersistenceOptions = {}
+  ) {
+    this.unsubscribers = [
+      treeStore.on('added', ({ item }) => {
+        this.enqueue({ type: 'create', item, index: treeStore.getIndex(item.id) });
+      }),
+      treeStore.on('removed', ({ item, items, index }) => this.enqueue({ type: 'delete', item, items, index })),
+      treeStore.on('updated', ({ oldItem, newItem }) => this.enqueue({ type: 'update', item: newItem, previous: oldItem })),
+      treeStore.on('moved', ({ oldItem, newItem, oldIndex, newIndex, reordered }) => this.enqueue({
+        type: 'move',
+        item: newItem,
+        previous: oldItem,
+        index: newIndex,
+        previousIndex: oldIndex,
+        reordered,
+      })),
+    ];
+  }
+
+  /**
+   * Текущее состояние сохранения
+   */
+  public get state(): ITreePersistenceState {
+    let status: ITreePersistenceState['status'] = 'idle';
+
+    if (this.loading) {
+      status = 'loading';
+    } else if (this.pending > 0) {
+      status = 'saving';
+    } else if (this.error !== null) {
+      status = 'error';
+    }
+
+    return { status, pending: this.pending, error: this.error };
+  }
+
+  /**
+   * Подписывается на событие сохранения
+   *
+   * @param {keyof ITreePersistenceEvents} event - Имя события
+   * @param {Function} handler - Обработчик
+   * @returns {Function} Функция отписки
+   */
+  public on<E extends keyof ITreePersistenceEvents<T>>(
+    event: E,
+    handler: (payload: ITreePersistenceEvents<T>[E]) => void
+  ): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Загружает дерево с сервера и заменяет им содержимое хранилища
+   *
+   * @returns {Promise<T[]>} Загруженные элементы
+   * @throws {TreePersistenceError} Если загрузка не удалась после всех повторов
+   */
+  public async load(): Promise<T[]> {
+    this.loading = true;
+    this.error = null;
+    this.emitState();
+
+    try {
+      const items = await this.withRetries(() => this.adapter.list());
+
+      this.withoutSaving(() => this.treeStore.update(items));
+
+      return items;
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : String(error);
+
+      throw error;
+    } finally {
+      this.loading = false;
+      this.emitState();
+    }
+  }
+
+  /**
+   * Ожидает отправки всех мутаций
+   *
+   * @returns {Promise<void>} Промис, завершающийся, когда очередь пуста
+   */
+  public flush(): Promise<void> {
+    return this.queue;
+  }
+
+  /**
+   * Сбрасывает сообщение об ошибке
+   */
+  public clearError(): void {
+    if (this.error !== null) {
+      this.error = null;
+      this.emitState();
+    }
+  }
+
+  /**
+   * Отписывается от событий хранилища. Уже поставленные в очередь мутации будут отправлены
+   */
+  public destroy(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Ставит мутацию в очередь отправки
+   * @private
+   */
+  private enqueue(mutation: TreePersistenceMutation<T>): void {
+    if (this.applying) {
+      return;
+    }
+
+    this.pending++;
+    this.emitState();
+    this.queue = this.queue.then(() => this.save(mutation));
+  }
+
+  /**
+   * Отправляет мутацию и откатывает ее, если сервер ее отклонил
+   * @private
+   */
+  private async save(mutation: TreePersistenceMutation<T>): Promise<void> {
+    try {
+      await this.withRetries(() => this.send(mutation));
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : String(error);
+
+      try {
+        this.withoutSaving(() => this.rollback(mutation));
+      } catch (rollbackError) {
+        // Хранилище в режиме 'strict' может отклонить откат: очередь должна продолжить работу
+        console.error('Не удалось откатить отклоненное изменение', rollbackError);
+      }
+
+      this.events.emit('rolledBack', { mutation, error });
+    } finally {
+      this.pending--;
+      this.emitState();
+    }
+  }
+
+  /**
+   * Вызывает метод адаптера для мутации
+   * @private
+   */
+  private send(mutation: TreePersistenceMutation<T>): Promise<void> {
+    switch (mutation.type) {
+      case 'create':
+        return this.adapter.create(mutation.item);
+      case 'update':
+        return this.adapter.update(mutation.item);
+      case 'delete':
+        return this.adapter.delete(mutation.item.id);
+      case 'move':
+        return this.adapter.move(mutation.item, mutation.reordered.map(({ newItem }) => newItem));
+    }
+  }
+
+  /**
+   * Выполняет запрос, повторяя его при временных ошибках с удваивающейся задержкой
+   * @private
+   */
+  private async withRetries<R>(request: () => Promise<R>): Promise<R> {
+    const { retries = 2, retryDelay = 500 } = this.options;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (!(error instanceof TreePersistenceError) || !error.retryable || attempt >= retries) {
+          throw error;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, retryDelay * 2 ** attempt));
+      }
+    }
+  }
+
+  /**
+   * Откатывает мутацию в хранилище
+   * @private
+   */
+  private rollback(mutation: TreePersistenceMutation<T>): void {
+    switch (mutation.type) {
+      case 'create':
+        this.treeStore.removeItem(mutation.item.id);
+        break;
+      case 'delete':
+        // Поддерево записано в порядке DFS: родители восстанавливаются раньше детей
+        mutation.items.forEach((item, position) => {
+          if (!this.treeStore.getItem(item.id)) {
+            this.treeStore.addItem(item, position === 0 ? { index: mutation.index } : {});
+          }
+        });
+        break;
+      case 'update':
+        this.revertFields(mutation.previous, mutation.item);
+        break;
+      case 'move':
+        this.revertFields(mutation.previous, mutation.item, mutation.previousIndex);
+        // Соседи возвращают прежние ранги, оставаясь на своих местах
+        mutation.reordered.forEach(({ oldItem, newItem }) => {
+          this.revertFields(oldItem, newItem, this.treeStore.getIndex(newItem.id));
+        });
+        break;
+    }
+  }
+
+  /**
+   * Возвращает прежние значения полей, измененных мутацией, если более поздняя правка их не заменила
+   * @private
+   */
+  private revertFields(previous: T, item: T, index?: number): void {
+    const current = this.treeStore.getItem(item.id);
+
+    if (!current) {
+      return;
+    }
+
+    const fields = getChangedFields(previous, item).filter((field) => hasSameFields(current, item, [field]));
+
+    if (fields.length === 0) {
+      return;
+    }
+
+    const reverted = { ...current } as Record<string, unknown>;
+
+    fields.forEach((field) => {
+      if (field in previous) {
+        reverted[field] = (previous as Record<string, unknown>)[field];
+      } else {
+        delete reverted[field];
+      }
+    });
+
+    const positionReverted = fields.includes('parent') || fields.includes('order');
+
+    this.treeStore.updateItem(reverted as T, {
+      index: positionReverted ? index : this.treeStore.getIndex(item.id),
+    });
+  }
+
+  /**
+   * Выполняет fn, не отправляя порождаемые мутации
+   * @private
+   */
+  private withoutSaving(fn: () => void): void {
+    this.applying = true;
+
+    try {
+      fn();
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  /**
+   * Сообщает подписчикам о новом состоянии
+   * @private
+   */
+  private emitState(): void {
+    this.events.emit('stateChanged', this.state);
+  }
+}
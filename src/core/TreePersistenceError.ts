@@ -0,0 +1,34 @@
+/**
+ * Ошибка сохранения дерева на сервере.
+ * Выбрасывается адаптером сохранения при сетевой ошибке, ответе сервера с ошибкой
+ * или ответе, который не удалось разобрать
+ *
+ * @class TreePersistenceError
+ */
+export default class TreePersistenceError extends Error {
+  /**
+   * HTTP-статус ответа (null - ответ не получен)
+   */
+  public readonly status: number | null;
+
+  /**
+   * Тело ответа не удалось разобрать (некорректный JSON или неожиданная структура)
+   */
+  public readonly malformed: boolean;
+
+  /**
+   * Имеет ли смысл повторить запрос: сеть, таймаут, перегрузка или ошибка сервера.
+   * Остальные ответы означают, что сервер отклонил изменение, а некорректный ответ
+   * при повторе вернется таким же
+   */
+  public readonly retryable: boolean;
+
+  constructor(message: string, status: number | null = null, options: { malformed?: boolean } = {}) {
+    super(message);
+
+    this.name = 'TreePersistenceError';
+    this.status = status;
+    this.malformed = options.malformed ?? false;
+    this.retryable = !this.malformed && (status === null || status === 408 || status === 429 || status >= 500);
+  }
+}
@@ -1,4 +1,48 @@
-import type { ITreeItem, TreeItemId } from '@/types/tree.types.ts';
+import type {
+  ITreeDataSource,
+  ITreeDataSourceNode,
+  ITreeFilterOptions,
+  ITreeItem,
+  ITreeItemChange,
+  ITreeMutationOptions,
+  ITreeQuarantineEntry,
+  ITreeSearchMatch,
+  ITreeSearchOptions,
+  ITreeSearchResult,
+  ITreeSnapshot,
+  ITreeStoreEvents,
+  ITreeStoreOptions,
+  ITreeValidationReport,
+  TreeItemId,
+  TreeItemPredicate,
+  TreeLoadState,
+  TreeStoreEventHandler,
+  TreeStoreEventName,
+  TreeValidationMode,
+} from '@/types/tree.types.ts';
+import TreeEventBus from '@/core/TreeEventBus.ts';
+import TreeFilterView from '@/core/TreeFilterView.ts';
+import TreeValidationError from '@/core/TreeValidationError.ts';
+import {
+  createValidationIssue,
+  partitionTreeItems,
+  validateItemUpdate,
+  validateNewItem,
+  validateTreeItems,
+} from '@/utils/tree.validation.ts';
+import {
+  compareTreeItemOrder,
+  findOrderedIndex,
+  getOrderBetween,
+  ORDER_STEP,
+} from '@/utils/tree.order.ts';
+import { findTextMatch } from '@/utils/tree.search.ts';
+import { createTreeSnapshot } from '@/utils/tree.diff.ts';
+
+/**
+ * События, меняющие данные хранилища
+ */
+const DATA_EVENTS: TreeStoreEventName[] = ['reset', 'added', 'removed', 'updated', 'moved', 'loaded'];
 
 /**
  * Шпаргалка =)
@@ -11,58 +55,252 @@ import type { ITreeItem, TreeItemId } from '@/types/tree.types.ts';
  * - addItem(item): O(1) + обновление индексов
  * - removeItem(id): O(k) + обновление индексов
  * - updateItem(item): O(1) + обновление индексов
+ * - moveItem(id, parent, index): O(s) где s - количество соседей + обновление индексов
+ * - insertBefore/insertAfter(id, targetId): O(s) + обновление индексов
+ * - search(query): O(n * h) - проверка всех наименований и цепочек предков найденных
+ * - filter(predicate): O(n) - построение отфильтрованного представления
+ * - snapshot(): O(n) - копия массива элементов, до следующей мутации O(1)
+ *
+ * Порядок соседей хранится явно: в childrenMap для дочерних элементов и в rootItems для корневых.
+ * Он определяет порядок getChildren(), getRoots() и обхода дерева.
+ * При загрузке соседи сортируются по рангу order; moveItem назначает перенесенному элементу
+ * дробный ранг между новыми соседями, чтобы порядок пережил перезагрузку данных
+ * Все мутации проверяют целостность дерева (дубликаты, циклы, несуществующие родители).
+ * В режиме 'strict' некорректная мутация отклоняется с TreeValidationError,
+ * в режиме 'quarantine' некорректные элементы откладываются и доступны через getQuarantined()
+ *
+ * О каждой примененной мутации хранилище сообщает событием (см. on()):
+ * added, removed, updated, moved, reset
+ *
+ * С источником данных (options.dataSource) дети загружаются по требованию через loadChildren().
+ * Загруженные ветки кэшируются; состояние загрузки сообщают события loaded и loadStateChanged
+ *
+ * Хранилище обобщено по типу элемента T: прикладные поля (количество, цена, шифр...)
+ * сохраняются во всех методах и событиях без приведения типов
  *
  * @class TreeStore
+ * @template T - Тип элемента дерева
  */
 
-export default class TreeStore {
+export default class TreeStore<T extends ITreeItem = ITreeItem> {
   /**
    * Исходный массив элементов дерева
    * @private
    */
-  public items: ITreeItem[] = [];
+  public items: T[] = [];
 
   /**
    * Индекс для быстрого доступа к элементам по ID
    * @private
    */
-  private itemsMap: Map<TreeItemId, ITreeItem> = new Map();
+  private itemsMap: Map<TreeItemId, T> = new Map();
 
   /**
    * Кэш дочерних элементов для каждого родителя
    * @private
    */
-  private childrenMap: Map<TreeItemId, ITreeItem[]> = new Map();
+  private childrenMap: Map<TreeItemId, T[]> = new Map();
+
+  /**
+   * Корневые элементы в порядке отображения
+   * @private
+   */
+  private rootItems: T[] = [];
 
   /**
    * Кэш цепочек родителей для быстрого получения пути к корню
    * @private
    */
-  private parentChainCache: Map<TreeItemId, ITreeItem[]> = new Map();
+  private parentChainCache: Map<TreeItemId, T[]> = new Map();
+
+  /**
+   * Режим валидации по умолчанию
+   * @private
+   */
+  private validationMode: TreeValidationMode;
+
+  /**
+   * Элементы, отклоненные в режиме 'quarantine'
+   * @private
+   */
+  private quarantine: ITreeQuarantineEntry<T>[] = [];
 
-  public update(items: ITreeItem[]) {
-    this.items = items;
+  /**
+   * Шина событий мутаций
+   * @private
+   */
+  private events: TreeEventBus<ITreeStoreEvents<T>> = new TreeEventBus();
+
+  /**
+   * Источник данных для ленивой загрузки
+   * @private
+   */
+  private dataSource?: ITreeDataSource<T>;
+
+  /**
+   * Явные состояния загрузки веток (null - корень)
+   * @private
+   */
+  private loadStates: Map<TreeItemId | null, TreeLoadState> = new Map();
+
+  /**
+   * Ошибки последней загрузки веток
+   * @private
+   */
+  private loadErrors: Map<TreeItemId | null, unknown> = new Map();
+
+  /**
+   * Элементы, у которых по подсказке источника есть незагруженные дети
+   * @private
+   */
+  private childrenHints: Set<TreeItemId> = new Set();
+
+  /**
+   * Выполняющиеся загрузки. Повторный запрос той же ветки получает тот же промис
+   * @private
+   */
+  private pendingLoads: Map<TreeItemId | null, Promise<T[]>> = new Map();
+
+  /**
+   * Номер версии данных: увеличивается при каждой мутации
+   * @private
+   */
+  private version = 0;
+
+  /**
+   * Снимок текущей версии. Сбрасывается мутацией
+   * @private
+   */
+  private snapshotCache: ITreeSnapshot<T> | null = null;
+
+  /**
+   * Генератор идентификаторов новых элементов (null - максимальный числовой id + 1)
+   * @private
+   */
+  private itemIdGenerator: (() => TreeItemId) | null = null;
+
+  constructor(options: ITreeStoreOptions<T> = {}) {
+    this.validationMode = options.validationMode ?? 'strict';
+    this.dataSource = options.dataSource;
+
+    // Подписка раньше внешних обработчиков: в них snapshot() уже отражает мутацию
+    DATA_EVENTS.forEach((event) => this.events.on(event, () => {
+      this.version++;
+      this.snapshotCache = null;
+    }));
+  }
+
+  /**
+   * Полностью заменяет содержимое хранилища
+   *
+   * @param {T[]} items - Новый массив элементов
+   * @param {ITreeMutationOptions} [options] - Опции мутации
+   * @throws {TreeValidationError} В режиме 'strict' при нарушении структуры
+   */
+  public update(items: T[], options: ITreeMutationOptions = {}) {
+    const { accepted, rejected, report } = partitionTreeItems(items);
+
+    if (!report.valid && this.resolveMode(options) === 'strict') {
+      throw new TreeValidationError(report);
+    }
+
+    const previousItems = this.items;
+
+    this.items = accepted;
+    this.quarantine = rejected;
+
+    // Переданные данные считаются полными: ленивая загрузка начинается заново
+    this.loadStates.clear();
+    this.loadErrors.clear();
+    this.childrenHints.clear();
+    this.pendingLoads.clear();
+    this.loadStates.set(null, 'loaded');
 
     // Построение индексов
     this.buildIndexes();
+
+    this.events.emit('reset', {
+      ids: accepted.map((item) => item.id),
+      items: accepted,
+      previousItems,
+    });
+  }
+
+  /**
+   * Подписывается на событие мутации хранилища
+   *
+   * @param {TreeStoreEventName} event - Имя события
+   * @param {TreeStoreEventHandler} handler - Обработчик
+   * @returns {Function} Функция отписки
+   */
+  public on<E extends TreeStoreEventName>(event: E, handler: TreeStoreEventHandler<E, T>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Отписывается от события мутации хранилища
+   *
+   * @param {TreeStoreEventName} event - Имя события
+   * @param {TreeStoreEventHandler} handler - Ранее подписанный обработчик
+   */
+  public off<E extends TreeStoreEventName>(event: E, handler: TreeStoreEventHandler<E, T>): void {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Проверяет целостность текущего содержимого хранилища
+   *
+   * @returns {ITreeValidationReport} Отчет о проверке
+   */
+  public validate(): ITreeValidationReport {
+    return validateTreeItems(this.items);
+  }
+
+  /**
+   * Возвращает элементы, отложенные в карантин
+   *
+   * @returns {ITreeQuarantineEntry<T>[]} Копия списка карантина
+   */
+  public getQuarantined(): ITreeQuarantineEntry<T>[] {
+    return [...this.quarantine];
+  }
+
+  /**
+   * Очищает карантин
+   */
+  public clearQuarantine(): void {
+    this.quarantine = [];
   }
 
   /**
    * Возвращает исходный массив всех элементов
    *
-   * @returns {ITreeItem[]} Массив всех элементов
+   * @returns {T[]} Массив всех элементов
    */
-  public getAll(): ITreeItem[] {
+  public getAll(): T[] {
     return this.items;
   }
 
+  /**
+   * Возвращает неизменяемую версию текущих данных.
+   * Снимок разделяет объекты элементов с хранилищем, поэтому создается за O(n) без копирования
+   * элементов, а до следующей мутации повторные вызовы возвращают тот же снимок
+   *
+   * @returns {ITreeSnapshot<T>} Снимок дерева
+   */
+  public snapshot(): ITreeSnapshot<T> {
+    this.snapshotCache ??= createTreeSnapshot(this.items, this.version);
+
+    return this.snapshotCache;
+  }
+
   /**
    * Получает элемент по его идентификатору
    *
    * @param {TreeItemId} id - Идентификатор элемента
-   * @returns {ITreeItem | undefined} Элемент или undefined если не найден
+   * @returns {T | undefined} Элемент или undefined если не найден
    */
-  public getItem(id: TreeItemId): ITreeItem | undefined {
+  public getItem(id: TreeItemId): T | undefined {
     return this.itemsMap.get(id);
   }
 
@@ -70,20 +308,45 @@ export default class TreeStore {
    * Получает массив прямых дочерних элементов
    *
    * @param {TreeItemId} id - Идентификатор родительского элемента
-   * @returns {ITreeItem[]} Массив дочерних элементов (пустой если детей нет)
+   * @returns {T[]} Массив дочерних элементов (пустой если детей нет)
    */
-  public getChildren(id: TreeItemId): ITreeItem[] {
+  public getChildren(id: TreeItemId): T[] {
     return this.childrenMap.get(id) || [];
   }
 
+  /**
+   * Получает корневые элементы в порядке отображения
+   *
+   * @returns {T[]} Массив корневых элементов
+   */
+  public getRoots(): T[] {
+    return this.rootItems;
+  }
+
+  /**
+   * Получает позицию элемента среди соседей
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {number} Индекс среди соседей или -1 если элемент не найден
+   */
+  public getIndex(id: TreeItemId): number {
+    const item = this.getItem(id);
+
+    if (!item) {
+      return -1;
+    }
+
+    return this.getSiblingsBucket(item.parent).findIndex((sibling) => sibling.id === id);
+  }
+
   /**
    * Получает все дочерние элементы рекурсивно (включая вложенные)
    *
    * @param {TreeItemId} id - Идентификатор родительского элемента
-   * @returns {ITreeItem[]} Массив всех потомков
+   * @returns {T[]} Массив всех потомков
    */
-  public getAllChildren(id: TreeItemId): ITreeItem[] {
-    const result: ITreeItem[] = [];
+  public getAllChildren(id: TreeItemId): T[] {
+    const result: T[] = [];
     const directChildren = this.getChildren(id);
 
     for (const child of directChildren) {
@@ -100,15 +363,15 @@ export default class TreeStore {
    * Получает цепочку родительских элементов от элемента до корня
    *
    * @param {TreeItemId} id - Идентификатор элемента
-   * @returns {ITreeItem[]} Массив родительских элементов
+   * @returns {T[]} Массив родительских элементов
    */
-  public getAllParents(id: TreeItemId): ITreeItem[] {
+  public getAllParents(id: TreeItemId): T[] {
     // Проверка кэша
     if (this.parentChainCache.has(id)) {
       return [...this.parentChainCache.get(id)!]; // Возвращаем копию!
     }
 
-    const result: ITreeItem[] = [];
+    const result: T[] = [];
     let currentItem = this.getItem(id);
 
     // Поднимаемся по цепочке родителей до корня
@@ -129,12 +392,200 @@ export default class TreeStore {
     return [...result];
   }
 
+  /**
+   * Ищет элементы по вхождению запроса в наименование.
+   * По умолчанию регистр, диакритика и различие ё/е не учитываются.
+   * Вместе с совпадениями возвращаются предки, без раскрытия которых найденные элементы не видны
+   *
+   * @param {string} query - Поисковый запрос
+   * @param {ITreeSearchOptions} [options] - Параметры поиска
+   * @returns {ITreeSearchResult} Совпадения в порядке обхода дерева в глубину
+   */
+  public search(query: string, options: ITreeSearchOptions = {}): ITreeSearchResult {
+    const matches: ITreeSearchMatch[] = [];
+    const ancestorIds = new Set<TreeItemId>();
+
+    if (!query.trim()) {
+      return { matches, ids: [], ancestorIds: [] };
+    }
+
+    const visit = (items: T[]) => {
+      for (const item of items) {
+        const match = findTextMatch(item.label, query, options);
+
+        if (match) {
+          matches.push({ id: item.id, ...match });
+
+          // Предки от корня к родителю: в этом порядке их удобно раскрывать
+          for (const parent of this.getAllParents(item.id).slice(1).reverse()) {
+            ancestorIds.add(parent.id);
+          }
+        }
+
+        visit(this.getChildren(item.id));
+      }
+    };
+
+    visit(this.rootItems);
+
+    return {
+      matches,
+      ids: matches.map((match) => match.id),
+      ancestorIds: [...ancestorIds],
+    };
+  }
+
+  /**
+   * Строит отфильтрованное представление дерева только для чтения.
+   * Хранилище не меняется; представление отражает текущее состояние и после мутаций строится заново
+   *
+   * @param {TreeItemPredicate<T>} predicate - Условие отбора элементов
+   * @param {ITreeFilterOptions} [options] - Режим фильтрации (по умолчанию 'keepAncestors')
+   * @returns {TreeFilterView<T>} Отфильтрованное представление
+   */
+  public filter(predicate: TreeItemPredicate<T>, options: ITreeFilterOptions = {}): TreeFilterView<T> {
+    return new TreeFilterView(this, predicate, options);
+  }
+
+  /**
+   * Задает генератор идентификаторов новых элементов, которым пользуется generateTreeItemId
+   * (например, клиент совместного редактирования выдает id, уникальные между клиентами)
+   *
+   * @param {Function | null} generator - Генератор (null - генерация по умолчанию)
+   */
+  public setItemIdGenerator(generator: (() => TreeItemId) | null): void {
+    this.itemIdGenerator = generator;
+  }
+
+  /**
+   * Выдает идентификатор нового элемента заданным генератором
+   *
+   * @returns {TreeItemId | undefined} Идентификатор или undefined, если генератор не задан
+   */
+  public createItemId(): TreeItemId | undefined {
+    return this.itemIdGenerator?.();
+  }
+
+  /**
+   * Проверяет, загружается ли дерево по веткам из источника данных
+   *
+   * @returns {boolean} true если задан источник данных
+   */
+  public hasDataSource(): boolean {
+    return this.dataSource !== undefined;
+  }
+
+  /**
+   * Возвращает состояние загрузки детей ветки
+   *
+   * @param {TreeItemId | null} parentId - Идентификатор элемента (null - корень)
+   * @returns {TreeLoadState} Состояние загрузки
+   */
+  public getLoadState(parentId: TreeItemId | null): TreeLoadState {
+    const state = this.loadStates.get(parentId);
+
+    if (state) {
+      return state;
+    }
+
+    if (parentId === null) {
+      return this.dataSource ? 'unloaded' : 'loaded';
+    }
+
+    return this.childrenHints.has(parentId) ? 'unloaded' : 'loaded';
+  }
+
+  /**
+   * Возвращает ошибку последней неудачной загрузки ветки
+   *
+   * @param {TreeItemId | null} parentId - Идентификатор элемента (null - корень)
+   * @returns {unknown} Ошибка или undefined
+   */
+  public getLoadError(parentId: TreeItemId | null): unknown {
+    return this.loadErrors.get(parentId);
+  }
+
+  /**
+   * Проверяет, есть ли у элемента дети, включая еще не загруженные
+   *
+   * @param {TreeItemId} id - Идентификатор элемента
+   * @returns {boolean} true если дети загружены или ожидаются по подсказке источника
+   */
+  public hasChildren(id: TreeItemId): boolean {
+    return this.getChildren(id).length > 0 || this.getLoadState(id) !== 'loaded';
+  }
+
+  /**
+   * Загружает детей ветки из источника данных.
+   * Загруженная ветка кэшируется и повторно не запрашивается; ветку с ошибкой можно запросить снова.
+   * Дети добавляются с проверкой целостности: в режиме 'strict' некорректный ответ
+   * переводит ветку в состояние error
+   *
+   * @param {TreeItemId | null} parentId - Идентификатор элемента (null - корень)
+   * @returns {Promise<T[]>} Дети ветки
+   * @throws {unknown} Ошибка источника данных или TreeValidationError
+   */
+  public loadChildren(parentId: TreeItemId | null): Promise<T[]> {
+    const pending = this.pendingLoads.get(parentId);
+
+    if (pending) {
+      return pending;
+    }
+
+    const dataSource = this.dataSource;
+
+    if (!dataSource || this.getLoadState(parentId) === 'loaded') {
+      return Promise.resolve(this.getSiblingsBucket(parentId).slice());
+    }
+
+    if (parentId !== null && !this.getItem(parentId)) {
+      return Promise.resolve([]);
+    }
+
+    // Синхронная ошибка источника тоже превращается в отклоненный промис
+    const load: Promise<T[]> = Promise.resolve()
+      .then(() => dataSource.loadChildren(parentId))
+      .then((nodes) => {
+        // Ветка удалена или данные заменены, пока шел запрос
+        if (this.pendingLoads.get(parentId) !== load) {
+          return [];
+        }
+
+        this.applyLoadedNodes(parentId, nodes);
+        this.pendingLoads.delete(parentId);
+
+        return this.getSiblingsBucket(parentId).slice();
+      })
+      .catch((error: unknown) => {
+        if (this.pendingLoads.get(parentId) === load) {
+          this.pendingLoads.delete(parentId);
+          this.loadErrors.set(parentId, error);
+          this.setLoadState(parentId, 'error', error);
+        }
+
+        throw error;
+      });
+
+    this.pendingLoads.set(parentId, load);
+    this.loadErrors.delete(parentId);
+    this.setLoadState(parentId, 'loading');
+
+    return load;
+  }
+
   /**
    * Добавляет новый элемент в хранилище
    *
-   * @param {ITreeItem} item - Новый элемент для добавления
+   * @param {T} item - Новый элемент для добавления
+   * @param {ITreeMutationOptions} [options] - Опции мутации
+   * @returns {boolean} true если элемент добавлен, false если отложен в карантин
+   * @throws {TreeValidationError} В режиме 'strict' при нарушении структуры
    */
-  public addItem(item: ITreeItem): void {
+  public addItem(item: T, options: ITreeMutationOptions = {}): boolean {
+    if (!this.checkMutation(item, validateNewItem(item, this), options)) {
+      return false;
+    }
+
     // Добавляем в массив и Map
 
     this.items.push(item);
@@ -142,11 +593,9 @@ export default class TreeStore {
     this.itemsMap.set(item.id, item);
 
     // Обновляем childrenMap для родителя
-    if (item.parent !== null) {
-      const siblings = this.childrenMap.get(item.parent) || [];
-      siblings.push(item);
-      this.childrenMap.set(item.parent, siblings);
+    this.insertIntoSiblings(item.parent, item, options.index);
 
+    if (item.parent !== null) {
       // Сбрасываем кэш родительских цепочек для всех потомков родителя
       this.invalidateParentChainCache(item.parent);
     }
@@ -155,6 +604,10 @@ export default class TreeStore {
     if (!this.childrenMap.has(item.id)) {
       this.childrenMap.set(item.id, []);
     }
+
+    this.events.emit('added', { ids: [item.id], item });
+
+    return true;
   }
 
   /**
@@ -170,76 +623,209 @@ export default class TreeStore {
       return false;
     }
 
+    const index = this.getIndex(id);
+
     // Получаем всех потомков для каскадного удаления
     const allChildren = this.getAllChildren(id);
     const itemsToRemove = [item, ...allChildren];
 
     for (const itemToRemove of itemsToRemove) {
-      const index = this.items.indexOf(itemToRemove);
+      const itemIndex = this.items.indexOf(itemToRemove);
 
-      if (index > -1) {
-        this.items.splice(index, 1);
+      if (itemIndex > -1) {
+        this.items.splice(itemIndex, 1);
       }
 
       this.itemsMap.delete(itemToRemove.id);
       this.childrenMap.delete(itemToRemove.id);
       this.parentChainCache.delete(itemToRemove.id);
+      this.pendingLoads.delete(itemToRemove.id);
     }
 
     // Удаляем ссылку из childrenMap родителя
+    this.removeFromChildrenMap(item.parent, id);
+
     if (item.parent !== null) {
-      this.removeFromChildrenMap(item.parent, id);
       this.invalidateParentChainCache(item.parent);
     }
 
+    this.events.emit('removed', {
+      ids: itemsToRemove.map((removedItem) => removedItem.id),
+      item,
+      items: itemsToRemove,
+      index,
+    });
+
+    // Состояние загрузки сбрасывается после события: подписчики убирают по нему строки-заглушки
+    for (const removedItem of itemsToRemove) {
+      this.loadStates.delete(removedItem.id);
+      this.loadErrors.delete(removedItem.id);
+      this.childrenHints.delete(removedItem.id);
+    }
+
     return true;
   }
 
   /**
    * Обновляет данные элемента
    *
-   * @param {ITreeItem} updatedItem - Обновленные данные элемента
-   * @returns {boolean} true если элемент был обновлен, false если не найден
+   * @param {T} updatedItem - Обновленные данные элемента
+   * @param {ITreeMutationOptions} [options] - Опции мутации
+   * @returns {boolean} true если элемент был обновлен, false если не найден или отложен в карантин
+   * @throws {TreeValidationError} В режиме 'strict' при нарушении структуры
    */
-  public updateItem(updatedItem: ITreeItem): boolean {
+  public updateItem(updatedItem: T, options: ITreeMutationOptions = {}): boolean {
     const existingItem = this.getItem(updatedItem.id);
 
     if (!existingItem) {
       return false;
     }
 
+    if (!this.checkMutation(updatedItem, validateItemUpdate(updatedItem, this), options)) {
+      return false;
+    }
+
     const oldParent = existingItem.parent;
     const newParent = updatedItem.parent;
     const parentChanged = oldParent !== newParent;
+    const positionChanged = parentChanged
+      || options.index !== undefined
+      || existingItem.order !== updatedItem.order;
+    const oldIndex = this.getIndex(updatedItem.id);
 
-    // Обновляем в массиве
-    const index = this.items.indexOf(existingItem);
+    // Обновляем в массиве и Map
+    this.replaceItemObjects(new Map([[existingItem, updatedItem]]));
 
-    if (index > -1) {
-      this.items[index] = updatedItem;
+    if (positionChanged) {
+      // Позицию определяет опция index или ранг order
+      this.removeFromChildrenMap(oldParent, updatedItem.id);
+      this.insertIntoSiblings(newParent, updatedItem, options.index);
+    } else {
+      // Заменяем объект в массиве детей родителя, чтобы getChildren не возвращал устаревшие данные
+      this.replaceInChildrenMap(newParent, updatedItem);
     }
 
-    this.itemsMap.set(updatedItem.id, updatedItem);
-
     if (parentChanged) {
-      if (oldParent !== null) {
-        this.removeFromChildrenMap(oldParent, updatedItem.id);
-        this.invalidateParentChainCache(oldParent);
-      }
+      this.invalidateMovedParentChains(oldParent, newParent, updatedItem.id);
+    } else {
+      // Цепочки родителей потомков содержат ссылку на старый объект
+      this.invalidateParentChainCacheRecursive(updatedItem.id);
+    }
 
-      if (newParent !== null) {
-        const siblings = this.childrenMap.get(newParent) || [];
-        siblings.push(updatedItem);
-        this.childrenMap.set(newParent, siblings);
-        this.invalidateParentChainCache(newParent);
-      }
+    if (parentChanged || this.getIndex(updatedItem.id) !== oldIndex) {
+      this.emitMoved(existingItem, updatedItem, oldIndex, []);
+    } else {
+      this.events.emit('updated', {
+        ids: [updatedItem.id],
+        oldItem: existingItem,
+        newItem: updatedItem,
+      });
+    }
 
-      this.invalidateParentChainCacheRecursive(updatedItem.id);
+    return true;
+  }
+
+  /**
+   * Переносит элемент к родителю на заданную позицию среди его детей.
+   * Позволяет как сменить родителя, так и изменить порядок среди текущих соседей.
+   * Элемент получает ранг order между новыми соседями; если у соседей ранга нет
+   * или между рангами не осталось места, соседи нормализуются (ранги 1, 2, 3...)
+   *
+   * @param {TreeItemId} id - Идентификатор переносимого элемента
+   * @param {TreeItemId | null} newParent - Новый родитель (null для корня)
+   * @param {number} [index] - Итоговая позиция среди соседей (по умолчанию - в конец)
+   * @param {ITreeMutationOptions} [options] - Опции мутации
+   * @returns {boolean} true если элемент перенесен, false если не найден или отложен в карантин
+   * @throws {TreeValidationError} В режиме 'strict' при нарушении структуры
+   */
+  public moveItem(
+    id: TreeItemId,
+    newParent: TreeItemId | null,
+    index?: number,
+    options: ITreeMutationOptions = {}
+  ): boolean {
+    const existingItem = this.getItem(id);
+
+    if (!existingItem) {
+      return false;
     }
 
+    const oldParent = existingItem.parent;
+    const parentChanged = oldParent !== newParent;
+    const candidate = { ...existingItem, parent: newParent };
+
+    if (!this.checkMutation(candidate, validateItemUpdate(candidate, this), options)) {
+      return false;
+    }
+
+    const oldIndex = this.getIndex(id);
+
+    this.removeFromChildrenMap(oldParent, id);
+
+    const siblings = this.getSiblingsBucket(newParent);
+    const newIndex = Math.max(0, Math.min(index ?? siblings.length, siblings.length));
+    const getNeighbourOrder = () => getOrderBetween(
+      siblings[newIndex - 1]?.order,
+      siblings[newIndex]?.order
+    );
+
+    let reordered: ITreeItemChange<T>[] = [];
+    let order = siblings.some((sibling) => sibling.order === undefined) ? null : getNeighbourOrder();
+
+    if (order === null) {
+      reordered = this.normalizeSiblingOrder(newParent);
+      order = getNeighbourOrder()!;
+    }
+
+    const movedItem = { ...candidate, order };
+    siblings.splice(newIndex, 0, movedItem);
+    this.replaceItemObjects(new Map([[existingItem, movedItem]]));
+
+    if (parentChanged) {
+      this.invalidateMovedParentChains(oldParent, newParent, id);
+    } else {
+      this.invalidateParentChainCacheRecursive(id);
+    }
+
+    this.emitMoved(existingItem, movedItem, oldIndex, reordered);
+
     return true;
   }
 
+  /**
+   * Ставит элемент перед целевым элементом (целевой родитель становится родителем элемента)
+   *
+   * @param {TreeItemId} id - Идентификатор переносимого элемента
+   * @param {TreeItemId} targetId - Идентификатор соседа, перед которым встанет элемент
+   * @param {ITreeMutationOptions} [options] - Опции мутации
+   * @returns {boolean} true если элемент перенесен
+   * @throws {TreeValidationError} В режиме 'strict' при нарушении структуры
+   */
+  public insertBefore(
+    id: TreeItemId,
+    targetId: TreeItemId,
+    options: ITreeMutationOptions = {}
+  ): boolean {
+    return this.insertNextTo(id, targetId, 0, options);
+  }
+
+  /**
+   * Ставит элемент после целевого элемента (целевой родитель становится родителем элемента)
+   *
+   * @param {TreeItemId} id - Идентификатор переносимого элемента
+   * @param {TreeItemId} targetId - Идентификатор соседа, после которого встанет элемент
+   * @param {ITreeMutationOptions} [options] - Опции мутации
+   * @returns {boolean} true если элемент перенесен
+   * @throws {TreeValidationError} В режиме 'strict' при нарушении структуры
+   */
+  public insertAfter(
+    id: TreeItemId,
+    targetId: TreeItemId,
+    options: ITreeMutationOptions = {}
+  ): boolean {
+    return this.insertNextTo(id, targetId, 1, options);
+  }
+
   /**
    * Строит все индексы за один проход массива
    * @private
@@ -248,6 +834,7 @@ export default class TreeStore {
     this.itemsMap.clear();
     this.childrenMap.clear();
     this.parentChainCache.clear();
+    this.rootItems = [];
 
     for (const item of this.items) {
       this.itemsMap.set(item.id, item);
@@ -257,19 +844,278 @@ export default class TreeStore {
       }
     }
 
-    // Второй проход для заполнения childrenMap
+    // Второй проход для заполнения childrenMap.
+    // Родитель гарантированно существует: некорректные элементы отсеяны при валидации
     for (const item of this.items) {
-      if (item.parent !== null) {
-        const children = this.childrenMap.get(item.parent);
-
-        if (children) {
-          children.push(item);
-        } else {
-          // Если родитель не существует, создаем массив
-          this.childrenMap.set(item.parent, [item]);
+      this.getSiblingsBucket(item.parent).push(item);
+    }
+
+    // Сортировка стабильна: без рангов сохраняется исходный порядок
+    if (this.items.some((item) => item.order !== undefined)) {
+      this.rootItems.sort(compareTreeItemOrder);
+
+      for (const children of this.childrenMap.values()) {
+        children.sort(compareTreeItemOrder);
+      }
+    }
+  }
+
+  /**
+   * Добавляет загруженных детей ветки и отмечает ветку загруженной
+   * @private
+   */
+  private applyLoadedNodes(parentId: TreeItemId | null, nodes: ITreeDataSourceNode<T>[]): void {
+    const items: T[] = [];
+
+    // Сначала проверяем весь ответ, чтобы в режиме 'strict' не добавить его частично.
+    // Повтор id внутри ответа хранилище еще не видит, поэтому он проверяется отдельно
+    const seen = new Set<TreeItemId>();
+    const checked = nodes.map((node) => {
+      const report = seen.has(node.item.id)
+        ? { valid: false, issues: [createValidationIssue('duplicate', node.item)] }
+        : validateNewItem(node.item, this);
+
+      seen.add(node.item.id);
+
+      return { node, report };
+    });
+    const invalid = checked.find(({ report }) => !report.valid);
+
+    if (invalid && this.resolveMode({}) === 'strict') {
+      throw new TreeValidationError(invalid.report);
+    }
+
+    for (const { node, report } of checked) {
+      if (!this.checkMutation(node.item, report, {})) {
+        continue;
+      }
+
+      this.items.push(node.item);
+      this.itemsMap.set(node.item.id, node.item);
+      this.insertIntoSiblings(node.item.parent, node.item);
+      this.childrenMap.set(node.item.id, []);
+
+      if (node.hasChildren) {
+        this.childrenHints.add(node.item.id);
+      }
+
+      items.push(node.item);
+    }
+
+    if (parentId !== null) {
+      this.invalidateParentChainCache(parentId);
+    }
+
+    this.loadStates.set(parentId, 'loaded');
+    this.events.emit('loaded', { ids: items.map((item) => item.id), parent: parentId, items });
+    this.setLoadState(parentId, 'loaded');
+  }
+
+  /**
+   * Меняет состояние загрузки ветки и сообщает об этом
+   * @private
+   */
+  private setLoadState(parentId: TreeItemId | null, state: TreeLoadState, error?: unknown): void {
+    this.loadStates.set(parentId, state);
+    this.events.emit('loadStateChanged', {
+      ids: parentId === null ? [] : [parentId],
+      parent: parentId,
+      state,
+      ...(error === undefined ? {} : { error }),
+    });
+  }
+
+  /**
+   * Вставляет элемент в список соседей: на позицию index или согласно рангу order
+   * @private
+   */
+  private insertIntoSiblings(parentId: TreeItemId | null, item: T, index?: number): void {
+    const siblings = this.getSiblingsBucket(parentId);
+
+    if (index !== undefined) {
+      siblings.splice(Math.max(0, Math.min(index, siblings.length)), 0, item);
+    } else if (item.order === undefined) {
+      // Элементы без ранга всегда идут в конце
+      siblings.push(item);
+    } else {
+      siblings.splice(findOrderedIndex(siblings, item), 0, item);
+    }
+  }
+
+  /**
+   * Назначает соседям последовательные ранги, сохраняя их текущий порядок
+   * @private
+   * @returns {ITreeItemChange<T>[]} Соседи, чей ранг изменился
+   */
+  private normalizeSiblingOrder(parentId: TreeItemId | null): ITreeItemChange<T>[] {
+    const siblings = this.getSiblingsBucket(parentId);
+    const changes: ITreeItemChange<T>[] = [];
+
+    for (let index = 0; index < siblings.length; index++) {
+      const sibling = siblings[index]!;
+      const order = (index + 1) * ORDER_STEP;
+
+      if (sibling.order === order) {
+        continue;
+      }
+
+      const normalized = { ...sibling, order };
+      siblings[index] = normalized;
+      changes.push({ oldItem: sibling, newItem: normalized });
+      this.invalidateParentChainCacheRecursive(sibling.id);
+    }
+
+    this.replaceItemObjects(new Map(changes.map(({ oldItem, newItem }) => [oldItem, newItem])));
+
+    return changes;
+  }
+
+  /**
+   * Заменяет объекты элементов в исходном массиве и индексе за один проход
+   * @private
+   */
+  private replaceItemObjects(replacements: Map<T, T>): void {
+    if (replacements.size === 0) {
+      return;
+    }
+
+    if (replacements.size === 1) {
+      // Одиночная замена - частый случай, обходимся без полного прохода по массиву
+      for (const [oldItem, newItem] of replacements) {
+        const index = this.items.indexOf(oldItem);
+
+        if (index > -1) {
+          this.items[index] = newItem;
+        }
+      }
+    } else {
+      for (let index = 0; index < this.items.length; index++) {
+        const replacement = replacements.get(this.items[index]!);
+
+        if (replacement) {
+          this.items[index] = replacement;
         }
       }
     }
+
+    for (const newItem of replacements.values()) {
+      this.itemsMap.set(newItem.id, newItem);
+    }
+  }
+
+  /**
+   * Переносит элемент на позицию рядом с целевым элементом
+   * @private
+   */
+  private insertNextTo(
+    id: TreeItemId,
+    targetId: TreeItemId,
+    offset: 0 | 1,
+    options: ITreeMutationOptions
+  ): boolean {
+    const target = this.getItem(targetId);
+
+    if (!target || !this.getItem(id) || id === targetId) {
+      return false;
+    }
+
+    const siblings = this.getSiblingsBucket(target.parent).filter((sibling) => sibling.id !== id);
+    const index = siblings.findIndex((sibling) => sibling.id === targetId) + offset;
+
+    return this.moveItem(id, target.parent, index, options);
+  }
+
+  /**
+   * Возвращает изменяемый список соседей: детей родителя или корневые элементы
+   * @private
+   */
+  private getSiblingsBucket(parentId: TreeItemId | null): T[] {
+    if (parentId === null) {
+      return this.rootItems;
+    }
+
+    let siblings = this.childrenMap.get(parentId);
+
+    if (!siblings) {
+      siblings = [];
+      this.childrenMap.set(parentId, siblings);
+    }
+
+    return siblings;
+  }
+
+  /**
+   * Сбрасывает кэш цепочек после смены родителя элемента
+   * @private
+   */
+  private invalidateMovedParentChains(
+    oldParent: TreeItemId | null,
+    newParent: TreeItemId | null,
+    id: TreeItemId
+  ): void {
+    if (oldParent !== null) {
+      this.invalidateParentChainCache(oldParent);
+    }
+
+    if (newParent !== null) {
+      this.invalidateParentChainCache(newParent);
+    }
+
+    this.invalidateParentChainCacheRecursive(id);
+  }
+
+  /**
+   * Сообщает о переносе элемента
+   * @private
+   */
+  private emitMoved(
+    oldItem: T,
+    newItem: T,
+    oldIndex: number,
+    reordered: ITreeItemChange<T>[]
+  ): void {
+    this.events.emit('moved', {
+      ids: [newItem.id, ...this.getAllChildren(newItem.id).map((child) => child.id)],
+      oldItem,
+      newItem,
+      oldParent: oldItem.parent,
+      newParent: newItem.parent,
+      oldIndex,
+      newIndex: this.getIndex(newItem.id),
+      reordered,
+    });
+  }
+
+  /**
+   * Определяет режим валидации для мутации
+   * @private
+   */
+  private resolveMode(options: ITreeMutationOptions): TreeValidationMode {
+    return options.validationMode ?? this.validationMode;
+  }
+
+  /**
+   * Применяет результат валидации к мутации: выбрасывает ошибку
+   * или откладывает элемент в карантин
+   * @private
+   * @returns {boolean} true если мутацию можно применять
+   */
+  private checkMutation(
+    item: T,
+    report: ITreeValidationReport,
+    options: ITreeMutationOptions
+  ): boolean {
+    if (report.valid) {
+      return true;
+    }
+
+    if (this.resolveMode(options) === 'strict') {
+      throw new TreeValidationError(report);
+    }
+
+    this.quarantine.push({ item, issues: report.issues });
+
+    return false;
   }
 
   /**
@@ -298,15 +1144,25 @@ export default class TreeStore {
    * Удаляет элемент из массива детей родителя
    * @private
    */
-  private removeFromChildrenMap(parentId: TreeItemId, childId: TreeItemId): void {
-    const children = this.childrenMap.get(parentId);
+  private removeFromChildrenMap(parentId: TreeItemId | null, childId: TreeItemId): void {
+    const children = this.getSiblingsBucket(parentId);
+    const index = children.findIndex((child) => child.id === childId);
 
-    if (children) {
-      const index = children.findIndex((child) => child.id === childId);
+    if (index > -1) {
+      children.splice(index, 1);
+    }
+  }
 
-      if (index > -1) {
-        children.splice(index, 1);
-      }
+  /**
+   * Заменяет элемент в массиве детей родителя, сохраняя его позицию
+   * @private
+   */
+  private replaceInChildrenMap(parentId: TreeItemId | null, item: T): void {
+    const children = this.getSiblingsBucket(parentId);
+    const index = children.findIndex((child) => child.id === item.id);
+
+    if (index > -1) {
+      children[index] = item;
     }
   }
 }
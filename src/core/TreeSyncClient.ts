@@ -0,0 +1,471 @@
+import type {
+  ITreeItem,
+  ITreeRemoteSelection,
+  ITreeSyncEvents,
+  ITreeSyncOptions,
+  ITreeSyncStamp,
+  ITreeSyncTransport,
+  ITreeSyncUser,
+  TreeItemId,
+  TreeSyncMessage,
+  TreeSyncOperation,
+} from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+import TreeCrdt from '@/core/TreeCrdt.ts';
+import TreeEventBus from '@/core/TreeEventBus.ts';
+
+/**
+ * Поля положения: передаются операциями create и move, а не set
+ */
+const POSITION_FIELDS = new Set(['id', 'parent', 'order']);
+
+/**
+ * Метка общих исходных данных: любая правка клиента новее ее
+ */
+const BASE_STAMP: ITreeSyncStamp = { counter: 0, clientId: '' };
+
+/**
+ * Цвет отметки выбранных строк по умолчанию
+ */
+const DEFAULT_COLOR = '#1e88e5';
+
+/**
+ * Создает случайный идентификатор клиента
+ *
+ * @returns {string} Идентификатор
+ */
+function createClientId(): string {
+  return globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2);
+}
+
+/**
+ * Возвращает поля элемента кроме id, parent и order
+ *
+ * @param {T} item - Элемент
+ * @returns {Record<string, unknown>} Поля
+ */
+function getFields<T extends ITreeItem>(item: Readonly<T>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(item).filter(([field]) => !POSITION_FIELDS.has(field)));
+}
+
+/**
+ * Создает операцию создания элемента
+ *
+ * @param {T} item - Элемент
+ * @param {ITreeSyncStamp} stamp - Метка операции
+ * @param {number} [index] - Позиция среди соседей в общих исходных данных
+ * @returns {TreeSyncOperation} Операция create
+ */
+function createOperation<T extends ITreeItem>(item: Readonly<T>, stamp: ITreeSyncStamp, index?: number): TreeSyncOperation {
+  return {
+    type: 'create',
+    id: item.id,
+    parent: item.parent,
+    ...item.order !== undefined ? { order: item.order } : {},
+    ...index !== undefined ? { index } : {},
+    fields: getFields(item),
+    stamp,
+  };
+}
+
+/**
+ * Сравнивает поля двух версий элемента (кроме id, parent и order)
+ *
+ * @param {T} oldItem - Прежняя версия
+ * @param {T} newItem - Новая версия
+ * @returns Измененные и удаленные поля
+ */
+function diffFields<T extends ITreeItem>(oldItem: Readonly<T>, newItem: Readonly<T>) {
+  const oldFields = getFields(oldItem);
+  const newFields = getFields(newItem);
+  const fields = Object.fromEntries(
+    Object.entries(newFields).filter(([field, value]) => !(field in oldFields) || !Object.is(oldFields[field], value))
+  );
+  const unset = Object.keys(oldFields).filter((field) => !(field in newFields));
+
+  return { fields, unset };
+}
+
+/**
+ * Клиент совместного редактирования: синхронизирует TreeStore с другими клиентами через транспорт.
+ * Локальные мутации хранилища превращаются в операции TreeCrdt и рассылаются остальным;
+ * полученные операции применяются к CRDT, а итоговое дерево переносится в хранилище
+ * минимальными мутациями. Одновременные переносы, удаления и переименования сходятся
+ * к одному дереву у всех клиентов (правила - в TreeCrdt)
+ *
+ * Текущее содержимое хранилища и загруженные ветки считаются общими исходными данными:
+ * у всех клиентов они должны совпадать (например, загружены с одного сервера).
+ * Новый клиент запрашивает у остальных все операции и догоняет их состояние.
+ * Порядок соседей передается рангом order (его назначают moveItem и перетаскивание).
+ * Пока клиент подключен, generateTreeItemId (и добавление строк в TreeGrid) выдает
+ * идентификаторы с префиксом clientId, уникальные между клиентами
+ *
+ * @class TreeSyncClient
+ * @template T - Тип элемента дерева
+ */
+export default class TreeSyncClient<T extends ITreeItem = ITreeItem> {
+  /**
+   * Идентификатор клиента
+   */
+  public readonly clientId: string;
+
+  /**
+   * Реплицируемое дерево
+   * @private
+   */
+  private crdt: TreeCrdt<T>;
+
+  /**
+   * Участник, от имени которого рассылаются выбранные строки
+   * @private
+   */
+  private user: ITreeSyncUser;
+
+  /**
+   * Выбранные строки этого клиента
+   * @private
+   */
+  private selected: TreeItemId[] = [];
+
+  /**
+   * Выбранные строки остальных клиентов по clientId
+   * @private
+   */
+  private peers: Map<string, ITreeRemoteSelection> = new Map();
+
+  /**
+   * Счетчик идентификаторов новых элементов
+   * @private
+   */
+  private itemCounter = 0;
+
+  /**
+   * Флаг применения удаленных изменений (события хранилища в этот момент не рассылаются)
+   * @private
+   */
+  private applying = false;
+
+  /**
+   * Шина событий клиента
+   * @private
+   */
+  private events = new TreeEventBus<ITreeSyncEvents>();
+
+  /**
+   * Функции отписки от хранилища и транспорта
+   * @private
+   */
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * @param {TreeStore<T>} treeStore - Синхронизируемое хранилище
+   * @param {ITreeSyncTransport} transport - Транспорт сообщений
+   * @param {ITreeSyncOptions} [options] - Идентификатор клиента и участник
+   */
+  constructor(
+    private treeStore: TreeStore<T>,
+    private transport: ITreeSyncTransport,
+    options: ITreeSyncOptions = {}
+  ) {
+    this.clientId = options.clientId ?? createClientId();
+    this.user = options.user ?? { name: this.clientId, color: DEFAULT_COLOR };
+    this.crdt = new TreeCrdt<T>(this.clientId);
+
+    this.seed(this.getStoreItems());
+    treeStore.setItemIdGenerator(() => this.createItemId());
+
+    this.unsubscribers = [
+      treeStore.on('added', ({ item }) => this.broadcast(() => [createOperation(item, this.crdt.createStamp())])),
+      treeStore.on('removed', ({ item }) => this.broadcast(() => [{
+        type: 'delete',
+        id: item.id,
+        stamp: this.crdt.createStamp(),
+      }])),
+      treeStore.on('updated', ({ oldItem, newItem }) => this.broadcast(() => this.createChanges(oldItem, newItem))),
+      treeStore.on('moved', ({ oldItem, newItem, reordered }) => this.broadcast(() => [
+        ...reordered.flatMap((change) => this.createChanges(change.oldItem, change.newItem)),
+        ...this.createChanges(oldItem, newItem),
+      ])),
+      treeStore.on('reset', ({ items, previousItems }) => this.broadcast(() => this.createReset(previousItems, items))),
+      // Загруженная ветка - общие данные, но к ней уже могли относиться полученные правки
+      treeStore.on('loaded', ({ items }) => {
+        if (!this.applying) {
+          this.seed(items);
+          this.applyToStore();
+        }
+      }),
+      transport.subscribe((message) => this.receive(message)),
+    ];
+
+    this.transport.send({ type: 'hello', clientId: this.clientId });
+  }
+
+  /**
+   * Подписывается на событие клиента
+   *
+   * @param {keyof ITreeSyncEvents} event - Имя события
+   * @param {Function} handler - Обработчик
+   * @returns {Function} Функция отписки
+   */
+  public on<E extends keyof ITreeSyncEvents>(event: E, handler: (payload: ITreeSyncEvents[E]) => void): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Рассылает выбранные строки этого клиента остальным
+   *
+   * @param {TreeItemId[]} ids - Выбранные элементы
+   */
+  public setSelection(ids: TreeItemId[]): void {
+    this.selected = [...ids];
+    this.sendPresence();
+  }
+
+  /**
+   * Возвращает выбранные строки остальных клиентов (для TreeGrid remoteSelections)
+   *
+   * @returns {ITreeRemoteSelection[]} Выбранные строки по участникам
+   */
+  public getRemoteSelections(): ITreeRemoteSelection[] {
+    return [...this.peers.values()];
+  }
+
+  /**
+   * Создает идентификатор нового элемента, уникальный между клиентами: clientId и порядковый номер
+   *
+   * @returns {string} Идентификатор
+   */
+  public createItemId(): string {
+    let id = `${this.clientId}:${++this.itemCounter}`;
+
+    // Клиент с постоянным clientId мог создать элементы в прошлой сессии
+    while (this.crdt.has(id)) {
+      id = `${this.clientId}:${++this.itemCounter}`;
+    }
+
+    return id;
+  }
+
+  /**
+   * Сообщает остальным об отключении, отписывается от хранилища и закрывает транспорт
+   */
+  public destroy(): void {
+    this.transport.send({ type: 'leave', clientId: this.clientId });
+    this.treeStore.setItemIdGenerator(null);
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.transport.close?.();
+  }
+
+  /**
+   * Обрабатывает сообщение другого клиента
+   * @private
+   */
+  private receive(message: TreeSyncMessage): void {
+    // Сервер может возвращать отправителю его же сообщения
+    if (message.clientId === this.clientId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'hello':
+        this.transport.send({ type: 'operations', clientId: this.clientId, operations: this.crdt.getOperations() });
+        this.sendPresence();
+        break;
+      case 'operations': {
+        if (this.crdt.applyAll(message.operations)) {
+          this.applyToStore();
+        }
+
+        break;
+      }
+      case 'presence':
+        this.peers.set(message.clientId, {
+          clientId: message.clientId,
+          user: message.user,
+          ids: message.selected,
+        });
+        this.emitPresence();
+        break;
+      case 'leave':
+        if (this.peers.delete(message.clientId)) {
+          this.emitPresence();
+        }
+
+        break;
+    }
+  }
+
+  /**
+   * Применяет локальные операции к CRDT и рассылает их.
+   * Изменения, внесенные самим клиентом при применении удаленных операций, не рассылаются
+   * @private
+   */
+  private broadcast(createOperations: () => TreeSyncOperation[]): void {
+    if (this.applying) {
+      return;
+    }
+
+    const operations = createOperations();
+
+    if (operations.length === 0) {
+      return;
+    }
+
+    this.crdt.applyAll(operations);
+    this.transport.send({ type: 'operations', clientId: this.clientId, operations });
+  }
+
+  /**
+   * Создает операции изменения элемента: set для полей и move для положения
+   * @private
+   */
+  private createChanges(oldItem: Readonly<T>, newItem: Readonly<T>): TreeSyncOperation[] {
+    const operations: TreeSyncOperation[] = [];
+    const { fields, unset } = diffFields(oldItem, newItem);
+
+    if (Object.keys(fields).length > 0 || unset.length > 0) {
+      operations.push({ type: 'set', id: newItem.id, fields, unset, stamp: this.crdt.createStamp() });
+    }
+
+    if (oldItem.parent !== newItem.parent || oldItem.order !== newItem.order) {
+      operations.push({
+        type: 'move',
+        id: newItem.id,
+        parent: newItem.parent,
+        ...newItem.order !== undefined ? { order: newItem.order } : {},
+        stamp: this.crdt.createStamp(),
+      });
+    }
+
+    return operations;
+  }
+
+  /**
+   * Создает операции полной замены содержимого: удаление, добавление и изменение элементов
+   * @private
+   */
+  private createReset(previousItems: T[], items: T[]): TreeSyncOperation[] {
+    const previous = new Map(previousItems.map((item) => [item.id, item]));
+    const current = new Set(items.map((item) => item.id));
+    const removed: TreeSyncOperation[] = previousItems
+      .filter((item) => !current.has(item.id))
+      .map((item) => ({ type: 'delete', id: item.id, stamp: this.crdt.createStamp() }));
+
+    return [
+      ...removed,
+      ...items.flatMap((item): TreeSyncOperation[] => {
+        const oldItem = previous.get(item.id);
+
+        return oldItem ? this.createChanges(oldItem, item) : [createOperation(item, this.crdt.createStamp())];
+      }),
+    ];
+  }
+
+  /**
+   * Записывает элементы в CRDT как общие исходные данные (без рассылки)
+   * вместе с их позициями среди соседей
+   * @private
+   */
+  private seed(items: T[]): void {
+    const indexes = new Map<TreeItemId | null, number>();
+
+    this.crdt.applyAll(items.map((item) => {
+      const index = indexes.get(item.parent) ?? 0;
+
+      indexes.set(item.parent, index + 1);
+
+      return createOperation(item, BASE_STAMP, index);
+    }));
+  }
+
+  /**
+   * Возвращает элементы хранилища в порядке обхода в глубину: так исходные соседи без ранга
+   * получают в CRDT тот же порядок, что и в хранилище
+   * @private
+   */
+  private getStoreItems(): T[] {
+    const items: T[] = [];
+    const visit = (children: T[]) => children.forEach((item) => {
+      items.push(item);
+      visit(this.treeStore.getChildren(item.id));
+    });
+
+    visit(this.treeStore.getRoots());
+
+    return items;
+  }
+
+  /**
+   * Переносит дерево CRDT в хранилище минимальными мутациями.
+   * Элементы обходятся в глубину, поэтому к моменту переноса элемента его новые предки
+   * уже на своих местах и перенос не создает цикл. Лишние элементы удаляются последними:
+   * их потомки, оставшиеся в дереве, к этому моменту уже перенесены.
+   * При ленивой загрузке переносятся только элементы загруженных веток: остальные
+   * придут из источника данных и получат правки при загрузке
+   * @private
+   */
+  private applyToStore(): void {
+    const targetIds = new Set<TreeItemId>();
+    const target = this.crdt.getItems().filter((item) => {
+      const inLoadedBranch = (item.parent === null || targetIds.has(item.parent))
+        && this.treeStore.getLoadState(item.parent) === 'loaded';
+
+      if (inLoadedBranch) {
+        targetIds.add(item.id);
+      }
+
+      return inLoadedBranch;
+    });
+    const indexes = new Map<TreeItemId | null, number>();
+
+    this.applying = true;
+
+    try {
+      for (const item of target) {
+        const index = indexes.get(item.parent) ?? 0;
+        const current = this.treeStore.getItem(item.id);
+
+        indexes.set(item.parent, index + 1);
+
+        if (!current) {
+          this.treeStore.addItem(item, { index });
+
+          continue;
+        }
+
+        const { fields, unset } = diffFields(current, item);
+        const changed = Object.keys(fields).length > 0
+          || unset.length > 0
+          || current.parent !== item.parent
+          || current.order !== item.order;
+
+        if (changed || this.treeStore.getIndex(item.id) !== index) {
+          this.treeStore.updateItem(item, { index });
+        }
+      }
+
+      this.treeStore.getAll()
+        .filter((item) => !targetIds.has(item.id))
+        .forEach((item) => this.treeStore.removeItem(item.id));
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  /**
+   * Рассылает участника и его выбранные строки
+   * @private
+   */
+  private sendPresence(): void {
+    this.transport.send({ type: 'presence', clientId: this.clientId, user: this.user, selected: this.selected });
+  }
+
+  /**
+   * Сообщает подписчикам о выбранных строках остальных клиентов
+   * @private
+   */
+  private emitPresence(): void {
+    this.events.emit('presence', { selections: this.getRemoteSelections() });
+  }
+}
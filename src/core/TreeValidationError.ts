@@ -0,0 +1,21 @@
+import type { ITreeValidationIssue, ITreeValidationReport } from '@/types/tree.types.ts';
+
+/**
+ * Ошибка нарушения структуры дерева.
+ * Выбрасывается мутациями TreeStore в режиме валидации 'strict'
+ *
+ * @class TreeValidationError
+ */
+export default class TreeValidationError extends Error {
+  /**
+   * Найденные нарушения
+   */
+  public readonly issues: ITreeValidationIssue[];
+
+  constructor(report: ITreeValidationReport) {
+    super(report.issues.map((issue) => issue.message).join('; '));
+
+    this.name = 'TreeValidationError';
+    this.issues = report.issues;
+  }
+}
@@ -0,0 +1,75 @@
+import type { ITreeSyncTransport, TreeSyncMessage } from '@/types/tree.types.ts';
+
+/**
+ * Состояния WebSocket.readyState
+ */
+const CONNECTING = 0;
+const OPEN = 1;
+
+/**
+ * Транспорт совместного редактирования через WebSocket.
+ * Сообщения передаются в JSON; сервер пересылает каждое сообщение остальным клиентам
+ * (вернувшиеся отправителю сообщения клиент игнорирует). Сообщения, отправленные
+ * до установки соединения, уходят после его открытия
+ *
+ * @class WebSocketTreeTransport
+ */
+export default class WebSocketTreeTransport implements ITreeSyncTransport {
+  /**
+   * Соединение с сервером
+   * @private
+   */
+  private socket: WebSocket;
+
+  /**
+   * Сообщения, ожидающие открытия соединения
+   * @private
+   */
+  private queue: string[] = [];
+
+  /**
+   * @param {WebSocket | string} socket - Открытое или открывающееся соединение либо адрес сервера
+   */
+  constructor(socket: WebSocket | string) {
+    this.socket = typeof socket === 'string' ? new WebSocket(socket) : socket;
+    this.socket.addEventListener('open', () => {
+      this.queue.forEach((data) => this.socket.send(data));
+      this.queue = [];
+    });
+  }
+
+  public send(message: TreeSyncMessage): void {
+    const data = JSON.stringify(message);
+
+    if (this.socket.readyState === OPEN) {
+      this.socket.send(data);
+    } else if (this.socket.readyState === CONNECTING) {
+      this.queue.push(data);
+    }
+  }
+
+  public subscribe(handler: (message: TreeSyncMessage) => void): () => void {
+    const listener = (event: MessageEvent<string>) => {
+      let message: TreeSyncMessage;
+
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        console.error('Некорректное сообщение совместного редактирования', error);
+
+        return;
+      }
+
+      handler(message);
+    };
+
+    this.socket.addEventListener('message', listener);
+
+    return () => this.socket.removeEventListener('message', listener);
+  }
+
+  public close(): void {
+    this.queue = [];
+    this.socket.close();
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import BroadcastChannelTreeTransport from '../BroadcastChannelTreeTransport';
+import type { TreeSyncMessage } from '@/types/tree.types';
+
+class FakeBroadcastChannel extends EventTarget {
+  static channels: FakeBroadcastChannel[] = [];
+
+  public closed = false;
+
+  constructor(public name: string) {
+    super();
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.channels
+      .filter((channel) => channel !== this && channel.name === this.name && !channel.closed)
+      .forEach((channel) => channel.dispatchEvent(new MessageEvent('message', { data })));
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+describe('BroadcastChannelTreeTransport', () => {
+  const message: TreeSyncMessage = { type: 'hello', clientId: 'a' };
+
+  beforeEach(() => {
+    FakeBroadcastChannel.channels = [];
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should deliver messages to other transports of the channel', () => {
+    const sender = new BroadcastChannelTreeTransport('tree');
+    const receiver = new BroadcastChannelTreeTransport('tree');
+    const other = new BroadcastChannelTreeTransport('other');
+    const onReceive = vi.fn();
+    const onOther = vi.fn();
+    const onSender = vi.fn();
+    receiver.subscribe(onReceive);
+    other.subscribe(onOther);
+    sender.subscribe(onSender);
+
+    sender.send(message);
+
+    expect(onReceive).toHaveBeenCalledWith(message);
+    expect(onOther).not.toHaveBeenCalled();
+    expect(onSender).not.toHaveBeenCalled();
+  });
+
+  it('should unsubscribe and close the channel', () => {
+    const sender = new BroadcastChannelTreeTransport('tree');
+    const receiver = new BroadcastChannelTreeTransport('tree');
+    const onReceive = vi.fn();
+    const unsubscribe = receiver.subscribe(onReceive);
+
+    unsubscribe();
+    sender.send(message);
+    receiver.close();
+
+    expect(onReceive).not.toHaveBeenCalled();
+    expect(FakeBroadcastChannel.channels[1]!.closed).toBe(true);
+  });
+});
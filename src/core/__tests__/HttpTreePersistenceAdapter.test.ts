@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import HttpTreePersistenceAdapter from '../HttpTreePersistenceAdapter';
+import TreePersistenceError from '../TreePersistenceError';
+import type { ITreeItem } from '@/types/tree.types';
+
+describe('HttpTreePersistenceAdapter', () => {
+  const item: ITreeItem = { id: 'a/1', parent: null, label: 'Root' };
+
+  const createAdapter = (response: () => Promise<Response>, endpoints = {}) => {
+    const fetchMock = vi.fn<typeof fetch>(response);
+    const adapter = new HttpTreePersistenceAdapter({
+      baseUrl: 'https://api.test/tree',
+      endpoints,
+      headers: { Authorization: 'Bearer token' },
+      fetch: fetchMock,
+    });
+
+    return { adapter, fetchMock };
+  };
+
+  const json = (body: unknown, status = 200) => () => Promise.resolve(new Response(JSON.stringify(body), { status }));
+  const empty = (status = 204) => () => Promise.resolve(new Response(null, { status }));
+
+  it('should load items', async () => {
+    const { adapter, fetchMock } = createAdapter(json([item]));
+
+    await expect(adapter.list()).resolves.toEqual([item]);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/tree/items', expect.objectContaining({
+      method: 'GET',
+      body: undefined,
+      headers: { Accept: 'application/json', Authorization: 'Bearer token' },
+    }));
+  });
+
+  it('should reject a list that is not an array', async () => {
+    const { adapter } = createAdapter(json({ items: [] }));
+
+    await expect(adapter.list()).rejects.toBeInstanceOf(TreePersistenceError);
+  });
+
+  it('should report malformed responses as non-retryable', async () => {
+    const notArray = await createAdapter(json({ items: [] })).adapter.list().catch((reason) => reason);
+    const invalidJson = await createAdapter(() => Promise.resolve(new Response('<html>', { status: 200 }))).adapter
+      .list()
+      .catch((reason) => reason);
+
+    expect(invalidJson).toBeInstanceOf(TreePersistenceError);
+    expect(notArray).toMatchObject({ status: 200, malformed: true, retryable: false });
+    expect(invalidJson).toMatchObject({ status: 200, malformed: true, retryable: false });
+  });
+
+  it('should send mutations to default endpoints', async () => {
+    const { adapter, fetchMock } = createAdapter(empty());
+    const sibling = { id: 2, parent: null, label: 'Sibling', order: 2 };
+
+    await adapter.create(item);
+    await adapter.update(item);
+    await adapter.delete(item.id);
+    await adapter.move({ ...item, order: 1 }, [sibling]);
+
+    const calls = fetchMock.mock.calls.map(([url, init]) => [init?.method, url, init?.body]);
+
+    expect(calls).toEqual([
+      ['POST', 'https://api.test/tree/items', JSON.stringify(item)],
+      ['PUT', 'https://api.test/tree/items/a%2F1', JSON.stringify(item)],
+      ['DELETE', 'https://api.test/tree/items/a%2F1', undefined],
+      ['POST', 'https://api.test/tree/items/a%2F1/move', JSON.stringify({ item: { ...item, order: 1 }, reordered: [sibling] })],
+    ]);
+    expect(fetchMock.mock.calls[0]![1]?.headers).toEqual({
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'Authorization': 'Bearer token',
+    });
+  });
+
+  it('should use configured endpoints', async () => {
+    const { adapter, fetchMock } = createAdapter(empty(), { update: 'PATCH /nodes/:id' });
+
+    await adapter.update(item);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/tree/nodes/a%2F1', expect.objectContaining({ method: 'PATCH' }));
+  });
+
+  it('should report rejected requests with status', async () => {
+    const { adapter } = createAdapter(() => Promise.resolve(new Response('Label is required', { status: 422 })));
+
+    const error = await adapter.update(item).catch((reason) => reason);
+
+    expect(error).toBeInstanceOf(TreePersistenceError);
+    expect(error.status).toBe(422);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain('Label is required');
+  });
+
+  it('should mark network and server errors as retryable', async () => {
+    const network = await createAdapter(() => Promise.reject(new TypeError('Failed to fetch'))).adapter
+      .delete(1)
+      .catch((reason) => reason);
+    const server = await createAdapter(empty(503)).adapter.delete(1).catch((reason) => reason);
+
+    expect(network).toMatchObject({ status: null, retryable: true });
+    expect(server).toMatchObject({ status: 503, retryable: true });
+  });
+});
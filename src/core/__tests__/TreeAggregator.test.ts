@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import TreeAggregator from '../TreeAggregator';
+import TreeStore from '../TreeStore';
+import MemoryTreeDataSource from '@/mocks/MemoryTreeDataSource';
+import { computeAggregate } from '@/utils/tree.aggregation';
+import type { ITreeItem, TreeAggregateFunction } from '@/types/tree.types';
+
+describe('TreeAggregator', () => {
+  interface IEstimateItem extends ITreeItem {
+    quantity: number;
+    price?: number;
+  }
+
+  let store: TreeStore<IEstimateItem>;
+  let aggregator: TreeAggregator<IEstimateItem>;
+
+  const getMockItems = (): IEstimateItem[] => [
+    { id: 1, parent: null, label: 'Root', quantity: 0 },
+    { id: 2, parent: 1, label: 'Group 1', quantity: 0 },
+    { id: 3, parent: 1, label: 'Group 2', quantity: 0 },
+    { id: 4, parent: 2, label: 'Leaf 1', quantity: 2, price: 100 },
+    { id: 5, parent: 2, label: 'Leaf 2', quantity: 3, price: 50 },
+    { id: 6, parent: 3, label: 'Leaf 3', quantity: 5 },
+  ];
+
+  const sumOf = (id: number) => aggregator.getAggregate(id, 'quantity', 'sum');
+
+  // Инкрементальный результат должен совпадать с полным обходом поддерева
+  const expectConsistent = () => {
+    const functions: TreeAggregateFunction[] = ['sum', 'min', 'max', 'avg', 'count'];
+
+    for (const item of store.getAll()) {
+      if (store.getChildren(item.id).length === 0) {
+        continue;
+      }
+
+      for (const fn of functions) {
+        expect(aggregator.getAggregate(item.id, 'quantity', fn)).toBe(
+          computeAggregate(item.id, 'quantity', fn, store)
+        );
+      }
+    }
+  };
+
+  beforeEach(() => {
+    store = new TreeStore<IEstimateItem>();
+    store.update(getMockItems());
+    aggregator = new TreeAggregator(store, ['quantity', 'price']);
+  });
+
+  afterEach(() => {
+    aggregator.destroy();
+  });
+
+  describe('getAggregate', () => {
+    it.each`
+      id   | fn         | expected
+      ${1} | ${'sum'}   | ${10}
+      ${1} | ${'min'}   | ${2}
+      ${1} | ${'max'}   | ${5}
+      ${2} | ${'avg'}   | ${2.5}
+      ${1} | ${'count'} | ${3}
+    `('should return $fn=$expected for group $id', ({ id, fn, expected }) => {
+      expect(aggregator.getAggregate(id, 'quantity', fn)).toBe(expected);
+    });
+
+    it('should skip leaves without numeric value', () => {
+      expect(aggregator.getAggregate(1, 'price', 'avg')).toBe(75);
+      expect(aggregator.getAggregate(3, 'price', 'sum')).toBeNull();
+    });
+
+    it('should return null for leaf items and unknown fields', () => {
+      expect(aggregator.getAggregate(4, 'quantity', 'sum')).toBeNull();
+      expect(aggregator.getAggregate(1, 'label', 'sum')).toBeNull();
+    });
+  });
+
+  describe('incremental updates', () => {
+    it('should include added leaf and drop value of a leaf that became a group', () => {
+      store.addItem({ id: 7, parent: 6, label: 'Leaf 4', quantity: 7 });
+
+      expect(sumOf(3)).toBe(7);
+      expect(sumOf(1)).toBe(12);
+      expectConsistent();
+    });
+
+    it('should exclude removed subtree', () => {
+      store.removeItem(2);
+
+      expect(sumOf(1)).toBe(5);
+      expect(aggregator.getAggregate(2, 'quantity', 'sum')).toBeNull();
+      expectConsistent();
+    });
+
+    it('should restore leaf value of a group that lost its last child', () => {
+      store.removeItem(6);
+
+      expect(aggregator.getAggregate(3, 'quantity', 'sum')).toBeNull();
+      expect(sumOf(1)).toBe(5);
+      expectConsistent();
+    });
+
+    it('should update ancestors when leaf value is edited', () => {
+      store.updateItem({ ...store.getItem(4)!, quantity: 20 });
+
+      expect(sumOf(2)).toBe(23);
+      expect(sumOf(1)).toBe(28);
+      expectConsistent();
+    });
+
+    it('should update both branches on move', () => {
+      store.moveItem(5, 3);
+
+      expect(sumOf(2)).toBe(2);
+      expect(sumOf(3)).toBe(8);
+      expect(sumOf(1)).toBe(10);
+      expectConsistent();
+    });
+
+    it('should recompute only the ancestor chain and report it', () => {
+      const handler = vi.fn();
+      aggregator.on('changed', handler);
+
+      store.updateItem({ ...store.getItem(6)!, quantity: 1 });
+
+      expect(handler).toHaveBeenCalledWith({ ids: [3, 1] });
+    });
+
+    it('should ignore edits of non-aggregated fields', () => {
+      const handler = vi.fn();
+      aggregator.on('changed', handler);
+
+      store.updateItem({ ...store.getItem(6)!, label: 'Renamed' });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild on reset', () => {
+      store.update([
+        { id: 10, parent: null, label: 'Root', quantity: 0 },
+        { id: 11, parent: 10, label: 'Leaf', quantity: 4 },
+      ]);
+
+      expect(sumOf(10)).toBe(4);
+      expect(aggregator.getAggregate(1, 'quantity', 'sum')).toBeNull();
+    });
+  });
+
+  describe('fields', () => {
+    it('should rebuild aggregates when fields change', () => {
+      aggregator.setFields(['price']);
+
+      expect(aggregator.getFields()).toEqual(['price']);
+      expect(sumOf(1)).toBeNull();
+      expect(aggregator.getAggregate(1, 'price', 'sum')).toBe(150);
+    });
+
+    it('should keep no state without fields', () => {
+      aggregator.setFields([]);
+      store.addItem({ id: 7, parent: 4, label: 'Leaf 4', quantity: 1 });
+
+      expect(sumOf(1)).toBeNull();
+    });
+
+    it('should stop tracking after destroy', () => {
+      aggregator.destroy();
+      store.updateItem({ ...store.getItem(4)!, quantity: 20 });
+
+      expect(sumOf(1)).toBeNull();
+    });
+  });
+
+  describe('lazy loading', () => {
+    let lazyStore: TreeStore<IEstimateItem>;
+    let lazyAggregator: TreeAggregator<IEstimateItem>;
+
+    beforeEach(async () => {
+      lazyStore = new TreeStore({ dataSource: new MemoryTreeDataSource(getMockItems()) });
+      lazyAggregator = new TreeAggregator(lazyStore, ['quantity']);
+      await lazyStore.loadChildren(null);
+      await lazyStore.loadChildren(1);
+    });
+
+    afterEach(() => {
+      lazyAggregator.destroy();
+    });
+
+    it('should not count unloaded branches as leaves', () => {
+      expect(lazyAggregator.getAggregate(1, 'quantity', 'count')).toBe(0);
+      expect(computeAggregate(1, 'quantity', 'count', lazyStore)).toBe(0);
+    });
+
+    it('should include loaded children and report ancestors', async () => {
+      const handler = vi.fn();
+
+      lazyAggregator.on('changed', handler);
+      await lazyStore.loadChildren(2);
+
+      expect(lazyAggregator.getAggregate(1, 'quantity', 'sum')).toBe(5);
+      expect(lazyAggregator.getAggregate(2, 'quantity', 'sum')).toBe(5);
+      expect(handler).toHaveBeenCalledWith({ ids: [2, 1] });
+    });
+  });
+});
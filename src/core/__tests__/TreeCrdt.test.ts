@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import TreeCrdt, { compareSyncStamps } from '../TreeCrdt';
+import type { ITreeItem, TreeSyncOperation } from '@/types/tree.types';
+
+describe('TreeCrdt', () => {
+  const base = (counter: number, clientId: string) => ({ counter, clientId });
+
+  const createBase = (): TreeSyncOperation[] => [
+    { type: 'create', id: 1, parent: null, fields: { label: 'Root' }, stamp: base(0, '') },
+    { type: 'create', id: 2, parent: 1, order: 1, fields: { label: 'A' }, stamp: base(0, '') },
+    { type: 'create', id: 3, parent: 1, order: 2, fields: { label: 'B' }, stamp: base(0, '') },
+    { type: 'create', id: 4, parent: 2, fields: { label: 'A1' }, stamp: base(0, '') },
+  ];
+
+  const build = (operations: TreeSyncOperation[], clientId: string = 'x') => {
+    const crdt = new TreeCrdt<ITreeItem>(clientId);
+    operations.forEach((operation) => crdt.apply(operation));
+
+    return crdt;
+  };
+
+  it('should compare stamps by counter, then by client', () => {
+    expect(compareSyncStamps(base(1, 'b'), base(2, 'a'))).toBeLessThan(0);
+    expect(compareSyncStamps(base(2, 'a'), base(2, 'b'))).toBeLessThan(0);
+    expect(compareSyncStamps(base(2, 'b'), base(2, 'b'))).toBe(0);
+  });
+
+  it('should build the tree in depth-first order with ranked siblings', () => {
+    expect(build(createBase()).getItems()).toEqual([
+      { id: 1, parent: null, label: 'Root' },
+      { id: 2, parent: 1, label: 'A', order: 1 },
+      { id: 4, parent: 2, label: 'A1' },
+      { id: 3, parent: 1, label: 'B', order: 2 },
+    ]);
+  });
+
+  it('should issue stamps newer than every applied operation', () => {
+    const crdt = build([
+      ...createBase(),
+      { type: 'set', id: 2, fields: { label: 'Remote' }, unset: [], stamp: base(7, 'y') },
+    ]);
+
+    expect(crdt.createStamp()).toEqual({ counter: 8, clientId: 'x' });
+  });
+
+  it('should ignore duplicate operations', () => {
+    const crdt = build(createBase());
+    const rename: TreeSyncOperation = { type: 'set', id: 2, fields: { label: 'A*' }, unset: [], stamp: base(1, 'y') };
+
+    expect(crdt.apply(rename)).toBe(true);
+    expect(crdt.apply({ ...rename })).toBe(false);
+    expect(crdt.getOperations()).toHaveLength(5);
+  });
+
+  it('should resolve concurrent renames to the later stamp', () => {
+    const ours: TreeSyncOperation = { type: 'set', id: 2, fields: { label: 'Ours' }, unset: [], stamp: base(1, 'a') };
+    const theirs: TreeSyncOperation = { type: 'set', id: 2, fields: { label: 'Theirs' }, unset: [], stamp: base(1, 'b') };
+
+    const first = build([...createBase(), ours, theirs]);
+    const second = build([...createBase(), theirs, ours]);
+
+    expect(first.getItems()).toEqual(second.getItems());
+    expect(first.getItems().find((item) => item.id === 2)?.label).toBe('Theirs');
+  });
+
+  it('should unset fields', () => {
+    const crdt = build([
+      { type: 'create', id: 1, parent: null, fields: { label: 'Root', note: 'x' }, stamp: base(1, 'a') },
+      { type: 'set', id: 1, fields: {}, unset: ['note'], stamp: base(2, 'a') },
+    ]);
+
+    expect(crdt.getItems()).toEqual([{ id: 1, parent: null, label: 'Root' }]);
+  });
+
+  it('should hide deleted subtree and restore it on a newer create', () => {
+    const crdt = build([...createBase(), { type: 'delete', id: 2, stamp: base(1, 'a') }]);
+
+    expect(crdt.getItems().map((item) => item.id)).toEqual([1, 3]);
+
+    crdt.apply({ type: 'create', id: 2, parent: 1, order: 1, fields: { label: 'A' }, stamp: base(2, 'a') });
+
+    expect(crdt.getItems().map((item) => item.id)).toEqual([1, 2, 4, 3]);
+  });
+
+  it('should keep a child moved out of a concurrently deleted subtree', () => {
+    const items = build([
+      ...createBase(),
+      { type: 'delete', id: 2, stamp: base(1, 'a') },
+      { type: 'move', id: 4, parent: 3, stamp: base(1, 'b') },
+    ]).getItems();
+
+    expect(items.map((item) => item.id)).toEqual([1, 3, 4]);
+  });
+
+  it('should skip a concurrent move that would create a cycle', () => {
+    // a переносит A под B, b одновременно переносит B под A: побеждает более ранний перенос
+    const moveA: TreeSyncOperation = { type: 'move', id: 2, parent: 3, stamp: base(1, 'a') };
+    const moveB: TreeSyncOperation = { type: 'move', id: 3, parent: 2, stamp: base(1, 'b') };
+
+    const first = build([...createBase(), moveA, moveB]).getItems();
+    const second = build([...createBase(), moveB, moveA]).getItems();
+
+    expect(first).toEqual(second);
+    expect(first.find((item) => item.id === 2)?.parent).toBe(3);
+    expect(first.find((item) => item.id === 3)?.parent).toBe(1);
+  });
+
+  it('should rebuild positions once for a batch of out-of-order moves', () => {
+    const crdt = build(createBase());
+
+    crdt.apply({ type: 'move', id: 4, parent: 3, stamp: base(5, 'a') });
+
+    expect(crdt.applyAll([
+      { type: 'move', id: 4, parent: 1, order: 3, stamp: base(6, 'a') },
+      { type: 'move', id: 3, parent: 2, stamp: base(2, 'b') },
+    ])).toBe(true);
+    expect(crdt.getItems().map(({ id, parent }) => [id, parent])).toEqual([[1, null], [2, 1], [3, 2], [4, 1]]);
+  });
+
+  it('should order unranked base siblings by source index, then by id', () => {
+    const siblings: TreeSyncOperation[] = [
+      { type: 'create', id: 'b', parent: null, fields: {}, stamp: base(0, '') },
+      { type: 'create', id: 10, parent: null, fields: {}, stamp: base(0, '') },
+      { type: 'create', id: 'a', parent: null, fields: {}, stamp: base(0, '') },
+      { type: 'create', id: 9, parent: null, fields: {}, stamp: base(0, '') },
+    ];
+    const indexed = siblings.map((operation, index) => ({ ...operation, index }));
+
+    expect(build(siblings).getItems().map((item) => item.id)).toEqual([9, 10, 'a', 'b']);
+    expect(build([...siblings].reverse()).getItems().map((item) => item.id)).toEqual([9, 10, 'a', 'b']);
+    expect(build([...indexed].reverse()).getItems().map((item) => item.id)).toEqual(['b', 10, 'a', 9]);
+  });
+
+  it('should hide items whose parent is not known yet', () => {
+    const crdt = build([{ type: 'create', id: 5, parent: 9, fields: { label: 'Orphan' }, stamp: base(1, 'a') }]);
+
+    expect(crdt.getItems()).toEqual([]);
+
+    crdt.apply({ type: 'create', id: 9, parent: null, fields: { label: 'Parent' }, stamp: base(2, 'b') });
+
+    expect(crdt.getItems().map((item) => item.id)).toEqual([9, 5]);
+  });
+
+  it('should converge regardless of delivery order', () => {
+    const clients = ['a', 'b', 'c'];
+    const ids = [1, 2, 3, 4, 5];
+    const operationArbitrary = fc.tuple(
+      fc.integer({ min: 1, max: 20 }),
+      fc.constantFrom(...clients),
+      fc.constantFrom(...ids),
+      fc.oneof(
+        fc.record({ type: fc.constant('set' as const), label: fc.constantFrom('x', 'y', 'z') }),
+        fc.record({ type: fc.constant('move' as const), parent: fc.constantFrom(null, ...ids), order: fc.integer({ min: 1, max: 3 }) }),
+        fc.record({ type: fc.constant('delete' as const) })
+      )
+    ).map(([counter, clientId, id, change]): TreeSyncOperation => {
+      const stamp = base(counter, clientId);
+
+      switch (change.type) {
+        case 'set':
+          return { type: 'set', id, fields: { label: change.label }, unset: [], stamp };
+        case 'move':
+          return { type: 'move', id, parent: change.parent, order: change.order, stamp };
+        case 'delete':
+          return { type: 'delete', id, stamp };
+      }
+    });
+    const initial: TreeSyncOperation[] = ids.map((id) => ({
+      type: 'create',
+      id,
+      parent: id === 1 ? null : id - 1,
+      fields: { label: String(id) },
+      stamp: base(0, ''),
+    }));
+
+    fc.assert(fc.property(
+      fc.uniqueArray(operationArbitrary, { selector: (operation) => `${operation.stamp.counter}:${operation.stamp.clientId}` }),
+      fc.integer(),
+      (operations, seed) => {
+        const shuffled = fc.sample(fc.shuffledSubarray(operations, { minLength: operations.length }), { seed, numRuns: 1 })[0]!;
+        const items = build([...initial, ...operations]).getItems();
+
+        expect(build([...initial, ...shuffled]).getItems()).toEqual(items);
+        expect(build([...shuffled, ...initial]).getItems()).toEqual(items);
+      }
+    ));
+  });
+});
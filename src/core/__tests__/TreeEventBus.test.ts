@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import TreeEventBus from '../TreeEventBus';
+
+interface ITestEvents {
+  ping: { value: number };
+  pong: { text: string };
+}
+
+describe('TreeEventBus', () => {
+  let bus: TreeEventBus<ITestEvents>;
+
+  beforeEach(() => {
+    bus = new TreeEventBus();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should deliver payload only to handlers of the emitted event', () => {
+    const pingHandler = vi.fn();
+    const pongHandler = vi.fn();
+
+    bus.on('ping', pingHandler);
+    bus.on('pong', pongHandler);
+    bus.emit('ping', { value: 1 });
+
+    expect(pingHandler).toHaveBeenCalledWith({ value: 1 });
+    expect(pongHandler).not.toHaveBeenCalled();
+  });
+
+  it('should unsubscribe via returned function', () => {
+    const handler = vi.fn();
+
+    const unsubscribe = bus.on('ping', handler);
+    unsubscribe();
+    bus.emit('ping', { value: 1 });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(bus.hasListeners('ping')).toBe(false);
+  });
+
+  it('should unsubscribe via off', () => {
+    const handler = vi.fn();
+
+    bus.on('ping', handler);
+    bus.off('ping', handler);
+    bus.emit('ping', { value: 1 });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should allow handler to unsubscribe itself during emit', () => {
+    const calls: string[] = [];
+    const unsubscribe = bus.on('ping', () => {
+      calls.push('first');
+      unsubscribe();
+    });
+    bus.on('ping', () => calls.push('second'));
+
+    bus.emit('ping', { value: 1 });
+    bus.emit('ping', { value: 2 });
+
+    expect(calls).toEqual(['first', 'second', 'second']);
+  });
+
+  it('should keep notifying other handlers when one throws', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const handler = vi.fn();
+
+    bus.on('ping', () => {
+      throw new Error('boom');
+    });
+    bus.on('ping', handler);
+    bus.emit('ping', { value: 1 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(consoleSpy).toHaveBeenCalledTimes(1);
+  });
+});
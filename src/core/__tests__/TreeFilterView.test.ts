@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import TreeStore from '../TreeStore';
+import TreeFilterView from '../TreeFilterView';
+import type { ITreeItem, TreeFilterMode } from '@/types/tree.types';
+
+describe('TreeFilterView', () => {
+  interface IEstimateItem extends ITreeItem {
+    price: number;
+  }
+
+  let store: TreeStore<IEstimateItem>;
+
+  const getMockItems = (): IEstimateItem[] => [
+    { id: 1, parent: null, label: 'Root', price: 0 },
+    { id: 2, parent: 1, label: 'Group 1', price: 10 },
+    { id: 3, parent: 1, label: 'Group 2', price: 0 },
+    { id: 4, parent: 2, label: 'Leaf 1', price: 0 },
+    { id: 5, parent: 2, label: 'Leaf 2', price: 50 },
+    { id: 6, parent: 3, label: 'Leaf 3', price: 0 },
+    { id: 7, parent: null, label: 'Other root', price: 0 },
+  ];
+
+  const hasPrice = (item: IEstimateItem) => item.price > 0;
+
+  const ids = (items: ITreeItem[]) => items.map((item) => item.id);
+
+  const createView = (mode: TreeFilterMode) => new TreeFilterView(store, hasPrice, { mode });
+
+  beforeEach(() => {
+    store = new TreeStore<IEstimateItem>();
+    store.update(getMockItems());
+  });
+
+  it.each`
+    mode                 | expected
+    ${'keepAncestors'}   | ${[1, 2, 5]}
+    ${'keepDescendants'} | ${[1, 2, 4, 5]}
+    ${'strict'}          | ${[]}
+  `('should select $expected in $mode mode', ({ mode, expected }) => {
+    expect(ids(createView(mode).getAll())).toEqual(expected);
+  });
+
+  it('should keep only fully matching chains in strict mode', () => {
+    const view = new TreeFilterView(store, (item) => item.id !== 2 && item.id !== 7, { mode: 'strict' });
+
+    expect(ids(view.getAll())).toEqual([1, 3, 6]);
+  });
+
+  it('should default to keepAncestors', () => {
+    expect(new TreeFilterView(store, hasPrice).mode).toBe('keepAncestors');
+  });
+
+  it('should expose consistent structure of the filtered tree', () => {
+    const view = createView('keepAncestors');
+
+    expect(ids(view.getRoots())).toEqual([1]);
+    expect(ids(view.getChildren(1))).toEqual([2]);
+    expect(ids(view.getAllChildren(1))).toEqual([2, 5]);
+    expect(ids(view.getAllParents(5))).toEqual([5, 2, 1]);
+    expect(view.getIndex(5)).toBe(0);
+    expect(view.hasChildren(2)).toBe(true);
+    expect(view.hasChildren(5)).toBe(false);
+  });
+
+  it('should hide filtered items', () => {
+    const view = createView('keepAncestors');
+
+    expect(view.has(4)).toBe(false);
+    expect(view.getItem(4)).toBeUndefined();
+    expect(view.getChildren(3)).toEqual([]);
+    expect(view.getAllParents(4)).toEqual([]);
+    expect(view.getIndex(4)).toBe(-1);
+  });
+
+  it('should distinguish matches from kept context', () => {
+    const view = createView('keepDescendants');
+
+    expect(view.isMatch(2)).toBe(true);
+    expect(view.isMatch(1)).toBe(false);
+    expect(view.isMatch(4)).toBe(false);
+    expect(view.has(4)).toBe(true);
+  });
+
+  it('should keep sibling order of the store', () => {
+    store.moveItem(5, 2, 0);
+
+    expect(ids(createView('keepDescendants').getChildren(2))).toEqual([5, 4]);
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import TreeHistory from '../TreeHistory';
+import TreeStore from '../TreeStore';
+import type { ITreeItem } from '@/types/tree.types';
+
+describe('TreeHistory', () => {
+  let store: TreeStore;
+  let history: TreeHistory;
+
+  const getMockItems = (): ITreeItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child 1' },
+    { id: 3, parent: 1, label: 'Child 2' },
+    { id: 4, parent: 2, label: 'Grandchild 1' },
+    { id: 5, parent: 2, label: 'Grandchild 2' },
+    { id: 6, parent: 3, label: 'Grandchild 3' },
+  ];
+
+  const getIds = () => store.getAll().map((item) => item.id).sort();
+
+  beforeEach(() => {
+    store = new TreeStore();
+    store.update(getMockItems());
+    history = new TreeHistory(store);
+  });
+
+  afterEach(() => {
+    history.destroy();
+  });
+
+  describe('undo', () => {
+    it('should return false when there is nothing to undo', () => {
+      expect(history.canUndo).toBe(false);
+      expect(history.undo()).toBe(false);
+    });
+
+    it('should undo addItem', () => {
+      store.addItem({ id: 7, parent: 3, label: 'New' });
+
+      history.undo();
+
+      expect(store.getItem(7)).toBeUndefined();
+      expect(store.getChildren(3).map((item) => item.id)).toEqual([6]);
+    });
+
+    it('should undo removeItem with all cascaded descendants', () => {
+      store.removeItem(2);
+
+      history.undo();
+
+      expect(getIds()).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([4, 5]);
+      expect(store.getAllParents(5).map((item) => item.id)).toEqual([5, 2, 1]);
+    });
+
+    it('should restore removed item at its original position', () => {
+      store.removeItem(2);
+
+      history.undo();
+
+      expect(store.getChildren(1).map((item) => item.id)).toEqual([2, 3]);
+    });
+
+    it('should undo reorder among siblings', () => {
+      store.moveItem(5, 2, 0);
+
+      history.undo();
+
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([4, 5]);
+    });
+
+    it('should undo moveItem to original parent and position', () => {
+      const item = store.getItem(4);
+
+      store.moveItem(4, 3, 0);
+      history.undo();
+
+      expect(store.getChildren(2).map((child) => child.id)).toEqual([4, 5]);
+      expect(store.getItem(4)).toBe(item);
+    });
+
+    it('should restore sibling ranks assigned by normalization', () => {
+      const siblings = store.getChildren(2);
+
+      store.moveItem(6, 2, 1);
+      history.undo();
+
+      expect(store.getChildren(2)).toEqual(siblings);
+      expect(store.getChildren(2)[0]).toBe(siblings[0]);
+      expect(store.getItem(6)?.order).toBeUndefined();
+    });
+
+    it('should undo label update and refresh cached parent chains', () => {
+      expect(store.getAllParents(4).map((item) => item.label)).toContain('Child 1');
+
+      store.updateItem({ id: 2, parent: 1, label: 'Renamed' });
+      history.undo();
+
+      expect(store.getItem(2)?.label).toBe('Child 1');
+      expect(store.getChildren(1).map((item) => item.label)).toEqual(['Child 1', 'Child 2']);
+      expect(store.getAllParents(4).map((item) => item.label)).toEqual([
+        'Grandchild 1',
+        'Child 1',
+        'Root',
+      ]);
+    });
+
+    it('should undo move to another parent', () => {
+      store.updateItem({ id: 4, parent: 3, label: 'Grandchild 1' });
+
+      history.undo();
+
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([4, 5]);
+      expect(store.getChildren(3).map((item) => item.id)).toEqual([6]);
+      expect(store.getAllParents(4).map((item) => item.id)).toEqual([4, 2, 1]);
+    });
+  });
+
+  describe('redo', () => {
+    it('should redo undone removal', () => {
+      store.removeItem(2);
+      history.undo();
+
+      expect(history.canRedo).toBe(true);
+      expect(history.redo()).toBe(true);
+      expect(getIds()).toEqual([1, 3, 6]);
+      expect(history.canRedo).toBe(false);
+    });
+
+    it('should redo undone move with changed label', () => {
+      store.updateItem({ id: 4, parent: 3, label: 'Moved' });
+      history.undo();
+      history.redo();
+
+      expect(store.getItem(4)).toEqual({ id: 4, parent: 3, label: 'Moved' });
+      expect(store.getChildren(3).map((item) => item.id)).toEqual([6, 4]);
+    });
+
+    it('should redo undone reorder with the same ranks', () => {
+      store.moveItem(6, 2, 1);
+      const after = store.getChildren(2);
+
+      history.undo();
+      history.redo();
+
+      expect(store.getChildren(2)).toEqual(after);
+    });
+
+    it('should redo undone update', () => {
+      store.updateItem({ id: 6, parent: 3, label: 'Renamed' });
+      history.undo();
+      history.redo();
+
+      expect(store.getItem(6)?.label).toBe('Renamed');
+    });
+
+    it('should drop redo stack on new mutation', () => {
+      store.addItem({ id: 7, parent: 1, label: 'New' });
+      history.undo();
+
+      store.addItem({ id: 8, parent: 1, label: 'Other' });
+
+      expect(history.canRedo).toBe(false);
+    });
+
+    it('should not record its own undo/redo mutations', () => {
+      store.addItem({ id: 7, parent: 1, label: 'New' });
+      history.undo();
+      history.redo();
+      history.undo();
+
+      expect(history.canUndo).toBe(false);
+      expect(store.getItem(7)).toBeUndefined();
+    });
+  });
+
+  describe('transaction', () => {
+    it('should undo grouped mutations as one entry', () => {
+      history.transaction('Перестройка', () => {
+        store.addItem({ id: 7, parent: 6, label: 'New' });
+        store.updateItem({ id: 4, parent: 3, label: 'Moved' });
+        store.removeItem(5);
+      });
+
+      expect(history.undoName).toBe('Перестройка');
+
+      history.undo();
+
+      expect(getIds()).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(store.getItem(4)?.parent).toBe(2);
+      expect(history.canUndo).toBe(false);
+      expect(history.redoName).toBe('Перестройка');
+    });
+
+    it('should merge nested transactions into the outer one', () => {
+      history.transaction('Outer', () => {
+        store.addItem({ id: 7, parent: 1, label: 'A' });
+        history.transaction('Inner', () => store.addItem({ id: 8, parent: 7, label: 'B' }));
+      });
+
+      history.undo();
+
+      expect(store.getItem(7)).toBeUndefined();
+      expect(store.getItem(8)).toBeUndefined();
+    });
+
+    it('should roll back applied mutations when transaction throws', () => {
+      expect(() => history.transaction('Broken', () => {
+        store.addItem({ id: 7, parent: 1, label: 'A' });
+        store.addItem({ id: 7, parent: 1, label: 'Duplicate' });
+      })).toThrow();
+
+      expect(store.getItem(7)).toBeUndefined();
+      expect(history.canUndo).toBe(false);
+    });
+
+    it('should return the result of the callback', () => {
+      const result = history.transaction('Noop', () => 42);
+
+      expect(result).toBe(42);
+      expect(history.canUndo).toBe(false);
+    });
+  });
+
+  describe('limits and lifecycle', () => {
+    it('should keep at most maxDepth entries', () => {
+      history.destroy();
+      history = new TreeHistory(store, { maxDepth: 2 });
+
+      store.addItem({ id: 7, parent: 1, label: 'A' });
+      store.addItem({ id: 8, parent: 1, label: 'B' });
+      store.addItem({ id: 9, parent: 1, label: 'C' });
+
+      expect(history.undo()).toBe(true);
+      expect(history.undo()).toBe(true);
+      expect(history.undo()).toBe(false);
+      expect(store.getItem(7)).toBeDefined();
+    });
+
+    it('should clear history on reset', () => {
+      store.addItem({ id: 7, parent: 1, label: 'A' });
+
+      store.update(getMockItems());
+
+      expect(history.canUndo).toBe(false);
+    });
+
+    it('should stop recording after destroy', () => {
+      history.destroy();
+
+      store.addItem({ id: 7, parent: 1, label: 'A' });
+
+      expect(history.canUndo).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import TreeOperationLog from '../TreeOperationLog';
+import TreeStore from '../TreeStore';
+import type { ITreeItem } from '@/types/tree.types';
+
+describe('TreeOperationLog', () => {
+  let store: TreeStore;
+  let log: TreeOperationLog;
+  let time: number;
+
+  const getMockItems = (): ITreeItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child 1' },
+    { id: 3, parent: 1, label: 'Child 2' },
+    { id: 4, parent: 2, label: 'Grandchild 1' },
+  ];
+
+  const getOperations = () => log.getEntries().map((entry) => entry.operation);
+
+  beforeEach(() => {
+    time = 1000;
+    store = new TreeStore();
+    store.update(getMockItems());
+    log = new TreeOperationLog(store, { author: 'estimator', now: () => time++ });
+  });
+
+  afterEach(() => {
+    log.destroy();
+  });
+
+  it('should record add with position', () => {
+    store.addItem({ id: 5, parent: 1, label: 'New' }, { index: 0 });
+
+    expect(log.getEntries()).toEqual([{
+      seq: 1,
+      timestamp: 1000,
+      author: 'estimator',
+      operation: { type: 'add', item: { id: 5, parent: 1, label: 'New' }, index: 0 },
+    }]);
+  });
+
+  it('should record remove with cascaded ids', () => {
+    store.removeItem(2);
+
+    expect(getOperations()).toEqual([{ type: 'remove', id: 2, ids: [2, 4] }]);
+  });
+
+  it('should record update with previous data', () => {
+    store.updateItem({ id: 3, parent: 1, label: 'Renamed' });
+
+    expect(getOperations()).toEqual([{
+      type: 'update',
+      item: { id: 3, parent: 1, label: 'Renamed' },
+      previous: { id: 3, parent: 1, label: 'Child 2' },
+    }]);
+  });
+
+  it('should record move with new sibling ranks', () => {
+    store.moveItem(4, 1, 0);
+
+    const [operation] = getOperations();
+
+    expect(operation).toMatchObject({
+      type: 'move',
+      item: { id: 4, parent: 1 },
+      previous: { id: 4, parent: 2 },
+      index: 0,
+    });
+    expect(operation?.type === 'move' && operation.reordered.map((item) => item.id)).toEqual([2, 3]);
+  });
+
+  it('should record reset', () => {
+    store.update([{ id: 10, parent: null, label: 'New root' }]);
+
+    expect(getOperations()).toEqual([{ type: 'reset', items: [{ id: 10, parent: null, label: 'New root' }] }]);
+  });
+
+  it('should take current author from function', () => {
+    let author: string | undefined = 'first';
+    log.destroy();
+    log = new TreeOperationLog(store, { author: () => author });
+
+    store.updateItem({ id: 3, parent: 1, label: 'A' });
+    author = undefined;
+    store.updateItem({ id: 3, parent: 1, label: 'B' });
+
+    expect(log.getEntries().map((entry) => entry.author)).toEqual(['first', undefined]);
+    expect('author' in log.getEntries()[1]!).toBe(false);
+  });
+
+  it('should return entries after sequence number', () => {
+    store.updateItem({ id: 3, parent: 1, label: 'A' });
+    store.updateItem({ id: 3, parent: 1, label: 'B' });
+    store.updateItem({ id: 3, parent: 1, label: 'C' });
+
+    expect(log.getEntries(2).map((entry) => entry.seq)).toEqual([3]);
+    expect(log.size).toBe(3);
+  });
+
+  it('should keep numbering after clear', () => {
+    store.updateItem({ id: 3, parent: 1, label: 'A' });
+    log.clear();
+    store.updateItem({ id: 3, parent: 1, label: 'B' });
+
+    expect(log.getEntries().map((entry) => entry.seq)).toEqual([2]);
+  });
+
+  it('should serialize to JSON', () => {
+    store.addItem({ id: 5, parent: null, label: 'New' });
+
+    expect(JSON.parse(log.export())).toEqual(log.getEntries());
+    expect(JSON.stringify({ log })).toBe(`{"log":${log.export()}}`);
+  });
+
+  it('should stop recording after destroy', () => {
+    log.destroy();
+    store.removeItem(2);
+
+    expect(log.size).toBe(0);
+  });
+});
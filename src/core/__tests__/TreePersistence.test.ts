@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import TreePersistence from '../TreePersistence';
+import TreePersistenceError from '../TreePersistenceError';
+import TreeStore from '../TreeStore';
+import type { ITreeItem, ITreePersistenceAdapter } from '@/types/tree.types';
+
+describe('TreePersistence', () => {
+  let store: TreeStore;
+  let adapter: { [K in keyof ITreePersistenceAdapter]: ReturnType<typeof vi.fn> };
+  let persistence: TreePersistence;
+
+  const getMockItems = (): ITreeItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child 1' },
+    { id: 3, parent: 1, label: 'Child 2' },
+    { id: 4, parent: 2, label: 'Grandchild 1' },
+  ];
+
+  const reject = (status: number) => () => Promise.reject(new TreePersistenceError(`HTTP ${status}`, status));
+
+  beforeEach(() => {
+    store = new TreeStore();
+    store.update(getMockItems());
+    adapter = {
+      list: vi.fn(() => Promise.resolve(getMockItems())),
+      create: vi.fn(() => Promise.resolve()),
+      update: vi.fn(() => Promise.resolve()),
+      delete: vi.fn(() => Promise.resolve()),
+      move: vi.fn(() => Promise.resolve()),
+    };
+    persistence = new TreePersistence(store, adapter as ITreePersistenceAdapter, { retries: 2, retryDelay: 0 });
+  });
+
+  afterEach(() => {
+    persistence.destroy();
+  });
+
+  it('should send mutations in order', async () => {
+    const calls: string[] = [];
+    Object.entries(adapter).forEach(([name, fn]) => fn.mockImplementation(async () => {
+      calls.push(name);
+    }));
+
+    store.addItem({ id: 5, parent: 1, label: 'New' });
+    store.updateItem({ id: 5, parent: 1, label: 'Renamed' });
+    store.moveItem(5, 2);
+    store.removeItem(3);
+    await persistence.flush();
+
+    expect(calls).toEqual(['create', 'update', 'move', 'delete']);
+    expect(adapter.update).toHaveBeenCalledWith({ id: 5, parent: 1, label: 'Renamed' });
+    expect(adapter.move).toHaveBeenCalledWith(store.getItem(5), [store.getItem(4)]);
+    expect(adapter.delete).toHaveBeenCalledWith(3);
+  });
+
+  it('should apply mutations optimistically and report saving state', async () => {
+    const states: string[] = [];
+    persistence.on('stateChanged', (state) => states.push(`${state.status}:${state.pending}`));
+
+    store.updateItem({ id: 2, parent: 1, label: 'Optimistic' });
+
+    expect(store.getItem(2)?.label).toBe('Optimistic');
+    expect(persistence.state).toEqual({ status: 'saving', pending: 1, error: null });
+
+    await persistence.flush();
+
+    expect(states).toEqual(['saving:1', 'idle:0']);
+  });
+
+  it('should retry temporary errors', async () => {
+    adapter.update
+      .mockImplementationOnce(reject(503))
+      .mockImplementationOnce(() => Promise.reject(new TreePersistenceError('Offline')));
+
+    store.updateItem({ id: 2, parent: 1, label: 'Retried' });
+    await persistence.flush();
+
+    expect(adapter.update).toHaveBeenCalledTimes(3);
+    expect(store.getItem(2)?.label).toBe('Retried');
+    expect(persistence.state.status).toBe('idle');
+  });
+
+  it('should roll back after retries are exhausted', async () => {
+    adapter.update.mockImplementation(reject(500));
+
+    store.updateItem({ id: 2, parent: 1, label: 'Lost' });
+    await persistence.flush();
+
+    expect(adapter.update).toHaveBeenCalledTimes(3);
+    expect(store.getItem(2)?.label).toBe('Child 1');
+    expect(persistence.state).toEqual({ status: 'error', pending: 0, error: 'HTTP 500' });
+  });
+
+  it('should roll back a rejected creation without retries', async () => {
+    const onRolledBack = vi.fn();
+    persistence.on('rolledBack', onRolledBack);
+    adapter.create.mockImplementation(reject(409));
+
+    store.addItem({ id: 5, parent: 1, label: 'Duplicate' });
+    await persistence.flush();
+
+    expect(adapter.create).toHaveBeenCalledTimes(1);
+    expect(store.getItem(5)).toBeUndefined();
+    expect(onRolledBack).toHaveBeenCalledWith({
+      mutation: { type: 'create', item: { id: 5, parent: 1, label: 'Duplicate' }, index: 2 },
+      error: expect.any(TreePersistenceError),
+    });
+  });
+
+  it('should restore a rejected cascade removal at its position', async () => {
+    adapter.delete.mockImplementation(reject(403));
+
+    store.removeItem(2);
+    await persistence.flush();
+
+    expect(store.getChildren(1).map((item) => item.id)).toEqual([2, 3]);
+    expect(store.getChildren(2).map((item) => item.id)).toEqual([4]);
+    expect(adapter.create).not.toHaveBeenCalled();
+  });
+
+  it('should roll back a rejected move including sibling ranks', async () => {
+    adapter.move.mockImplementation(reject(400));
+
+    store.moveItem(3, 1, 0);
+    await persistence.flush();
+
+    expect(store.getChildren(1)).toEqual([
+      { id: 2, parent: 1, label: 'Child 1' },
+      { id: 3, parent: 1, label: 'Child 2' },
+    ]);
+  });
+
+  it('should keep fields changed by a later mutation when rolling back', async () => {
+    adapter.update.mockImplementationOnce(reject(422));
+
+    store.updateItem({ id: 2, parent: 1, label: 'Rejected', note: 'first' } as ITreeItem);
+    store.updateItem({ id: 2, parent: 1, label: 'Later', note: 'first' } as ITreeItem);
+    await persistence.flush();
+
+    expect(store.getItem(2)).toEqual({ id: 2, parent: 1, label: 'Later' });
+  });
+
+  it('should continue the queue after a rollback', async () => {
+    adapter.update.mockImplementationOnce(reject(422));
+
+    store.updateItem({ id: 2, parent: 1, label: 'Rejected' });
+    store.updateItem({ id: 3, parent: 1, label: 'Saved' });
+    await persistence.flush();
+
+    expect(adapter.update).toHaveBeenCalledTimes(2);
+    expect(store.getItem(3)?.label).toBe('Saved');
+
+    persistence.clearError();
+
+    expect(persistence.state.status).toBe('idle');
+  });
+
+  it('should load items without sending them back', async () => {
+    const states: string[] = [];
+    persistence.on('stateChanged', (state) => states.push(state.status));
+    adapter.list.mockResolvedValue([{ id: 10, parent: null, label: 'Server' }]);
+
+    await expect(persistence.load()).resolves.toHaveLength(1);
+
+    expect(store.getAll()).toEqual([{ id: 10, parent: null, label: 'Server' }]);
+    expect(states).toEqual(['loading', 'idle']);
+    expect(persistence.state.pending).toBe(0);
+  });
+
+  it('should report load errors', async () => {
+    adapter.list.mockImplementation(reject(401));
+
+    await expect(persistence.load()).rejects.toThrow('HTTP 401');
+
+    expect(persistence.state).toEqual({ status: 'error', pending: 0, error: 'HTTP 401' });
+    expect(store.getAll()).toHaveLength(4);
+  });
+
+  it('should not retry malformed responses', async () => {
+    adapter.list.mockRejectedValue(new TreePersistenceError('Malformed', 200, { malformed: true }));
+
+    await expect(persistence.load()).rejects.toThrow('Malformed');
+
+    expect(adapter.list).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop sending after destroy', async () => {
+    persistence.destroy();
+
+    store.updateItem({ id: 2, parent: 1, label: 'Local' });
+    await persistence.flush();
+
+    expect(adapter.update).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import TreeStore from '../TreeStore';
+import TreeValidationError from '../TreeValidationError';
+import MemoryTreeDataSource from '@/mocks/MemoryTreeDataSource';
 import type { ITreeItem } from '@/types/tree.types';
 
 describe('TreeStore', () => {
@@ -305,5 +307,651 @@ describe('TreeStore', () => {
       expect(childrenIdsAfter).toEqual(childrenIdsBefore);
       expect(childrenAfter.length).toBe(2);
     });
+
+    it('should return updated object from getChildren and getAllParents', () => {
+      store.getAllParents(4);
+
+      store.updateItem({ id: 2, parent: 1, label: 'Renamed' });
+
+      expect(store.getChildren(1)[0]?.label).toBe('Renamed');
+      expect(store.getAllParents(4)[1]?.label).toBe('Renamed');
+    });
+  });
+
+  describe('getRoots', () => {
+    it('should return root items in order', () => {
+      store.addItem({ id: 7, parent: null, label: 'Root 2' });
+
+      expect(store.getRoots().map((item) => item.id)).toEqual([1, 7]);
+    });
+
+    it('should keep roots in sync when item moves to and from root', () => {
+      store.updateItem({ id: 2, parent: null, label: 'Child 1' });
+
+      expect(store.getRoots().map((item) => item.id)).toEqual([1, 2]);
+
+      store.removeItem(2);
+
+      expect(store.getRoots().map((item) => item.id)).toEqual([1]);
+    });
+  });
+
+  describe('getIndex', () => {
+    it.each`
+      id     | expectedIndex
+      ${1}   | ${0}
+      ${3}   | ${1}
+      ${5}   | ${1}
+      ${999} | ${-1}
+    `('should return $expectedIndex for id=$id', ({ id, expectedIndex }) => {
+      expect(store.getIndex(id)).toBe(expectedIndex);
+    });
+  });
+
+  describe('moveItem', () => {
+    it('should reorder item among current siblings', () => {
+      const result = store.moveItem(5, 2, 0);
+
+      expect(result).toBe(true);
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([5, 4]);
+    });
+
+    it('should reparent item to the given position', () => {
+      store.moveItem(6, 2, 1);
+
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([4, 6, 5]);
+      expect(store.getChildren(3)).toEqual([]);
+      expect(store.getItem(6)?.parent).toBe(2);
+      expect(store.getAllParents(6).map((item) => item.id)).toEqual([6, 2, 1]);
+    });
+
+    it('should append to the end when index is omitted or out of range', () => {
+      store.moveItem(6, 2);
+      store.moveItem(4, 2, 100);
+
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([5, 6, 4]);
+    });
+
+    it('should reorder root items', () => {
+      store.addItem({ id: 7, parent: null, label: 'Root 2' });
+
+      store.moveItem(7, null, 0);
+
+      expect(store.getRoots().map((item) => item.id)).toEqual([7, 1]);
+    });
+
+    it('should keep item data when parent is unchanged', () => {
+      const item = store.getItem(5)!;
+
+      store.moveItem(5, 2, 0);
+
+      expect(store.getItem(5)).toEqual({ ...item, order: 0 });
+      expect(store.getChildren(2)[0]).toBe(store.getItem(5));
+    });
+
+    it('should refuse moving item into its own subtree', () => {
+      expect(() => store.moveItem(2, 4, 0)).toThrow(TreeValidationError);
+      expect(store.getChildren(1).map((item) => item.id)).toEqual([2, 3]);
+    });
+
+    it('should return false for non-existent item', () => {
+      expect(store.moveItem(999, 1, 0)).toBe(false);
+    });
+  });
+
+  describe('sibling order', () => {
+    it('should sort siblings by order on update', () => {
+      store.update([
+        { id: 1, parent: null, label: 'Root' },
+        { id: 2, parent: 1, label: 'A', order: 3 },
+        { id: 3, parent: 1, label: 'B' },
+        { id: 4, parent: 1, label: 'C', order: 1 },
+      ]);
+
+      expect(store.getChildren(1).map((item) => item.id)).toEqual([4, 2, 3]);
+    });
+
+    it('should insert ranked item according to its order', () => {
+      store.moveItem(5, 2, 0);
+      store.addItem({ id: 7, parent: 2, label: 'Ranked', order: 1.5 });
+
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([5, 4, 7]);
+    });
+
+    it('should insert item at explicit index', () => {
+      store.addItem({ id: 7, parent: 2, label: 'First' }, { index: 0 });
+
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([7, 4, 5]);
+    });
+
+    it('should assign fractional rank between neighbours', () => {
+      store.moveItem(6, 2, 1);
+
+      expect(store.getChildren(2).map((item) => item.order)).toEqual([1, 1.5, 2]);
+    });
+
+    it('should normalize siblings without ranks and report them', () => {
+      const handler = vi.fn();
+
+      store.on('moved', handler);
+      store.moveItem(6, 2, 1);
+
+      const { reordered } = handler.mock.calls[0]![0];
+      expect(reordered.map(({ newItem }: { newItem: ITreeItem }) => [newItem.id, newItem.order])).toEqual([
+        [4, 1],
+        [5, 2],
+      ]);
+      expect(store.getItem(4)?.order).toBe(1);
+    });
+
+    it('should renormalize when there is no room between ranks', () => {
+      store.update([
+        { id: 1, parent: null, label: 'Root' },
+        { id: 2, parent: 1, label: 'A', order: 1 },
+        { id: 3, parent: 1, label: 'B', order: 1 + Number.EPSILON },
+        { id: 4, parent: 1, label: 'C', order: 5 },
+      ]);
+
+      store.moveItem(4, 1, 1);
+
+      expect(store.getChildren(1).map((item) => item.id)).toEqual([2, 4, 3]);
+      expect(store.getChildren(1).map((item) => item.order)).toEqual([1, 1.5, 2]);
+    });
+
+    it('should keep order after reload from getAll', () => {
+      store.moveItem(5, 2, 0);
+      store.moveItem(3, 1, 0);
+
+      const reloaded = new TreeStore();
+      reloaded.update(store.getAll());
+
+      expect(reloaded.getChildren(1).map((item) => item.id)).toEqual([3, 2]);
+      expect(reloaded.getChildren(2).map((item) => item.id)).toEqual([5, 4]);
+    });
+
+    it('should move item to new position when order is updated', () => {
+      store.moveItem(5, 2, 0);
+      store.updateItem({ ...store.getItem(5)!, order: 10 });
+
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([4, 5]);
+    });
+
+    it('should insert item before and after target', () => {
+      store.insertBefore(6, 5);
+
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([4, 6, 5]);
+
+      store.insertAfter(4, 5);
+
+      expect(store.getChildren(2).map((item) => item.id)).toEqual([6, 5, 4]);
+      expect(store.getItem(6)?.parent).toBe(2);
+    });
+
+    it('should insert root item next to another root', () => {
+      store.addItem({ id: 7, parent: null, label: 'Root 2' });
+      store.insertBefore(7, 1);
+
+      expect(store.getRoots().map((item) => item.id)).toEqual([7, 1]);
+    });
+
+    it('should refuse insertion next to itself or unknown item', () => {
+      expect(store.insertBefore(4, 4)).toBe(false);
+      expect(store.insertAfter(4, 999)).toBe(false);
+      expect(store.insertAfter(999, 4)).toBe(false);
+    });
+
+    it('should refuse insertion into own subtree', () => {
+      expect(() => store.insertBefore(2, 4)).toThrow(TreeValidationError);
+    });
+  });
+
+  describe('typed items', () => {
+    interface IEstimateItem extends ITreeItem {
+      code: string;
+      price: number;
+    }
+
+    let typedStore: TreeStore<IEstimateItem>;
+
+    beforeEach(() => {
+      typedStore = new TreeStore<IEstimateItem>();
+      typedStore.update([
+        { id: 1, parent: null, label: 'Root', code: '01', price: 0 },
+        { id: 2, parent: 1, label: 'Child', code: '01.01', price: 100 },
+      ]);
+    });
+
+    it('should keep payload fields through queries and mutations', () => {
+      typedStore.updateItem({ ...typedStore.getItem(2)!, price: 150 });
+      typedStore.moveItem(2, null);
+
+      expect(typedStore.getRoots().map((item) => item.code)).toEqual(['01', '01.01']);
+      expect(typedStore.getItem(2)?.price).toBe(150);
+    });
+
+    it('should pass typed items to event handlers', () => {
+      const prices: number[] = [];
+
+      typedStore.on('updated', ({ oldItem, newItem }) => prices.push(oldItem.price, newItem.price));
+      typedStore.updateItem({ ...typedStore.getItem(2)!, price: 200 });
+
+      expect(prices).toEqual([100, 200]);
+    });
+  });
+
+  describe('search', () => {
+    it('should return matches in depth-first order with ancestors', () => {
+      store.addItem({ id: 7, parent: null, label: 'Grandchild root' });
+
+      const result = store.search('grandchild');
+
+      expect(result.ids).toEqual([4, 5, 6, 7]);
+      expect(result.ancestorIds).toEqual([1, 2, 3]);
+      expect(result.matches[0]).toEqual({ id: 4, start: 0, length: 10 });
+    });
+
+    it('should not report matched root as its own ancestor', () => {
+      const result = store.search('root');
+
+      expect(result.ids).toEqual([1]);
+      expect(result.ancestorIds).toEqual([]);
+    });
+
+    it('should pass search options', () => {
+      expect(store.search('child', { prefix: true }).ids).toEqual([2, 3]);
+      expect(store.search('child', { caseSensitive: true }).ids).toEqual([4, 5, 6]);
+    });
+
+    it('should return empty result for blank query', () => {
+      expect(store.search(' ')).toEqual({ matches: [], ids: [], ancestorIds: [] });
+    });
+  });
+
+  describe('filter', () => {
+    it('should return a filtered view without mutating the store', () => {
+      const view = store.filter((item) => item.id === 6, { mode: 'keepAncestors' });
+
+      expect(view.getAll().map((item) => item.id)).toEqual([1, 3, 6]);
+      expect(store.getAll()).toEqual(getMockItems());
+      expect(store.getChildren(1).map((item) => item.id)).toEqual([2, 3]);
+    });
+
+    it('should not follow later mutations', () => {
+      const view = store.filter((item) => item.label.startsWith('Grandchild'));
+
+      store.removeItem(2);
+
+      expect(view.has(4)).toBe(true);
+      expect(store.filter((item) => item.label.startsWith('Grandchild')).has(4)).toBe(false);
+    });
+  });
+
+  describe('snapshot', () => {
+    it('should keep previous version after mutations', () => {
+      const before = store.snapshot();
+
+      store.updateItem({ id: 2, parent: 1, label: 'Renamed' });
+      store.removeItem(6);
+
+      const after = store.snapshot();
+
+      expect(before.items).toEqual(getMockItems());
+      expect(after.items.map((item) => item.id)).toEqual([1, 2, 3, 4, 5]);
+      expect(after.version).toBeGreaterThan(before.version);
+      expect(Object.isFrozen(before.items)).toBe(true);
+    });
+
+    it('should share unchanged items between versions', () => {
+      const before = store.snapshot();
+
+      store.updateItem({ id: 2, parent: 1, label: 'Renamed' });
+
+      const after = store.snapshot();
+
+      expect(after.items[0]).toBe(before.items[0]);
+      expect(after.items[1]).not.toBe(before.items[1]);
+    });
+
+    it('should reuse snapshot until next mutation', () => {
+      const snapshot = store.snapshot();
+
+      expect(store.snapshot()).toBe(snapshot);
+
+      store.addItem({ id: 7, parent: null, label: 'New' });
+
+      expect(store.snapshot()).not.toBe(snapshot);
+    });
+
+    it('should reflect mutation in event handlers', () => {
+      const handler = vi.fn(() => store.snapshot().items.length);
+      store.on('added', handler);
+
+      store.addItem({ id: 7, parent: null, label: 'New' });
+
+      expect(handler).toHaveReturnedWith(7);
+    });
+  });
+
+  describe('lazy loading', () => {
+    let source: MemoryTreeDataSource;
+    let lazyStore: TreeStore;
+
+    beforeEach(() => {
+      source = new MemoryTreeDataSource(getMockItems());
+      lazyStore = new TreeStore({ dataSource: source });
+    });
+
+    it('should start with unloaded root', () => {
+      expect(lazyStore.getLoadState(null)).toBe('unloaded');
+      expect(lazyStore.getAll()).toEqual([]);
+      expect(store.getLoadState(null)).toBe('loaded');
+      expect(lazyStore.hasDataSource()).toBe(true);
+      expect(store.hasDataSource()).toBe(false);
+    });
+
+    it('should load roots with children hints', async () => {
+      const roots = await lazyStore.loadChildren(null);
+
+      expect(roots.map((item) => item.id)).toEqual([1]);
+      expect(lazyStore.getLoadState(null)).toBe('loaded');
+      expect(lazyStore.getLoadState(1)).toBe('unloaded');
+      expect(lazyStore.getChildren(1)).toEqual([]);
+      expect(lazyStore.hasChildren(1)).toBe(true);
+    });
+
+    it('should treat nodes without hint as loaded leaves', async () => {
+      await lazyStore.loadChildren(null);
+      await lazyStore.loadChildren(1);
+      await lazyStore.loadChildren(3);
+
+      expect(lazyStore.getLoadState(6)).toBe('loaded');
+      expect(lazyStore.hasChildren(6)).toBe(false);
+      expect(lazyStore.getAllParents(6).map((item) => item.id)).toEqual([6, 3, 1]);
+    });
+
+    it('should cache loaded branches', async () => {
+      await lazyStore.loadChildren(null);
+      await lazyStore.loadChildren(1);
+
+      const children = await lazyStore.loadChildren(1);
+
+      expect(children.map((item) => item.id)).toEqual([2, 3]);
+      expect(source.requests).toEqual([null, 1]);
+    });
+
+    it('should share a pending request', async () => {
+      const first = lazyStore.loadChildren(null);
+      const second = lazyStore.loadChildren(null);
+
+      expect(second).toBe(first);
+      expect(lazyStore.getLoadState(null)).toBe('loading');
+
+      await first;
+
+      expect(source.requests).toEqual([null]);
+    });
+
+    it('should emit loaded and state changes', async () => {
+      const loadedHandler = vi.fn();
+      const stateHandler = vi.fn();
+
+      lazyStore.on('loaded', loadedHandler);
+      lazyStore.on('loadStateChanged', stateHandler);
+      await lazyStore.loadChildren(null);
+
+      expect(loadedHandler).toHaveBeenCalledWith({
+        ids: [1],
+        parent: null,
+        items: [{ id: 1, parent: null, label: 'Root' }],
+      });
+      expect(stateHandler.mock.calls.map(([payload]) => payload.state)).toEqual(['loading', 'loaded']);
+    });
+
+    it('should keep error state and allow retry', async () => {
+      source.setFailure(null);
+
+      await expect(lazyStore.loadChildren(null)).rejects.toThrow('Не удалось загрузить');
+      expect(lazyStore.getLoadState(null)).toBe('error');
+      expect(lazyStore.getLoadError(null)).toBeInstanceOf(Error);
+
+      source.setFailure(null, false);
+      await lazyStore.loadChildren(null);
+
+      expect(lazyStore.getLoadState(null)).toBe('loaded');
+      expect(lazyStore.getLoadError(null)).toBeUndefined();
+    });
+
+    it('should reject invalid response in strict mode', async () => {
+      const invalidStore = new TreeStore({
+        dataSource: {
+          loadChildren: async () => [
+            { item: { id: 1, parent: null, label: 'A' }, hasChildren: false },
+            { item: { id: 1, parent: null, label: 'B' }, hasChildren: false },
+          ],
+        },
+      });
+
+      await expect(invalidStore.loadChildren(null)).rejects.toThrow(TreeValidationError);
+      expect(invalidStore.getLoadState(null)).toBe('error');
+      expect(invalidStore.getAll()).toEqual([]);
+    });
+
+    it('should discard response for removed branch', async () => {
+      await lazyStore.loadChildren(null);
+
+      const load = lazyStore.loadChildren(1);
+      lazyStore.removeItem(1);
+
+      await expect(load).resolves.toEqual([]);
+      expect(lazyStore.getAll()).toEqual([]);
+      expect(lazyStore.getLoadState(1)).toBe('loaded');
+    });
+
+    it('should discard response after data replacement', async () => {
+      const load = lazyStore.loadChildren(null);
+      lazyStore.update([{ id: 10, parent: null, label: 'Local' }]);
+
+      await load;
+
+      expect(lazyStore.getAll().map((item) => item.id)).toEqual([10]);
+    });
+
+    it('should return known children without data source', async () => {
+      const children = await store.loadChildren(2);
+
+      expect(children.map((item) => item.id)).toEqual([4, 5]);
+    });
+  });
+
+  describe('validation', () => {
+    it.each`
+      items                                                                        | description
+      ${[{ id: 1, parent: null, label: 'A' }, { id: 1, parent: null, label: 'B' }]} | ${'duplicate ids'}
+      ${[{ id: 1, parent: 2, label: 'A' }, { id: 2, parent: 1, label: 'B' }]}       | ${'cycle'}
+      ${[{ id: 1, parent: 99, label: 'A' }]}                                       | ${'dangling parent'}
+    `('should reject update with $description in strict mode', ({ items }) => {
+      expect(() => store.update(items)).toThrow(TreeValidationError);
+      expect(store.getAll().length).toBe(6);
+    });
+
+    it('should expose typed issues on the thrown error', () => {
+      let error: unknown = null;
+
+      try {
+        store.update([{ id: 1, parent: 1, label: 'Self' }]);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(TreeValidationError);
+      expect((error as TreeValidationError).issues.map((issue) => issue.type)).toEqual(['selfParent']);
+    });
+
+    it('should quarantine invalid items on update in quarantine mode', () => {
+      const items: ITreeItem[] = [
+        ...getMockItems(),
+        { id: 7, parent: 99, label: 'Orphan' },
+        { id: 8, parent: 7, label: 'Orphan child' },
+      ];
+
+      store.update(items, { validationMode: 'quarantine' });
+
+      expect(store.getAll().length).toBe(6);
+      expect(store.getItem(7)).toBeUndefined();
+      expect(store.getChildren(99)).toEqual([]);
+      expect(store.getQuarantined().map((entry) => entry.item.id)).toEqual([7, 8]);
+    });
+
+    it('should use store-level validation mode by default', () => {
+      const lenientStore = new TreeStore({ validationMode: 'quarantine' });
+
+      lenientStore.update([{ id: 1, parent: null, label: 'A' }, { id: 1, parent: null, label: 'B' }]);
+
+      expect(lenientStore.getItem(1)?.label).toBe('A');
+      expect(lenientStore.getQuarantined()).toHaveLength(1);
+    });
+
+    it('should reject duplicate id on addItem without overwriting', () => {
+      expect(() => store.addItem({ id: 2, parent: 1, label: 'Duplicate' })).toThrow(TreeValidationError);
+      expect(store.getItem(2)?.label).toBe('Child 1');
+      expect(store.getAll().length).toBe(6);
+    });
+
+    it('should quarantine item with missing parent on addItem', () => {
+      const result = store.addItem({ id: 7, parent: 99, label: 'Orphan' }, { validationMode: 'quarantine' });
+
+      expect(result).toBe(false);
+      expect(store.getItem(7)).toBeUndefined();
+      expect(store.getQuarantined()[0]!.issues[0]!.type).toBe('danglingParent');
+    });
+
+    it('should reject moving item under its own descendant', () => {
+      expect(() => store.updateItem({ id: 1, parent: 4, label: 'Root' })).toThrow(TreeValidationError);
+      expect(store.getItem(1)?.parent).toBeNull();
+      expect(store.getAllParents(4).map((item) => item.id)).toEqual([4, 2, 1]);
+    });
+
+    it('should quarantine cycle-creating update and keep the tree intact', () => {
+      const result = store.updateItem({ id: 2, parent: 5, label: 'Child 1' }, { validationMode: 'quarantine' });
+
+      expect(result).toBe(false);
+      expect(store.getItem(2)?.parent).toBe(1);
+      expect(store.getQuarantined()[0]!.issues[0]!.type).toBe('cycle');
+    });
+
+    it('should clear quarantine on the next update', () => {
+      store.addItem({ id: 7, parent: 99, label: 'Orphan' }, { validationMode: 'quarantine' });
+
+      store.update(getMockItems());
+
+      expect(store.getQuarantined()).toEqual([]);
+    });
+
+    it('should report current state as valid', () => {
+      expect(store.validate().valid).toBe(true);
+    });
+  });
+
+  describe('events', () => {
+    it('should emit reset with previous and new items on update', () => {
+      const handler = vi.fn();
+      const previousItems = store.getAll();
+      const newItems: ITreeItem[] = [{ id: 10, parent: null, label: 'New Root' }];
+
+      store.on('reset', handler);
+      store.update(newItems);
+
+      expect(handler).toHaveBeenCalledWith({ ids: [10], items: newItems, previousItems });
+    });
+
+    it('should emit added with the new item', () => {
+      const handler = vi.fn();
+      const newItem: ITreeItem = { id: 7, parent: 1, label: 'New Child' };
+
+      store.on('added', handler);
+      store.addItem(newItem);
+
+      expect(handler).toHaveBeenCalledWith({ ids: [7], item: newItem });
+    });
+
+    it('should not emit added for quarantined item', () => {
+      const handler = vi.fn();
+
+      store.on('added', handler);
+      store.addItem({ id: 7, parent: 99, label: 'Orphan' }, { validationMode: 'quarantine' });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should emit removed with the full removed subtree', () => {
+      const handler = vi.fn();
+
+      store.on('removed', handler);
+      store.removeItem(2);
+
+      const payload = handler.mock.calls[0]![0];
+      expect(payload.ids).toEqual([2, 4, 5]);
+      expect(payload.item.id).toBe(2);
+      expect(payload.index).toBe(0);
+      expect(payload.items.map((item: ITreeItem) => item.label)).toEqual([
+        'Child 1',
+        'Grandchild 1',
+        'Grandchild 2',
+      ]);
+    });
+
+    it('should emit updated with old and new values when parent is unchanged', () => {
+      const updatedHandler = vi.fn();
+      const movedHandler = vi.fn();
+      const oldItem = store.getItem(4);
+      const newItem: ITreeItem = { id: 4, parent: 2, label: 'Renamed' };
+
+      store.on('updated', updatedHandler);
+      store.on('moved', movedHandler);
+      store.updateItem(newItem);
+
+      expect(updatedHandler).toHaveBeenCalledWith({ ids: [4], oldItem, newItem });
+      expect(movedHandler).not.toHaveBeenCalled();
+    });
+
+    it('should emit moved with old and new parents and affected subtree', () => {
+      const updatedHandler = vi.fn();
+      const movedHandler = vi.fn();
+
+      store.on('updated', updatedHandler);
+      store.on('moved', movedHandler);
+      store.updateItem({ id: 2, parent: 3, label: 'Child 1' });
+
+      const payload = movedHandler.mock.calls[0]![0];
+      expect(payload.ids).toEqual([2, 4, 5]);
+      expect(payload.oldParent).toBe(1);
+      expect(payload.newParent).toBe(3);
+      expect(payload.oldIndex).toBe(0);
+      expect(payload.newIndex).toBe(1);
+      expect(updatedHandler).not.toHaveBeenCalled();
+    });
+
+    it('should emit moved with indexes on reorder', () => {
+      const handler = vi.fn();
+
+      store.on('moved', handler);
+      store.moveItem(5, 2, 0);
+
+      const payload = handler.mock.calls[0]![0];
+      expect(payload.oldParent).toBe(2);
+      expect(payload.newParent).toBe(2);
+      expect(payload.oldIndex).toBe(1);
+      expect(payload.newIndex).toBe(0);
+    });
+
+    it('should stop notifying after off', () => {
+      const handler = vi.fn();
+
+      store.on('removed', handler);
+      store.off('removed', handler);
+      store.removeItem(6);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
   });
 });
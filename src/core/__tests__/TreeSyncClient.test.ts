@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import TreeSyncClient from '../TreeSyncClient';
+import TreeStore from '../TreeStore';
+import MemoryTreeSyncHub from '@/mocks/MemoryTreeSyncHub';
+import { generateTreeItemId } from '@/utils/tree.utils';
+import type { ITreeItem, TreeSyncMessage } from '@/types/tree.types';
+
+describe('TreeSyncClient', () => {
+  let clients: TreeSyncClient[] = [];
+
+  const getMockItems = (): ITreeItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'A' },
+    { id: 3, parent: 1, label: 'B' },
+    { id: 4, parent: 2, label: 'A1' },
+  ];
+
+  const connect = (hub: MemoryTreeSyncHub, clientId: string, items: ITreeItem[] = getMockItems()) => {
+    const store = new TreeStore();
+    store.update(items);
+    const client = new TreeSyncClient(store, hub.connect(), { clientId, user: { name: clientId, color: '#000' } });
+    clients.push(client);
+
+    return { store, client };
+  };
+
+  const getTree = (store: TreeStore) => {
+    const tree: ITreeItem[] = [];
+    const visit = (children: ITreeItem[]) => children.forEach((item) => {
+      tree.push(item);
+      visit(store.getChildren(item.id));
+    });
+    visit(store.getRoots());
+
+    return tree;
+  };
+
+  afterEach(() => {
+    clients.forEach((client) => client.destroy());
+    clients = [];
+  });
+
+  it('should propagate local mutations to other clients', () => {
+    const hub = new MemoryTreeSyncHub();
+    const first = connect(hub, 'a');
+    const second = connect(hub, 'b');
+
+    first.store.addItem({ id: 'a:1', parent: 2, label: 'New' });
+    first.store.updateItem({ id: 3, parent: 1, label: 'B*' });
+    first.store.moveItem(4, 3, 0);
+    first.store.removeItem(2);
+
+    expect(getTree(second.store)).toEqual(getTree(first.store));
+    expect(second.store.getItem(3)?.label).toBe('B*');
+    expect(second.store.getItem(2)).toBeUndefined();
+    expect(second.store.getItem('a:1')).toBeUndefined();
+  });
+
+  it('should converge concurrent renames, moves and deletes', () => {
+    const hub = new MemoryTreeSyncHub(true);
+    const first = connect(hub, 'a');
+    const second = connect(hub, 'b');
+    hub.flush();
+
+    // Одновременно: a переименовывает A и переносит B под A, b удаляет A и переименовывает B
+    first.store.updateItem({ id: 2, parent: 1, label: 'A (a)' });
+    first.store.moveItem(3, 2);
+    second.store.removeItem(2);
+    second.store.updateItem({ id: 3, parent: 1, label: 'B (b)' });
+
+    hub.flush(true);
+
+    expect(getTree(first.store)).toEqual(getTree(second.store));
+    expect(getTree(first.store).map((item) => item.id)).toEqual([1]);
+  });
+
+  it('should converge concurrent moves that would form a cycle', () => {
+    const hub = new MemoryTreeSyncHub(true);
+    const first = connect(hub, 'a');
+    const second = connect(hub, 'b');
+    hub.flush();
+
+    first.store.moveItem(2, 3);
+    second.store.moveItem(3, 2);
+
+    hub.flush();
+
+    const tree = getTree(first.store);
+
+    expect(getTree(second.store)).toEqual(tree);
+    expect(tree.find((item) => item.id === 2)?.parent).toBe(3);
+    expect(tree.find((item) => item.id === 3)?.parent).toBe(1);
+    expect(first.store.validate().valid).toBe(true);
+  });
+
+  it('should converge sibling order by rank', () => {
+    const hub = new MemoryTreeSyncHub(true);
+    const first = connect(hub, 'a');
+    const second = connect(hub, 'b');
+    hub.flush();
+
+    first.store.moveItem(3, 1, 0);
+    second.store.addItem({ id: 'b:1', parent: 1, label: 'New' });
+
+    hub.flush();
+
+    expect(first.store.getChildren(1).map((item) => item.id)).toEqual([3, 2, 'b:1']);
+    expect(getTree(second.store)).toEqual(getTree(first.store));
+  });
+
+  it('should generate client-unique ids for concurrent additions', () => {
+    const hub = new MemoryTreeSyncHub(true);
+    const first = connect(hub, 'a');
+    const second = connect(hub, 'b');
+    hub.flush();
+
+    first.store.addItem({ id: generateTreeItemId(first.store), parent: 1, label: 'From a' });
+    second.store.addItem({ id: generateTreeItemId(second.store), parent: 1, label: 'From b' });
+
+    hub.flush();
+
+    expect(first.store.getChildren(1).map((item) => item.id)).toEqual([2, 3, 'a:1', 'b:1']);
+    expect(getTree(second.store)).toEqual(getTree(first.store));
+
+    first.client.destroy();
+    clients = [second.client];
+
+    expect(generateTreeItemId(first.store)).toBe(5);
+  });
+
+  it('should bring a late client up to date', () => {
+    const hub = new MemoryTreeSyncHub();
+    const first = connect(hub, 'a');
+
+    first.store.updateItem({ id: 2, parent: 1, label: 'A*' });
+    first.store.addItem({ id: 'a:1', parent: 1, label: 'New' });
+
+    const late = connect(hub, 'c', []);
+
+    expect(getTree(late.store)).toEqual(getTree(first.store));
+  });
+
+  it('should seed a large tree without rebuilding positions per item', () => {
+    const hub = new MemoryTreeSyncHub();
+    const items: ITreeItem[] = Array.from({ length: 4000 }, (_, index) => ({
+      id: index + 1,
+      parent: index < 40 ? null : (index % 40) + 1,
+      label: `Item ${index + 1}`,
+    }));
+    const startedAt = performance.now();
+    const first = connect(hub, 'a', items);
+
+    expect(performance.now() - startedAt).toBeLessThan(500);
+
+    const late = connect(hub, 'c', []);
+
+    expect(getTree(late.store)).toEqual(getTree(first.store));
+    expect(late.store.getChildren(1).map((item) => item.id)).toEqual(
+      items.filter((item) => item.parent === 1).map((item) => item.id)
+    );
+  });
+
+  it('should not echo remote changes back', () => {
+    const hub = new MemoryTreeSyncHub();
+    const first = connect(hub, 'a');
+    const second = connect(hub, 'b');
+    const transport = hub.connect();
+    const messages: TreeSyncMessage[] = [];
+    transport.subscribe((message) => messages.push(message));
+
+    first.store.updateItem({ id: 2, parent: 1, label: 'A*' });
+
+    expect(second.store.getItem(2)?.label).toBe('A*');
+    expect(messages).toEqual([expect.objectContaining({ type: 'operations', clientId: 'a' })]);
+  });
+
+  it('should ignore own messages returned by the server', () => {
+    const store = new TreeStore();
+    store.update(getMockItems());
+    let deliver: (message: TreeSyncMessage) => void = () => {};
+    const transport = {
+      send: vi.fn((message: TreeSyncMessage) => deliver(message)),
+      subscribe: (handler: (message: TreeSyncMessage) => void) => {
+        deliver = handler;
+
+        return () => {};
+      },
+    };
+    const client = new TreeSyncClient(store, transport, { clientId: 'a' });
+    clients.push(client);
+
+    store.updateItem({ id: 2, parent: 1, label: 'A*' });
+
+    // На собственный hello клиент не отвечает
+    expect(transport.send.mock.calls.map(([message]) => message.type)).toEqual(['hello', 'operations']);
+    expect(store.getItem(2)?.label).toBe('A*');
+  });
+
+  it('should share selections and forget clients that leave', () => {
+    const hub = new MemoryTreeSyncHub();
+    const first = connect(hub, 'a');
+    const second = connect(hub, 'b');
+    const onPresence = vi.fn();
+    first.client.on('presence', onPresence);
+
+    second.client.setSelection([2, 3]);
+
+    expect(onPresence).toHaveBeenLastCalledWith({
+      selections: [{ clientId: 'b', user: { name: 'b', color: '#000' }, ids: [2, 3] }],
+    });
+    expect(first.client.getRemoteSelections()).toHaveLength(1);
+
+    second.client.destroy();
+    clients = [first.client];
+
+    expect(first.client.getRemoteSelections()).toEqual([]);
+    expect(onPresence).toHaveBeenLastCalledWith({ selections: [] });
+  });
+
+  it('should apply remote edits to a lazily loaded branch', async () => {
+    const hub = new MemoryTreeSyncHub();
+    const first = connect(hub, 'a');
+    const store = new TreeStore({
+      dataSource: {
+        loadChildren: async (parentId) => getMockItems()
+          .filter((item) => item.parent === parentId)
+          .map((item) => ({ item, hasChildren: parentId === null })),
+      },
+    });
+    clients.push(new TreeSyncClient(store, hub.connect(), { clientId: 'b' }));
+
+    first.store.updateItem({ id: 3, parent: 1, label: 'B*' });
+    await store.loadChildren(null);
+    await store.loadChildren(1);
+
+    expect(store.getItem(3)?.label).toBe('B*');
+  });
+});
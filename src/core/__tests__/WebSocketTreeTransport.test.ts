@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import WebSocketTreeTransport from '../WebSocketTreeTransport';
+import type { TreeSyncMessage } from '@/types/tree.types';
+
+class FakeWebSocket extends EventTarget {
+  static last: FakeWebSocket | undefined;
+
+  public readyState = 0;
+
+  public sent: string[] = [];
+
+  constructor(public url: string = '') {
+    super();
+    FakeWebSocket.last = this;
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.dispatchEvent(new Event('open'));
+  }
+
+  receive(data: string) {
+    this.dispatchEvent(new MessageEvent('message', { data }));
+  }
+}
+
+describe('WebSocketTreeTransport', () => {
+  const message: TreeSyncMessage = { type: 'hello', clientId: 'a' };
+
+  const createTransport = () => {
+    const socket = new FakeWebSocket();
+
+    return { socket, transport: new WebSocketTreeTransport(socket as unknown as WebSocket) };
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should queue messages until the connection opens', () => {
+    const { socket, transport } = createTransport();
+
+    transport.send(message);
+
+    expect(socket.sent).toEqual([]);
+
+    socket.open();
+    transport.send({ type: 'leave', clientId: 'a' });
+
+    expect(socket.sent.map((data) => JSON.parse(data).type)).toEqual(['hello', 'leave']);
+  });
+
+  it('should drop messages after the connection is closed', () => {
+    const { socket, transport } = createTransport();
+    socket.open();
+
+    transport.close();
+    transport.send(message);
+
+    expect(socket.readyState).toBe(3);
+    expect(socket.sent).toEqual([]);
+  });
+
+  it('should parse incoming messages and skip invalid JSON', () => {
+    const { socket, transport } = createTransport();
+    const handler = vi.fn();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const unsubscribe = transport.subscribe(handler);
+
+    socket.receive(JSON.stringify(message));
+    socket.receive('{');
+    unsubscribe();
+    socket.receive(JSON.stringify(message));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(message);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('should open a connection by url', () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+
+    const transport = new WebSocketTreeTransport('ws://localhost/tree');
+    const socket = FakeWebSocket.last!;
+    socket.open();
+    transport.send(message);
+
+    expect(socket.url).toBe('ws://localhost/tree');
+    expect(socket.sent).toEqual([JSON.stringify(message)]);
+  });
+});
@@ -0,0 +1,65 @@
+import type {
+  ITreeDataSource,
+  ITreeDataSourceNode,
+  ITreeItem,
+  TreeItemId,
+} from '@/types/tree.types.ts';
+
+/**
+ * Источник данных в памяти для демонстрации и тестов ленивой загрузки.
+ * Отдает детей ветки из плоского массива с признаком наличия собственных детей
+ *
+ * @class MemoryTreeDataSource
+ * @template T - Тип элемента дерева
+ */
+export default class MemoryTreeDataSource<T extends ITreeItem = ITreeItem> implements ITreeDataSource<T> {
+  /**
+   * Идентификаторы запрошенных веток в порядке запросов (null - корень)
+   */
+  public readonly requests: Array<TreeItemId | null> = [];
+
+  /**
+   * Ветки, запрос которых завершится ошибкой
+   * @private
+   */
+  private failures: Set<TreeItemId | null> = new Set();
+
+  /**
+   * @param {T[]} items - Все элементы дерева
+   * @param {number} [delay] - Задержка ответа в миллисекундах
+   */
+  constructor(private items: T[], private delay: number = 0) {}
+
+  /**
+   * Включает или отключает ошибку загрузки ветки
+   *
+   * @param {TreeItemId | null} parentId - Идентификатор ветки (null - корень)
+   * @param {boolean} [fail] - Завершать ли запрос ошибкой
+   */
+  public setFailure(parentId: TreeItemId | null, fail: boolean = true): void {
+    if (fail) {
+      this.failures.add(parentId);
+    } else {
+      this.failures.delete(parentId);
+    }
+  }
+
+  public async loadChildren(parentId: TreeItemId | null): Promise<ITreeDataSourceNode<T>[]> {
+    this.requests.push(parentId);
+
+    if (this.delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.delay));
+    }
+
+    if (this.failures.has(parentId)) {
+      throw new Error(`Не удалось загрузить детей элемента ${parentId ?? 'root'}`);
+    }
+
+    return this.items
+      .filter((item) => item.parent === parentId)
+      .map((item) => ({
+        item: { ...item },
+        hasChildren: this.items.some((child) => child.parent === item.id),
+      }));
+  }
+}
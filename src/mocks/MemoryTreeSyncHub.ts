@@ -0,0 +1,115 @@
+import type { ITreeSyncTransport, TreeSyncMessage } from '@/types/tree.types.ts';
+
+/**
+ * Подключенный к концентратору клиент
+ */
+interface IMemoryConnection {
+  handlers: Set<(message: TreeSyncMessage) => void>;
+}
+
+/**
+ * Сообщение в очереди доставки
+ */
+interface IPendingMessage {
+  from: IMemoryConnection;
+  message: TreeSyncMessage;
+}
+
+/**
+ * Концентратор совместного редактирования в памяти для демонстрации и тестов.
+ * Пересылает сообщение каждого транспорта всем остальным, копируя его через JSON, как сеть.
+ * В ручном режиме сообщения копятся до flush: так моделируются одновременные правки
+ * и доставка в произвольном порядке
+ *
+ * @class MemoryTreeSyncHub
+ */
+export default class MemoryTreeSyncHub {
+  /**
+   * Подключенные клиенты
+   * @private
+   */
+  private connections: Set<IMemoryConnection> = new Set();
+
+  /**
+   * Недоставленные сообщения в порядке отправки
+   * @private
+   */
+  private queue: IPendingMessage[] = [];
+
+  /**
+   * Идет доставка: сообщения, отправленные обработчиками, доставляются следующей партией
+   * @private
+   */
+  private flushing = false;
+
+  /**
+   * @param {boolean} [manual] - Доставлять сообщения только по flush
+   */
+  constructor(private manual: boolean = false) {}
+
+  /**
+   * Количество недоставленных сообщений
+   */
+  public get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Подключает новый клиент
+   *
+   * @returns {ITreeSyncTransport} Транспорт клиента
+   */
+  public connect(): ITreeSyncTransport {
+    const connection: IMemoryConnection = { handlers: new Set() };
+
+    this.connections.add(connection);
+
+    return {
+      send: (message) => {
+        this.queue.push({ from: connection, message: JSON.parse(JSON.stringify(message)) });
+
+        if (!this.manual) {
+          this.flush();
+        }
+      },
+      subscribe: (handler) => {
+        connection.handlers.add(handler);
+
+        return () => connection.handlers.delete(handler);
+      },
+      close: () => {
+        this.connections.delete(connection);
+      },
+    };
+  }
+
+  /**
+   * Доставляет накопленные сообщения, включая отправленные во время доставки
+   *
+   * @param {boolean} [reverse] - Доставлять накопленные сообщения в обратном порядке
+   */
+  public flush(reverse: boolean = false): void {
+    if (this.flushing) {
+      return;
+    }
+
+    this.flushing = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const batch = reverse ? this.queue.reverse() : this.queue;
+
+        this.queue = [];
+        batch.forEach(({ from, message }) => {
+          this.connections.forEach((connection) => {
+            if (connection !== from) {
+              connection.handlers.forEach((handler) => handler(message));
+            }
+          });
+        });
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+}
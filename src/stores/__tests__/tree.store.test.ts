@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createPinia, setActivePinia } from 'pinia';
+import { computed, isReactive } from 'vue';
+import { defineTreeStore } from '../tree.store';
+import MemoryTreeDataSource from '@/mocks/MemoryTreeDataSource';
+import type { ITreeItem } from '@/types/tree.types';
+
+describe('defineTreeStore', () => {
+  const getMockItems = (): ITreeItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child 1' },
+    { id: 3, parent: 1, label: 'Child 2' },
+    { id: 4, parent: 2, label: 'Grandchild' },
+  ];
+
+  const useTreeStore = defineTreeStore('tree');
+
+  beforeEach(() => {
+    setActivePinia(createPinia());
+  });
+
+  it('should share one tree between store usages', () => {
+    useTreeStore().update(getMockItems());
+
+    expect(useTreeStore().items).toHaveLength(4);
+    expect(useTreeStore().treeStore).toBe(useTreeStore().treeStore);
+  });
+
+  it('should keep TreeStore instance non-reactive', () => {
+    const store = useTreeStore();
+
+    expect(isReactive(store.treeStore)).toBe(false);
+  });
+
+  it('should expose tree getters', () => {
+    const store = useTreeStore();
+    store.update(getMockItems());
+
+    expect(store.roots.map((item) => item.id)).toEqual([1]);
+    expect(store.byId(4)?.label).toBe('Grandchild');
+    expect(store.childrenOf(1).map((item) => item.id)).toEqual([2, 3]);
+    expect(store.pathOf(4).map((item) => item.id)).toEqual([1, 2, 4]);
+  });
+
+  it('should refresh state and getters after each action', () => {
+    const store = useTreeStore();
+    store.update(getMockItems());
+
+    store.addItem({ id: 5, parent: null, label: 'Other' });
+    store.moveItem(4, 5);
+    store.updateItem({ id: 3, parent: 1, label: 'Renamed' });
+    store.insertBefore(3, 2);
+
+    expect(store.roots.map((item) => item.id)).toEqual([1, 5]);
+    expect(store.childrenOf(5).map((item) => item.id)).toEqual([4]);
+    expect(store.childrenOf(1).map((item) => item.id)).toEqual([3, 2]);
+    expect(store.byId(3)?.label).toBe('Renamed');
+
+    store.removeItem(1);
+
+    expect(store.items.map((item) => item.id).sort()).toEqual([4, 5]);
+    expect(store.byId(2)).toBeUndefined();
+  });
+
+  it('should re-run dependents of getters after mutations', () => {
+    const store = useTreeStore();
+    store.update(getMockItems());
+    const rootCount = computed(() => store.roots.length);
+    const childCount = computed(() => store.childrenOf(1).length);
+
+    expect(rootCount.value).toBe(1);
+    expect(childCount.value).toBe(2);
+
+    store.addItem({ id: 5, parent: null, label: 'Other' });
+    store.addItem({ id: 6, parent: 1, label: 'Child 3' });
+
+    expect(rootCount.value).toBe(2);
+    expect(childCount.value).toBe(3);
+  });
+
+  it('should quarantine invalid items by default', () => {
+    const store = useTreeStore();
+
+    store.update([...getMockItems(), { id: 9, parent: 42, label: 'Orphan' }]);
+
+    expect(store.items).toHaveLength(4);
+    expect(store.quarantined.map((entry) => entry.item.id)).toEqual([9]);
+
+    store.clearQuarantine();
+
+    expect(store.quarantined).toEqual([]);
+    expect(store.treeStore.getQuarantined()).toEqual([]);
+  });
+
+  it('should refresh quarantine after a rejected mutation', () => {
+    const store = useTreeStore();
+    store.update(getMockItems());
+
+    expect(store.addItem({ id: 9, parent: 42, label: 'Orphan' })).toBe(false);
+    expect(store.quarantined.map((entry) => entry.item.id)).toEqual([9]);
+
+    expect(store.updateItem({ id: 2, parent: 2, label: 'Cycle' })).toBe(false);
+    expect(store.quarantined).toHaveLength(2);
+  });
+
+  it('should patch items without replacing unchanged entries', () => {
+    const store = useTreeStore();
+    store.update(getMockItems());
+    const count = computed(() => store.items.length);
+    const first = store.items[0];
+
+    store.addItem({ id: 5, parent: 1, label: 'New' });
+    store.updateItem({ id: 3, parent: 1, label: 'Renamed' });
+    store.moveItem(5, 1, 0);
+    store.removeItem(2);
+
+    expect(count.value).toBe(3);
+    expect(store.items[0]).toBe(first);
+    expect(store.items).toEqual(store.treeStore.getAll());
+  });
+
+  it('should expose state readable by devtools', () => {
+    const pinia = createPinia();
+    setActivePinia(pinia);
+
+    useTreeStore().update(getMockItems());
+
+    expect(Object.keys(pinia.state.value.tree!)).toEqual(['items', 'quarantined']);
+    expect(pinia.state.value.tree!.items).toHaveLength(4);
+  });
+
+  it('should load branches through data source', async () => {
+    const useLazyStore = defineTreeStore('lazy', { dataSource: new MemoryTreeDataSource(getMockItems()) });
+    const store = useLazyStore();
+
+    await store.loadChildren(null);
+    await store.loadChildren(1);
+
+    expect(store.items.map((item) => item.id)).toEqual([1, 2, 3]);
+    expect(store.childrenOf(1)).toHaveLength(2);
+  });
+});
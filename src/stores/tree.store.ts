@@ -0,0 +1,173 @@
+import { defineStore } from 'pinia';
+import { computed, markRaw, shallowRef, triggerRef } from 'vue';
+import type {
+  ITreeItem,
+  ITreeMutationOptions,
+  ITreeQuarantineEntry,
+  ITreeStoreOptions,
+  TreeItemId,
+} from '@/types/tree.types.ts';
+import TreeStore from '@/core/TreeStore.ts';
+
+/**
+ * Создает Pinia-хранилище дерева. Данные хранит и проверяет TreeStore,
+ * а Pinia делает дерево общим для компонентов и видимым в Vue devtools.
+ *
+ * Состояние items и quarantined - копии для чтения, обновляемые по событиям TreeStore:
+ * изменения вносятся только действиями. Копия items обновляется точечно, без полного копирования
+ * на каждую правку, и может меняться на месте: зависимости следует строить на store.items,
+ * а не на сохраненном ранее массиве. Экземпляр treeStore можно передать в TreeGrid
+ * через prop store вместо items. По умолчанию некорректные элементы уходят в карантин, как в TreeGrid
+ *
+ * @param {string} id - Идентификатор хранилища Pinia
+ * @param {ITreeStoreOptions<T>} [options] - Параметры TreeStore
+ * @returns Функция useStore
+ */
+export function defineTreeStore<T extends ITreeItem = ITreeItem>(id: string, options: ITreeStoreOptions<T> = {}) {
+  return defineStore(id, () => {
+    // Индексы TreeStore не должны становиться реактивными: devtools показывает копии состояния
+    const treeStore = markRaw(new TreeStore<T>({ validationMode: 'quarantine', ...options }));
+
+    const items = shallowRef<T[]>([]);
+    const quarantined = shallowRef<ITreeQuarantineEntry<T>[]>([]);
+
+    // Карантин пополняется и отклоненными мутациями, которые не порождают событий
+    const refreshQuarantine = () => {
+      const current = treeStore.getQuarantined();
+
+      if (current.length !== quarantined.value.length || current.some((entry, index) => entry !== quarantined.value[index])) {
+        quarantined.value = current;
+      }
+    };
+
+    /**
+     * Заменяет в копии items прежние версии элементов новыми
+     */
+    const replaceItems = (changes: Array<{ oldItem: T; newItem: T }>) => {
+      changes.forEach(({ oldItem, newItem }) => {
+        const index = items.value.indexOf(oldItem);
+
+        if (index !== -1) {
+          items.value[index] = newItem;
+        }
+      });
+    };
+
+    /**
+     * Применяет изменение к копии items и сообщает зависимостям
+     */
+    const patchItems = (patch: () => void) => {
+      patch();
+      triggerRef(items);
+      refreshQuarantine();
+    };
+
+    treeStore.on('reset', () => {
+      items.value = [...treeStore.getAll()];
+      refreshQuarantine();
+    });
+    treeStore.on('added', ({ item }) => patchItems(() => items.value.push(item)));
+    treeStore.on('loaded', (payload) => patchItems(() => items.value.push(...payload.items)));
+    treeStore.on('removed', (payload) => patchItems(() => {
+      const removed = new Set(payload.items);
+
+      items.value = items.value.filter((item) => !removed.has(item));
+    }));
+    treeStore.on('updated', (change) => patchItems(() => replaceItems([change])));
+    treeStore.on('moved', (change) => patchItems(() => replaceItems([...change.reordered, change])));
+
+    // Геттеры читают индексы TreeStore и пересчитываются при каждой новой копии items
+    const roots = computed(() => {
+      void items.value;
+
+      return [...treeStore.getRoots()];
+    });
+
+    const byId = computed(() => {
+      void items.value;
+
+      return (itemId: TreeItemId): T | undefined => treeStore.getItem(itemId);
+    });
+
+    const childrenOf = computed(() => {
+      void items.value;
+
+      return (itemId: TreeItemId): T[] => [...treeStore.getChildren(itemId)];
+    });
+
+    // Путь от корня до элемента включительно
+    const pathOf = computed(() => {
+      void items.value;
+
+      return (itemId: TreeItemId): T[] => treeStore.getAllParents(itemId).reverse();
+    });
+
+    /**
+     * Выполняет мутацию TreeStore и обновляет карантин: отклоненная мутация событий не порождает
+     */
+    const mutate = <R>(mutation: () => R): R => {
+      try {
+        return mutation();
+      } finally {
+        refreshQuarantine();
+      }
+    };
+
+    const update = (nextItems: T[], mutationOptions?: ITreeMutationOptions) => {
+      mutate(() => treeStore.update(nextItems, mutationOptions));
+    };
+
+    const addItem = (item: T, mutationOptions?: ITreeMutationOptions): boolean => {
+      return mutate(() => treeStore.addItem(item, mutationOptions));
+    };
+
+    const removeItem = (itemId: TreeItemId): boolean => mutate(() => treeStore.removeItem(itemId));
+
+    const updateItem = (item: T, mutationOptions?: ITreeMutationOptions): boolean => {
+      return mutate(() => treeStore.updateItem(item, mutationOptions));
+    };
+
+    const moveItem = (
+      itemId: TreeItemId,
+      parent: TreeItemId | null,
+      index?: number,
+      mutationOptions?: ITreeMutationOptions
+    ): boolean => {
+      return mutate(() => treeStore.moveItem(itemId, parent, index, mutationOptions));
+    };
+
+    const insertBefore = (itemId: TreeItemId, targetId: TreeItemId, mutationOptions?: ITreeMutationOptions) => {
+      return mutate(() => treeStore.insertBefore(itemId, targetId, mutationOptions));
+    };
+
+    const insertAfter = (itemId: TreeItemId, targetId: TreeItemId, mutationOptions?: ITreeMutationOptions) => {
+      return mutate(() => treeStore.insertAfter(itemId, targetId, mutationOptions));
+    };
+
+    const loadChildren = (parentId: TreeItemId | null): Promise<T[]> => treeStore.loadChildren(parentId);
+
+    const clearQuarantine = () => {
+      treeStore.clearQuarantine();
+      quarantined.value = [];
+    };
+
+    return {
+      treeStore,
+      items,
+      quarantined,
+      roots,
+      byId,
+      childrenOf,
+      pathOf,
+      update,
+      addItem,
+      removeItem,
+      updateItem,
+      moveItem,
+      insertBefore,
+      insertAfter,
+      loadChildren,
+      clearQuarantine,
+    };
+  });
+}
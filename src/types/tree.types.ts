@@ -10,11 +10,13 @@ export type TreeItemId = string | number;
  * @property {TreeItemId} id - Уникальный идентификатор элемента
  * @property {TreeItemId | null} parent - Идентификатор родительского элемента (null для корневых)
  * @property {string} label - Отображаемое наименование элемента
+ * @property {number} [order] - Ранг среди соседей (дробный). Элементы без ранга идут после ранжированных
  */
 export interface ITreeItem {
   id: TreeItemId;
   parent: TreeItemId | null;
   label: string;
+  order?: number;
 }
 
 /**
@@ -23,20 +25,1105 @@ export interface ITreeItem {
 export type TreeItemCategory = 'Группа' | 'Элемент';
 
 /**
- * Расширенный интерфейс элемента с дополнительными вычисляемыми полями
+ * Вычисляемые поля строки дерева
  *
- * @interface ITreeItemWithCategory
- * @extends ITreeItem
+ * @interface ITreeItemComputedFields
  * @property {TreeItemCategory} [category] - Категория элемента (Группа/Элемент)
  * @property {boolean} [hasChildren] - Флаг наличия дочерних элементов
  * @property {string[]} [path] - Путь элемента в дереве для AgGrid
  * @property {number} [level] - Уровень вложенности элемента
+ * @property {TreeLoadState} [placeholder] - Служебная строка-заглушка незагруженной ветки
  */
-export interface ITreeItemWithCategory extends ITreeItem {
+export interface ITreeItemComputedFields {
   category?: TreeItemCategory;
   hasChildren?: boolean;
   path?: string[];
   level?: number;
+  placeholder?: TreeLoadState;
 }
 
+/**
+ * Расширенный элемент с дополнительными вычисляемыми полями.
+ * Прикладные поля элемента типа T (количество, цена, шифр...) сохраняются с полной типизацией
+ */
+export type ITreeItemWithCategory<T extends ITreeItem = ITreeItem> = T & ITreeItemComputedFields;
+
+/**
+ * Тип нарушения структуры дерева
+ * - duplicate: повторяющийся идентификатор
+ * - cycle: элемент входит в цикл родительских ссылок
+ * - danglingParent: родитель элемента не существует
+ * - selfParent: элемент ссылается сам на себя как на родителя
+ */
+export type TreeValidationIssueType = 'duplicate' | 'cycle' | 'danglingParent' | 'selfParent';
+
+/**
+ * Описание нарушения структуры дерева
+ *
+ * @interface ITreeValidationIssue
+ * @property {TreeValidationIssueType} type - Тип нарушения
+ * @property {TreeItemId} id - Идентификатор проблемного элемента
+ * @property {TreeItemId | null} parent - Родитель проблемного элемента
+ * @property {string} message - Человекочитаемое описание
+ * @property {TreeItemId[]} [cycle] - Идентификаторы элементов цикла (только для type = 'cycle')
+ */
+export interface ITreeValidationIssue {
+  type: TreeValidationIssueType;
+  id: TreeItemId;
+  parent: TreeItemId | null;
+  message: string;
+  cycle?: TreeItemId[];
+}
+
+/**
+ * Результат проверки структуры дерева
+ *
+ * @interface ITreeValidationReport
+ * @property {boolean} valid - true если нарушений нет
+ * @property {ITreeValidationIssue[]} issues - Список найденных нарушений
+ */
+export interface ITreeValidationReport {
+  valid: boolean;
+  issues: ITreeValidationIssue[];
+}
+
+/**
+ * Режим реакции хранилища на некорректные данные
+ * - strict: мутация отклоняется с ошибкой TreeValidationError
+ * - quarantine: некорректные элементы откладываются в карантин, остальные применяются
+ */
+export type TreeValidationMode = 'strict' | 'quarantine';
+
+/**
+ * Элемент, отложенный в карантин вместе с причинами
+ *
+ * @interface ITreeQuarantineEntry
+ * @property {T} item - Отклоненный элемент
+ * @property {ITreeValidationIssue[]} issues - Причины отклонения
+ */
+export interface ITreeQuarantineEntry<T extends ITreeItem = ITreeItem> {
+  item: T;
+  issues: ITreeValidationIssue[];
+}
+
+/**
+ * Состояние загрузки детей ветки
+ * - unloaded: дети есть (по подсказке источника), но еще не запрошены
+ * - loading: запрос выполняется
+ * - loaded: дети загружены или загружать нечего
+ * - error: запрос завершился ошибкой, его можно повторить
+ */
+export type TreeLoadState = 'unloaded' | 'loading' | 'loaded' | 'error';
+
+/**
+ * Элемент, полученный из источника данных
+ *
+ * @interface ITreeDataSourceNode
+ * @property {T} item - Элемент дерева
+ * @property {boolean} hasChildren - Подсказка: есть ли у элемента дети, которые можно загрузить
+ */
+export interface ITreeDataSourceNode<T extends ITreeItem = ITreeItem> {
+  item: T;
+  hasChildren: boolean;
+}
+
+/**
+ * Асинхронный источник данных для ленивой загрузки дерева
+ *
+ * @interface ITreeDataSource
+ */
+export interface ITreeDataSource<T extends ITreeItem = ITreeItem> {
+  /**
+   * Загружает прямых детей элемента (null - корневые элементы)
+   */
+  loadChildren(parentId: TreeItemId | null): Promise<ITreeDataSourceNode<T>[]>;
+}
+
+/**
+ * Опции хранилища дерева
+ *
+ * @interface ITreeStoreOptions
+ * @property {TreeValidationMode} [validationMode] - Режим валидации по умолчанию ('strict')
+ * @property {ITreeDataSource<T>} [dataSource] - Источник для ленивой загрузки детей
+ */
+export interface ITreeStoreOptions<T extends ITreeItem = ITreeItem> {
+  validationMode?: TreeValidationMode;
+  dataSource?: ITreeDataSource<T>;
+}
+
+/**
+ * Опции отдельной мутации хранилища
+ *
+ * @interface ITreeMutationOptions
+ * @property {TreeValidationMode} [validationMode] - Переопределяет режим валидации хранилища
+ * @property {number} [index] - Точная позиция среди соседей для addItem/updateItem.
+ *   По умолчанию позиция определяется рангом order
+ */
+export interface ITreeMutationOptions {
+  validationMode?: TreeValidationMode;
+  index?: number;
+}
+
+/**
+ * Изменение элемента: прежняя и новая версии
+ *
+ * @interface ITreeItemChange
+ * @property {T} oldItem - Данные до изменения
+ * @property {T} newItem - Данные после изменения
+ */
+export interface ITreeItemChange<T extends ITreeItem = ITreeItem> {
+  oldItem: T;
+  newItem: T;
+}
+
+/**
+ * Полезная нагрузка событий хранилища дерева.
+ * Поле ids всегда содержит идентификаторы всех затронутых элементов
+ *
+ * @interface ITreeStoreEvents
+ * @property added - Элемент добавлен
+ * @property removed - Элемент удален вместе с поддеревом (items - все удаленные элементы в порядке DFS,
+ *   index - позиция элемента среди соседей до удаления)
+ * @property updated - Изменены данные элемента без смены родителя
+ * @property moved - Элемент перенесен к другому родителю или на другую позицию среди соседей
+ *   (ids включает всех потомков, reordered - соседи, получившие ранг при нормализации)
+ * @property reset - Содержимое хранилища полностью заменено через update()
+ * @property loaded - Дети ветки загружены из источника данных (не записывается в историю)
+ * @property loadStateChanged - Изменилось состояние загрузки ветки (ids пуст для корня)
+ */
+export interface ITreeStoreEvents<T extends ITreeItem = ITreeItem> {
+  added: {
+    ids: TreeItemId[];
+    item: T;
+  };
+  removed: {
+    ids: TreeItemId[];
+    item: T;
+    items: T[];
+    index: number;
+  };
+  updated: {
+    ids: TreeItemId[];
+    oldItem: T;
+    newItem: T;
+  };
+  moved: {
+    ids: TreeItemId[];
+    oldItem: T;
+    newItem: T;
+    oldParent: TreeItemId | null;
+    newParent: TreeItemId | null;
+    oldIndex: number;
+    newIndex: number;
+    reordered: ITreeItemChange<T>[];
+  };
+  reset: {
+    ids: TreeItemId[];
+    items: T[];
+    previousItems: T[];
+  };
+  loaded: {
+    ids: TreeItemId[];
+    parent: TreeItemId | null;
+    items: T[];
+  };
+  loadStateChanged: {
+    ids: TreeItemId[];
+    parent: TreeItemId | null;
+    state: TreeLoadState;
+    error?: unknown;
+  };
+}
+
+/**
+ * Размеченное объединение событий хранилища: имя события вместе с его полезной нагрузкой
+ */
+export type TreeStoreEvent<T extends ITreeItem = ITreeItem> = {
+  [E in keyof ITreeStoreEvents<T>]: { type: E; payload: ITreeStoreEvents<T>[E] };
+}[keyof ITreeStoreEvents<T>];
+
+/**
+ * Имя события хранилища дерева
+ */
+export type TreeStoreEventName = keyof ITreeStoreEvents;
+
+/**
+ * Обработчик события хранилища дерева
+ */
+export type TreeStoreEventHandler<E extends TreeStoreEventName, T extends ITreeItem = ITreeItem> = (
+  payload: ITreeStoreEvents<T>[E]
+) => void;
+
+/**
+ * Обратимая операция над хранилищем, записанная в историю
+ * - add: добавление элемента
+ * - remove: каскадное удаление (items - удаленное поддерево в порядке DFS, index - позиция среди соседей)
+ * - update: изменение данных элемента без смены позиции в дереве
+ * - move: перенос элемента к другому родителю или на другую позицию среди соседей
+ */
+export type TreeHistoryOperation<T extends ITreeItem = ITreeItem> =
+  | { type: 'add'; item: T }
+  | { type: 'remove'; items: T[]; index: number }
+  | { type: 'update'; oldItem: T; newItem: T }
+  | {
+    type: 'move';
+    oldItem: T;
+    newItem: T;
+    oldIndex: number;
+    newIndex: number;
+    reordered: ITreeItemChange<T>[];
+  };
+
+/**
+ * Запись истории: одна или несколько операций, отменяемых как единое целое
+ *
+ * @interface ITreeHistoryEntry
+ * @property {string} name - Наименование транзакции
+ * @property {TreeHistoryOperation[]} operations - Операции в порядке применения
+ */
+export interface ITreeHistoryEntry<T extends ITreeItem = ITreeItem> {
+  name: string;
+  operations: TreeHistoryOperation<T>[];
+}
+
+/**
+ * Опции истории изменений
+ *
+ * @interface ITreeHistoryOptions
+ * @property {number} [maxDepth] - Максимальное число хранимых записей (по умолчанию 100)
+ */
+export interface ITreeHistoryOptions {
+  maxDepth?: number;
+}
+
+/**
+ * Транзакция строк таблицы: какие строки добавить, обновить и удалить.
+ * Совместима с RowDataTransaction AgGrid при getRowId по id элемента
+ *
+ * @interface ITreeRowTransaction
+ * @property {ITreeItemWithCategory[]} add - Новые строки
+ * @property {ITreeItemWithCategory[]} update - Строки с измененными данными
+ * @property {T[]} remove - Удаляемые строки (достаточно id)
+ */
+export interface ITreeRowTransaction<T extends ITreeItem = ITreeItem> {
+  add: ITreeItemWithCategory<T>[];
+  update: ITreeItemWithCategory<T>[];
+  remove: T[];
+}
+
+/**
+ * Позиция сброса перетаскиваемой строки относительно целевой
+ * - before / after: встать соседом перед или после целевой строки
+ * - inside: стать последним дочерним элементом целевой строки
+ */
+export type TreeDropPosition = 'before' | 'after' | 'inside';
+
+/**
+ * Место, куда будет перенесен элемент
+ *
+ * @interface ITreeDropTarget
+ * @property {TreeItemId | null} parent - Новый родитель
+ * @property {number} index - Итоговая позиция среди соседей
+ */
+export interface ITreeDropTarget {
+  parent: TreeItemId | null;
+  index: number;
+}
+
+/**
+ * Редактор ячейки колонки
+ * - text: текстовое поле
+ * - number: числовое поле
+ * - select: выбор из списка options
+ */
+export type TreeGridColumnEditor = 'text' | 'number' | 'select';
+
+/**
+ * Общие параметры колонки TreeGrid
+ *
+ * @interface ITreeGridColumnOptions
+ * @property {string} header - Заголовок колонки
+ * @property {number} [width] - Ширина в пикселях
+ * @property {'left' | 'right' | null} [pinned] - Закрепление колонки
+ * @property {boolean} [hidden] - Колонка скрыта по умолчанию (пользователь может показать ее)
+ * @property {TreeGridColumnEditor} [editor] - Редактор ячейки. Без редактора колонка только для чтения
+ * @property {string[]} [options] - Значения для редактора select
+ */
+export interface ITreeGridColumnOptions {
+  header: string;
+  width?: number;
+  pinned?: 'left' | 'right' | null;
+  hidden?: boolean;
+  editor?: TreeGridColumnEditor;
+  options?: string[];
+}
+
+/**
+ * Описание колонки TreeGrid для поля элемента.
+ * Тип значения в formatter выводится из поля: для field: 'price' это T['price'].
+ * Агрегацию aggregate можно задать только для числовых полей: строки групп
+ * показывают итог по листовым элементам поддерева
+ */
+export type ITreeGridColumn<T extends ITreeItem = ITreeItem> = {
+  [K in keyof T & string]: ITreeGridColumnOptions & {
+    field: K;
+    formatter?: (value: T[K], item: T) => string;
+    aggregate?: NonNullable<T[K]> extends number ? TreeAggregateFunction : never;
+  };
+}[keyof T & string];
+
+/**
+ * Сохраненное состояние колонки: порядок определяется позицией в массиве
+ *
+ * @interface ITreeColumnLayoutEntry
+ * @property {string} colId - Идентификатор колонки
+ * @property {boolean} hide - Колонка скрыта
+ * @property {number} [width] - Ширина в пикселях
+ * @property {'left' | 'right' | null} pinned - Закрепление колонки
+ */
+export interface ITreeColumnLayoutEntry {
+  colId: string;
+  hide: boolean;
+  width?: number;
+  pinned: 'left' | 'right' | null;
+}
+
+/**
+ * Функция агрегации числового поля по листовым элементам поддерева
+ * - sum / min / max / avg: по листьям с числовым значением поля
+ * - count: количество листовых элементов
+ */
+export type TreeAggregateFunction = 'sum' | 'min' | 'max' | 'avg' | 'count';
+
+/**
+ * Промежуточное состояние агрегации, из которого вычисляется любая функция.
+ * Состояния поддеревьев объединяются без повторного обхода листьев
+ *
+ * @interface ITreeAggregateState
+ * @property {number} leaves - Количество листовых элементов
+ * @property {number} count - Количество листьев с числовым значением
+ * @property {number} sum - Сумма значений
+ * @property {number} min - Минимальное значение (Infinity, если значений нет)
+ * @property {number} max - Максимальное значение (-Infinity, если значений нет)
+ */
+export interface ITreeAggregateState {
+  leaves: number;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * События агрегатора
+ *
+ * @interface ITreeAggregatorEvents
+ * @property changed - Пересчитаны агрегаты групп ids
+ */
+export interface ITreeAggregatorEvents {
+  changed: {
+    ids: TreeItemId[];
+  };
+}
+
+/**
+ * Параметры поиска по наименованиям
+ *
+ * @interface ITreeSearchOptions
+ * @property {boolean} [caseSensitive] - Учитывать регистр (по умолчанию нет)
+ * @property {boolean} [diacriticSensitive] - Различать диакритику и ё/е (по умолчанию нет)
+ * @property {boolean} [prefix] - Искать только с начала слова (по умолчанию любое вхождение)
+ */
+export interface ITreeSearchOptions {
+  caseSensitive?: boolean;
+  diacriticSensitive?: boolean;
+  prefix?: boolean;
+}
+
+/**
+ * Найденный фрагмент текста в исходной строке
+ *
+ * @interface ITreeTextMatch
+ * @property {number} start - Позиция начала фрагмента
+ * @property {number} length - Длина фрагмента
+ */
+export interface ITreeTextMatch {
+  start: number;
+  length: number;
+}
+
+/**
+ * Совпадение поиска в наименовании элемента
+ *
+ * @interface ITreeSearchMatch
+ * @property {TreeItemId} id - Идентификатор найденного элемента
+ */
+export interface ITreeSearchMatch extends ITreeTextMatch {
+  id: TreeItemId;
+}
+
+/**
+ * Результат поиска по дереву
+ *
+ * @interface ITreeSearchResult
+ * @property {ITreeSearchMatch[]} matches - Совпадения в порядке обхода дерева в глубину
+ * @property {TreeItemId[]} ids - Идентификаторы найденных элементов в том же порядке
+ * @property {TreeItemId[]} ancestorIds - Предки найденных элементов, которые нужно раскрыть, чтобы их показать
+ */
+export interface ITreeSearchResult {
+  matches: ITreeSearchMatch[];
+  ids: TreeItemId[];
+  ancestorIds: TreeItemId[];
+}
+
+/**
+ * Режим фильтрации дерева.
+ * Предки показанных элементов показываются всегда, чтобы сохранить структуру дерева
+ * - keepAncestors: совпавшие элементы и их предки
+ * - keepDescendants: совпавшие элементы с предками и всеми потомками
+ * - strict: совпавшие элементы, у которых совпали и все предки
+ */
+export type TreeFilterMode = 'keepAncestors' | 'keepDescendants' | 'strict';
+
+/**
+ * Условие отбора элементов дерева
+ */
+export type TreeItemPredicate<T extends ITreeItem = ITreeItem> = (item: T) => boolean;
+
+/**
+ * Параметры фильтрации дерева
+ *
+ * @interface ITreeFilterOptions
+ * @property {TreeFilterMode} [mode] - Режим фильтрации (по умолчанию 'keepAncestors')
+ */
+export interface ITreeFilterOptions {
+  mode?: TreeFilterMode;
+}
+
+/**
+ * Фильтр строк таблицы дерева
+ *
+ * @interface ITreeGridFilter
+ * @property {TreeItemPredicate<T>} predicate - Условие отбора
+ */
+export interface ITreeGridFilter<T extends ITreeItem = ITreeItem> extends ITreeFilterOptions {
+  predicate: TreeItemPredicate<T>;
+}
+
+/**
+ * Способ кодирования иерархии в импортируемой таблице
+ * - parent: отдельная колонка с идентификатором родителя
+ * - outline: многоуровневая нумерация вида "1.2.3"
+ * - indent: уровень вложенности (колонка уровня или отступ наименования)
+ */
+export type TreeImportHierarchy = 'parent' | 'outline' | 'indent';
+
+/**
+ * Тип ошибки строки импорта
+ * - missingColumn: в заголовке нет обязательной колонки
+ * - missingId: пустой идентификатор или номер
+ * - invalidOutline: номер не соответствует формату "1.2.3"
+ * - invalidLevel: некорректный уровень или пропуск уровня вложенности
+ */
+export type TreeImportErrorType =
+  | TreeValidationIssueType
+  | 'missingColumn'
+  | 'missingId'
+  | 'invalidOutline'
+  | 'invalidLevel';
+
+/**
+ * Ошибка строки импорта
+ *
+ * @interface ITreeImportError
+ * @property {number} row - Номер строки таблицы (с единицы, заголовок - строка 1)
+ * @property {TreeImportErrorType} type - Тип ошибки
+ * @property {TreeItemId} [id] - Идентификатор элемента строки, если удалось его определить
+ * @property {string} message - Человекочитаемое описание
+ */
+export interface ITreeImportError {
+  row: number;
+  type: TreeImportErrorType;
+  id?: TreeItemId;
+  message: string;
+}
+
+/**
+ * Названия колонок импортируемой таблицы
+ *
+ * @interface ITreeImportColumns
+ * @property {string} [id] - Идентификатор (по умолчанию 'id')
+ * @property {string} [parent] - Родитель для режима 'parent' (по умолчанию 'parent')
+ * @property {string} [label] - Наименование (по умолчанию 'label')
+ * @property {string} [outline] - Номер для режима 'outline' (по умолчанию 'outline')
+ * @property {string} [level] - Уровень для режима 'indent' (по умолчанию 'level')
+ */
+export interface ITreeImportColumns {
+  id?: string;
+  parent?: string;
+  label?: string;
+  outline?: string;
+  level?: string;
+}
+
+/**
+ * Параметры импорта дерева из таблицы
+ *
+ * @interface ITreeImportOptions
+ * @property {TreeImportHierarchy} hierarchy - Способ кодирования иерархии
+ * @property {ITreeImportColumns} [columns] - Названия колонок
+ * @property {number} [indentSize] - Число пробелов в одном уровне отступа наименования (по умолчанию 2)
+ * @property {string} [delimiter] - Разделитель CSV (по умолчанию определяется по заголовку)
+ * @property {string | number} [sheet] - Имя или индекс листа XLSX (по умолчанию первый)
+ */
+export interface ITreeImportOptions {
+  hierarchy: TreeImportHierarchy;
+  columns?: ITreeImportColumns;
+  indentSize?: number;
+  delimiter?: string;
+  sheet?: string | number;
+}
+
+/**
+ * Результат импорта дерева
+ *
+ * @interface ITreeImportResult
+ * @property {T[]} items - Корректные элементы, готовые для TreeStore.update
+ * @property {ITreeImportError[]} errors - Ошибки отклоненных строк в порядке строк
+ */
+export interface ITreeImportResult<T extends ITreeItem = ITreeItem> {
+  items: T[];
+  errors: ITreeImportError[];
+}
+
+/**
+ * Формат экспорта дерева
+ * - csv: плоская таблица с колонками уровня и пути
+ * - json: вложенная структура { ...item, children: [] }
+ * - xlsx: книга Excel с группировкой строк по уровням
+ */
+export type TreeExportFormat = 'csv' | 'json' | 'xlsx';
 
+/**
+ * Колонка экспорта
+ *
+ * @interface ITreeExportColumn
+ * @property {string} field - Поле элемента
+ * @property {string} header - Заголовок колонки
+ * @property {(item: T) => unknown} [getValue] - Значение ячейки (по умолчанию значение поля)
+ */
+export interface ITreeExportColumn<T extends ITreeItem = ITreeItem> {
+  field: string;
+  header: string;
+  getValue?: (item: T) => unknown;
+}
+
+/**
+ * Параметры экспорта дерева
+ *
+ * @interface ITreeExportOptions
+ * @property {ITreeExportColumn<T>[]} [columns] - Колонки CSV и Excel (по умолчанию id, parent, label)
+ * @property {TreeItemPredicate<T>} [include] - Отбор элементов. Элемент без отобранных предков становится корнем
+ * @property {string} [delimiter] - Разделитель CSV (по умолчанию ',')
+ * @property {string} [sheetName] - Имя листа Excel (по умолчанию 'Дерево')
+ */
+export interface ITreeExportOptions<T extends ITreeItem = ITreeItem> {
+  columns?: ITreeExportColumn<T>[];
+  include?: TreeItemPredicate<T>;
+  delimiter?: string;
+  sheetName?: string;
+}
+
+/**
+ * Элемент вложенного представления дерева
+ */
+export type ITreeNestedItem<T extends ITreeItem = ITreeItem> = T & { children: ITreeNestedItem<T>[] };
+
+/**
+ * Узел вложенного представления дерева с произвольными именами ключей
+ */
+export type TreeNestedNode = Record<string, unknown>;
+
+/**
+ * Имена ключей вложенного представления дерева
+ *
+ * @interface ITreeNestedKeys
+ * @property {string} [id] - Идентификатор узла (по умолчанию 'id')
+ * @property {string} [parentId] - Ссылка на родителя (по умолчанию 'parent')
+ * @property {string} [children] - Массив детей (по умолчанию 'children')
+ */
+export interface ITreeNestedKeys {
+  id?: string;
+  parentId?: string;
+  children?: string;
+}
+
+/**
+ * Параметры преобразования вложенного дерева в плоский список
+ *
+ * @interface ITreeFlattenOptions
+ * @property {(node: TreeNestedNode, parent: TreeItemId | null) => TreeItemId} [generateId] - Генератор id
+ * для узлов без идентификатора. По умолчанию максимальный числовой id дерева + 1
+ */
+export interface ITreeFlattenOptions extends ITreeNestedKeys {
+  generateId?: (node: TreeNestedNode, parent: TreeItemId | null) => TreeItemId;
+}
+
+/**
+ * Неизменяемая версия дерева.
+ * Снимок разделяет объекты элементов с хранилищем и другими снимками: хранилище не меняет
+ * элементы на месте, а заменяет их новыми объектами
+ *
+ * @interface ITreeSnapshot
+ * @property {number} version - Номер версии хранилища (растет с каждой мутацией)
+ * @property {ReadonlyArray<Readonly<T>>} items - Элементы версии
+ */
+export interface ITreeSnapshot<T extends ITreeItem = ITreeItem> {
+  readonly version: number;
+  readonly items: ReadonlyArray<Readonly<T>>;
+}
+
+/**
+ * Статус элемента при сравнении версий дерева
+ * - added: есть только в новой версии
+ * - removed: есть только в старой версии
+ * - moved: изменился родитель
+ * - renamed: изменилось наименование
+ * - changed: изменились прочие поля (включая ранг order)
+ * - unchanged: элемент не изменился
+ */
+export type TreeDiffStatus = 'added' | 'removed' | 'moved' | 'renamed' | 'changed' | 'unchanged';
+
+/**
+ * Результат сравнения одного элемента.
+ * Элемент может быть одновременно перенесен, переименован и изменен:
+ * status содержит главное изменение, а флаги и changedFields - все
+ *
+ * @interface ITreeDiffEntry
+ * @property {TreeItemId} id - Идентификатор элемента
+ * @property {TreeDiffStatus} status - Главный статус: added, removed, moved, renamed, changed, unchanged по убыванию важности
+ * @property {boolean} moved - Изменился родитель (старый и новый - oldItem.parent и newItem.parent)
+ * @property {boolean} renamed - Изменилось наименование
+ * @property {string[]} changedFields - Измененные поля кроме id, parent и label
+ * @property {T} [oldItem] - Элемент в старой версии
+ * @property {T} [newItem] - Элемент в новой версии
+ */
+export interface ITreeDiffEntry<T extends ITreeItem = ITreeItem> {
+  id: TreeItemId;
+  status: TreeDiffStatus;
+  moved: boolean;
+  renamed: boolean;
+  changedFields: string[];
+  oldItem?: Readonly<T>;
+  newItem?: Readonly<T>;
+}
+
+/**
+ * Версия дерева при трехстороннем слиянии
+ * - base: общая исходная версия
+ * - ours: наши правки
+ * - theirs: чужие правки
+ */
+export type TreeMergeSide = 'base' | 'ours' | 'theirs';
+
+/**
+ * Тип конфликта слияния
+ * - bothAdded: элемент с одним id добавлен в обеих версиях с разными данными
+ * - bothRenamed: элемент по-разному переименован в обеих версиях
+ * - bothMoved: элемент перенесен в обеих версиях к разным родителям
+ * - bothChanged: прикладное поле по-разному изменено в обеих версиях
+ * - moveRemove: элемент перенесен в одной версии и удален в другой
+ * - editRemove: элемент изменен в одной версии и удален в другой
+ * - removedParent: элемент добавлен или перенесен под родителя, удаленного в другой версии
+ * - cycle: переносы из разных версий вместе образуют цикл
+ */
+export type TreeMergeConflictType =
+  | 'bothAdded'
+  | 'bothRenamed'
+  | 'bothMoved'
+  | 'bothChanged'
+  | 'moveRemove'
+  | 'editRemove'
+  | 'removedParent'
+  | 'cycle';
+
+/**
+ * Конфликт трехстороннего слияния
+ *
+ * @interface ITreeMergeConflict
+ * @property {TreeMergeConflictType} type - Тип конфликта
+ * @property {TreeItemId} id - Идентификатор элемента
+ * @property {TreeItemId[]} ids - Все элементы конфликта (для цикла - элементы цикла, иначе [id])
+ * @property {string} [field] - Поле конфликта bothChanged
+ * @property {T} [base] - Элемент в общей версии
+ * @property {T} [ours] - Элемент в наших правках
+ * @property {T} [theirs] - Элемент в чужих правках
+ * @property {string} message - Описание конфликта
+ */
+export interface ITreeMergeConflict<T extends ITreeItem = ITreeItem> {
+  type: TreeMergeConflictType;
+  id: TreeItemId;
+  ids: TreeItemId[];
+  field?: string;
+  base?: Readonly<T>;
+  ours?: Readonly<T>;
+  theirs?: Readonly<T>;
+  message: string;
+}
+
+/**
+ * Решение конфликта слияния: версия, значение которой принимается
+ *
+ * @interface ITreeMergeResolution
+ * @property {TreeMergeConflictType} type - Тип конфликта
+ * @property {TreeItemId} id - Идентификатор элемента конфликта
+ * @property {string} [field] - Поле конфликта bothChanged
+ * @property {TreeMergeSide} side - Принятая версия
+ */
+export interface ITreeMergeResolution {
+  type: TreeMergeConflictType;
+  id: TreeItemId;
+  field?: string;
+  side: TreeMergeSide;
+}
+
+/**
+ * Параметры трехстороннего слияния
+ *
+ * @interface ITreeMergeOptions
+ * @property {ITreeMergeResolution[]} [resolutions] - Решения конфликтов
+ */
+export interface ITreeMergeOptions {
+  resolutions?: ITreeMergeResolution[];
+}
+
+/**
+ * Результат трехстороннего слияния.
+ * items всегда образуют корректное дерево: нерешенные конфликты решены в пользу ours
+ *
+ * @interface ITreeMergeResult
+ * @property {T[]} items - Элементы объединенного дерева
+ * @property {ITreeMergeConflict<T>[]} conflicts - Нерешенные конфликты
+ * @property {ITreeMergeResolution[]} resolutions - Примененные решения
+ * @property {ITreeSnapshot<T>} base - Общая версия
+ * @property {ITreeSnapshot<T>} ours - Наши правки
+ * @property {ITreeSnapshot<T>} theirs - Чужие правки
+ */
+export interface ITreeMergeResult<T extends ITreeItem = ITreeItem> {
+  items: T[];
+  conflicts: ITreeMergeConflict<T>[];
+  resolutions: ITreeMergeResolution[];
+  base: ITreeSnapshot<T>;
+  ours: ITreeSnapshot<T>;
+  theirs: ITreeSnapshot<T>;
+}
+
+/**
+ * Операция журнала изменений. Содержит только данные, поэтому сериализуется в JSON
+ * - add: добавление элемента на позицию index среди соседей
+ * - remove: удаление элемента id вместе с потомками (ids - все удаленные в порядке DFS)
+ * - update: изменение данных элемента без смены родителя
+ * - move: перенос элемента (item - данные после переноса, reordered - соседи с новыми рангами)
+ * - reset: полная замена содержимого через TreeStore.update
+ */
+export type TreeOperation<T extends ITreeItem = ITreeItem> =
+  | { type: 'add'; item: T; index: number }
+  | { type: 'remove'; id: TreeItemId; ids: TreeItemId[] }
+  | { type: 'update'; item: T; previous: T }
+  | { type: 'move'; item: T; previous: T; index: number; reordered: T[] }
+  | { type: 'reset'; items: T[] };
+
+/**
+ * Запись журнала изменений
+ *
+ * @interface ITreeOperationLogEntry
+ * @property {number} seq - Порядковый номер записи (с 1)
+ * @property {number} timestamp - Время мутации в миллисекундах (Date.now())
+ * @property {string} [author] - Автор изменения
+ * @property {TreeOperation<T>} operation - Операция
+ */
+export interface ITreeOperationLogEntry<T extends ITreeItem = ITreeItem> {
+  seq: number;
+  timestamp: number;
+  author?: string;
+  operation: TreeOperation<T>;
+}
+
+/**
+ * Опции журнала изменений
+ *
+ * @interface ITreeOperationLogOptions
+ * @property {string | (() => string | undefined)} [author] - Автор записей или функция, возвращающая текущего автора
+ * @property {() => number} [now] - Источник времени (по умолчанию Date.now)
+ */
+export interface ITreeOperationLogOptions {
+  author?: string | (() => string | undefined);
+  now?: () => number;
+}
+
+/**
+ * Операция журнала, которую не удалось воспроизвести
+ *
+ * @interface ITreeReplayFailure
+ * @property {number} index - Позиция записи в воспроизводимом списке
+ * @property {ITreeOperationLogEntry<T>} entry - Запись журнала
+ * @property {string} message - Нарушенное условие
+ */
+export interface ITreeReplayFailure<T extends ITreeItem = ITreeItem> {
+  index: number;
+  entry: ITreeOperationLogEntry<T>;
+  message: string;
+}
+
+/**
+ * Результат воспроизведения журнала
+ *
+ * @interface ITreeReplayResult
+ * @property {number} applied - Количество примененных операций
+ * @property {ITreeReplayFailure<T>[]} failures - Невоспроизведенные операции
+ */
+export interface ITreeReplayResult<T extends ITreeItem = ITreeItem> {
+  applied: number;
+  failures: ITreeReplayFailure<T>[];
+}
+
+/**
+ * Операция JSON Patch (RFC 6902)
+ *
+ * @interface ITreeJsonPatchOperation
+ * @property {'add' | 'remove' | 'replace'} op - Тип операции
+ * @property {string} path - JSON Pointer изменяемого значения
+ * @property {unknown} [value] - Новое значение (для add и replace)
+ */
+export interface ITreeJsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+/**
+ * Метка операции совместного редактирования: логические часы Лэмпорта и клиент.
+ * Метки упорядочены полностью: по счетчику, при равенстве - по clientId
+ *
+ * @interface ITreeSyncStamp
+ * @property {number} counter - Значение логических часов
+ * @property {string} clientId - Идентификатор клиента ('' - общие исходные данные)
+ */
+export interface ITreeSyncStamp {
+  counter: number;
+  clientId: string;
+}
+
+/**
+ * Операция совместного редактирования (CRDT)
+ * - create: элемент создан или восстановлен (fields - поля кроме id, parent и order;
+ *   index - позиция среди соседей в общих исходных данных)
+ * - set: изменены поля элемента (unset - удаленные поля)
+ * - move: изменено положение: родитель и ранг среди соседей
+ * - delete: элемент удален вместе с поддеревом
+ */
+export type TreeSyncOperation =
+  | { type: 'create'; id: TreeItemId; parent: TreeItemId | null; order?: number; index?: number; fields: Record<string, unknown>; stamp: ITreeSyncStamp }
+  | { type: 'set'; id: TreeItemId; fields: Record<string, unknown>; unset: string[]; stamp: ITreeSyncStamp }
+  | { type: 'move'; id: TreeItemId; parent: TreeItemId | null; order?: number; stamp: ITreeSyncStamp }
+  | { type: 'delete'; id: TreeItemId; stamp: ITreeSyncStamp };
+
+/**
+ * Участник совместного редактирования
+ *
+ * @interface ITreeSyncUser
+ * @property {string} name - Отображаемое имя
+ * @property {string} color - Цвет отметки выбранных строк (CSS)
+ */
+export interface ITreeSyncUser {
+  name: string;
+  color: string;
+}
+
+/**
+ * Выбранные строки другого участника
+ *
+ * @interface ITreeRemoteSelection
+ * @property {string} clientId - Идентификатор клиента
+ * @property {ITreeSyncUser} user - Участник
+ * @property {TreeItemId[]} ids - Выбранные элементы
+ */
+export interface ITreeRemoteSelection {
+  clientId: string;
+  user: ITreeSyncUser;
+  ids: TreeItemId[];
+}
+
+/**
+ * Сообщение между клиентами совместного редактирования
+ * - hello: клиент подключился и запрашивает состояние
+ * - operations: операции CRDT (в ответ на hello - все известные операции)
+ * - presence: участник и его выбранные строки
+ * - leave: клиент отключился
+ */
+export type TreeSyncMessage =
+  | { type: 'hello'; clientId: string }
+  | { type: 'operations'; clientId: string; operations: TreeSyncOperation[] }
+  | { type: 'presence'; clientId: string; user: ITreeSyncUser; selected: TreeItemId[] }
+  | { type: 'leave'; clientId: string };
+
+/**
+ * Транспорт сообщений между клиентами. Сообщение доставляется всем остальным клиентам;
+ * собственные сообщения, вернувшиеся от сервера, клиент игнорирует
+ *
+ * @interface ITreeSyncTransport
+ */
+export interface ITreeSyncTransport {
+  /**
+   * Отправляет сообщение остальным клиентам
+   */
+  send(message: TreeSyncMessage): void;
+  /**
+   * Подписывается на сообщения остальных клиентов
+   *
+   * @returns Функция отписки
+   */
+  subscribe(handler: (message: TreeSyncMessage) => void): () => void;
+  /**
+   * Закрывает соединение
+   */
+  close?(): void;
+}
+
+/**
+ * Опции клиента совместного редактирования
+ *
+ * @interface ITreeSyncOptions
+ * @property {string} [clientId] - Идентификатор клиента (по умолчанию случайный)
+ * @property {ITreeSyncUser} [user] - Участник для отметки выбранных строк у остальных
+ */
+export interface ITreeSyncOptions {
+  clientId?: string;
+  user?: ITreeSyncUser;
+}
+
+/**
+ * События клиента совместного редактирования
+ *
+ * @interface ITreeSyncEvents
+ * @property presence - Изменились участники или их выбранные строки
+ */
+export interface ITreeSyncEvents {
+  presence: {
+    selections: ITreeRemoteSelection[];
+  };
+}
+
+/**
+ * Мутация хранилища, отправляемая на сервер. Хранит данные до изменения для отката
+ * - create: добавление элемента (index - позиция среди соседей)
+ * - update: изменение данных без смены позиции
+ * - delete: каскадное удаление (items - удаленное поддерево в порядке DFS, index - позиция среди соседей)
+ * - move: перенос или смена позиции (reordered - соседи, получившие ранг при нормализации)
+ */
+export type TreePersistenceMutation<T extends ITreeItem = ITreeItem> =
+  | { type: 'create'; item: T; index: number }
+  | { type: 'update'; item: T; previous: T }
+  | { type: 'delete'; item: T; items: T[]; index: number }
+  | { type: 'move'; item: T; previous: T; index: number; previousIndex: number; reordered: ITreeItemChange<T>[] };
+
+/**
+ * Адаптер сохранения дерева на сервере
+ *
+ * @interface ITreePersistenceAdapter
+ * @template T - Тип элемента дерева
+ */
+export interface ITreePersistenceAdapter<T extends ITreeItem = ITreeItem> {
+  /**
+   * Загружает все элементы дерева
+   */
+  list(): Promise<T[]>;
+  /**
+   * Создает элемент
+   */
+  create(item: T): Promise<void>;
+  /**
+   * Сохраняет данные элемента
+   */
+  update(item: T): Promise<void>;
+  /**
+   * Удаляет элемент вместе с потомками
+   */
+  delete(id: TreeItemId): Promise<void>;
+  /**
+   * Переносит элемент (item - с новыми parent и order) и сохраняет новые ранги соседей
+   */
+  move(item: T, reordered: T[]): Promise<void>;
+}
+
+/**
+ * Действие HTTP-адаптера
+ */
+export type TreeHttpAction = 'list' | 'create' | 'update' | 'delete' | 'move';
+
+/**
+ * Опции HTTP-адаптера сохранения
+ *
+ * @interface ITreeHttpAdapterOptions
+ * @property {string} baseUrl - Адрес API без завершающего "/"
+ * @property {Partial<Record<TreeHttpAction, string>>} [endpoints] - Точки доступа в виде "МЕТОД /путь",
+ *   ":id" заменяется идентификатором элемента (например, "PATCH /nodes/:id")
+ * @property {Record<string, string>} [headers] - Дополнительные заголовки (например, авторизация)
+ * @property {typeof fetch} [fetch] - Реализация fetch (по умолчанию глобальная)
+ */
+export interface ITreeHttpAdapterOptions {
+  baseUrl: string;
+  endpoints?: Partial<Record<TreeHttpAction, string>>;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Опции сохранения изменений хранилища
+ *
+ * @interface ITreePersistenceOptions
+ * @property {number} [retries] - Количество повторов запроса при сетевой ошибке или ошибке сервера (по умолчанию 2)
+ * @property {number} [retryDelay] - Задержка перед первым повтором в мс, далее удваивается (по умолчанию 500)
+ */
+export interface ITreePersistenceOptions {
+  retries?: number;
+  retryDelay?: number;
+}
+
+/**
+ * Состояние сохранения
+ * - idle: все изменения сохранены
+ * - loading: дерево загружается с сервера
+ * - saving: изменения отправляются на сервер
+ * - error: загрузка не удалась или изменение отклонено и откачено
+ */
+export type TreePersistenceStatus = 'idle' | 'loading' | 'saving' | 'error';
+
+/**
+ * Состояние сохранения для отображения
+ *
+ * @interface ITreePersistenceState
+ * @property {TreePersistenceStatus} status - Текущее состояние
+ * @property {number} pending - Количество неотправленных изменений
+ * @property {string | null} error - Сообщение последней ошибки
+ */
+export interface ITreePersistenceState {
+  status: TreePersistenceStatus;
+  pending: number;
+  error: string | null;
+}
+
+/**
+ * События сохранения
+ *
+ * @interface ITreePersistenceEvents
+ * @property stateChanged - Изменилось состояние сохранения
+ * @property rolledBack - Сервер отклонил изменение, и оно откачено в хранилище
+ */
+export interface ITreePersistenceEvents<T extends ITreeItem = ITreeItem> {
+  stateChanged: ITreePersistenceState;
+  rolledBack: {
+    mutation: TreePersistenceMutation<T>;
+    error: unknown;
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  addLeafValue,
+  computeAggregate,
+  createAggregateState,
+  finalizeAggregate,
+  mergeAggregateState,
+} from '../tree.aggregation';
+import TreeStore from '@/core/TreeStore';
+import type { ITreeItem } from '@/types/tree.types';
+
+describe('tree.aggregation', () => {
+  interface IEstimateItem extends ITreeItem {
+    price?: number | null;
+  }
+
+  const stateOf = (...values: unknown[]) => {
+    const state = createAggregateState();
+    values.forEach((value) => addLeafValue(state, value));
+
+    return state;
+  };
+
+  describe('finalizeAggregate', () => {
+    it.each`
+      fn         | expected
+      ${'sum'}   | ${12}
+      ${'min'}   | ${2}
+      ${'max'}   | ${6}
+      ${'avg'}   | ${4}
+      ${'count'} | ${4}
+    `('should compute $fn of leaf values', ({ fn, expected }) => {
+      expect(finalizeAggregate(stateOf(2, 4, 6, 'n/a'), fn)).toBe(expected);
+    });
+
+    it('should return null when there are no numeric values', () => {
+      expect(finalizeAggregate(stateOf(null, undefined, NaN), 'sum')).toBeNull();
+      expect(finalizeAggregate(stateOf(null), 'count')).toBe(1);
+    });
+  });
+
+  describe('mergeAggregateState', () => {
+    it('should combine subtree states as if leaves were added directly', () => {
+      const merged = stateOf(1, 5);
+      mergeAggregateState(merged, stateOf(-3, null));
+
+      expect(merged).toEqual(stateOf(1, 5, -3, null));
+    });
+  });
+
+  describe('computeAggregate', () => {
+    let treeStore: TreeStore<IEstimateItem>;
+
+    beforeEach(() => {
+      treeStore = new TreeStore<IEstimateItem>();
+      treeStore.update([
+        { id: 1, parent: null, label: 'Root', price: 1000 },
+        { id: 2, parent: 1, label: 'Group', price: 1000 },
+        { id: 3, parent: 2, label: 'Leaf 1', price: 10 },
+        { id: 4, parent: 2, label: 'Leaf 2', price: 30 },
+        { id: 5, parent: 1, label: 'Leaf 3', price: null },
+      ]);
+    });
+
+    it('should aggregate only leaf descendants', () => {
+      expect(computeAggregate(1, 'price', 'sum', treeStore)).toBe(40);
+      expect(computeAggregate(1, 'price', 'count', treeStore)).toBe(3);
+      expect(computeAggregate(2, 'price', 'avg', treeStore)).toBe(20);
+    });
+
+    it('should return empty aggregate for leaf item', () => {
+      expect(computeAggregate(3, 'price', 'sum', treeStore)).toBeNull();
+      expect(computeAggregate(3, 'price', 'count', treeStore)).toBe(0);
+    });
+  });
+});
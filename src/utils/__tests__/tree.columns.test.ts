@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import type { ColDef, ColumnState } from 'ag-grid-community';
+import {
+  createColumnDef,
+  getAggregatedFields,
+  loadColumnLayout,
+  mergeColumnDefs,
+  saveColumnLayout,
+  toColumnLayout,
+  type TreeColumnEditHandler,
+} from '../tree.columns';
+import type { ITreeGridColumn, ITreeItem } from '@/types/tree.types';
+
+describe('tree.columns', () => {
+  interface IEstimateItem extends ITreeItem {
+    quantity: number;
+    unit: string;
+  }
+
+  const item: IEstimateItem = { id: 1, parent: null, label: 'Бетон', quantity: 2.5, unit: 'м3' };
+
+  const builtInColumns: ColDef[] = [
+    { colId: 'category', headerName: 'Категория', field: 'category' },
+    { colId: 'label', headerName: 'Наименование', field: 'label', editable: true },
+  ];
+
+  let onEdit: Mock<TreeColumnEditHandler<IEstimateItem>>;
+
+  beforeEach(() => {
+    onEdit = vi.fn();
+    localStorage.clear();
+  });
+
+  describe('createColumnDef', () => {
+    it('should map schema options to column definition', () => {
+      const colDef = createColumnDef<IEstimateItem>(
+        { field: 'quantity', header: 'Количество', width: 120, pinned: 'right', hidden: true },
+        onEdit
+      );
+
+      expect(colDef).toMatchObject({
+        colId: 'quantity',
+        headerName: 'Количество',
+        width: 120,
+        pinned: 'right',
+        hide: true,
+      });
+      expect(colDef.editable).toBeUndefined();
+    });
+
+    it('should read value from item field', () => {
+      const colDef = createColumnDef<IEstimateItem>({ field: 'unit', header: 'Ед. изм.' }, onEdit);
+      const getValue = colDef.valueGetter as (params: { data?: IEstimateItem }) => unknown;
+
+      expect(getValue({ data: item })).toBe('м3');
+      expect(getValue({})).toBeUndefined();
+    });
+
+    it('should format value with typed formatter', () => {
+      const colDef = createColumnDef<IEstimateItem>({
+        field: 'quantity',
+        header: 'Количество',
+        formatter: (value, row) => `${value.toFixed(2)} ${row.unit}`,
+      }, onEdit);
+      const format = colDef.valueFormatter as (params: { value: number; data?: IEstimateItem }) => string;
+
+      expect(format({ value: 2.5, data: item })).toBe('2.50 м3');
+      expect(format({ value: 2.5 })).toBe('');
+    });
+
+    it.each`
+      editor      | cellEditor
+      ${'text'}   | ${'agTextCellEditor'}
+      ${'number'} | ${'agNumberCellEditor'}
+      ${'select'} | ${'agSelectCellEditor'}
+    `('should use $cellEditor for $editor editor', ({ editor, cellEditor }) => {
+      const colDef = createColumnDef<IEstimateItem>({ field: 'unit', header: 'Ед. изм.', editor }, onEdit);
+
+      expect(colDef.editable).toBe(true);
+      expect(colDef.cellEditor).toBe(cellEditor);
+    });
+
+    it('should pass select options to editor', () => {
+      const colDef = createColumnDef<IEstimateItem>(
+        { field: 'unit', header: 'Ед. изм.', editor: 'select', options: ['м3', 'т'] },
+        onEdit
+      );
+
+      expect(colDef.cellEditorParams).toEqual({ values: ['м3', 'т'] });
+    });
+
+    it('should delegate edits to handler and leave row update to the store', () => {
+      const colDef = createColumnDef<IEstimateItem>(
+        { field: 'quantity', header: 'Количество', editor: 'number' },
+        onEdit
+      );
+      const setValue = colDef.valueSetter as (params: { data: IEstimateItem; newValue: unknown }) => boolean;
+
+      expect(setValue({ data: item, newValue: 4 })).toBe(false);
+      expect(onEdit).toHaveBeenCalledWith(item, 'quantity', 4);
+    });
+  });
+
+  describe('aggregation', () => {
+    const group = { ...item, hasChildren: true };
+    const getAggregate = vi.fn(() => 42);
+
+    const createAggregatedColumn = () => createColumnDef<IEstimateItem>({
+      field: 'quantity',
+      header: 'Количество',
+      aggregate: 'sum',
+      editor: 'number',
+      formatter: (value) => value.toFixed(1),
+    }, onEdit, getAggregate);
+
+    it('should show aggregate for group rows and own value for leaves', () => {
+      const getValue = createAggregatedColumn().valueGetter as (params: { data?: object }) => unknown;
+
+      expect(getValue({ data: group })).toBe(42);
+      expect(getAggregate).toHaveBeenCalledWith(group, 'quantity', 'sum');
+      expect(getValue({ data: { ...item, hasChildren: false } })).toBe(2.5);
+    });
+
+    it('should not format missing aggregate', () => {
+      const format = createAggregatedColumn().valueFormatter as (params: object) => string;
+
+      expect(format({ value: null, data: group })).toBe('');
+      expect(format({ value: 42, data: group })).toBe('42.0');
+    });
+
+    it('should allow editing only leaf rows', () => {
+      const editable = createAggregatedColumn().editable as (params: object) => boolean;
+
+      expect(editable({ data: group })).toBe(false);
+      expect(editable({ data: item })).toBe(true);
+    });
+
+    it('should collect unique aggregated fields', () => {
+      const columns: ITreeGridColumn<IEstimateItem>[] = [
+        { field: 'quantity', header: 'Сумма', aggregate: 'sum' },
+        { field: 'quantity', header: 'Максимум', aggregate: 'max' },
+        { field: 'unit', header: 'Ед. изм.' },
+      ];
+
+      expect(getAggregatedFields(columns)).toEqual(['quantity']);
+    });
+  });
+
+  describe('mergeColumnDefs', () => {
+    it('should append schema columns after built-in columns', () => {
+      const columns: ITreeGridColumn<IEstimateItem>[] = [
+        { field: 'quantity', header: 'Количество' },
+        { field: 'unit', header: 'Ед. изм.' },
+      ];
+
+      const result = mergeColumnDefs(builtInColumns, columns, onEdit);
+
+      expect(result.map((colDef) => colDef.colId)).toEqual(['category', 'label', 'quantity', 'unit']);
+    });
+
+    it('should override display options of built-in column', () => {
+      const columns: ITreeGridColumn<IEstimateItem>[] = [
+        { field: 'label', header: 'Работа', width: 300, editor: 'select', options: ['x'] },
+      ];
+
+      const [, label] = mergeColumnDefs(builtInColumns, columns, onEdit);
+
+      expect(label).toMatchObject({ colId: 'label', field: 'label', headerName: 'Работа', width: 300 });
+      expect(label!.cellEditor).toBeUndefined();
+      expect(label!.editable).toBe(true);
+    });
+
+    it('should keep built-in columns untouched without schema', () => {
+      expect(mergeColumnDefs(builtInColumns, [], onEdit)).toEqual(builtInColumns);
+    });
+  });
+
+  describe('layout', () => {
+    const state: ColumnState[] = [
+      { colId: 'label', width: 250, hide: false, pinned: 'left', sort: 'asc' },
+      { colId: 'quantity', hide: true, pinned: null },
+    ];
+
+    it('should keep only order, visibility, width and pinning', () => {
+      expect(toColumnLayout(state)).toEqual([
+        { colId: 'label', width: 250, hide: false, pinned: 'left' },
+        { colId: 'quantity', hide: true, pinned: null },
+      ]);
+    });
+
+    it('should save and load layout by key', () => {
+      saveColumnLayout('estimate', state);
+
+      expect(loadColumnLayout('estimate')).toEqual(toColumnLayout(state));
+      expect(loadColumnLayout('other')).toBeNull();
+    });
+
+    it('should ignore malformed saved layout', () => {
+      localStorage.setItem('tree-grid:columns:estimate', '{"colId":"label"}');
+
+      expect(loadColumnLayout('estimate')).toBeNull();
+    });
+  });
+});
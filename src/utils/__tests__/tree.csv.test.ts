@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { detectCsvDelimiter, formatCsv, parseCsv } from '../tree.csv';
+
+describe('tree.csv', () => {
+  describe('detectCsvDelimiter', () => {
+    it('should pick the most frequent delimiter of the header', () => {
+      expect(detectCsvDelimiter('id;parent;label\n1;;"a,b,c"')).toBe(';');
+      expect(detectCsvDelimiter('id\tparent\tlabel')).toBe('\t');
+      expect(detectCsvDelimiter('id,parent,label')).toBe(',');
+    });
+
+    it('should ignore delimiters inside quotes', () => {
+      expect(detectCsvDelimiter('"a;b;c",label')).toBe(',');
+    });
+
+    it('should default to comma', () => {
+      expect(detectCsvDelimiter('label')).toBe(',');
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should split rows and cells', () => {
+      expect(parseCsv('id,label\n1,Root\n2,Child')).toEqual([
+        ['id', 'label'],
+        ['1', 'Root'],
+        ['2', 'Child'],
+      ]);
+    });
+
+    it('should handle quoted values with delimiters, quotes and line breaks', () => {
+      expect(parseCsv('label,note\n"a, b","say ""hi""\nthere"\n')).toEqual([
+        ['label', 'note'],
+        ['a, b', 'say "hi"\nthere'],
+      ]);
+    });
+
+    it('should handle CRLF, BOM and empty cells', () => {
+      expect(parseCsv('\uFEFFid;parent\r\n1;\r\n2;1\r\n')).toEqual([
+        ['id', 'parent'],
+        ['1', ''],
+        ['2', '1'],
+      ]);
+    });
+
+    it('should use explicit delimiter', () => {
+      expect(parseCsv('a;b,c', ',')).toEqual([['a;b', 'c']]);
+    });
+  });
+
+  describe('formatCsv', () => {
+    it('should quote values with delimiter, quotes and line breaks', () => {
+      expect(formatCsv([['id', 'label'], [1, 'a, "b"'], [2, 'line\nbreak'], [3, null]])).toBe(
+        'id,label\r\n1,"a, ""b"""\r\n2,"line\nbreak"\r\n3,'
+      );
+    });
+
+    it('should round-trip through parseCsv', () => {
+      const rows = [['a;b', '"q"', ''], ['x\r\ny', 'z', 'w']];
+
+      expect(parseCsv(formatCsv(rows, ';'), ';')).toEqual(rows);
+    });
+  });
+});
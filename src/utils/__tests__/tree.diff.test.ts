@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { countTreeDiff, createTreeSnapshot, diffTreeItem, diffTrees } from '../tree.diff';
+import TreeStore from '@/core/TreeStore';
+import type { ITreeItem } from '@/types/tree.types';
+
+interface IEstimateItem extends ITreeItem {
+  price?: number;
+}
+
+describe('tree.diff', () => {
+  const getMockItems = (): IEstimateItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child 1', price: 10 },
+    { id: 3, parent: 1, label: 'Child 2' },
+    { id: 4, parent: 2, label: 'Grandchild' },
+  ];
+
+  describe('createTreeSnapshot', () => {
+    it('should freeze the list and share items', () => {
+      const items = getMockItems();
+      const snapshot = createTreeSnapshot(items, 3);
+
+      items.pop();
+
+      expect(snapshot.version).toBe(3);
+      expect(snapshot.items).toHaveLength(4);
+      expect(snapshot.items[0]).toBe(items[0]);
+      expect(Object.isFrozen(snapshot)).toBe(true);
+    });
+  });
+
+  describe('diffTrees', () => {
+    it('should classify every id of both versions', () => {
+      const store = new TreeStore<IEstimateItem>();
+      store.update(getMockItems());
+
+      const before = store.snapshot();
+
+      store.addItem({ id: 5, parent: 3, label: 'Added' });
+      store.removeItem(4);
+      store.updateItem({ id: 3, parent: 1, label: 'Renamed' });
+      store.updateItem({ id: 2, parent: 1, label: 'Child 1', price: 12 });
+
+      const diff = diffTrees(before, store.snapshot());
+
+      expect([...diff].map(([id, entry]) => [id, entry.status])).toEqual([
+        [1, 'unchanged'],
+        [2, 'changed'],
+        [3, 'renamed'],
+        [5, 'added'],
+        [4, 'removed'],
+      ]);
+      expect(diff.get(2)!.changedFields).toEqual(['price']);
+      expect(diff.get(4)!.oldItem?.label).toBe('Grandchild');
+      expect(diff.get(5)!.newItem?.label).toBe('Added');
+    });
+
+    it('should report old and new parent of moved items', () => {
+      const after = getMockItems().map((item) => {
+        return item.id === 4 ? { ...item, parent: 3, label: 'Moved', price: 1 } : item;
+      });
+
+      const entry = diffTrees(createTreeSnapshot(getMockItems()), createTreeSnapshot(after)).get(4)!;
+
+      expect(entry).toMatchObject({ status: 'moved', moved: true, renamed: true, changedFields: ['price'] });
+      expect([entry.oldItem?.parent, entry.newItem?.parent]).toEqual([2, 3]);
+    });
+
+    it('should treat equal copies as unchanged', () => {
+      const diff = diffTrees(createTreeSnapshot(getMockItems()), createTreeSnapshot(getMockItems()));
+
+      expect([...diff.values()].every((entry) => entry.status === 'unchanged')).toBe(true);
+    });
+
+    it('should report order change as field change', () => {
+      const store = new TreeStore();
+      store.update(getMockItems());
+
+      const before = store.snapshot();
+
+      store.moveItem(3, 1, 0);
+
+      const entry = diffTrees(before, store.snapshot()).get(3)!;
+
+      expect(entry.status).toBe('changed');
+      expect(entry.changedFields).toEqual(['order']);
+    });
+  });
+
+  it('should compare a single item', () => {
+    const [root, child] = getMockItems();
+
+    expect(diffTreeItem(child, { ...child!, label: 'Renamed' })?.status).toBe('renamed');
+    expect(diffTreeItem(undefined, root)?.status).toBe('added');
+    expect(diffTreeItem(root, undefined)).toMatchObject({ id: 1, status: 'removed', oldItem: root });
+    expect(diffTreeItem(undefined, undefined)).toBeUndefined();
+  });
+
+  it('should count entries by status', () => {
+    const after = [...getMockItems().slice(1), { id: 5, parent: null, label: 'New' }];
+
+    expect(countTreeDiff(diffTrees(createTreeSnapshot(getMockItems()), createTreeSnapshot(after)))).toEqual({
+      added: 1,
+      removed: 1,
+      moved: 0,
+      renamed: 0,
+      changed: 0,
+      unchanged: 3,
+    });
+  });
+});
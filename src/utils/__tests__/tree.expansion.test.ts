@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getAllGroupIds,
+  getExpandedIdsToLevel,
+  getRevealIds,
+  loadExpansionState,
+  saveExpansionState,
+} from '../tree.expansion';
+import TreeStore from '@/core/TreeStore';
+import MemoryTreeDataSource from '@/mocks/MemoryTreeDataSource';
+import type { ITreeItem } from '@/types/tree.types';
+
+describe('tree.expansion', () => {
+  let treeStore: TreeStore;
+
+  const getMockItems = (): ITreeItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child 1' },
+    { id: 3, parent: 1, label: 'Child 2' },
+    { id: 4, parent: 2, label: 'Grandchild 1' },
+    { id: 5, parent: 4, label: 'Great-grandchild' },
+    { id: 6, parent: null, label: 'Leaf root' },
+  ];
+
+  beforeEach(() => {
+    treeStore = new TreeStore();
+    treeStore.update(getMockItems());
+    localStorage.clear();
+  });
+
+  it.each`
+    level | expected
+    ${0}  | ${[]}
+    ${1}  | ${[1]}
+    ${2}  | ${[1, 2]}
+    ${5}  | ${[1, 2, 4]}
+  `('should expand groups up to level $level', ({ level, expected }) => {
+    expect(getExpandedIdsToLevel(level, treeStore)).toEqual(expected);
+  });
+
+  it('should return all groups', () => {
+    expect(getAllGroupIds(treeStore)).toEqual([1, 2, 4]);
+  });
+
+  it('should treat unloaded branches as groups', async () => {
+    const lazyStore = new TreeStore({ dataSource: new MemoryTreeDataSource(getMockItems()) });
+    await lazyStore.loadChildren(null);
+
+    expect(getAllGroupIds(lazyStore)).toEqual([1]);
+  });
+
+  it('should return ancestors from root to parent', () => {
+    expect(getRevealIds(5, treeStore)).toEqual([1, 2, 4]);
+    expect(getRevealIds(1, treeStore)).toEqual([]);
+  });
+
+  it('should persist expansion state by tree id', () => {
+    saveExpansionState('estimate', new Set([1, 'a']));
+
+    expect(loadExpansionState('estimate')).toEqual([1, 'a']);
+    expect(localStorage.getItem('tree-grid:expansion:estimate')).toBe('[1,"a"]');
+    expect(loadExpansionState('other')).toBeNull();
+  });
+});
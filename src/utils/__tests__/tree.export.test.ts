@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  downloadTreeExport,
+  exportTree,
+  exportTreeToCsv,
+  exportTreeToJson,
+  exportTreeToNested,
+  exportTreeToXlsx,
+} from '../tree.export';
+import { importTreeFromCsv } from '../tree.import';
+import { readXlsx } from '../tree.xlsx';
+import TreeStore from '@/core/TreeStore';
+import type { ITreeItem } from '@/types/tree.types';
+
+interface IEstimateItem extends ITreeItem {
+  price?: number;
+}
+
+describe('tree.export', () => {
+  let treeStore: TreeStore<IEstimateItem>;
+
+  const getMockItems = (): IEstimateItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child, "quoted"', price: 10 },
+    { id: 3, parent: 1, label: 'Group' },
+    { id: 4, parent: 3, label: 'Leaf', price: 5.5 },
+    { id: 5, parent: null, label: 'Other' },
+  ];
+
+  beforeEach(() => {
+    treeStore = new TreeStore<IEstimateItem>();
+    treeStore.update(getMockItems());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('exportTreeToCsv', () => {
+    it('should export rows in tree order with level and path', () => {
+      treeStore.moveItem(5, null, 0);
+
+      expect(exportTreeToCsv(treeStore).split('\r\n')).toEqual([
+        'level,path,id,parent,label',
+        '0,Other,5,,Other',
+        '0,Root,1,,Root',
+        '1,"Root / Child, ""quoted""",2,1,"Child, ""quoted"""',
+        '1,Root / Group,3,1,Group',
+        '2,Root / Group / Leaf,4,3,Leaf',
+      ]);
+    });
+
+    it('should use custom columns and delimiter', () => {
+      const csv = exportTreeToCsv(treeStore, {
+        columns: [
+          { field: 'label', header: 'Наименование' },
+          { field: 'price', header: 'Цена', getValue: (item) => item.price ?? 0 },
+        ],
+        delimiter: ';',
+      });
+
+      expect(csv.split('\r\n').slice(0, 3)).toEqual([
+        'level;path;Наименование;Цена',
+        '0;Root;Root;0',
+        '1;"Root / Child, ""quoted""";"Child, ""quoted""";10',
+      ]);
+    });
+
+    it('should compute levels among included items', () => {
+      const csv = exportTreeToCsv(treeStore, { include: (item) => item.id !== 1 });
+
+      expect(csv.split('\r\n').map((line) => line.split(',')[0])).toEqual(['level', '0', '0', '1', '0']);
+    });
+
+    it('should round-trip through import', () => {
+      const result = importTreeFromCsv(exportTreeToCsv(treeStore), { hierarchy: 'parent' });
+
+      expect(result.errors).toEqual([]);
+      expect(result.items.map(({ id, parent, label }) => ({ id, parent, label })))
+        .toEqual(getMockItems().map(({ id, parent, label }) => ({ id, parent, label })));
+    });
+  });
+
+  describe('exportTreeToNested', () => {
+    it('should nest children', () => {
+      expect(exportTreeToNested(treeStore)).toEqual([
+        {
+          id: 1,
+          parent: null,
+          label: 'Root',
+          children: [
+            { id: 2, parent: 1, label: 'Child, "quoted"', price: 10, children: [] },
+            {
+              id: 3,
+              parent: 1,
+              label: 'Group',
+              children: [{ id: 4, parent: 3, label: 'Leaf', price: 5.5, children: [] }],
+            },
+          ],
+        },
+        { id: 5, parent: null, label: 'Other', children: [] },
+      ]);
+    });
+
+    it('should attach items to nearest included ancestor', () => {
+      const nested = exportTreeToNested(treeStore, { include: (item) => item.id !== 3 });
+
+      expect(nested[0]!.children.map((item) => item.id)).toEqual([2, 4]);
+    });
+
+    it('should serialize to JSON', () => {
+      expect(JSON.parse(exportTreeToJson(treeStore))).toEqual(exportTreeToNested(treeStore));
+    });
+  });
+
+  describe('exportTreeToXlsx', () => {
+    it('should write readable workbook with typed values', async () => {
+      const data = exportTreeToXlsx(treeStore, {
+        columns: [{ field: 'label', header: 'Наименование' }, { field: 'price', header: 'Цена' }],
+        sheetName: 'Смета',
+      });
+
+      expect(await readXlsx(data.slice().buffer, 'Смета')).toEqual([
+        ['Наименование', 'Цена'],
+        ['Root'],
+        ['Child, "quoted"', '10'],
+        ['Group'],
+        ['Leaf', '5.5'],
+        ['Other'],
+      ]);
+    });
+
+    it('should group rows by outline level', async () => {
+      const xml = new TextDecoder().decode(exportTreeToXlsx(treeStore));
+
+      expect(xml).toContain('<sheetFormatPr defaultRowHeight="15" outlineLevelRow="2"/>');
+      expect(xml).toContain('<row r="2">');
+      expect(xml).toContain('<row r="3" outlineLevel="1">');
+      expect(xml).toContain('<row r="5" outlineLevel="2">');
+      expect(xml).toContain('<outlinePr summaryBelow="0"/>');
+    });
+  });
+
+  it('should dispatch by format', () => {
+    expect(exportTree(treeStore, 'csv')).toBe(exportTreeToCsv(treeStore));
+    expect(exportTree(treeStore, 'json')).toBe(exportTreeToJson(treeStore));
+    expect(exportTree(treeStore, 'xlsx')).toBeInstanceOf(Uint8Array);
+  });
+
+  describe('downloadTreeExport', () => {
+    it('should download content as file', () => {
+      vi.useFakeTimers();
+
+      const createObjectURL = vi.fn(() => 'blob:tree');
+      const revokeObjectURL = vi.fn();
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function(this: HTMLAnchorElement) {
+        expect(this.download).toBe('estimate.csv');
+        expect(this.href).toBe('blob:tree');
+      });
+
+      vi.stubGlobal('URL', { createObjectURL, revokeObjectURL });
+
+      downloadTreeExport('id\r\n1', 'csv', 'estimate');
+
+      const blob = (createObjectURL.mock.calls[0] as unknown as [Blob])[0];
+
+      expect(blob.type).toBe('text/csv;charset=utf-8');
+      expect(blob.size).toBe(3 + 'id\r\n1'.length);
+      expect(click).toHaveBeenCalled();
+
+      vi.runAllTimers();
+
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:tree');
+
+      vi.useRealTimers();
+    });
+  });
+});
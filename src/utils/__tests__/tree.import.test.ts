@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  importTreeFile,
+  importTreeFromCsv,
+  importTreeRows,
+  parseImportId,
+  parseImportValue,
+} from '../tree.import';
+import TreeStore from '@/core/TreeStore';
+
+describe('tree.import', () => {
+  describe('parseImportId', () => {
+    it('should convert integers to numbers and keep other ids as strings', () => {
+      expect(parseImportId(' 12 ')).toBe(12);
+      expect(parseImportId('91064cee')).toBe('91064cee');
+      expect(parseImportId('007')).toBe('007');
+    });
+  });
+
+  describe('parseImportValue', () => {
+    it('should convert decimals with dot or comma', () => {
+      expect(parseImportValue('1.5')).toBe(1.5);
+      expect(parseImportValue('1,5')).toBe(1.5);
+      expect(parseImportValue('-3')).toBe(-3);
+      expect(parseImportValue('0012')).toBe('0012');
+      expect(parseImportValue('шт')).toBe('шт');
+    });
+  });
+
+  describe('parent hierarchy', () => {
+    it('should import items with extra columns', () => {
+      const result = importTreeFromCsv('id;parent;label;price;unit\n1;;Root;;\n2;1;Child;10,5;шт', {
+        hierarchy: 'parent',
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.items).toEqual([
+        { id: 1, parent: null, label: 'Root' },
+        { id: 2, parent: 1, label: 'Child', price: 10.5, unit: 'шт' },
+      ]);
+    });
+
+    it('should use custom column names', () => {
+      const result = importTreeFromCsv('Код,Родитель,Наименование\na,,Root\nb,a,Child', {
+        hierarchy: 'parent',
+        columns: { id: 'Код', parent: 'Родитель', label: 'Наименование' },
+      });
+
+      expect(result.items.map((item) => [item.id, item.parent, item.label])).toEqual([
+        ['a', null, 'Root'],
+        ['b', 'a', 'Child'],
+      ]);
+    });
+
+    it('should report row errors and skip descendants of rejected rows', () => {
+      const csv = [
+        'id,parent,label',
+        '1,,Root',
+        ',1,No id',
+        '2,42,Orphan',
+        '3,2,Orphan child',
+        '1,,Duplicate',
+        '',
+        '4,5,Cycle A',
+        '5,4,Cycle B',
+        '6,6,Self',
+      ].join('\n');
+
+      const result = importTreeFromCsv(csv, { hierarchy: 'parent' });
+
+      expect(result.items.map((item) => item.id)).toEqual([1]);
+      expect(result.errors.map(({ row, type, id }) => ({ row, type, id }))).toEqual([
+        { row: 3, type: 'missingId', id: undefined },
+        { row: 4, type: 'danglingParent', id: 2 },
+        { row: 5, type: 'danglingParent', id: 3 },
+        { row: 6, type: 'duplicate', id: 1 },
+        { row: 8, type: 'cycle', id: 4 },
+        { row: 9, type: 'cycle', id: 5 },
+        { row: 10, type: 'selfParent', id: 6 },
+      ]);
+      expect(result.errors[1]!.message).toBe('Строка 4: Родитель id=42 элемента id=2 не найден');
+    });
+
+    it('should report missing header columns', () => {
+      const result = importTreeFromCsv('id,label\n1,Root', { hierarchy: 'parent' });
+
+      expect(result.items).toEqual([]);
+      expect(result.errors).toEqual([
+        { row: 1, type: 'missingColumn', message: 'В заголовке нет колонки "parent"' },
+      ]);
+    });
+  });
+
+  describe('outline hierarchy', () => {
+    it('should build parents from outline numbers in any row order', () => {
+      const result = importTreeFromCsv('outline;label\n1.1;Child\n1.;Root\n1.1.1;Grandchild\n2;Other', {
+        hierarchy: 'outline',
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.items.map((item) => [item.id, item.parent])).toEqual([
+        ['1.1', '1'],
+        ['1', null],
+        ['1.1.1', '1.1'],
+        ['2', null],
+      ]);
+    });
+
+    it('should use id column when present', () => {
+      const result = importTreeRows(
+        [['id', 'outline', 'label'], ['10', '1', 'Root'], ['11', '1.1', 'Child']],
+        { hierarchy: 'outline' }
+      );
+
+      expect(result.items.map((item) => [item.id, item.parent])).toEqual([[10, null], [11, 10]]);
+    });
+
+    it('should report invalid, duplicate and orphan numbers', () => {
+      const result = importTreeRows(
+        [
+          ['outline', 'label'],
+          ['1', 'Root'],
+          ['1.a', 'Invalid'],
+          ['1', 'Duplicate'],
+          ['2.1', 'Orphan'],
+          ['2.1.1', 'Orphan child'],
+        ],
+        { hierarchy: 'outline' }
+      );
+
+      expect(result.items.map((item) => item.id)).toEqual(['1']);
+      expect(result.errors.map(({ row, type }) => [row, type])).toEqual([
+        [3, 'invalidOutline'],
+        [4, 'duplicate'],
+        [5, 'danglingParent'],
+        [6, 'danglingParent'],
+      ]);
+    });
+  });
+
+  describe('indent hierarchy', () => {
+    it('should build parents from label indentation', () => {
+      const result = importTreeRows(
+        [['label', 'qty'], ['Root', ''], ['  Child', '2'], ['\tChild 2', ''], ['    Grandchild', '1'], ['Other', '']],
+        { hierarchy: 'indent' }
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.items).toEqual([
+        { id: 2, parent: null, label: 'Root' },
+        { id: 3, parent: 2, label: 'Child', qty: 2 },
+        { id: 4, parent: 2, label: 'Child 2' },
+        { id: 5, parent: 4, label: 'Grandchild', qty: 1 },
+        { id: 6, parent: null, label: 'Other' },
+      ]);
+    });
+
+    it('should use level and id columns relative to the first row level', () => {
+      const result = importTreeRows(
+        [['id', 'level', 'label'], ['a', '1', 'Root'], ['b', '2', 'Child'], ['c', '1', 'Other']],
+        { hierarchy: 'indent' }
+      );
+
+      expect(result.items.map((item) => [item.id, item.parent])).toEqual([['a', null], ['b', 'a'], ['c', null]]);
+    });
+
+    it('should report skipped and invalid levels', () => {
+      const result = importTreeRows(
+        [['level', 'label'], ['0', 'Root'], ['2', 'Too deep'], ['x', 'Invalid'], ['1', 'Child']],
+        { hierarchy: 'indent' }
+      );
+
+      expect(result.items.map((item) => [item.id, item.parent])).toEqual([[2, null], [5, 2]]);
+      expect(result.errors.map(({ row, type }) => [row, type])).toEqual([
+        [3, 'invalidLevel'],
+        [4, 'invalidLevel'],
+      ]);
+    });
+  });
+
+  it('should produce items accepted by TreeStore.update', () => {
+    const treeStore = new TreeStore();
+    const result = importTreeFromCsv('outline,label\n1,Root\n1.1,Child', { hierarchy: 'outline' });
+
+    treeStore.update(result.items);
+
+    expect(treeStore.getChildren('1').map((item) => item.label)).toEqual(['Child']);
+  });
+
+  it('should read CSV file', async () => {
+    // File из jsdom не реализует text(), поэтому используется заглушка с нужной частью API
+    const file = { name: 'tree.csv', text: async () => 'id,parent,label\n1,,Root' } as unknown as File;
+
+    const result = await importTreeFile(file, { hierarchy: 'parent' });
+
+    expect(result.items).toEqual([{ id: 1, parent: null, label: 'Root' }]);
+  });
+});
@@ -0,0 +1,316 @@
+import { describe, it, expect } from 'vitest';
+import { mergeTrees, resolveAllMergeConflicts, resolveMergeConflict } from '../tree.merge';
+import TreeStore from '@/core/TreeStore';
+import type { ITreeItem, ITreeMergeResult, ITreeSnapshot } from '@/types/tree.types';
+
+interface IEstimateItem extends ITreeItem {
+  price?: number;
+}
+
+describe('tree.merge', () => {
+  const getMockItems = (): IEstimateItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'A', price: 10 },
+    { id: 3, parent: 1, label: 'B' },
+    { id: 4, parent: 2, label: 'A1' },
+    { id: 5, parent: 3, label: 'B1' },
+    { id: 6, parent: null, label: 'Other' },
+  ];
+
+  const baseStore = new TreeStore<IEstimateItem>();
+  baseStore.update(getMockItems());
+
+  const base = baseStore.snapshot();
+
+  // Ветка от общей версии с правками
+  const branch = (edit: (store: TreeStore<IEstimateItem>) => void): ITreeSnapshot<IEstimateItem> => {
+    const store = new TreeStore<IEstimateItem>();
+    store.update([...base.items]);
+    edit(store);
+
+    return store.snapshot();
+  };
+
+  const merge = (
+    editOurs: (store: TreeStore<IEstimateItem>) => void,
+    editTheirs: (store: TreeStore<IEstimateItem>) => void
+  ) => mergeTrees(base, branch(editOurs), branch(editTheirs));
+
+  const getItem = (result: ITreeMergeResult<IEstimateItem>, id: number) => {
+    return result.items.find((item) => item.id === id);
+  };
+
+  const getConflictTypes = (result: ITreeMergeResult<IEstimateItem>) => {
+    return result.conflicts.map((conflict) => [conflict.type, conflict.id]);
+  };
+
+  it('should return base when nothing changed', () => {
+    const result = merge(() => {}, () => {});
+
+    expect(result.items).toEqual(getMockItems());
+    expect(result.items[0]).toBe(base.items[0]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should merge independent changes', () => {
+    const result = merge(
+      (store) => {
+        store.addItem({ id: 7, parent: 2, label: 'A2' });
+        store.updateItem({ id: 5, parent: 3, label: 'B1 renamed' });
+      },
+      (store) => {
+        store.removeItem(6);
+        store.moveItem(4, 3);
+        store.updateItem({ id: 2, parent: 1, label: 'A', price: 12 });
+      }
+    );
+
+    expect(result.conflicts).toEqual([]);
+    expect(getItem(result, 7)?.parent).toBe(2);
+    expect(getItem(result, 5)?.label).toBe('B1 renamed');
+    expect(getItem(result, 6)).toBeUndefined();
+    expect(getItem(result, 4)?.parent).toBe(3);
+    expect(getItem(result, 2)?.price).toBe(12);
+  });
+
+  it('should merge rename and move of the same item', () => {
+    const result = merge(
+      (store) => store.updateItem({ id: 4, parent: 2, label: 'A1 renamed' }),
+      (store) => store.moveItem(4, 6)
+    );
+
+    expect(result.conflicts).toEqual([]);
+    expect(getItem(result, 4)).toMatchObject({ parent: 6, label: 'A1 renamed' });
+  });
+
+  it('should accept identical changes on both sides', () => {
+    const rename = (store: TreeStore<IEstimateItem>) => store.updateItem({ id: 3, parent: 1, label: 'Same' });
+    const result = merge(rename, rename);
+
+    expect(result.conflicts).toEqual([]);
+    expect(getItem(result, 3)?.label).toBe('Same');
+  });
+
+  it('should not treat concurrent reordering as conflict', () => {
+    const result = merge(
+      (store) => store.moveItem(3, 1, 0),
+      (store) => store.updateItem({ id: 3, parent: 1, label: 'B renamed' })
+    );
+
+    expect(result.conflicts).toEqual([]);
+    expect(getItem(result, 3)).toMatchObject({ label: 'B renamed', order: expect.any(Number) });
+  });
+
+  describe('conflicts', () => {
+    it('should detect both renamed', () => {
+      const result = merge(
+        (store) => store.updateItem({ id: 3, parent: 1, label: 'Ours' }),
+        (store) => store.updateItem({ id: 3, parent: 1, label: 'Theirs' })
+      );
+
+      expect(result.conflicts).toEqual([expect.objectContaining({
+        type: 'bothRenamed',
+        id: 3,
+        ids: [3],
+        base: base.items[2],
+        ours: expect.objectContaining({ label: 'Ours' }),
+        theirs: expect.objectContaining({ label: 'Theirs' }),
+      })]);
+      expect(getItem(result, 3)?.label).toBe('Ours');
+    });
+
+    it('should detect field changed on both sides', () => {
+      const result = merge(
+        (store) => store.updateItem({ id: 2, parent: 1, label: 'A', price: 11 }),
+        (store) => store.updateItem({ id: 2, parent: 1, label: 'A renamed', price: 12 })
+      );
+
+      expect(result.conflicts.map(({ type, field }) => [type, field])).toEqual([['bothChanged', 'price']]);
+      expect(getItem(result, 2)).toMatchObject({ label: 'A renamed', price: 11 });
+    });
+
+    it('should detect both moved', () => {
+      const result = merge((store) => store.moveItem(4, 3), (store) => store.moveItem(4, 6));
+
+      expect(getConflictTypes(result)).toEqual([['bothMoved', 4]]);
+      expect(getItem(result, 4)?.parent).toBe(3);
+    });
+
+    it('should detect moved in one and removed in the other', () => {
+      const keptByOurs = merge((store) => store.moveItem(4, 3), (store) => store.removeItem(4));
+      const removedByOurs = merge((store) => store.removeItem(4), (store) => store.moveItem(4, 3));
+
+      expect(getConflictTypes(keptByOurs)).toEqual([['moveRemove', 4]]);
+      expect(getItem(keptByOurs, 4)?.parent).toBe(3);
+      expect(getConflictTypes(removedByOurs)).toEqual([['moveRemove', 4]]);
+      expect(getItem(removedByOurs, 4)).toBeUndefined();
+    });
+
+    it('should detect edited in one and removed in the other', () => {
+      const result = merge(
+        (store) => store.removeItem(3),
+        (store) => store.updateItem({ id: 5, parent: 3, label: 'B1 renamed' })
+      );
+
+      expect(getConflictTypes(result)).toEqual([['editRemove', 5]]);
+      expect(getItem(result, 3)).toBeUndefined();
+      expect(getItem(result, 5)).toBeUndefined();
+    });
+
+    it('should detect item added under removed parent', () => {
+      const result = merge(
+        (store) => store.removeItem(3),
+        (store) => store.addItem({ id: 7, parent: 5, label: 'New' })
+      );
+
+      expect(getConflictTypes(result)).toEqual([['removedParent', 7]]);
+      expect(result.items.map((item) => item.id)).toEqual([1, 2, 4, 6]);
+    });
+
+    it('should restore removed parent for our item', () => {
+      const result = merge(
+        (store) => store.addItem({ id: 7, parent: 5, label: 'New' }),
+        (store) => store.removeItem(3)
+      );
+
+      expect(getConflictTypes(result)).toEqual([['removedParent', 7]]);
+      expect(getItem(result, 7)?.parent).toBe(5);
+      expect(getItem(result, 5)?.parent).toBe(3);
+      expect(getItem(result, 3)).toBeDefined();
+    });
+
+    it('should return item moved under removed parent to our position', () => {
+      const result = merge((store) => store.removeItem(3), (store) => store.moveItem(4, 5));
+
+      expect(getConflictTypes(result)).toEqual([['removedParent', 4]]);
+      expect(getItem(result, 4)?.parent).toBe(2);
+    });
+
+    it('should detect moves that together create a cycle', () => {
+      const result = merge((store) => store.moveItem(2, 3), (store) => store.moveItem(3, 2));
+
+      expect(result.conflicts).toEqual([expect.objectContaining({ type: 'cycle', id: 2, ids: [2, 3] })]);
+      expect(getItem(result, 2)?.parent).toBe(3);
+      expect(getItem(result, 3)?.parent).toBe(1);
+    });
+
+    it('should detect cycles through several items', () => {
+      const result = merge(
+        (store) => {
+          store.moveItem(2, 5);
+        },
+        (store) => {
+          store.moveItem(3, 4);
+        }
+      );
+
+      expect(getConflictTypes(result)).toEqual([['cycle', 2]]);
+      expect(result.conflicts[0]!.ids).toEqual([2, 3, 4, 5]);
+      expect(getItem(result, 3)?.parent).toBe(1);
+    });
+
+    it('should detect different items added with the same id', () => {
+      const result = merge(
+        (store) => store.addItem({ id: 7, parent: 2, label: 'Ours' }),
+        (store) => store.addItem({ id: 7, parent: 3, label: 'Theirs' })
+      );
+
+      expect(getConflictTypes(result)).toEqual([['bothAdded', 7]]);
+      expect(getItem(result, 7)?.label).toBe('Ours');
+    });
+  });
+
+  describe('resolveMergeConflict', () => {
+    it('should apply chosen side and keep other resolutions', () => {
+      const result = merge(
+        (store) => {
+          store.updateItem({ id: 3, parent: 1, label: 'Ours' });
+          store.moveItem(4, 3);
+        },
+        (store) => {
+          store.updateItem({ id: 3, parent: 1, label: 'Theirs' });
+          store.moveItem(4, 6);
+        }
+      );
+
+      const renamed = resolveMergeConflict(result, result.conflicts[0]!, 'theirs');
+      const resolved = resolveMergeConflict(renamed, renamed.conflicts[0]!, 'base');
+
+      expect(getItem(resolved, 3)?.label).toBe('Theirs');
+      expect(getItem(resolved, 4)?.parent).toBe(2);
+      expect(resolved.conflicts).toEqual([]);
+      expect(resolved.resolutions).toHaveLength(2);
+    });
+
+    it('should replace previous resolution of the same conflict', () => {
+      const result = merge(
+        (store) => store.updateItem({ id: 3, parent: 1, label: 'Ours' }),
+        (store) => store.updateItem({ id: 3, parent: 1, label: 'Theirs' })
+      );
+      const conflict = result.conflicts[0]!;
+      const resolved = resolveMergeConflict(resolveMergeConflict(result, conflict, 'theirs'), conflict, 'base');
+
+      expect(resolved.resolutions).toEqual([{ type: 'bothRenamed', id: 3, field: undefined, side: 'base' }]);
+      expect(getItem(resolved, 3)?.label).toBe('B');
+    });
+
+    it('should break cycle with their moves', () => {
+      const result = merge((store) => store.moveItem(2, 3), (store) => store.moveItem(3, 2));
+      const resolved = resolveMergeConflict(result, result.conflicts[0]!, 'theirs');
+
+      expect(resolved.conflicts).toEqual([]);
+      expect(getItem(resolved, 2)?.parent).toBe(1);
+      expect(getItem(resolved, 3)?.parent).toBe(2);
+    });
+
+    it('should keep removed item with its parents', () => {
+      const result = merge(
+        (store) => store.removeItem(3),
+        (store) => store.addItem({ id: 7, parent: 5, label: 'New' })
+      );
+      const resolved = resolveMergeConflict(result, result.conflicts[0]!, 'theirs');
+
+      expect(resolved.conflicts).toEqual([]);
+      expect(resolved.items.map((item) => item.id).sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it('should reveal conflicts opened by resolution', () => {
+      const result = merge(
+        (store) => store.removeItem(3),
+        (store) => store.updateItem({ id: 5, parent: 3, label: 'B1 renamed' })
+      );
+      const resolved = resolveMergeConflict(result, result.conflicts[0]!, 'theirs');
+
+      expect(getConflictTypes(resolved)).toEqual([['removedParent', 5]]);
+      expect(getItem(resolved, 5)).toBeUndefined();
+    });
+  });
+
+  describe('resolveAllMergeConflicts', () => {
+    it('should resolve nested conflicts in favor of one side', () => {
+      const result = merge(
+        (store) => {
+          store.removeItem(3);
+          store.updateItem({ id: 2, parent: 1, label: 'Ours' });
+        },
+        (store) => {
+          store.updateItem({ id: 5, parent: 3, label: 'B1 renamed' });
+          store.updateItem({ id: 2, parent: 1, label: 'Theirs' });
+        }
+      );
+
+      const resolved = resolveAllMergeConflicts(result, 'theirs');
+
+      expect(resolved.conflicts).toEqual([]);
+      expect(getItem(resolved, 2)?.label).toBe('Theirs');
+      expect(getItem(resolved, 5)?.label).toBe('B1 renamed');
+      expect(getItem(resolved, 3)).toEqual(base.items[2]);
+    });
+
+    it('should keep result without conflicts unchanged', () => {
+      const result = merge(() => {}, () => {});
+
+      expect(resolveAllMergeConflicts(result, 'ours')).toBe(result);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { parseTreeOperations, replayTreeOperations, toTreeJsonPatch } from '../tree.operations';
+import TreeOperationLog from '@/core/TreeOperationLog';
+import TreeStore from '@/core/TreeStore';
+import type { ITreeItem, ITreeOperationLogEntry, TreeOperation } from '@/types/tree.types';
+
+describe('tree.operations', () => {
+  let source: TreeStore;
+  let log: TreeOperationLog;
+
+  const getMockItems = (): ITreeItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child 1' },
+    { id: 3, parent: 1, label: 'Child 2' },
+    { id: 4, parent: 2, label: 'Grandchild 1' },
+  ];
+
+  const createStore = () => {
+    const store = new TreeStore();
+    store.update(getMockItems());
+
+    return store;
+  };
+
+  const toEntries = (...operations: TreeOperation[]): ITreeOperationLogEntry[] => {
+    return operations.map((operation, index) => ({ seq: index + 1, timestamp: 0, operation }));
+  };
+
+  // Состояние дерева вместе с порядком соседей
+  const getState = (store: TreeStore) => {
+    const collect = (items: ITreeItem[]): unknown[] => {
+      return items.map((item) => ({ ...item, children: collect(store.getChildren(item.id)) }));
+    };
+
+    return collect(store.getRoots());
+  };
+
+  beforeEach(() => {
+    source = createStore();
+    log = new TreeOperationLog(source);
+  });
+
+  afterEach(() => {
+    log.destroy();
+  });
+
+  describe('replayTreeOperations', () => {
+    it('should reproduce the same state', () => {
+      source.addItem({ id: 5, parent: 3, label: 'New' });
+      source.moveItem(4, 1, 0);
+      source.updateItem({ id: 3, parent: 1, label: 'Renamed' });
+      source.moveItem(2, 3);
+      source.removeItem(5);
+      source.addItem({ id: 6, parent: 1, label: 'First' }, { index: 0 });
+
+      const target = createStore();
+      const result = replayTreeOperations(target, parseTreeOperations(log.export()));
+
+      expect(result).toEqual({ applied: 6, failures: [] });
+      expect(getState(target)).toEqual(getState(source));
+    });
+
+    it('should replay reset', () => {
+      source.update([{ id: 10, parent: null, label: 'Other' }]);
+      source.addItem({ id: 11, parent: 10, label: 'Child' });
+
+      const target = new TreeStore();
+
+      expect(replayTreeOperations(target, log.getEntries()).applied).toBe(2);
+      expect(getState(target)).toEqual(getState(source));
+    });
+
+    it('should report operations with failed preconditions and continue', () => {
+      const entries = toEntries(
+        { type: 'add', item: { id: 5, parent: 9, label: 'Orphan' }, index: 0 },
+        { type: 'add', item: { id: 2, parent: 1, label: 'Duplicate' }, index: 0 },
+        { type: 'update', item: { id: 3, parent: 1, label: 'Renamed' }, previous: getMockItems()[2]! },
+        { type: 'remove', id: 8, ids: [8] },
+        { type: 'remove', id: 2, ids: [2] },
+        { type: 'update', item: { id: 4, parent: 1, label: 'Moved' }, previous: getMockItems()[3]! },
+        { type: 'move', item: { id: 1, parent: 4, label: 'Root' }, previous: getMockItems()[0]!, index: 0, reordered: [] }
+      );
+
+      const target = createStore();
+      const result = replayTreeOperations(target, entries);
+
+      expect(result.applied).toBe(1);
+      expect(result.failures.map(({ index, message }) => [index, message])).toEqual([
+        [0, 'Родитель 9 не найден'],
+        [1, 'Элемент 2 уже существует'],
+        [3, 'Элемент 8 не найден'],
+        [4, 'Потомки элемента 2 отличаются от записанных'],
+        [5, 'Элемент 4 находится под другим родителем'],
+        [6, 'Перенос элемента 1 под 4 создает цикл'],
+      ]);
+      expect(result.failures[0]!.entry).toBe(entries[0]);
+      expect(target.getItem(3)?.label).toBe('Renamed');
+      expect(target.getItem(2)).toBeDefined();
+    });
+
+    it('should report errors thrown by the store', () => {
+      const target = createStore();
+      vi.spyOn(target, 'updateItem').mockImplementation(() => {
+        throw new Error('Нарушена структура дерева');
+      });
+
+      const result = replayTreeOperations(target, toEntries(
+        { type: 'update', item: { id: 3, parent: 1, label: 'Renamed' }, previous: getMockItems()[2]! }
+      ));
+
+      expect(result).toEqual({ applied: 0, failures: [expect.objectContaining({ message: 'Нарушена структура дерева' })] });
+    });
+  });
+
+  describe('parseTreeOperations', () => {
+    it('should read exported log', () => {
+      source.removeItem(2);
+
+      expect(parseTreeOperations(log.export())).toEqual(log.getEntries());
+    });
+
+    it('should reject invalid log', () => {
+      expect(() => parseTreeOperations('{}')).toThrow('Журнал изменений должен быть массивом записей');
+      expect(() => parseTreeOperations('[{"seq":1,"timestamp":0,"operation":{"type":"drop"}}]'))
+        .toThrow('Запись 1 журнала изменений некорректна');
+      expect(() => parseTreeOperations('[{"seq":1,"timestamp":0,"operation":{"type":"remove","id":1,"ids":[2]}}]'))
+        .toThrow('Запись 1 журнала изменений некорректна');
+      expect(() => parseTreeOperations('[null]')).toThrow('Запись 1 журнала изменений некорректна');
+      expect(() => parseTreeOperations('not json')).toThrow(SyntaxError);
+    });
+  });
+
+  describe('toTreeJsonPatch', () => {
+    it('should convert operations to JSON Patch', () => {
+      source.addItem({ id: 'a/b~', parent: 1, label: 'New' });
+      source.updateItem({ id: 3, parent: 1, label: 'Renamed' });
+      source.removeItem(2);
+
+      expect(toTreeJsonPatch(log.getEntries())).toEqual([
+        { op: 'add', path: '/a~1b~0', value: { id: 'a/b~', parent: 1, label: 'New' } },
+        { op: 'replace', path: '/3', value: { id: 3, parent: 1, label: 'Renamed' } },
+        { op: 'remove', path: '/4' },
+        { op: 'remove', path: '/2' },
+      ]);
+    });
+
+    it('should replace moved item with its reordered siblings', () => {
+      source.moveItem(4, 1, 0);
+
+      expect(toTreeJsonPatch(log.getEntries()).map((operation) => operation.path)).toEqual(['/2', '/3', '/4']);
+    });
+
+    it('should replace whole document on reset', () => {
+      source.update([{ id: 10, parent: null, label: 'Other' }]);
+
+      expect(toTreeJsonPatch(log.getEntries())).toEqual([
+        { op: 'replace', path: '', value: { 10: { id: 10, parent: null, label: 'Other' } } },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { compareTreeItemOrder, findOrderedIndex, getOrderBetween, ORDER_STEP } from '../tree.order';
+import type { ITreeItem } from '@/types/tree.types';
+
+describe('tree.order', () => {
+  const item = (id: number, order?: number): ITreeItem => ({ id, parent: null, label: `Item ${id}`, order });
+
+  describe('compareTreeItemOrder', () => {
+    it('should compare ranked items by order', () => {
+      expect(compareTreeItemOrder(item(1, 1), item(2, 2))).toBeLessThan(0);
+      expect(compareTreeItemOrder(item(1, 3), item(2, 2))).toBeGreaterThan(0);
+    });
+
+    it('should place unranked items after ranked ones', () => {
+      expect(compareTreeItemOrder(item(1), item(2, 100))).toBeGreaterThan(0);
+      expect(compareTreeItemOrder(item(1, 100), item(2))).toBeLessThan(0);
+    });
+
+    it('should keep unranked items in original order', () => {
+      const items = [item(1), item(2, 2), item(3), item(4, 1)];
+
+      expect([...items].sort(compareTreeItemOrder).map(({ id }) => id)).toEqual([4, 2, 1, 3]);
+    });
+  });
+
+  describe('getOrderBetween', () => {
+    it.each`
+      before       | after        | expected
+      ${undefined} | ${undefined} | ${ORDER_STEP}
+      ${undefined} | ${1}         | ${1 - ORDER_STEP}
+      ${2}         | ${undefined} | ${2 + ORDER_STEP}
+      ${1}         | ${2}         | ${1.5}
+      ${-1}        | ${0}         | ${-0.5}
+    `('should return $expected between $before and $after', ({ before, after, expected }) => {
+      expect(getOrderBetween(before, after)).toBe(expected);
+    });
+
+    it('should return null when there is no room between ranks', () => {
+      expect(getOrderBetween(1, 1)).toBeNull();
+      expect(getOrderBetween(1, 1 + Number.EPSILON)).toBeNull();
+    });
+  });
+
+  describe('findOrderedIndex', () => {
+    const siblings = [item(1, 1), item(2, 2), item(3)];
+
+    it.each`
+      order        | expected
+      ${0}         | ${0}
+      ${1.5}       | ${1}
+      ${2}         | ${2}
+      ${undefined} | ${3}
+    `('should return $expected for order $order', ({ order, expected }) => {
+      expect(findOrderedIndex(siblings, item(9, order))).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  escapeHtml,
+  findTextMatch,
+  highlightTextMatch,
+  normalizeSearchText,
+} from '../tree.search';
+
+describe('tree.search', () => {
+  describe('normalizeSearchText', () => {
+    it('should fold case, diacritics and ё', () => {
+      expect(normalizeSearchText('Ёлка Café').text).toBe('елка cafe');
+    });
+
+    it('should keep й as a separate letter', () => {
+      expect(normalizeSearchText('Бой').text).toBe('бой');
+    });
+
+    it('should map normalized characters to source positions', () => {
+      expect(normalizeSearchText('Ёж').positions).toEqual([0, 1]);
+    });
+
+    it('should respect sensitivity options', () => {
+      expect(normalizeSearchText('Ёлка', { caseSensitive: true, diacriticSensitive: true }).text).toBe('Ёлка');
+    });
+  });
+
+  describe('findTextMatch', () => {
+    it.each`
+      text                 | query      | options                         | expected
+      ${'Бетонные работы'} | ${'работ'} | ${{}}                           | ${{ start: 9, length: 5 }}
+      ${'Бетонные работы'} | ${'БЕТОН'} | ${{}}                           | ${{ start: 0, length: 5 }}
+      ${'Щебёночное'}      | ${'щебен'} | ${{}}                           | ${{ start: 0, length: 5 }}
+      ${'Щебеночное'}      | ${'щебён'} | ${{}}                           | ${{ start: 0, length: 5 }}
+      ${'Бетонные работы'} | ${'тон'}   | ${{ prefix: true }}             | ${null}
+      ${'Бетонные работы'} | ${'раб'}   | ${{ prefix: true }}             | ${{ start: 9, length: 3 }}
+      ${'Бетонные работы'} | ${'бетон'} | ${{ caseSensitive: true }}      | ${null}
+      ${'Щебёночное'}      | ${'щебен'} | ${{ diacriticSensitive: true }} | ${null}
+      ${'Бетонные работы'} | ${'  '}    | ${{}}                           | ${null}
+    `('should match "$query" in "$text" with $options', ({ text, query, options, expected }) => {
+      expect(findTextMatch(text, query, options)).toEqual(expected);
+    });
+
+    it('should find prefix match after a non-prefix occurrence', () => {
+      expect(findTextMatch('Сталь и стальные', 'таль', { prefix: true })).toBeNull();
+      expect(findTextMatch('Бетон, бетонирование', 'бетонир', { prefix: true })).toEqual({ start: 7, length: 7 });
+    });
+  });
+
+  describe('highlightTextMatch', () => {
+    it('should wrap match in mark', () => {
+      expect(highlightTextMatch('Бетон', { start: 1, length: 2 })).toBe(
+        'Б<mark class="tree-grid__match">ет</mark>он'
+      );
+    });
+
+    it('should escape label text', () => {
+      expect(highlightTextMatch('<b>', null)).toBe('&lt;b&gt;');
+      expect(highlightTextMatch('a<b', { start: 1, length: 1 })).toBe(
+        'a<mark class="tree-grid__match">&lt;</mark>b'
+      );
+      expect(escapeHtml('"\'&')).toBe('&quot;&#39;&amp;');
+    });
+  });
+});
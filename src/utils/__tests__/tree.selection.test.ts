@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getSelectedItems,
+  getSelectionRoots,
+  normalizeSelection,
+  toggleSelection,
+} from '../tree.selection';
+import TreeStore from '@/core/TreeStore';
+import type { ITreeItem } from '@/types/tree.types';
+
+describe('tree.selection', () => {
+  let treeStore: TreeStore;
+
+  const getMockItems = (): ITreeItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child 1' },
+    { id: 3, parent: 1, label: 'Child 2' },
+    { id: 4, parent: 2, label: 'Grandchild 1' },
+    { id: 5, parent: 2, label: 'Grandchild 2' },
+    { id: 6, parent: 3, label: 'Grandchild 3' },
+  ];
+
+  const sorted = (ids: Array<string | number>) => [...ids].sort();
+
+  beforeEach(() => {
+    treeStore = new TreeStore();
+    treeStore.update(getMockItems());
+  });
+
+  describe('toggleSelection', () => {
+    it('should select group with all descendants', () => {
+      expect(sorted(toggleSelection([], 2, true, treeStore))).toEqual([2, 4, 5]);
+    });
+
+    it('should select ancestors when all their children become selected', () => {
+      const selected = toggleSelection([2, 4, 5], 3, true, treeStore);
+
+      expect(sorted(selected)).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('should deselect ancestors of a deselected item', () => {
+      const selected = toggleSelection([1, 2, 3, 4, 5, 6], 4, false, treeStore);
+
+      expect(sorted(selected)).toEqual([3, 5, 6]);
+    });
+  });
+
+  describe('normalizeSelection', () => {
+    it('should add descendants and drop unknown ids', () => {
+      expect(sorted(normalizeSelection([2, 42], treeStore))).toEqual([2, 4, 5]);
+    });
+
+    it('should select groups whose children are all selected', () => {
+      expect(sorted(normalizeSelection([4, 5, 6], treeStore))).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('should drop partially selected groups', () => {
+      expect(sorted(normalizeSelection([1], treeStore).filter((id) => id !== 5))).toEqual([1, 2, 3, 4, 6]);
+      expect(sorted(normalizeSelection([3, 4], treeStore))).toEqual([3, 4, 6]);
+    });
+  });
+
+  describe('getSelectionRoots', () => {
+    it('should return topmost selected items in tree order', () => {
+      const roots = getSelectionRoots([6, 3, 2, 4, 5], treeStore);
+
+      expect(roots.map((item) => item.id)).toEqual([2, 3]);
+    });
+  });
+
+  describe('getSelectedItems', () => {
+    it('should return selected items in depth-first order', () => {
+      const items = getSelectedItems([6, 3, 4], treeStore);
+
+      expect(items.map((item) => item.id)).toEqual([4, 3, 6]);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getStorageKey, readStorage, writeStorage } from '../tree.storage';
+
+describe('tree.storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should build namespaced key', () => {
+    expect(getStorageKey('columns', 'estimate')).toBe('tree-grid:columns:estimate');
+  });
+
+  it('should round-trip JSON values', () => {
+    writeStorage('key', { ids: [1, 'a'] });
+
+    expect(readStorage('key')).toEqual({ ids: [1, 'a'] });
+  });
+
+  it('should return null for missing or corrupted values', () => {
+    localStorage.setItem('broken', '{not json');
+
+    expect(readStorage('missing')).toBeNull();
+    expect(readStorage('broken')).toBeNull();
+  });
+
+  it('should ignore write errors', () => {
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+
+    expect(() => writeStorage('key', 1)).not.toThrow();
+  });
+});
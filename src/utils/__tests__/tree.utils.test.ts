@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   determineCategory,
   getItemPath,
@@ -6,9 +6,22 @@ import {
   enrichTreeItem,
   convertToAgGridFormat,
   sortTreeItemsDFS,
+  buildRowTransaction,
+  generateTreeItemId,
+  getDropPosition,
+  resolveDropTarget,
+  createPlaceholderRow,
+  getPlaceholderId,
+  getPlaceholderRows,
+  flattenTree,
+  nestTree,
 } from '../tree.utils';
+import { validateTreeItems } from '../tree.validation';
+import fc from 'fast-check';
 import TreeStore from '@/core/TreeStore';
-import type { ITreeItem } from '@/types/tree.types';
+import TreeValidationError from '@/core/TreeValidationError';
+import MemoryTreeDataSource from '@/mocks/MemoryTreeDataSource';
+import type { ITreeItem, ITreeNestedKeys, TreeItemId, TreeNestedNode, TreeStoreEvent } from '@/types/tree.types';
 
 describe('tree.utils', () => {
   let treeStore: TreeStore;
@@ -109,6 +122,25 @@ describe('tree.utils', () => {
       expect(result.path).toEqual(['Root', 'Child 1', 'Grandchild 1']);
     });
 
+    it('should keep payload fields of typed items', () => {
+      interface IEstimateItem extends ITreeItem {
+        quantity: number;
+        unit: string;
+      }
+
+      const typedStore = new TreeStore<IEstimateItem>();
+      typedStore.update([
+        { id: 1, parent: null, label: 'Root', quantity: 2, unit: 'шт' },
+        { id: 2, parent: 1, label: 'Child', quantity: 3, unit: 'м' },
+      ]);
+
+      const result = enrichTreeItem(typedStore.getItem(2)!, typedStore);
+
+      expect(result.quantity * 2).toBe(6);
+      expect(result.unit).toBe('м');
+      expect(result.path).toEqual(['Root', 'Child']);
+    });
+
     it('should add level field to item', () => {
       const rootItem = treeStore.getItem(1)!;
       const childItem = treeStore.getItem(2)!;
@@ -270,6 +302,24 @@ describe('tree.utils', () => {
       expect(result.map((item) => item.id)).toEqual([1, 3, 2, 4]);
     });
 
+    it('should follow sibling order from the store', () => {
+      treeStore.moveItem(3, 1, 0);
+      treeStore.moveItem(5, 2, 0);
+
+      const result = sortTreeItemsDFS(treeStore.getAll(), treeStore);
+
+      expect(result.map((item) => item.id)).toEqual([1, 3, 6, 2, 5, 4]);
+    });
+
+    it('should follow sibling ranks after reload', () => {
+      treeStore.moveItem(3, 1, 0);
+
+      const items = treeStore.getAll();
+      treeStore.update(items);
+
+      expect(sortTreeItemsDFS(items, treeStore).map((item) => item.id)).toEqual([1, 3, 6, 2, 4, 5]);
+    });
+
     it('should traverse deep branches completely before moving to siblings', () => {
       const deepTree: ITreeItem[] = [
         { id: 1, parent: null, label: 'Root' },
@@ -285,4 +335,409 @@ describe('tree.utils', () => {
       expect(result.map((item) => item.id)).toEqual([1, 2, 4, 5, 3]);
     });
   });
+
+  describe('generateTreeItemId', () => {
+    it('should return max numeric id + 1', () => {
+      expect(generateTreeItemId(treeStore)).toBe(7);
+    });
+
+    it('should ignore string ids', () => {
+      treeStore.update([
+        { id: 'abc', parent: null, label: 'String' },
+        { id: 3, parent: 'abc', label: 'Number' },
+      ]);
+
+      expect(generateTreeItemId(treeStore)).toBe(4);
+    });
+
+    it('should return 1 for empty store', () => {
+      treeStore.update([]);
+
+      expect(generateTreeItemId(treeStore)).toBe(1);
+    });
+
+    it('should use the store id generator when set', () => {
+      treeStore.setItemIdGenerator(() => 'client:1');
+
+      expect(generateTreeItemId(treeStore)).toBe('client:1');
+
+      treeStore.setItemIdGenerator(null);
+
+      expect(generateTreeItemId(treeStore)).toBe(7);
+    });
+  });
+
+  describe('buildRowTransaction', () => {
+    let events: TreeStoreEvent[];
+
+    const ids = (rows: ITreeItem[]) => rows.map((row) => row.id);
+
+    beforeEach(() => {
+      events = [];
+      treeStore.on('added', (payload) => events.push({ type: 'added', payload }));
+      treeStore.on('removed', (payload) => events.push({ type: 'removed', payload }));
+      treeStore.on('updated', (payload) => events.push({ type: 'updated', payload }));
+      treeStore.on('moved', (payload) => events.push({ type: 'moved', payload }));
+      treeStore.on('reset', (payload) => events.push({ type: 'reset', payload }));
+    });
+
+    it('should return null for reset', () => {
+      treeStore.update(getMockItems());
+
+      expect(buildRowTransaction(events[0]!, treeStore)).toBeNull();
+    });
+
+    it('should add new row and refresh parent category', () => {
+      treeStore.addItem({ id: 7, parent: 4, label: 'New' });
+
+      const transaction = buildRowTransaction(events[0]!, treeStore)!;
+
+      expect(ids(transaction.add)).toEqual([7]);
+      expect(transaction.add[0]?.path).toEqual(['Root', 'Child 1', 'Grandchild 1', 'New']);
+      expect(ids(transaction.update)).toEqual([4]);
+      expect(transaction.update[0]?.category).toBe('Группа');
+    });
+
+    it('should remove whole subtree and refresh parent', () => {
+      treeStore.removeItem(6);
+
+      const transaction = buildRowTransaction(events[0]!, treeStore)!;
+
+      expect(ids(transaction.remove)).toEqual([6]);
+      expect(transaction.update[0]?.category).toBe('Элемент');
+    });
+
+    it('should update only the edited leaf row', () => {
+      treeStore.updateItem({ id: 5, parent: 2, label: 'Renamed' });
+
+      const transaction = buildRowTransaction(events[0]!, treeStore)!;
+
+      expect(ids(transaction.update)).toEqual([5]);
+      expect(transaction.add).toEqual([]);
+      expect(transaction.remove).toEqual([]);
+    });
+
+    it('should refresh descendant paths when group label changes', () => {
+      treeStore.updateItem({ id: 2, parent: 1, label: 'Renamed' });
+
+      const transaction = buildRowTransaction(events[0]!, treeStore)!;
+
+      expect(ids(transaction.update)).toEqual([2, 4, 5]);
+      expect(transaction.update[1]?.path).toEqual(['Root', 'Renamed', 'Grandchild 1']);
+    });
+
+    it('should update moved subtree and both parents', () => {
+      treeStore.updateItem({ id: 6, parent: 4, label: 'Grandchild 3' });
+
+      const transaction = buildRowTransaction(events[0]!, treeStore)!;
+
+      expect(ids(transaction.update)).toEqual([6, 3, 4]);
+      expect(transaction.update[0]?.level).toBe(3);
+    });
+
+    it('should refresh parent only once on reorder within the same parent', () => {
+      treeStore.moveItem(5, 2, 0);
+
+      const transaction = buildRowTransaction(events[0]!, treeStore)!;
+
+      // Соседний 4 получил ранг при нормализации
+      expect(ids(transaction.update)).toEqual([5, 4, 2]);
+    });
+
+    it('should touch a single row for a leaf edit in a 50k-row tree', () => {
+      const size = 50_000;
+      const bigTree: ITreeItem[] = [{ id: 0, parent: null, label: 'Root' }];
+
+      // Группы по 10 элементов: дерево глубины ~5
+      for (let id = 1; id < size; id++) {
+        bigTree.push({ id, parent: Math.floor((id - 1) / 10), label: `Item ${id}` });
+      }
+
+      treeStore.update(bigTree);
+      convertToAgGridFormat(sortTreeItemsDFS(bigTree, treeStore), treeStore);
+      events = [];
+
+      const getAllParentsSpy = vi.spyOn(treeStore, 'getAllParents');
+      const fullStart = performance.now();
+      convertToAgGridFormat(sortTreeItemsDFS(bigTree, treeStore), treeStore);
+      const fullDuration = performance.now() - fullStart;
+      const fullCalls = getAllParentsSpy.mock.calls.length;
+      getAllParentsSpy.mockClear();
+
+      const incrementalStart = performance.now();
+      treeStore.updateItem({ id: size - 1, parent: bigTree[size - 1]!.parent, label: 'Renamed' });
+      const transaction = buildRowTransaction(events[0]!, treeStore)!;
+      const incrementalDuration = performance.now() - incrementalStart;
+
+      expect(transaction.update).toHaveLength(1);
+      expect(getAllParentsSpy.mock.calls.length).toBeLessThan(10);
+      expect(fullCalls).toBeGreaterThanOrEqual(size);
+      expect(incrementalDuration).toBeLessThan(fullDuration);
+    });
+  });
+
+  describe('placeholders', () => {
+    let lazyStore: TreeStore;
+    let events: TreeStoreEvent[];
+
+    const ids = (rows: ITreeItem[]) => rows.map((row) => row.id);
+
+    beforeEach(async () => {
+      lazyStore = new TreeStore({ dataSource: new MemoryTreeDataSource(getMockItems()) });
+      await lazyStore.loadChildren(null);
+      events = [];
+      lazyStore.on('loaded', (payload) => events.push({ type: 'loaded', payload }));
+      lazyStore.on('loadStateChanged', (payload) => events.push({ type: 'loadStateChanged', payload }));
+    });
+
+    it('should create placeholder row under its branch', () => {
+      expect(createPlaceholderRow(1, 'error')).toEqual({
+        id: getPlaceholderId(1),
+        parent: 1,
+        label: 'Ошибка загрузки',
+        hasChildren: false,
+        placeholder: 'error',
+      });
+      expect(getPlaceholderId(null)).not.toBe(getPlaceholderId(1));
+    });
+
+    it('should treat unloaded branch as a group', () => {
+      expect(determineCategory(lazyStore.getItem(1)!, lazyStore)).toBe('Группа');
+      expect(enrichTreeItem(lazyStore.getItem(1)!, lazyStore).hasChildren).toBe(true);
+    });
+
+    it('should return placeholders only for branches not loaded', () => {
+      const rows = getPlaceholderRows([null, 1], lazyStore);
+
+      expect(ids(rows)).toEqual([getPlaceholderId(1)]);
+      expect(rows[0]!.placeholder).toBe('unloaded');
+    });
+
+    it('should update placeholder while loading and remove it when loaded', async () => {
+      await lazyStore.loadChildren(1);
+
+      const [loading, loaded, stateLoaded] = events.map((event) => buildRowTransaction(event, lazyStore)!);
+
+      expect(loading!.update.map((row) => row.placeholder)).toEqual(['loading']);
+      expect(ids(loaded!.add)).toEqual([2, 3, getPlaceholderId(2), getPlaceholderId(3)]);
+      expect(ids(loaded!.update)).toEqual([1]);
+      expect(ids(stateLoaded!.remove)).toEqual([getPlaceholderId(1)]);
+    });
+
+    it('should remove placeholders of removed branches', async () => {
+      await lazyStore.loadChildren(1);
+
+      // Состояние загрузки удаленных веток доступно только во время события
+      const transactions: ReturnType<typeof buildRowTransaction>[] = [];
+
+      lazyStore.on('removed', (payload) => {
+        transactions.push(buildRowTransaction({ type: 'removed', payload }, lazyStore));
+      });
+      lazyStore.removeItem(2);
+
+      expect(ids(transactions[0]!.remove)).toEqual([2, getPlaceholderId(2)]);
+    });
+  });
+
+  describe('getDropPosition', () => {
+    it.each`
+      offsetY | rowHeight | expected
+      ${0}    | ${40}     | ${'before'}
+      ${9}    | ${40}     | ${'before'}
+      ${20}   | ${40}     | ${'inside'}
+      ${31}   | ${40}     | ${'after'}
+      ${10}   | ${0}      | ${'inside'}
+    `('should return $expected for offset $offsetY of $rowHeight', ({ offsetY, rowHeight, expected }) => {
+      expect(getDropPosition(offsetY, rowHeight)).toBe(expected);
+    });
+  });
+
+  describe('resolveDropTarget', () => {
+    it.each`
+      draggedId | targetId | position    | expected                    | description
+      ${6}      | ${4}     | ${'inside'} | ${{ parent: 4, index: 0 }}  | ${'drops into leaf'}
+      ${6}      | ${2}     | ${'inside'} | ${{ parent: 2, index: 2 }}  | ${'drops as last child of group'}
+      ${6}      | ${4}     | ${'before'} | ${{ parent: 2, index: 0 }}  | ${'drops before sibling'}
+      ${6}      | ${4}     | ${'after'}  | ${{ parent: 2, index: 1 }}  | ${'drops after sibling'}
+      ${5}      | ${4}     | ${'before'} | ${{ parent: 2, index: 0 }}  | ${'reorders within same parent'}
+      ${4}      | ${5}     | ${'after'}  | ${{ parent: 2, index: 1 }}  | ${'ignores dragged item when counting index'}
+      ${3}      | ${1}     | ${'before'} | ${{ parent: null, index: 0 }} | ${'drops next to root'}
+    `('$description', ({ draggedId, targetId, position, expected }) => {
+      expect(resolveDropTarget(draggedId, targetId, position, treeStore)).toEqual(expected);
+    });
+
+    it.each`
+      draggedId | targetId | description
+      ${2}      | ${2}     | ${'refuses drop onto itself'}
+      ${2}      | ${4}     | ${'refuses drop into own subtree'}
+      ${1}      | ${6}     | ${'refuses drop of root into its descendant'}
+      ${999}    | ${1}     | ${'refuses unknown dragged item'}
+    `('$description', ({ draggedId, targetId }) => {
+      expect(resolveDropTarget(draggedId, targetId, 'inside', treeStore)).toBeNull();
+    });
+  });
+
+  describe('flattenTree', () => {
+    it('should flatten nested nodes in depth-first order', () => {
+      const nested = [
+        { id: 1, label: 'Root', children: [{ id: 2, label: 'Child', price: 5, children: [] }] },
+        { id: 'a', label: 'Other' },
+      ];
+
+      expect(flattenTree(nested)).toEqual([
+        { id: 1, parent: null, label: 'Root' },
+        { id: 2, parent: 1, label: 'Child', price: 5 },
+        { id: 'a', parent: null, label: 'Other' },
+      ]);
+    });
+
+    it('should read custom keys and ignore parent references of nodes', () => {
+      const nested = [{ key: 'r', parentId: 'stale', label: 'Root', items: [{ key: 'c', label: 'Child' }] }];
+
+      expect(flattenTree(nested, { id: 'key', parentId: 'parentId', children: 'items' })).toEqual([
+        { id: 'r', parent: null, label: 'Root' },
+        { id: 'c', parent: 'r', label: 'Child' },
+      ]);
+    });
+
+    it('should generate numeric ids after the maximum id', () => {
+      const nested = [{ label: 'Root', children: [{ id: 7, label: 'Child' }, { id: '', label: 'New' }] }];
+
+      expect(flattenTree(nested).map(({ id, parent }) => [id, parent])).toEqual([[8, null], [7, 8], [9, 8]]);
+    });
+
+    it('should use custom id generator', () => {
+      const generateId = vi.fn((node, parent) => `${parent ?? 'root'}/${node.label}`);
+
+      expect(flattenTree([{ label: 'A', children: [{ label: 'B' }] }], { generateId }).map((item) => item.id))
+        .toEqual(['root/A', 'root/A/B']);
+    });
+  });
+
+  describe('nestTree', () => {
+    it('should nest items keeping list order of siblings', () => {
+      const items = [
+        { id: 3, parent: 1, label: 'Second' },
+        { id: 1, parent: null, label: 'Root' },
+        { id: 2, parent: 1, label: 'First' },
+      ];
+
+      expect(nestTree(items)).toEqual([
+        {
+          id: 1,
+          parent: null,
+          label: 'Root',
+          children: [
+            { id: 3, parent: 1, label: 'Second', children: [] },
+            { id: 2, parent: 1, label: 'First', children: [] },
+          ],
+        },
+      ]);
+    });
+
+    it('should write custom keys', () => {
+      expect(nestTree([{ id: 1, parent: null, label: 'Root' }], { id: 'key', parentId: 'parentId', children: 'items' }))
+        .toEqual([{ key: 1, parentId: null, label: 'Root', items: [] }]);
+    });
+
+    it('should keep items with missing parent as roots', () => {
+      expect(nestTree([{ id: 2, parent: 1, label: 'Orphan' }])).toEqual([
+        { id: 2, parent: 1, label: 'Orphan', children: [] },
+      ]);
+    });
+
+    it('should reject duplicates and cycles', () => {
+      expect(() => nestTree([{ id: 1, parent: null, label: 'A' }, { id: 1, parent: null, label: 'B' }]))
+        .toThrow(TreeValidationError);
+      expect(() => nestTree([{ id: 1, parent: 2, label: 'A' }, { id: 2, parent: 1, label: 'B' }]))
+        .toThrow(TreeValidationError);
+    });
+  });
+
+  describe('nested/flat round trip', () => {
+    // Лес задается родителем каждого элемента среди предыдущих: null или индекс
+    const forestArbitrary = fc.array(
+      fc.record({
+        parent: fc.nat(),
+        numericId: fc.boolean(),
+        price: fc.option(fc.integer(), { nil: undefined }),
+      }),
+      { maxLength: 40 }
+    ).map((entries) => entries.map(({ parent, numericId, price }, index) => {
+      const parentIndex = parent % (index + 1);
+      const getId = (value: number) => numericId ? value : `n${value}`;
+      const item: ITreeItem & { price?: number } = {
+        id: getId(index),
+        parent: parentIndex === index ? null : entries[parentIndex]!.numericId ? parentIndex : `n${parentIndex}`,
+        label: `Item ${index}`,
+      };
+
+      if (price !== undefined) {
+        item.price = price;
+      }
+
+      return item;
+    }));
+
+    const keysArbitrary = fc.constantFrom<ITreeNestedKeys>(
+      {},
+      { id: 'key', parentId: 'parentId', children: 'items' },
+      { children: 'nodes' }
+    );
+
+    const byId = (a: ITreeItem, b: ITreeItem) => String(a.id).localeCompare(String(b.id));
+
+    it('should restore the same items after nest and flatten', () => {
+      fc.assert(fc.property(forestArbitrary, keysArbitrary, (items, keys) => {
+        const restored = flattenTree(nestTree(items, keys), keys);
+
+        expect([...restored].sort(byId)).toEqual([...items].sort(byId));
+      }));
+    });
+
+    it('should order flattened items parents first and keep nesting stable', () => {
+      fc.assert(fc.property(forestArbitrary, keysArbitrary, (items, keys) => {
+        const nested = nestTree<ITreeItem, TreeNestedNode>(items, keys);
+        const flat = flattenTree(nested, keys);
+        const seen = new Set<TreeItemId>();
+
+        for (const item of flat) {
+          expect(item.parent === null || seen.has(item.parent)).toBe(true);
+          seen.add(item.id);
+        }
+
+        expect(nestTree(flat, keys)).toEqual(nested);
+      }));
+    });
+
+    it('should produce a valid tree for nested nodes with missing ids', () => {
+      const getNodeArbitrary = (depth: number): fc.Arbitrary<TreeNestedNode> => fc.record({
+        id: fc.option(fc.integer({ min: 1, max: 1000 }), { nil: undefined }),
+        children: depth > 0 ? fc.array(getNodeArbitrary(depth - 1), { maxLength: 3 }) : fc.constant([]),
+      });
+
+      // Заданные id уникальны, поэтому повторяющиеся убираются
+      const uniqueIds = (nodes: TreeNestedNode[], seen = new Set<unknown>()): TreeNestedNode[] => nodes.map((node) => {
+        const id = node.id !== undefined && !seen.has(node.id) ? node.id : undefined;
+
+        seen.add(id);
+
+        return { ...node, id, children: uniqueIds(node.children as TreeNestedNode[], seen) };
+      });
+
+      const countNodes = (nodes: TreeNestedNode[]): number => nodes.reduce(
+        (count, node) => count + 1 + countNodes(node.children as TreeNestedNode[]),
+        0
+      );
+
+      fc.assert(fc.property(fc.array(getNodeArbitrary(3), { maxLength: 4 }), (generated) => {
+        const nodes = uniqueIds(generated);
+        const flat = flattenTree(nodes);
+
+        expect(flat).toHaveLength(countNodes(nodes));
+        expect(validateTreeItems(flat).valid).toBe(true);
+        expect(flattenTree(nestTree(flat))).toEqual(flat);
+      }), { numRuns: 50 });
+    });
+  });
 });
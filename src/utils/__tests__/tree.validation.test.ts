@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createValidationIssue,
+  partitionTreeItems,
+  validateItemUpdate,
+  validateNewItem,
+  validateTreeItems,
+} from '../tree.validation';
+import TreeStore from '@/core/TreeStore';
+import type { ITreeItem } from '@/types/tree.types';
+
+describe('tree.validation', () => {
+  let treeStore: TreeStore;
+
+  const getMockItems = (): ITreeItem[] => [
+    { id: 1, parent: null, label: 'Root' },
+    { id: 2, parent: 1, label: 'Child 1' },
+    { id: 3, parent: 1, label: 'Child 2' },
+    { id: 4, parent: 2, label: 'Grandchild 1' },
+  ];
+
+  beforeEach(() => {
+    treeStore = new TreeStore();
+    treeStore.update(getMockItems());
+  });
+
+  describe('createValidationIssue', () => {
+    it('should describe issue with item id and parent', () => {
+      const issue = createValidationIssue('danglingParent', { id: 5, parent: 42, label: 'X' });
+
+      expect(issue.type).toBe('danglingParent');
+      expect(issue.id).toBe(5);
+      expect(issue.parent).toBe(42);
+      expect(issue.message).toContain('42');
+      expect(issue.cycle).toBeUndefined();
+    });
+  });
+
+  describe('validateTreeItems', () => {
+    it('should return valid report for correct tree', () => {
+      const report = validateTreeItems(getMockItems());
+
+      expect(report.valid).toBe(true);
+      expect(report.issues).toEqual([]);
+    });
+
+    it.each`
+      items                                                                              | expectedType        | expectedIds | description
+      ${[{ id: 1, parent: null, label: 'A' }, { id: 1, parent: null, label: 'B' }]}      | ${'duplicate'}      | ${[1]}      | ${'detects duplicate id'}
+      ${[{ id: 1, parent: 1, label: 'A' }]}                                              | ${'selfParent'}     | ${[1]}      | ${'detects self-parenting'}
+      ${[{ id: 1, parent: 99, label: 'A' }]}                                             | ${'danglingParent'} | ${[1]}      | ${'detects missing parent'}
+      ${[{ id: 1, parent: 2, label: 'A' }, { id: 2, parent: 1, label: 'B' }]}            | ${'cycle'}          | ${[1, 2]}   | ${'detects cycle of two items'}
+    `('$description', ({ items, expectedType, expectedIds }) => {
+      const report = validateTreeItems(items);
+
+      expect(report.valid).toBe(false);
+      expect(report.issues.every((issue) => issue.type === expectedType)).toBe(true);
+      expect(report.issues.map((issue) => issue.id)).toEqual(expectedIds);
+    });
+
+    it('should report cycle members only once with the full cycle path', () => {
+      const items: ITreeItem[] = [
+        { id: 1, parent: null, label: 'Root' },
+        { id: 2, parent: 4, label: 'A' },
+        { id: 3, parent: 2, label: 'B' },
+        { id: 4, parent: 3, label: 'C' },
+        { id: 5, parent: 4, label: 'Tail' },
+      ];
+
+      const report = validateTreeItems(items);
+
+      expect(report.issues.map((issue) => issue.id).sort()).toEqual([2, 3, 4]);
+      expect(report.issues[0]!.cycle).toHaveLength(3);
+    });
+  });
+
+  describe('partitionTreeItems', () => {
+    it('should keep the original array when tree is valid', () => {
+      const items = getMockItems();
+
+      const result = partitionTreeItems(items);
+
+      expect(result.accepted).toBe(items);
+      expect(result.rejected).toEqual([]);
+    });
+
+    it('should reject invalid items together with their descendants', () => {
+      const items: ITreeItem[] = [
+        { id: 1, parent: null, label: 'Root' },
+        { id: 2, parent: 99, label: 'Orphan' },
+        { id: 3, parent: 2, label: 'Orphan child' },
+        { id: 4, parent: 3, label: 'Orphan grandchild' },
+        { id: 1, parent: null, label: 'Duplicate' },
+      ];
+
+      const result = partitionTreeItems(items);
+
+      expect(result.accepted.map((item) => item.label)).toEqual(['Root']);
+      expect(result.rejected.map((entry) => entry.item.label)).toEqual([
+        'Duplicate',
+        'Orphan',
+        'Orphan child',
+        'Orphan grandchild',
+      ]);
+    });
+  });
+
+  describe('validateNewItem', () => {
+    it.each`
+      item                                          | expectedTypes         | description
+      ${{ id: 5, parent: 1, label: 'New' }}         | ${[]}                 | ${'accepts correct item'}
+      ${{ id: 5, parent: null, label: 'New' }}      | ${[]}                 | ${'accepts new root'}
+      ${{ id: 2, parent: 1, label: 'Dup' }}         | ${['duplicate']}      | ${'rejects existing id'}
+      ${{ id: 5, parent: 5, label: 'Self' }}        | ${['selfParent']}     | ${'rejects self-parenting'}
+      ${{ id: 5, parent: 99, label: 'Orphan' }}     | ${['danglingParent']} | ${'rejects missing parent'}
+    `('$description', ({ item, expectedTypes }) => {
+      const report = validateNewItem(item, treeStore);
+
+      expect(report.issues.map((issue) => issue.type)).toEqual(expectedTypes);
+      expect(report.valid).toBe(expectedTypes.length === 0);
+    });
+  });
+
+  describe('validateItemUpdate', () => {
+    it.each`
+      item                                          | expectedTypes         | description
+      ${{ id: 4, parent: 3, label: 'Moved' }}       | ${[]}                 | ${'accepts move to another branch'}
+      ${{ id: 2, parent: null, label: 'Root 2' }}   | ${[]}                 | ${'accepts move to root'}
+      ${{ id: 2, parent: 2, label: 'Self' }}        | ${['selfParent']}     | ${'rejects self-parenting'}
+      ${{ id: 2, parent: 99, label: 'Orphan' }}     | ${['danglingParent']} | ${'rejects missing parent'}
+      ${{ id: 1, parent: 4, label: 'Loop' }}        | ${['cycle']}          | ${'rejects move under own descendant'}
+    `('$description', ({ item, expectedTypes }) => {
+      const report = validateItemUpdate(item, treeStore);
+
+      expect(report.issues.map((issue) => issue.type)).toEqual(expectedTypes);
+    });
+
+    it('should describe the cycle that the move would create', () => {
+      const report = validateItemUpdate({ id: 1, parent: 4, label: 'Loop' }, treeStore);
+
+      expect(report.issues[0]!.cycle).toEqual([1, 2, 4]);
+    });
+  });
+});
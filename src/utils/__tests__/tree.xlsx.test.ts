@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import { readXlsx, writeXlsx } from '../tree.xlsx';
+
+/**
+ * Сжимает данные raw deflate
+ */
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  }).pipeThrough(new CompressionStream('deflate-raw') as unknown as TransformStream<Uint8Array, Uint8Array>);
+
+  const chunks: number[] = [];
+  const reader = stream.getReader();
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    chunks.push(...chunk.value);
+  }
+
+  return new Uint8Array(chunks);
+}
+
+/**
+ * Собирает минимальный ZIP-архив (контрольные суммы не заполняются - читатель их не проверяет)
+ */
+async function createZip(files: Record<string, string>, deflate: boolean): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const local: number[] = [];
+  const central: number[] = [];
+  let count = 0;
+
+  const push = (target: number[], size: 2 | 4, value: number) => {
+    for (let index = 0; index < size; index++) {
+      target.push((value >>> (index * 8)) & 0xff);
+    }
+  };
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const data = deflate ? await deflateRaw(raw) : raw;
+    const offset = local.length;
+    const method = deflate ? 8 : 0;
+
+    push(local, 4, 0x04034b50);
+    push(local, 2, 20);
+    push(local, 2, 0);
+    push(local, 2, method);
+    push(local, 4, 0);
+    push(local, 4, 0);
+    push(local, 4, data.length);
+    push(local, 4, raw.length);
+    push(local, 2, nameBytes.length);
+    push(local, 2, 0);
+    local.push(...nameBytes, ...data);
+
+    push(central, 4, 0x02014b50);
+    push(central, 2, 20);
+    push(central, 2, 20);
+    push(central, 2, 0);
+    push(central, 2, method);
+    push(central, 4, 0);
+    push(central, 4, 0);
+    push(central, 4, data.length);
+    push(central, 4, raw.length);
+    push(central, 2, nameBytes.length);
+    push(central, 2, 0);
+    push(central, 2, 0);
+    push(central, 2, 0);
+    push(central, 2, 0);
+    push(central, 4, 0);
+    push(central, 4, offset);
+    central.push(...nameBytes);
+    count++;
+  }
+
+  const end: number[] = [];
+
+  push(end, 4, 0x06054b50);
+  push(end, 2, 0);
+  push(end, 2, 0);
+  push(end, 2, count);
+  push(end, 2, count);
+  push(end, 4, central.length);
+  push(end, 4, local.length);
+  push(end, 2, 0);
+
+  return new Uint8Array([...local, ...central, ...end]).buffer;
+}
+
+const getWorkbookFiles = (): Record<string, string> => ({
+  'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8"?>
+    <workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"
+      xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+      <sheets>
+        <sheet name="Смета" sheetId="1" r:id="rId1"/>
+        <sheet name="Справка" sheetId="2" r:id="rId2"/>
+      </sheets>
+    </workbook>`,
+  'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+    <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+      <Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>
+      <Relationship Id="rId2" Type="worksheet" Target="/xl/worksheets/sheet2.xml"/>
+    </Relationships>`,
+  'xl/sharedStrings.xml': `<?xml version="1.0" encoding="UTF-8"?>
+    <sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+      <si><t>id</t></si>
+      <si><t>label</t></si>
+      <si><r><t>Кор</t></r><r><t>ень</t></r></si>
+    </sst>`,
+  'xl/worksheets/sheet1.xml': `<?xml version="1.0" encoding="UTF-8"?>
+    <worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+      <sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+        <row r="2"><c r="A2"><v>1</v></c><c r="B2" t="s"><v>2</v></c></row>
+        <row r="4"><c r="B4" t="inlineStr"><is><t>Без id</t></is></c><c r="D4" t="b"><v>1</v></c></row>
+      </sheetData>
+    </worksheet>`,
+  'xl/worksheets/sheet2.xml': `<?xml version="1.0" encoding="UTF-8"?>
+    <worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+      <sheetData><row r="1"><c r="A1" t="str"><v>Справка</v></c></row></sheetData>
+    </worksheet>`,
+});
+
+describe('tree.xlsx', () => {
+  it('should read first sheet with shared, inline and boolean cells', async () => {
+    const data = await createZip(getWorkbookFiles(), false);
+
+    expect(await readXlsx(data)).toEqual([
+      ['id', 'label'],
+      ['1', 'Корень'],
+      [],
+      ['', 'Без id', '', 'TRUE'],
+    ]);
+  });
+
+  it('should read deflate-compressed workbook', async () => {
+    const data = await createZip(getWorkbookFiles(), true);
+
+    expect((await readXlsx(data))[1]).toEqual(['1', 'Корень']);
+  });
+
+  it('should select sheet by name or index', async () => {
+    const data = await createZip(getWorkbookFiles(), false);
+
+    expect(await readXlsx(data, 'Справка')).toEqual([['Справка']]);
+    expect(await readXlsx(data, 1)).toEqual([['Справка']]);
+  });
+
+  it('should resolve sheet relation by namespace and skip phonetic runs', async () => {
+    const files = getWorkbookFiles();
+    files['xl/workbook.xml'] = files['xl/workbook.xml']!
+      .replace('xmlns:r=', 'xmlns:rel=')
+      .replace(/r:id=/g, 'rel:id=');
+    files['xl/sharedStrings.xml'] = files['xl/sharedStrings.xml']!
+      .replace('<si><t>label</t></si>', '<si><t>label</t><rPh sb="0" eb="1"><t>ラベル</t></rPh><phoneticPr fontId="1"/></si>');
+    const data = await createZip(files, false);
+
+    expect(await readXlsx(data, 'Справка')).toEqual([['Справка']]);
+    expect((await readXlsx(data))[0]).toEqual(['id', 'label']);
+  });
+
+  it('should reject unknown sheet and non-zip data', async () => {
+    const data = await createZip(getWorkbookFiles(), false);
+
+    await expect(readXlsx(data, 'Нет такого')).rejects.toThrow('Лист Нет такого не найден');
+    await expect(readXlsx(new TextEncoder().encode('id,label').buffer as ArrayBuffer)).rejects.toThrow('XLSX');
+  });
+
+  describe('writeXlsx', () => {
+    it('should write workbook readable back with values', async () => {
+      const data = writeXlsx([['label', 'qty', 'ok'], ['<a & "b">', 2.5, true], [null, '', 'x']], {
+        sheetName: 'Смета: итог',
+      });
+
+      expect(await readXlsx(data.slice().buffer, 'Смета  итог')).toEqual([
+        ['label', 'qty', 'ok'],
+        ['<a & "b">', '2.5', 'TRUE'],
+        ['', '', 'x'],
+      ]);
+    });
+
+    it('should limit outline levels to Excel maximum', () => {
+      const xml = new TextDecoder().decode(writeXlsx([['a'], ['b']], { outlineLevels: [0, 10] }));
+
+      expect(xml).toContain('<row r="2" outlineLevel="7">');
+      expect(xml).toContain('outlineLevelRow="7"');
+    });
+
+    it('should write outline levels of a large table', () => {
+      const rows = Array.from({ length: 200000 }, (): unknown[] => []);
+      const outlineLevels = rows.map((_, index) => index % 4);
+      const xml = new TextDecoder().decode(writeXlsx(rows, { outlineLevels }));
+
+      expect(xml).toContain('outlineLevelRow="3"');
+      expect(xml).toContain('<row r="200000" outlineLevel="3">');
+    });
+
+    it('should write valid CRC-32 checksums', () => {
+      const data = writeXlsx([['a']]);
+      const view = new DataView(data.buffer);
+      const nameLength = view.getUint16(26, true);
+      const size = view.getUint32(18, true);
+      const content = data.subarray(30 + nameLength, 30 + nameLength + size);
+      let crc = 0xffffffff;
+
+      for (const byte of content) {
+        crc ^= byte;
+
+        for (let bit = 0; bit < 8; bit++) {
+          crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+        }
+      }
+
+      expect(view.getUint32(14, true)).toBe((crc ^ 0xffffffff) >>> 0);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import type {
+  ITreeAggregateState,
+  ITreeItem,
+  TreeAggregateFunction,
+  TreeItemId,
+} from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+
+/**
+ * Создает пустое состояние агрегации
+ *
+ * @returns {ITreeAggregateState} Состояние без листьев
+ */
+export function createAggregateState(): ITreeAggregateState {
+  return {
+    leaves: 0,
+    count: 0,
+    sum: 0,
+    min: Infinity,
+    max: -Infinity,
+  };
+}
+
+/**
+ * Учитывает значение листового элемента. Нечисловые значения учитываются только в count
+ *
+ * @param {ITreeAggregateState} state - Изменяемое состояние
+ * @param {unknown} value - Значение поля листа
+ */
+export function addLeafValue(state: ITreeAggregateState, value: unknown): void {
+  state.leaves++;
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return;
+  }
+
+  state.count++;
+  state.sum += value;
+  state.min = Math.min(state.min, value);
+  state.max = Math.max(state.max, value);
+}
+
+/**
+ * Добавляет к состоянию состояние поддерева
+ *
+ * @param {ITreeAggregateState} target - Изменяемое состояние
+ * @param {ITreeAggregateState} source - Состояние поддерева
+ */
+export function mergeAggregateState(target: ITreeAggregateState, source: ITreeAggregateState): void {
+  target.leaves += source.leaves;
+  target.count += source.count;
+  target.sum += source.sum;
+  target.min = Math.min(target.min, source.min);
+  target.max = Math.max(target.max, source.max);
+}
+
+/**
+ * Вычисляет значение функции агрегации из состояния
+ *
+ * @param {ITreeAggregateState} state - Состояние агрегации
+ * @param {TreeAggregateFunction} fn - Функция агрегации
+ * @returns {number | null} Итог или null, если числовых значений нет
+ */
+export function finalizeAggregate(
+  state: ITreeAggregateState,
+  fn: TreeAggregateFunction
+): number | null {
+  if (fn === 'count') {
+    return state.leaves;
+  }
+
+  if (state.count === 0) {
+    return null;
+  }
+
+  switch (fn) {
+    case 'sum':
+      return state.sum;
+    case 'min':
+      return state.min;
+    case 'max':
+      return state.max;
+    case 'avg':
+      return state.sum / state.count;
+  }
+}
+
+/**
+ * Вычисляет агрегат поля по листовым потомкам элемента полным обходом поддерева.
+ * Для отображения используется TreeAggregator, который пересчитывает агрегаты инкрементально
+ *
+ * @param {TreeItemId} id - Идентификатор группы
+ * @param {keyof T} field - Агрегируемое поле
+ * @param {TreeAggregateFunction} fn - Функция агрегации
+ * @param {TreeStore<T>} treeStore - Экземпляр хранилища
+ * @returns {number | null} Итог или null, если числовых значений нет
+ */
+export function computeAggregate<T extends ITreeItem>(
+  id: TreeItemId,
+  field: keyof T & string,
+  fn: TreeAggregateFunction,
+  treeStore: TreeStore<T>
+): number | null {
+  const state = createAggregateState();
+
+  for (const item of treeStore.getAllChildren(id)) {
+    if (!treeStore.hasChildren(item.id)) {
+      addLeafValue(state, item[field]);
+    }
+  }
+
+  return finalizeAggregate(state, fn);
+}
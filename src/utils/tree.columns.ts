@@ -0,0 +1,218 @@
+import type { ColDef, ColumnState } from 'ag-grid-community';
+import type {
+  ITreeColumnLayoutEntry,
+  ITreeGridColumn,
+  ITreeItem,
+  ITreeItemWithCategory,
+  TreeAggregateFunction,
+  TreeGridColumnEditor,
+} from '@/types/tree.types.ts';
+import { getStorageKey, readStorage, writeStorage } from '@/utils/tree.storage.ts';
+
+/**
+ * Редакторы AgGrid для редакторов схемы колонок
+ */
+const CELL_EDITORS: Record<TreeGridColumnEditor, string> = {
+  text: 'agTextCellEditor',
+  number: 'agNumberCellEditor',
+  select: 'agSelectCellEditor',
+};
+
+/**
+ * Обработчик изменения значения ячейки. Значение применяется через хранилище,
+ * поэтому valueSetter колонки всегда возвращает false
+ */
+export type TreeColumnEditHandler<T extends ITreeItem> = (
+  item: T,
+  field: keyof T & string,
+  value: unknown
+) => void;
+
+/**
+ * Источник агрегатов для строк групп
+ */
+export type TreeColumnAggregateGetter<T extends ITreeItem> = (
+  item: T,
+  field: keyof T & string,
+  fn: TreeAggregateFunction
+) => number | null;
+
+/**
+ * Преобразует описание колонки из схемы в колонку AgGrid.
+ * Для колонки с aggregate строки групп показывают агрегат и не редактируются
+ *
+ * @param {ITreeGridColumn<T>} column - Описание колонки
+ * @param {TreeColumnEditHandler<T>} onEdit - Обработчик изменения значения
+ * @param {TreeColumnAggregateGetter<T>} [getAggregate] - Источник агрегатов групп
+ * @returns {ColDef<ITreeItemWithCategory<T>>} Колонка AgGrid
+ */
+export function createColumnDef<T extends ITreeItem>(
+  column: ITreeGridColumn<T>,
+  onEdit: TreeColumnEditHandler<T>,
+  getAggregate?: TreeColumnAggregateGetter<T>
+): ColDef<ITreeItemWithCategory<T>> {
+  const { aggregate } = column;
+  const isAggregatedRow = (data?: ITreeItemWithCategory<T>) => Boolean(
+    aggregate && getAggregate && data?.hasChildren
+  );
+
+  const colDef: ColDef<ITreeItemWithCategory<T>> = {
+    colId: column.field,
+    headerName: column.header,
+    valueGetter: (params) => {
+      if (isAggregatedRow(params.data)) {
+        return getAggregate!(params.data!, column.field, aggregate!);
+      }
+
+      return params.data?.[column.field];
+    },
+    hide: column.hidden ?? false,
+    sortable: true,
+    filter: true,
+  };
+
+  if (column.width !== undefined) {
+    colDef.width = column.width;
+  }
+
+  if (column.pinned !== undefined) {
+    colDef.pinned = column.pinned;
+  }
+
+  const { formatter } = column;
+
+  if (formatter) {
+    colDef.valueFormatter = (params) => {
+      // У группы без числовых значений агрегата нет
+      if (!params.data || (isAggregatedRow(params.data) && params.value === null)) {
+        return '';
+      }
+
+      return formatter(params.value, params.data);
+    };
+  }
+
+  if (column.editor) {
+    colDef.editable = aggregate ? (params) => !isAggregatedRow(params.data) : true;
+    colDef.cellEditor = CELL_EDITORS[column.editor];
+
+    if (column.editor === 'select') {
+      colDef.cellEditorParams = { values: column.options ?? [] };
+    }
+
+    colDef.valueSetter = (params) => {
+      onEdit(params.data, column.field, params.newValue);
+
+      // Строку обновит транзакция из события хранилища
+      return false;
+    };
+  }
+
+  return colDef;
+}
+
+/**
+ * Объединяет встроенные колонки дерева с колонками из схемы.
+ * Колонка схемы с идентификатором встроенной колонки (например, field: 'label')
+ * меняет только ее отображение: заголовок, ширину, закрепление, видимость и формат.
+ * Остальные колонки схемы добавляются после встроенных в порядке схемы
+ *
+ * @param {ColDef[]} builtInColumns - Встроенные колонки с заданным colId (используют только поля ITreeItem)
+ * @param {ITreeGridColumn<T>[]} columns - Схема колонок
+ * @param {TreeColumnEditHandler<T>} onEdit - Обработчик изменения значения
+ * @param {TreeColumnAggregateGetter<T>} [getAggregate] - Источник агрегатов групп
+ * @returns {ColDef[]} Итоговые колонки
+ */
+export function mergeColumnDefs<T extends ITreeItem>(
+  builtInColumns: ColDef<ITreeItemWithCategory>[],
+  columns: ITreeGridColumn<T>[],
+  onEdit: TreeColumnEditHandler<T>,
+  getAggregate?: TreeColumnAggregateGetter<T>
+): ColDef[] {
+  const overrides = new Map(columns.map((column) => [column.field as string, column]));
+  const builtInIds = new Set(builtInColumns.map((colDef) => colDef.colId));
+
+  const merged = builtInColumns.map((colDef) => {
+    const column = colDef.colId === undefined ? undefined : overrides.get(colDef.colId);
+
+    if (!column) {
+      return colDef;
+    }
+
+    const { headerName, width, pinned, hide, valueFormatter } = createColumnDef(column, onEdit);
+
+    return {
+      ...colDef,
+      headerName,
+      hide,
+      ...(width === undefined ? {} : { width }),
+      ...(pinned === undefined ? {} : { pinned }),
+      ...(valueFormatter ? { valueFormatter } : {}),
+    };
+  });
+
+  const extra = columns
+    .filter((column) => !builtInIds.has(column.field))
+    .map((column) => createColumnDef(column, onEdit, getAggregate));
+
+  return [...merged, ...extra];
+}
+
+/**
+ * Возвращает поля колонок схемы, для которых задана агрегация
+ *
+ * @param {ITreeGridColumn<T>[]} columns - Схема колонок
+ * @returns {Array<keyof T>} Агрегируемые поля без повторов
+ */
+export function getAggregatedFields<T extends ITreeItem>(
+  columns: ITreeGridColumn<T>[]
+): Array<keyof T & string> {
+  const fields = columns.filter((column) => column.aggregate).map((column) => column.field);
+
+  return [...new Set(fields)];
+}
+
+/**
+ * Оставляет в состоянии колонок только раскладку: порядок, видимость, ширину и закрепление.
+ * Сортировка и фильтры в раскладку не входят
+ *
+ * @param {ColumnState[]} state - Состояние колонок AgGrid
+ * @returns {ITreeColumnLayoutEntry[]} Раскладка колонок
+ */
+export function toColumnLayout(state: ColumnState[]): ITreeColumnLayoutEntry[] {
+  return state.map((column) => {
+    const entry: ITreeColumnLayoutEntry = {
+      colId: column.colId,
+      hide: column.hide ?? false,
+      pinned: column.pinned === 'left' || column.pinned === 'right' ? column.pinned : null,
+    };
+
+    if (typeof column.width === 'number') {
+      entry.width = column.width;
+    }
+
+    return entry;
+  });
+}
+
+/**
+ * Загружает сохраненную раскладку колонок
+ *
+ * @param {string} layoutKey - Идентификатор раскладки
+ * @returns {ITreeColumnLayoutEntry[] | null} Раскладка или null, если она не сохранялась
+ */
+export function loadColumnLayout(layoutKey: string): ITreeColumnLayoutEntry[] | null {
+  const layout = readStorage<ITreeColumnLayoutEntry[]>(getStorageKey('columns', layoutKey));
+
+  return Array.isArray(layout) ? layout : null;
+}
+
+/**
+ * Сохраняет раскладку колонок
+ *
+ * @param {string} layoutKey - Идентификатор раскладки
+ * @param {ColumnState[]} state - Состояние колонок AgGrid
+ */
+export function saveColumnLayout(layoutKey: string, state: ColumnState[]): void {
+  writeStorage(getStorageKey('columns', layoutKey), toColumnLayout(state));
+}
@@ -0,0 +1,129 @@
+/**
+ * Разделители, среди которых выбирается разделитель CSV
+ */
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Определяет разделитель CSV по первой строке: выбирается самый частый символ вне кавычек.
+ * Excel в русской локали сохраняет CSV через ';', поэтому запятая не предполагается заранее
+ *
+ * @param {string} text - Содержимое CSV
+ * @returns {string} Разделитель (по умолчанию ',')
+ */
+export function detectCsvDelimiter(text: string): string {
+  const counts = new Map<string, number>();
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!quoted && CSV_DELIMITERS.includes(char)) {
+      counts.set(char, (counts.get(char) || 0) + 1);
+    }
+  }
+
+  let delimiter = ',';
+  let max = 0;
+
+  for (const [char, count] of counts) {
+    if (count > max) {
+      delimiter = char;
+      max = count;
+    }
+  }
+
+  return delimiter;
+}
+
+/**
+ * Разбирает CSV по RFC 4180: значения в кавычках могут содержать разделитель,
+ * переводы строк и удвоенные кавычки. BOM в начале файла отбрасывается
+ *
+ * @param {string} text - Содержимое CSV
+ * @param {string} [delimiter] - Разделитель (по умолчанию определяется по первой строке)
+ * @returns {string[][]} Строки таблицы
+ */
+export function parseCsv(text: string, delimiter: string = detectCsvDelimiter(text)): string[][] {
+  const source = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index]!;
+
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        value += '"';
+        index += 2;
+
+        continue;
+      }
+
+      if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+
+      if (char === '\r' && source[index + 1] === '\n') {
+        index++;
+      }
+    } else {
+      value += char;
+    }
+
+    index++;
+  }
+
+  // Последняя строка без завершающего перевода строки
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Преобразует значение в текст ячейки CSV. Значения с разделителем, кавычками
+ * или переводом строки заключаются в кавычки
+ *
+ * @param {unknown} value - Значение ячейки
+ * @param {string} delimiter - Разделитель
+ * @returns {string} Текст ячейки
+ */
+function formatCsvCell(value: unknown, delimiter: string): string {
+  const text = value === null || value === undefined ? '' : String(value);
+
+  if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+/**
+ * Формирует CSV по RFC 4180. Строки разделяются CRLF
+ *
+ * @param {unknown[][]} rows - Строки таблицы
+ * @param {string} [delimiter] - Разделитель (по умолчанию ',')
+ * @returns {string} Содержимое CSV
+ */
+export function formatCsv(rows: unknown[][], delimiter: string = ','): string {
+  return rows.map((row) => row.map((value) => formatCsvCell(value, delimiter)).join(delimiter)).join('\r\n');
+}
@@ -0,0 +1,148 @@
+import type {
+  ITreeDiffEntry,
+  ITreeItem,
+  ITreeSnapshot,
+  TreeDiffStatus,
+  TreeItemId,
+} from '@/types/tree.types.ts';
+
+/**
+ * Поля структуры: сравниваются отдельно от прикладных полей
+ */
+const STRUCTURAL_FIELDS = new Set(['id', 'parent', 'label']);
+
+/**
+ * Создает неизменяемую версию дерева из списка элементов.
+ * Копируется только массив: объекты элементов разделяются с источником
+ *
+ * @param {readonly T[]} items - Элементы дерева
+ * @param {number} [version] - Номер версии
+ * @returns {ITreeSnapshot<T>} Снимок дерева
+ */
+export function createTreeSnapshot<T extends ITreeItem>(items: readonly T[], version: number = 0): ITreeSnapshot<T> {
+  return Object.freeze({
+    version,
+    items: Object.freeze([...items]),
+  });
+}
+
+/**
+ * Возвращает прикладные поля, значения которых различаются (сравнение Object.is)
+ *
+ * @param {T} oldItem - Элемент в старой версии
+ * @param {T} newItem - Элемент в новой версии
+ * @returns {string[]} Имена измененных полей
+ */
+function getChangedFields<T extends ITreeItem>(oldItem: Readonly<T>, newItem: Readonly<T>): string[] {
+  const oldRecord = oldItem as Record<string, unknown>;
+  const newRecord = newItem as Record<string, unknown>;
+  const fields = new Set([...Object.keys(oldRecord), ...Object.keys(newRecord)]);
+
+  return [...fields].filter((field) => {
+    return !STRUCTURAL_FIELDS.has(field) && !Object.is(oldRecord[field], newRecord[field]);
+  });
+}
+
+/**
+ * Сравнивает элемент в двух версиях
+ *
+ * @param {T} oldItem - Элемент в старой версии
+ * @param {T} newItem - Элемент в новой версии
+ * @returns {ITreeDiffEntry<T>} Результат сравнения
+ */
+function compareItems<T extends ITreeItem>(oldItem: Readonly<T>, newItem: Readonly<T>): ITreeDiffEntry<T> {
+  // Элемент, не менявшийся между версиями, разделяется снимками и совпадает по ссылке
+  const unchanged = oldItem === newItem;
+  const moved = !unchanged && oldItem.parent !== newItem.parent;
+  const renamed = !unchanged && oldItem.label !== newItem.label;
+  const changedFields = unchanged ? [] : getChangedFields(oldItem, newItem);
+
+  let status: TreeDiffStatus = 'unchanged';
+
+  if (moved) {
+    status = 'moved';
+  } else if (renamed) {
+    status = 'renamed';
+  } else if (changedFields.length > 0) {
+    status = 'changed';
+  }
+
+  return { id: newItem.id, status, moved, renamed, changedFields, oldItem, newItem };
+}
+
+/**
+ * Сравнивает две версии одного элемента
+ *
+ * @param {T | undefined} oldItem - Элемент в старой версии (нет - элемент добавлен)
+ * @param {T | undefined} newItem - Элемент в новой версии (нет - элемент удален)
+ * @returns {ITreeDiffEntry<T> | undefined} Результат сравнения; undefined, если элемента нет в обеих версиях
+ */
+export function diffTreeItem<T extends ITreeItem>(
+  oldItem: T | undefined,
+  newItem: T | undefined
+): ITreeDiffEntry<T> | undefined {
+  if (oldItem && newItem) {
+    return compareItems<T>(oldItem, newItem);
+  }
+
+  if (newItem) {
+    return { id: newItem.id, status: 'added', moved: false, renamed: false, changedFields: [], newItem };
+  }
+
+  if (oldItem) {
+    return { id: oldItem.id, status: 'removed', moved: false, renamed: false, changedFields: [], oldItem };
+  }
+
+  return undefined;
+}
+
+/**
+ * Сравнивает две версии дерева и классифицирует каждый id обеих версий.
+ * Результат содержит элементы новой версии в ее порядке, а затем удаленные в порядке старой
+ *
+ * @param {ITreeSnapshot<T>} before - Старая версия
+ * @param {ITreeSnapshot<T>} after - Новая версия
+ * @returns {Map<TreeItemId, ITreeDiffEntry<T>>} Результаты сравнения по id
+ */
+export function diffTrees<T extends ITreeItem>(
+  before: ITreeSnapshot<T>,
+  after: ITreeSnapshot<T>
+): Map<TreeItemId, ITreeDiffEntry<T>> {
+  const oldItems = new Map(before.items.map((item) => [item.id, item]));
+  const diff = new Map<TreeItemId, ITreeDiffEntry<T>>();
+
+  for (const newItem of after.items) {
+    diff.set(newItem.id, diffTreeItem(oldItems.get(newItem.id), newItem)!);
+  }
+
+  for (const oldItem of before.items) {
+    if (!diff.has(oldItem.id)) {
+      diff.set(oldItem.id, diffTreeItem(oldItem, undefined)!);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Считает элементы по главному статусу сравнения
+ *
+ * @param {Map<TreeItemId, ITreeDiffEntry<T>>} diff - Результат diffTrees
+ * @returns {Record<TreeDiffStatus, number>} Количество элементов каждого статуса
+ */
+export function countTreeDiff<T extends ITreeItem>(
+  diff: Map<TreeItemId, ITreeDiffEntry<T>>
+): Record<TreeDiffStatus, number> {
+  const counts: Record<TreeDiffStatus, number> = {
+    added: 0,
+    removed: 0,
+    moved: 0,
+    renamed: 0,
+    changed: 0,
+    unchanged: 0,
+  };
+
+  diff.forEach((entry) => counts[entry.status]++);
+
+  return counts;
+}
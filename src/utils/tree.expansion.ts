@@ -0,0 +1,88 @@
+import type { ITreeItem, TreeItemId } from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+import { getStorageKey, readStorage, writeStorage } from '@/utils/tree.storage.ts';
+import type { Reactive } from 'vue';
+
+/**
+ * Возвращает идентификаторы групп, которые нужно раскрыть, чтобы показать элементы до уровня level.
+ * Корневые элементы имеют уровень 0: level = 0 сворачивает все, level = 1 раскрывает корни
+ *
+ * @param {number} level - Наибольший показываемый уровень
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {TreeItemId[]} Идентификаторы групп от корня к листьям
+ */
+export function getExpandedIdsToLevel<T extends ITreeItem>(
+  level: number,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): TreeItemId[] {
+  const ids: TreeItemId[] = [];
+
+  const visit = (items: T[], depth: number) => {
+    if (depth >= level) {
+      return;
+    }
+
+    for (const item of items) {
+      if (treeStore.hasChildren(item.id)) {
+        ids.push(item.id);
+        visit(treeStore.getChildren(item.id), depth + 1);
+      }
+    }
+  };
+
+  visit(treeStore.getRoots(), 0);
+
+  return ids;
+}
+
+/**
+ * Возвращает идентификаторы всех групп дерева
+ *
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {TreeItemId[]} Идентификаторы групп от корня к листьям
+ */
+export function getAllGroupIds<T extends ITreeItem>(
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): TreeItemId[] {
+  return getExpandedIdsToLevel(Infinity, treeStore);
+}
+
+/**
+ * Возвращает предков элемента, которые нужно раскрыть, чтобы его показать
+ *
+ * @param {TreeItemId} id - Идентификатор элемента
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {TreeItemId[]} Идентификаторы предков от корня к родителю
+ */
+export function getRevealIds<T extends ITreeItem>(
+  id: TreeItemId,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): TreeItemId[] {
+  return treeStore
+    .getAllParents(id)
+    .slice(1)
+    .reverse()
+    .map((item) => item.id);
+}
+
+/**
+ * Загружает сохраненное состояние раскрытия
+ *
+ * @param {string} treeId - Идентификатор дерева
+ * @returns {TreeItemId[] | null} Раскрытые группы или null, если состояние не сохранялось
+ */
+export function loadExpansionState(treeId: string): TreeItemId[] | null {
+  const ids = readStorage<TreeItemId[]>(getStorageKey('expansion', treeId));
+
+  return Array.isArray(ids) ? ids : null;
+}
+
+/**
+ * Сохраняет состояние раскрытия
+ *
+ * @param {string} treeId - Идентификатор дерева
+ * @param {Iterable<TreeItemId>} ids - Раскрытые группы
+ */
+export function saveExpansionState(treeId: string, ids: Iterable<TreeItemId>): void {
+  writeStorage(getStorageKey('expansion', treeId), [...ids]);
+}
@@ -0,0 +1,226 @@
+import type {
+  ITreeExportColumn,
+  ITreeExportOptions,
+  ITreeItem,
+  ITreeNestedItem,
+  TreeExportFormat,
+  TreeItemId,
+} from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+import { formatCsv } from '@/utils/tree.csv.ts';
+import { getItemPath, sortTreeItemsDFS } from '@/utils/tree.utils.ts';
+import { writeXlsx } from '@/utils/tree.xlsx.ts';
+import type { Reactive } from 'vue';
+
+/**
+ * Колонки экспорта по умолчанию: достаточно для повторного импорта с иерархией 'parent'
+ */
+const DEFAULT_EXPORT_COLUMNS: ITreeExportColumn[] = [
+  { field: 'id', header: 'id' },
+  { field: 'parent', header: 'parent' },
+  { field: 'label', header: 'label' },
+];
+
+/**
+ * Разделитель частей пути в CSV
+ */
+const EXPORT_PATH_SEPARATOR = ' / ';
+
+/**
+ * MIME-типы файлов экспорта
+ */
+const EXPORT_MIME_TYPES: Record<TreeExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Элемент экспорта с уровнем вложенности среди отобранных элементов
+ */
+interface IExportRow<T extends ITreeItem> {
+  item: T;
+  level: number;
+}
+
+/**
+ * Отбирает элементы для экспорта в порядке обхода в глубину.
+ * Уровень считается по отобранным предкам: элемент без них получает уровень 0
+ *
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @param {ITreeExportOptions<T>} options - Параметры экспорта
+ * @returns {IExportRow<T>[]} Элементы с уровнями
+ */
+function collectExportRows<T extends ITreeItem>(
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>,
+  options: ITreeExportOptions<T>
+): IExportRow<T>[] {
+  const { include } = options;
+  // Уровень, который получат дети элемента
+  const childLevels = new Map<TreeItemId, number>();
+  const rows: IExportRow<T>[] = [];
+
+  for (const item of sortTreeItemsDFS(treeStore.getAll(), treeStore) as T[]) {
+    const level = item.parent === null ? 0 : childLevels.get(item.parent) ?? 0;
+
+    if (!include || include(item)) {
+      rows.push({ item, level });
+      childLevels.set(item.id, level + 1);
+    } else {
+      childLevels.set(item.id, level);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Возвращает значения колонок элемента
+ *
+ * @param {T} item - Элемент дерева
+ * @param {ITreeExportColumn<T>[]} columns - Колонки экспорта
+ * @returns {unknown[]} Значения ячеек
+ */
+function getColumnValues<T extends ITreeItem>(item: T, columns: ITreeExportColumn<T>[]): unknown[] {
+  return columns.map((column) => {
+    return column.getValue ? column.getValue(item) : (item as Record<string, unknown>)[column.field];
+  });
+}
+
+/**
+ * Экспортирует дерево в плоский CSV в порядке обхода в глубину.
+ * Перед колонками элемента идут level (уровень среди отобранных элементов)
+ * и path (наименования от корня до элемента через " / ")
+ *
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @param {ITreeExportOptions<T>} [options] - Параметры экспорта
+ * @returns {string} Содержимое CSV
+ */
+export function exportTreeToCsv<T extends ITreeItem>(
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>,
+  options: ITreeExportOptions<T> = {}
+): string {
+  const columns = options.columns ?? DEFAULT_EXPORT_COLUMNS as ITreeExportColumn<T>[];
+  const rows = collectExportRows(treeStore, options).map(({ item, level }) => [
+    level,
+    getItemPath(item, treeStore).join(EXPORT_PATH_SEPARATOR),
+    ...getColumnValues(item, columns),
+  ]);
+
+  return formatCsv([['level', 'path', ...columns.map((column) => column.header)], ...rows], options.delimiter);
+}
+
+/**
+ * Строит вложенное представление дерева: { ...item, children: [] }.
+ * Элемент, предки которого не отобраны, становится корнем
+ *
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @param {ITreeExportOptions<T>} [options] - Параметры экспорта (колонки не используются)
+ * @returns {ITreeNestedItem<T>[]} Корневые элементы с вложенными детьми
+ */
+export function exportTreeToNested<T extends ITreeItem>(
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>,
+  options: ITreeExportOptions<T> = {}
+): ITreeNestedItem<T>[] {
+  const roots: ITreeNestedItem<T>[] = [];
+  // Массив, в который попадут дети элемента
+  const containers = new Map<TreeItemId, ITreeNestedItem<T>[]>();
+  const { include } = options;
+
+  for (const item of sortTreeItemsDFS(treeStore.getAll(), treeStore) as T[]) {
+    const container = item.parent === null ? roots : containers.get(item.parent) ?? roots;
+
+    if (!include || include(item)) {
+      const node = { ...item, children: [] } as ITreeNestedItem<T>;
+
+      container.push(node);
+      containers.set(item.id, node.children);
+    } else {
+      containers.set(item.id, container);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Экспортирует дерево во вложенный JSON
+ *
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @param {ITreeExportOptions<T>} [options] - Параметры экспорта (колонки не используются)
+ * @returns {string} Содержимое JSON
+ */
+export function exportTreeToJson<T extends ITreeItem>(
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>,
+  options: ITreeExportOptions<T> = {}
+): string {
+  return JSON.stringify(exportTreeToNested(treeStore, options), null, 2);
+}
+
+/**
+ * Экспортирует дерево в книгу Excel. Строки сгруппированы по уровням вложенности,
+ * поэтому ветки сворачиваются кнопками структуры Excel (не глубже 7 уровней)
+ *
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @param {ITreeExportOptions<T>} [options] - Параметры экспорта
+ * @returns {Uint8Array} Содержимое файла XLSX
+ */
+export function exportTreeToXlsx<T extends ITreeItem>(
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>,
+  options: ITreeExportOptions<T> = {}
+): Uint8Array {
+  const columns = options.columns ?? DEFAULT_EXPORT_COLUMNS as ITreeExportColumn<T>[];
+  const rows = collectExportRows(treeStore, options);
+
+  return writeXlsx(
+    [columns.map((column) => column.header), ...rows.map(({ item }) => getColumnValues(item, columns))],
+    {
+      sheetName: options.sheetName ?? 'Дерево',
+      outlineLevels: [0, ...rows.map(({ level }) => level)],
+    }
+  );
+}
+
+/**
+ * Экспортирует дерево в указанном формате
+ *
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @param {TreeExportFormat} format - Формат экспорта
+ * @param {ITreeExportOptions<T>} [options] - Параметры экспорта
+ * @returns {string | Uint8Array} Текст CSV и JSON или содержимое файла XLSX
+ */
+export function exportTree<T extends ITreeItem>(
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>,
+  format: TreeExportFormat,
+  options: ITreeExportOptions<T> = {}
+): string | Uint8Array {
+  switch (format) {
+    case 'csv':
+      return exportTreeToCsv(treeStore, options);
+    case 'json':
+      return exportTreeToJson(treeStore, options);
+    case 'xlsx':
+      return exportTreeToXlsx(treeStore, options);
+  }
+}
+
+/**
+ * Сохраняет результат экспорта файлом через загрузку браузера
+ *
+ * @param {string | Uint8Array} content - Результат экспорта
+ * @param {TreeExportFormat} format - Формат экспорта
+ * @param {string} fileName - Имя файла без расширения
+ */
+export function downloadTreeExport(content: string | Uint8Array, format: TreeExportFormat, fileName: string): void {
+  // Без BOM Excel открывает CSV в системной кодировке, а не в UTF-8
+  const parts: BlobPart[] = format === 'csv' ? ['\uFEFF', content as string] : [content as BlobPart];
+  const url = URL.createObjectURL(new Blob(parts, { type: EXPORT_MIME_TYPES[format] }));
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = `${fileName}.${format}`;
+  link.click();
+
+  // Браузер начинает загрузку асинхронно, поэтому ссылка освобождается позже
+  setTimeout(() => URL.revokeObjectURL(url));
+}
@@ -0,0 +1,326 @@
+import type {
+  ITreeImportColumns,
+  ITreeImportError,
+  ITreeImportOptions,
+  ITreeImportResult,
+  ITreeItem,
+  TreeItemId,
+} from '@/types/tree.types.ts';
+import { parseCsv } from '@/utils/tree.csv.ts';
+import { partitionTreeItems } from '@/utils/tree.validation.ts';
+import { readXlsx } from '@/utils/tree.xlsx.ts';
+
+/**
+ * Названия колонок по умолчанию
+ */
+const DEFAULT_IMPORT_COLUMNS: Required<ITreeImportColumns> = {
+  id: 'id',
+  parent: 'parent',
+  label: 'label',
+  outline: 'outline',
+  level: 'level',
+};
+
+/**
+ * Элемент, собранный из строки таблицы, вместе с номером строки
+ */
+interface IImportDraft {
+  item: ITreeItem & Record<string, unknown>;
+  row: number;
+}
+
+/**
+ * Преобразует текст ячейки в идентификатор: целые числа становятся числами, остальное - строками
+ *
+ * @param {string} value - Текст ячейки
+ * @returns {TreeItemId} Идентификатор
+ */
+export function parseImportId(value: string): TreeItemId {
+  const text = value.trim();
+
+  return /^-?(0|[1-9]\d*)$/.test(text) ? Number(text) : text;
+}
+
+/**
+ * Преобразует текст ячейки дополнительной колонки в значение.
+ * Числа с точкой или запятой становятся числами, значения с ведущими нулями (артикулы) остаются строками
+ *
+ * @param {string} value - Текст ячейки
+ * @returns {string | number} Значение
+ */
+export function parseImportValue(value: string): string | number {
+  const text = value.trim();
+
+  return /^-?(0|[1-9]\d*)([.,]\d+)?$/.test(text) ? Number(text.replace(',', '.')) : text;
+}
+
+/**
+ * Вычисляет уровень вложенности по отступу наименования. Табуляция равна одному уровню
+ *
+ * @param {string} label - Наименование с отступом
+ * @param {number} indentSize - Число пробелов в одном уровне
+ * @returns {number} Уровень (с нуля)
+ */
+function getIndentLevel(label: string, indentSize: number): number {
+  const indent = /^[\t ]*/.exec(label)![0];
+  const spaces = indent.replace(/\t/g, ' '.repeat(indentSize)).length;
+
+  return Math.floor(spaces / indentSize);
+}
+
+/**
+ * Собирает элементы дерева из строк таблицы с заголовком в первой строке.
+ * Колонки, не задающие структуру, копируются в поля элемента под именами из заголовка.
+ * Пустые строки пропускаются. Строки с ошибками (пустой id, неизвестный родитель, дубликат,
+ * цикл) не попадают в результат вместе со своими потомками, а описываются в errors
+ *
+ * Режим 'indent' берет уровень из колонки level, а без нее - из отступа наименования.
+ * Уровень первой строки считается корневым
+ *
+ * @param {string[][]} rows - Строки таблицы
+ * @param {ITreeImportOptions} options - Параметры импорта
+ * @returns {ITreeImportResult<T>} Элементы для TreeStore.update и ошибки строк
+ */
+export function importTreeRows<T extends ITreeItem = ITreeItem>(
+  rows: string[][],
+  options: ITreeImportOptions
+): ITreeImportResult<T> {
+  const { hierarchy, indentSize = 2 } = options;
+  const columns = { ...DEFAULT_IMPORT_COLUMNS, ...options.columns };
+  const header = (rows[0] || []).map((name) => name.trim());
+  const indexOf = (name: string) => header.indexOf(name);
+
+  const required = [columns.label];
+
+  if (hierarchy === 'parent') {
+    required.push(columns.id, columns.parent);
+  } else if (hierarchy === 'outline') {
+    required.push(columns.outline);
+  }
+
+  const missing = required.filter((name) => indexOf(name) < 0);
+
+  if (missing.length > 0) {
+    return {
+      items: [],
+      errors: missing.map((name) => ({
+        row: 1,
+        type: 'missingColumn',
+        message: `В заголовке нет колонки "${name}"`,
+      })),
+    };
+  }
+
+  const idIndex = indexOf(columns.id);
+  const labelIndex = indexOf(columns.label);
+  const parentIndex = hierarchy === 'parent' ? indexOf(columns.parent) : -1;
+  const outlineIndex = hierarchy === 'outline' ? indexOf(columns.outline) : -1;
+  const levelIndex = hierarchy === 'indent' ? indexOf(columns.level) : -1;
+  const structural = new Set([idIndex, labelIndex, parentIndex, outlineIndex, levelIndex]);
+
+  const errors: ITreeImportError[] = [];
+  const drafts: IImportDraft[] = [];
+
+  const createItem = (cells: string[], id: TreeItemId, parent: TreeItemId | null) => {
+    const item: ITreeItem & Record<string, unknown> = {
+      id,
+      parent,
+      label: (cells[labelIndex] ?? '').trim(),
+    };
+
+    header.forEach((name, index) => {
+      const value = cells[index]?.trim();
+
+      if (!structural.has(index) && name && value) {
+        item[name] = parseImportValue(value);
+      }
+    });
+
+    return item;
+  };
+
+  const dataRows = rows
+    .map((cells, index) => ({ cells, row: index + 1 }))
+    .slice(1)
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+
+  // id из колонки: undefined - колонки нет, null - ячейка пустая
+  const readId = (cells: string[]): TreeItemId | null | undefined => {
+    if (idIndex < 0) {
+      return undefined;
+    }
+
+    const value = cells[idIndex]?.trim();
+
+    return value ? parseImportId(value) : null;
+  };
+
+  if (hierarchy === 'parent') {
+    for (const { cells, row } of dataRows) {
+      const id = readId(cells);
+
+      if (id === null || id === undefined) {
+        errors.push({ row, type: 'missingId', message: `Строка ${row}: не указан id` });
+
+        continue;
+      }
+
+      const parent = cells[parentIndex]?.trim();
+
+      drafts.push({ item: createItem(cells, id, parent ? parseImportId(parent) : null), row });
+    }
+  } else if (hierarchy === 'outline') {
+    const outlines = new Map<string, { id: TreeItemId; row: number }>();
+    const numbered: Array<{ cells: string[]; row: number; id: TreeItemId; outline: string }> = [];
+
+    for (const { cells, row } of dataRows) {
+      // Завершающая точка ("1.2.") допустима, как в нумерованных списках
+      const outline = (cells[outlineIndex] ?? '').trim().replace(/\.$/, '');
+      const id = readId(cells);
+
+      if (!outline) {
+        errors.push({ row, type: 'missingId', message: `Строка ${row}: не указан номер` });
+      } else if (!/^\d+(\.\d+)*$/.test(outline)) {
+        errors.push({ row, type: 'invalidOutline', message: `Строка ${row}: некорректный номер "${outline}"` });
+      } else if (id === null) {
+        errors.push({ row, type: 'missingId', message: `Строка ${row}: не указан id` });
+      } else if (outlines.has(outline)) {
+        errors.push({
+          row,
+          type: 'duplicate',
+          id: id ?? outline,
+          message: `Строка ${row}: номер ${outline} уже указан в строке ${outlines.get(outline)!.row}`,
+        });
+      } else {
+        outlines.set(outline, { id: id ?? outline, row });
+        numbered.push({ cells, row, id: id ?? outline, outline });
+      }
+    }
+
+    for (const { cells, row, id, outline } of numbered) {
+      const parentOutline = outline.includes('.') ? outline.slice(0, outline.lastIndexOf('.')) : null;
+      const parent = parentOutline === null ? null : outlines.get(parentOutline);
+
+      if (parentOutline !== null && !parent) {
+        errors.push({
+          row,
+          type: 'danglingParent',
+          id,
+          message: `Строка ${row}: не найден родитель с номером ${parentOutline}`,
+        });
+
+        continue;
+      }
+
+      drafts.push({ item: createItem(cells, id, parent?.id ?? null), row });
+    }
+  } else {
+    // Идентификаторы предков текущей строки по уровням
+    const stack: TreeItemId[] = [];
+    let baseLevel: number | null = null;
+
+    for (const { cells, row } of dataRows) {
+      const id = readId(cells);
+      let level: number;
+
+      if (levelIndex >= 0) {
+        const value = (cells[levelIndex] ?? '').trim();
+
+        if (!/^\d+$/.test(value)) {
+          errors.push({ row, type: 'invalidLevel', message: `Строка ${row}: некорректный уровень "${value}"` });
+
+          continue;
+        }
+
+        level = Number(value);
+      } else {
+        level = getIndentLevel(cells[labelIndex] ?? '', indentSize);
+      }
+
+      baseLevel ??= level;
+      level -= baseLevel;
+
+      if (id === null) {
+        errors.push({ row, type: 'missingId', message: `Строка ${row}: не указан id` });
+      } else if (level < 0 || level > stack.length) {
+        errors.push({
+          row,
+          type: 'invalidLevel',
+          id,
+          message: `Строка ${row}: пропущен уровень вложенности`,
+        });
+      } else {
+        const itemId = id ?? row;
+
+        stack.length = level;
+        drafts.push({ item: createItem(cells, itemId, level > 0 ? stack[level - 1]! : null), row });
+        stack.push(itemId);
+      }
+    }
+  }
+
+  const rowByItem = new Map(drafts.map(({ item, row }) => [item, row]));
+  const { accepted, rejected } = partitionTreeItems(drafts.map(({ item }) => item));
+
+  for (const { item, issues } of rejected) {
+    const row = rowByItem.get(item)!;
+
+    for (const issue of issues) {
+      errors.push({ row, type: issue.type, id: issue.id, message: `Строка ${row}: ${issue.message}` });
+    }
+  }
+
+  return {
+    items: accepted as unknown as T[],
+    errors: errors.sort((a, b) => a.row - b.row),
+  };
+}
+
+/**
+ * Импортирует дерево из CSV
+ *
+ * @param {string} text - Содержимое CSV
+ * @param {ITreeImportOptions} options - Параметры импорта
+ * @returns {ITreeImportResult<T>} Элементы для TreeStore.update и ошибки строк
+ */
+export function importTreeFromCsv<T extends ITreeItem = ITreeItem>(
+  text: string,
+  options: ITreeImportOptions
+): ITreeImportResult<T> {
+  return importTreeRows<T>(parseCsv(text, options.delimiter), options);
+}
+
+/**
+ * Импортирует дерево из книги Excel (XLSX)
+ *
+ * @param {ArrayBuffer} data - Содержимое файла XLSX
+ * @param {ITreeImportOptions} options - Параметры импорта
+ * @returns {Promise<ITreeImportResult<T>>} Элементы для TreeStore.update и ошибки строк
+ * @throws {Error} Если файл поврежден или лист не найден
+ */
+export async function importTreeFromXlsx<T extends ITreeItem = ITreeItem>(
+  data: ArrayBuffer,
+  options: ITreeImportOptions
+): Promise<ITreeImportResult<T>> {
+  return importTreeRows<T>(await readXlsx(data, options.sheet), options);
+}
+
+/**
+ * Импортирует дерево из выбранного пользователем файла. Формат определяется по расширению:
+ * .xlsx читается как книга Excel, остальные файлы - как CSV
+ *
+ * @param {File} file - Файл CSV или XLSX
+ * @param {ITreeImportOptions} options - Параметры импорта
+ * @returns {Promise<ITreeImportResult<T>>} Элементы для TreeStore.update и ошибки строк
+ * @throws {Error} Если книга Excel повреждена или лист не найден
+ */
+export async function importTreeFile<T extends ITreeItem = ITreeItem>(
+  file: File,
+  options: ITreeImportOptions
+): Promise<ITreeImportResult<T>> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return importTreeFromXlsx<T>(await file.arrayBuffer(), options);
+  }
+
+  return importTreeFromCsv<T>(await file.text(), options);
+}
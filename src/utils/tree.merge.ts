@@ -0,0 +1,439 @@
+import type {
+  ITreeItem,
+  ITreeMergeConflict,
+  ITreeMergeOptions,
+  ITreeMergeResolution,
+  ITreeMergeResult,
+  ITreeSnapshot,
+  TreeItemId,
+  TreeMergeConflictType,
+  TreeMergeSide,
+} from '@/types/tree.types.ts';
+import TreeValidationError from '@/core/TreeValidationError.ts';
+import { validateTreeItems } from '@/utils/tree.validation.ts';
+
+/**
+ * Версии одного элемента в трех деревьях (undefined - элемента в версии нет)
+ */
+type MergeVersions<T extends ITreeItem> = Partial<Record<TreeMergeSide, Readonly<T>>>;
+
+/**
+ * Выбирает версию для конфликта и записывает нерешенный конфликт
+ */
+type MergeChooser<T extends ITreeItem> = (
+  type: TreeMergeConflictType,
+  id: TreeItemId,
+  versions: MergeVersions<T>,
+  field?: string,
+  ids?: TreeItemId[]
+) => TreeMergeSide;
+
+/**
+ * Проверяет, совпадают ли все поля элементов
+ *
+ * @param {T} a - Первый элемент
+ * @param {T} b - Второй элемент
+ * @returns {boolean} true, если элементы равны
+ */
+function isSameItem<T extends ITreeItem>(a: Readonly<T>, b: Readonly<T>): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  const aKeys = Object.keys(a);
+  const bRecord = b as Record<string, unknown>;
+
+  return aKeys.length === Object.keys(b).length
+    && aKeys.every((key) => key in bRecord && Object.is((a as Record<string, unknown>)[key], bRecord[key]));
+}
+
+/**
+ * Проверяет, относится ли решение к конфликту
+ *
+ * @param {ITreeMergeResolution} resolution - Решение
+ * @param {Pick<ITreeMergeConflict, 'type' | 'id' | 'field'>} conflict - Конфликт
+ * @returns {boolean} true, если решение принимает версию для этого конфликта
+ */
+function isResolutionOf(
+  resolution: ITreeMergeResolution,
+  conflict: Pick<ITreeMergeConflict, 'type' | 'id' | 'field'>
+): boolean {
+  return resolution.type === conflict.type && resolution.id === conflict.id && resolution.field === conflict.field;
+}
+
+/**
+ * Описывает конфликт для пользователя
+ *
+ * @param {TreeMergeConflictType} type - Тип конфликта
+ * @param {TreeItemId[]} ids - Элементы конфликта
+ * @param {string} [field] - Поле конфликта
+ * @returns {string} Сообщение
+ */
+function getConflictMessage(type: TreeMergeConflictType, ids: TreeItemId[], field?: string): string {
+  const id = ids[0];
+
+  switch (type) {
+    case 'bothAdded':
+      return `Элемент ${id} добавлен в обеих версиях с разными данными`;
+    case 'bothRenamed':
+      return `Элемент ${id} по-разному переименован в обеих версиях`;
+    case 'bothMoved':
+      return `Элемент ${id} перенесен в обеих версиях к разным родителям`;
+    case 'bothChanged':
+      return `Поле "${field}" элемента ${id} по-разному изменено в обеих версиях`;
+    case 'moveRemove':
+      return `Элемент ${id} перенесен в одной версии и удален в другой`;
+    case 'editRemove':
+      return `Элемент ${id} изменен в одной версии и удален в другой`;
+    case 'removedParent':
+      return `Родитель элемента ${id} удален в другой версии`;
+    case 'cycle':
+      return `Переносы элементов ${ids.join(', ')} вместе образуют цикл`;
+  }
+}
+
+/**
+ * Копирует элемент с родителем и рангом из другой версии
+ *
+ * @param {T} item - Элемент
+ * @param {T} source - Версия, задающая положение
+ * @returns {T} Элемент с новым положением
+ */
+function withPosition<T extends ITreeItem>(item: Readonly<T>, source: Readonly<T>): Readonly<T> {
+  const result = { ...item, parent: source.parent } as T;
+
+  if ('order' in source) {
+    result.order = source.order;
+  } else {
+    delete result.order;
+  }
+
+  return result;
+}
+
+/**
+ * Объединяет поля элемента, измененного в обеих версиях.
+ * Поле берется из версии, где оно изменилось; разные изменения одного поля - конфликт.
+ * Ранг order следует за родителем: он имеет смысл только среди соседей своей версии,
+ * поэтому при переносе берется из версии, давшей родителя, а встречная перестановка не считается конфликтом
+ *
+ * @returns {T} Объединенный элемент (объект одной из версий, если он совпал с ней)
+ */
+function mergeFields<T extends ITreeItem>(
+  id: TreeItemId,
+  versions: Required<MergeVersions<T>>,
+  choose: MergeChooser<T>
+): Readonly<T> {
+  const base = versions.base as Record<string, unknown>;
+  const ours = versions.ours as Record<string, unknown>;
+  const theirs = versions.theirs as Record<string, unknown>;
+
+  // Версия значения поля: измененная с одной стороны или выбранная в конфликте
+  const pickSide = (field: string, type: TreeMergeConflictType | null): TreeMergeSide => {
+    if (Object.is(ours[field], theirs[field]) || Object.is(theirs[field], base[field])) {
+      return 'ours';
+    }
+
+    if (Object.is(ours[field], base[field])) {
+      return 'theirs';
+    }
+
+    return type ? choose(type, id, versions, type === 'bothChanged' ? field : undefined) : 'ours';
+  };
+
+  const parentSide = pickSide('parent', 'bothMoved');
+  const isMoved = !Object.is(ours.parent, base.parent) || !Object.is(theirs.parent, base.parent);
+  const result: Record<string, unknown> = { id };
+
+  const assign = (field: string, side: TreeMergeSide) => {
+    const source = versions[side] as Record<string, unknown>;
+
+    if (field in source) {
+      result[field] = source[field];
+    }
+  };
+
+  const fields = new Set([...Object.keys(ours), ...Object.keys(theirs), ...Object.keys(base)]);
+
+  for (const field of fields) {
+    if (field === 'id') {
+      continue;
+    }
+
+    if (field === 'parent') {
+      assign(field, parentSide);
+    } else if (field === 'order') {
+      assign(field, isMoved ? parentSide : pickSide(field, null));
+    } else {
+      assign(field, pickSide(field, field === 'label' ? 'bothRenamed' : 'bothChanged'));
+    }
+  }
+
+  const merged = result as unknown as Readonly<T>;
+
+  // Неизмененный объект разделяется с версией, как в снимках хранилища
+  if (isSameItem(merged, versions.ours)) {
+    return versions.ours;
+  }
+
+  return isSameItem(merged, versions.theirs) ? versions.theirs : merged;
+}
+
+/**
+ * Объединяет элемент по трем версиям
+ *
+ * @returns {T | undefined} Объединенный элемент или undefined, если элемент удален
+ */
+function mergeItem<T extends ITreeItem>(
+  id: TreeItemId,
+  versions: MergeVersions<T>,
+  choose: MergeChooser<T>
+): Readonly<T> | undefined {
+  const { base, ours, theirs } = versions;
+
+  if (!base) {
+    if (ours && theirs && !isSameItem(ours, theirs)) {
+      return versions[choose('bothAdded', id, versions)];
+    }
+
+    return ours ?? theirs;
+  }
+
+  if (!ours || !theirs) {
+    const kept = ours ?? theirs;
+
+    // Удаление неизмененного элемента принимается без конфликта
+    if (!kept || isSameItem(kept, base)) {
+      return undefined;
+    }
+
+    return versions[choose(kept.parent !== base.parent ? 'moveRemove' : 'editRemove', id, versions)];
+  }
+
+  return mergeFields(id, { base, ours, theirs }, choose);
+}
+
+/**
+ * Трехстороннее слияние деревьев: правки ours и theirs относительно общей версии base.
+ * Независимые добавления, удаления, переименования, переносы и изменения полей
+ * объединяются автоматически. Пересекающиеся правки становятся конфликтами, которые
+ * до решения принимаются в пользу ours, поэтому items всегда образуют корректное дерево.
+ * Решенные конфликты (options.resolutions) в список не попадают
+ *
+ * @param {ITreeSnapshot<T>} base - Общая версия (например, treeStore.snapshot() до правок)
+ * @param {ITreeSnapshot<T>} ours - Наши правки
+ * @param {ITreeSnapshot<T>} theirs - Чужие правки
+ * @param {ITreeMergeOptions} [options] - Параметры слияния
+ * @returns {ITreeMergeResult<T>} Объединенное дерево и конфликты
+ * @throws {TreeValidationError} Если решения конфликтов противоречат друг другу и дерево некорректно
+ */
+export function mergeTrees<T extends ITreeItem>(
+  base: ITreeSnapshot<T>,
+  ours: ITreeSnapshot<T>,
+  theirs: ITreeSnapshot<T>,
+  options: ITreeMergeOptions = {}
+): ITreeMergeResult<T> {
+  const resolutions = options.resolutions ?? [];
+  const sides: Record<TreeMergeSide, Map<TreeItemId, Readonly<T>>> = {
+    base: new Map(base.items.map((item) => [item.id, item])),
+    ours: new Map(ours.items.map((item) => [item.id, item])),
+    theirs: new Map(theirs.items.map((item) => [item.id, item])),
+  };
+  const conflicts: ITreeMergeConflict<T>[] = [];
+  const merged = new Map<TreeItemId, Readonly<T>>();
+
+  const getVersions = (id: TreeItemId): MergeVersions<T> => ({
+    base: sides.base.get(id),
+    ours: sides.ours.get(id),
+    theirs: sides.theirs.get(id),
+  });
+
+  const choose: MergeChooser<T> = (type, id, versions, field, ids = [id]) => {
+    const resolution = resolutions.find((item) => isResolutionOf(item, { type, id, field }));
+
+    if (resolution) {
+      return resolution.side;
+    }
+
+    if (!conflicts.some((conflict) => isResolutionOf({ type, id, field, side: 'ours' }, conflict))) {
+      conflicts.push({ type, id, ids, field, ...versions, message: getConflictMessage(type, ids, field) });
+    }
+
+    return 'ours';
+  };
+
+  const ids = new Set([...ours.items, ...theirs.items, ...base.items].map((item) => item.id));
+
+  for (const id of ids) {
+    const item = mergeItem(id, getVersions(id), choose);
+
+    if (item) {
+      merged.set(id, item);
+    }
+  }
+
+  const removeSubtree = (id: TreeItemId) => {
+    const removed = new Set([id]);
+    let found = true;
+
+    while (found) {
+      found = false;
+
+      for (const item of merged.values()) {
+        if (!removed.has(item.id) && item.parent !== null && removed.has(item.parent)) {
+          removed.add(item.id);
+          found = true;
+        }
+      }
+    }
+
+    removed.forEach((removedId) => merged.delete(removedId));
+  };
+
+  // Элемент под удаленным родителем: принимается положение выбранной версии вместе с ее предками
+  const repairRemovedParent = (): boolean => {
+    for (const item of merged.values()) {
+      if (item.parent === null || merged.has(item.parent)) {
+        continue;
+      }
+
+      const versions = getVersions(item.id);
+      const side = choose('removedParent', item.id, versions);
+      const chosen = versions[side];
+
+      if (!chosen) {
+        removeSubtree(item.id);
+
+        return true;
+      }
+
+      merged.set(item.id, withPosition(item, chosen));
+
+      let parentId = chosen.parent;
+
+      while (parentId !== null && !merged.has(parentId)) {
+        const parent = sides[side].get(parentId);
+
+        if (!parent) {
+          break;
+        }
+
+        merged.set(parentId, parent);
+        parentId = parent.parent;
+      }
+
+      return true;
+    }
+
+    return false;
+  };
+
+  const findCycle = (): TreeItemId[] | null => {
+    const checked = new Set<TreeItemId>();
+
+    for (const start of merged.keys()) {
+      const path: TreeItemId[] = [];
+      let current: TreeItemId | null = start;
+
+      while (current !== null && merged.has(current) && !checked.has(current)) {
+        if (path.includes(current)) {
+          return path.slice(path.indexOf(current));
+        }
+
+        path.push(current);
+        current = merged.get(current)!.parent;
+      }
+
+      path.forEach((id) => checked.add(id));
+    }
+
+    return null;
+  };
+
+  // Цикл разрывается положениями из одной версии: в ней самой цикла нет
+  const breakCycle = (): boolean => {
+    const cycle = findCycle();
+
+    if (!cycle) {
+      return false;
+    }
+
+    // Первый элемент цикла в порядке слияния определяет конфликт независимо от места обнаружения
+    const cycleIds = [...merged.keys()].filter((id) => cycle.includes(id));
+    const side = choose('cycle', cycleIds[0]!, getVersions(cycleIds[0]!), undefined, cycleIds);
+
+    for (const id of cycleIds) {
+      const source = sides[side].get(id) ?? sides.ours.get(id) ?? sides.theirs.get(id);
+
+      if (source) {
+        merged.set(id, withPosition(merged.get(id)!, source));
+      }
+    }
+
+    return true;
+  };
+
+  let iterations = ids.size * 2 + 1;
+
+  while (iterations-- > 0 && (repairRemovedParent() || breakCycle())) {
+    // Исправление одного нарушения может открыть следующее
+  }
+
+  const items = [...merged.values()] as T[];
+  const report = validateTreeItems(items);
+
+  if (!report.valid) {
+    throw new TreeValidationError(report);
+  }
+
+  return { items, conflicts, resolutions, base, ours, theirs };
+}
+
+/**
+ * Решает конфликт, принимая значение указанной версии, и повторяет слияние.
+ * Решение может открыть новые конфликты (например, принятый перенос под удаленного родителя)
+ *
+ * @param {ITreeMergeResult<T>} result - Результат слияния
+ * @param {ITreeMergeConflict<T>} conflict - Конфликт из result.conflicts
+ * @param {TreeMergeSide} side - Принимаемая версия
+ * @returns {ITreeMergeResult<T>} Новый результат слияния
+ * @throws {TreeValidationError} Если решения конфликтов противоречат друг другу и дерево некорректно
+ */
+export function resolveMergeConflict<T extends ITreeItem>(
+  result: ITreeMergeResult<T>,
+  conflict: ITreeMergeConflict<T>,
+  side: TreeMergeSide
+): ITreeMergeResult<T> {
+  const { type, id, field } = conflict;
+  const resolutions = result.resolutions.filter((resolution) => !isResolutionOf(resolution, conflict));
+
+  return mergeTrees(result.base, result.ours, result.theirs, {
+    resolutions: [...resolutions, { type, id, field, side }],
+  });
+}
+
+/**
+ * Решает все конфликты, включая открывшиеся после решений, в пользу одной версии
+ *
+ * @param {ITreeMergeResult<T>} result - Результат слияния
+ * @param {TreeMergeSide} side - Принимаемая версия
+ * @returns {ITreeMergeResult<T>} Результат слияния без конфликтов
+ * @throws {TreeValidationError} Если решения конфликтов противоречат друг другу и дерево некорректно
+ */
+export function resolveAllMergeConflicts<T extends ITreeItem>(
+  result: ITreeMergeResult<T>,
+  side: TreeMergeSide
+): ITreeMergeResult<T> {
+  let current = result;
+
+  while (current.conflicts.length > 0) {
+    current = mergeTrees(current.base, current.ours, current.theirs, {
+      resolutions: [
+        ...current.resolutions,
+        ...current.conflicts.map(({ type, id, field }) => ({ type, id, field, side })),
+      ],
+    });
+  }
+
+  return current;
+}
@@ -0,0 +1,258 @@
+import type {
+  ITreeItem,
+  ITreeJsonPatchOperation,
+  ITreeOperationLogEntry,
+  ITreeReplayResult,
+  TreeItemId,
+  TreeOperation,
+} from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+
+/**
+ * Типы операций журнала
+ */
+const OPERATION_TYPES = new Set<TreeOperation['type']>(['add', 'remove', 'update', 'move', 'reset']);
+
+/**
+ * Проверяет, похоже ли значение на элемент дерева
+ *
+ * @param {unknown} value - Значение
+ * @returns {boolean} true, если есть id, parent и label
+ */
+function isTreeItem(value: unknown): value is ITreeItem {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const { id, parent, label } = value as Record<string, unknown>;
+  const isId = (key: unknown) => typeof key === 'string' || typeof key === 'number';
+
+  return isId(id) && (parent === null || isId(parent)) && typeof label === 'string';
+}
+
+/**
+ * Проверяет структуру операции журнала
+ *
+ * @param {unknown} value - Значение
+ * @returns {boolean} true, если значение - операция
+ */
+function isTreeOperation(value: unknown): value is TreeOperation {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const operation = value as Record<string, unknown>;
+
+  switch (operation.type) {
+    case 'add':
+      return isTreeItem(operation.item) && typeof operation.index === 'number';
+    case 'remove':
+      return Array.isArray(operation.ids) && operation.ids.includes(operation.id);
+    case 'update':
+      return isTreeItem(operation.item) && isTreeItem(operation.previous);
+    case 'move':
+      return isTreeItem(operation.item)
+        && isTreeItem(operation.previous)
+        && typeof operation.index === 'number'
+        && Array.isArray(operation.reordered)
+        && operation.reordered.every(isTreeItem);
+    case 'reset':
+      return Array.isArray(operation.items) && operation.items.every(isTreeItem);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Читает журнал изменений из JSON (результат TreeOperationLog.export)
+ *
+ * @param {string} json - Записи журнала в JSON
+ * @returns {ITreeOperationLogEntry<T>[]} Записи журнала
+ * @throws {Error} Если JSON некорректен или запись не является операцией журнала
+ */
+export function parseTreeOperations<T extends ITreeItem = ITreeItem>(json: string): ITreeOperationLogEntry<T>[] {
+  const entries: unknown = JSON.parse(json);
+
+  if (!Array.isArray(entries)) {
+    throw new Error('Журнал изменений должен быть массивом записей');
+  }
+
+  entries.forEach((entry, index) => {
+    const { seq, timestamp, author, operation } = (entry ?? {}) as Record<string, unknown>;
+
+    if (
+      typeof seq !== 'number'
+      || typeof timestamp !== 'number'
+      || (author !== undefined && typeof author !== 'string')
+      || !isTreeOperation(operation)
+    ) {
+      throw new Error(`Запись ${index + 1} журнала изменений некорректна`);
+    }
+  });
+
+  return entries as ITreeOperationLogEntry<T>[];
+}
+
+/**
+ * Проверяет, что новый родитель существует и не находится внутри переносимого элемента
+ *
+ * @returns {string | null} Нарушенное условие или null
+ */
+function checkParent<T extends ITreeItem>(treeStore: TreeStore<T>, id: TreeItemId, parent: TreeItemId | null): string | null {
+  if (parent === null) {
+    return null;
+  }
+
+  if (!treeStore.getItem(parent)) {
+    return `Родитель ${parent} не найден`;
+  }
+
+  if (treeStore.getAllParents(parent).some((item) => item.id === id)) {
+    return `Перенос элемента ${id} под ${parent} создает цикл`;
+  }
+
+  return null;
+}
+
+/**
+ * Проверяет условия операции на текущем состоянии хранилища и применяет ее
+ *
+ * @returns {string | null} Нарушенное условие или null, если операция применена
+ */
+function applyOperation<T extends ITreeItem>(treeStore: TreeStore<T>, operation: TreeOperation<T>): string | null {
+  if (operation.type === 'reset') {
+    treeStore.update(operation.items);
+
+    return null;
+  }
+
+  const id = operation.type === 'remove' ? operation.id : operation.item.id;
+  const current = treeStore.getItem(id);
+
+  if (operation.type === 'add') {
+    if (current) {
+      return `Элемент ${id} уже существует`;
+    }
+
+    return checkParent(treeStore, id, operation.item.parent)
+      ?? (treeStore.addItem(operation.item, { index: operation.index }) ? null : `Элемент ${id} не добавлен`);
+  }
+
+  if (!current) {
+    return `Элемент ${id} не найден`;
+  }
+
+  switch (operation.type) {
+    case 'remove': {
+      const ids = [id, ...treeStore.getAllChildren(id).map((item) => item.id)];
+
+      // Удаление поддерева, отличающегося от записанного, привело бы к другому состоянию
+      if (ids.length !== operation.ids.length || ids.some((childId) => !operation.ids.includes(childId))) {
+        return `Потомки элемента ${id} отличаются от записанных`;
+      }
+
+      return treeStore.removeItem(id) ? null : `Элемент ${id} не удален`;
+    }
+    case 'update':
+      if (current.parent !== operation.item.parent) {
+        return `Элемент ${id} находится под другим родителем`;
+      }
+
+      return treeStore.updateItem(operation.item) ? null : `Элемент ${id} не изменен`;
+    case 'move': {
+      const error = checkParent(treeStore, id, operation.item.parent);
+      const missing = operation.reordered.find((item) => !treeStore.getItem(item.id));
+
+      if (error || missing) {
+        return error ?? `Элемент ${missing!.id} не найден`;
+      }
+
+      // Сначала ранги соседей на прежних позициях, затем сам элемент: index записан относительно итогового порядка
+      operation.reordered.forEach((item) => treeStore.updateItem(item, { index: treeStore.getIndex(item.id) }));
+
+      return treeStore.updateItem(operation.item, { index: operation.index }) ? null : `Элемент ${id} не перенесен`;
+    }
+  }
+}
+
+/**
+ * Воспроизводит записи журнала на хранилище по порядку.
+ * Перед каждой операцией проверяются ее условия (элемент и родитель существуют, перенос не создает цикл,
+ * удаляемое поддерево совпадает с записанным). Операция с нарушенными условиями пропускается
+ * и попадает в failures, остальные применяются: на хранилище в исходном состоянии журнал
+ * воспроизводит то же дерево, включая ранги соседей
+ *
+ * @param {TreeStore} treeStore - Хранилище, на котором воспроизводится журнал
+ * @param {ITreeOperationLogEntry<T>[]} entries - Записи журнала
+ * @returns {ITreeReplayResult<T>} Количество примененных операций и невоспроизведенные операции
+ */
+export function replayTreeOperations<T extends ITreeItem>(
+  treeStore: TreeStore<T>,
+  entries: ITreeOperationLogEntry<T>[]
+): ITreeReplayResult<T> {
+  const result: ITreeReplayResult<T> = { applied: 0, failures: [] };
+
+  entries.forEach((entry, index) => {
+    let message: string | null;
+
+    try {
+      message = OPERATION_TYPES.has(entry.operation.type)
+        ? applyOperation(treeStore, entry.operation)
+        : `Неизвестная операция ${entry.operation.type}`;
+    } catch (error) {
+      // Хранилище в режиме 'strict' отклоняет некорректную мутацию ошибкой
+      message = error instanceof Error ? error.message : String(error);
+    }
+
+    if (message === null) {
+      result.applied++;
+    } else {
+      result.failures.push({ index, entry, message });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Экранирует идентификатор для JSON Pointer (RFC 6901)
+ *
+ * @param {TreeItemId} id - Идентификатор элемента
+ * @returns {string} Путь к элементу
+ */
+function toPointer(id: TreeItemId): string {
+  return `/${String(id).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+/**
+ * Преобразует записи журнала в JSON Patch (RFC 6902) для документа вида { [id]: item }.
+ * Такой документ не хранит порядок соседей: позицию передает ранг order
+ *
+ * @param {ITreeOperationLogEntry<T>[]} entries - Записи журнала
+ * @returns {ITreeJsonPatchOperation[]} Операции JSON Patch
+ */
+export function toTreeJsonPatch<T extends ITreeItem>(entries: ITreeOperationLogEntry<T>[]): ITreeJsonPatchOperation[] {
+  return entries.flatMap(({ operation }): ITreeJsonPatchOperation[] => {
+    switch (operation.type) {
+      case 'add':
+        return [{ op: 'add', path: toPointer(operation.item.id), value: operation.item }];
+      case 'remove':
+        // Потомки удаляются раньше родителя
+        return [...operation.ids].reverse().map((id) => ({ op: 'remove', path: toPointer(id) }));
+      case 'update':
+        return [{ op: 'replace', path: toPointer(operation.item.id), value: operation.item }];
+      case 'move':
+        return [...operation.reordered, operation.item].map((item) => ({
+          op: 'replace',
+          path: toPointer(item.id),
+          value: item,
+        }));
+      case 'reset':
+        return [{
+          op: 'replace',
+          path: '',
+          value: Object.fromEntries(operation.items.map((item) => [item.id, item])),
+        }];
+    }
+  });
+}
@@ -0,0 +1,61 @@
+import type { ITreeItem } from '@/types/tree.types.ts';
+
+/**
+ * Шаг между рангами соседей при нормализации
+ */
+export const ORDER_STEP = 1;
+
+/**
+ * Сравнивает элементы по рангу order.
+ * Элементы без ранга идут после элементов с рангом и сохраняют исходный порядок между собой
+ *
+ * @param {ITreeItem} a - Первый элемент
+ * @param {ITreeItem} b - Второй элемент
+ * @returns {number} Отрицательное число если a раньше b, положительное если позже, 0 если равны
+ */
+export function compareTreeItemOrder(a: ITreeItem, b: ITreeItem): number {
+  if (a.order === undefined || b.order === undefined) {
+    return Number(a.order === undefined) - Number(b.order === undefined);
+  }
+
+  return a.order - b.order;
+}
+
+/**
+ * Вычисляет ранг между двумя соседями (дробная индексация).
+ * Возвращает null, если между рангами не осталось представимого числа и соседей нужно нормализовать
+ *
+ * @param {number} [before] - Ранг предыдущего соседа
+ * @param {number} [after] - Ранг следующего соседа
+ * @returns {number | null} Новый ранг
+ */
+export function getOrderBetween(before?: number, after?: number): number | null {
+  if (before === undefined && after === undefined) {
+    return ORDER_STEP;
+  }
+
+  if (before === undefined) {
+    return after! - ORDER_STEP;
+  }
+
+  if (after === undefined) {
+    return before + ORDER_STEP;
+  }
+
+  const middle = before + (after - before) / 2;
+
+  return middle > before && middle < after ? middle : null;
+}
+
+/**
+ * Находит позицию для вставки элемента в упорядоченный список соседей
+ *
+ * @param {ITreeItem[]} siblings - Соседи, отсортированные compareTreeItemOrder
+ * @param {ITreeItem} item - Вставляемый элемент
+ * @returns {number} Индекс вставки
+ */
+export function findOrderedIndex(siblings: ITreeItem[], item: ITreeItem): number {
+  const index = siblings.findIndex((sibling) => compareTreeItemOrder(item, sibling) < 0);
+
+  return index > -1 ? index : siblings.length;
+}
@@ -0,0 +1,120 @@
+import type { ITreeSearchOptions, ITreeTextMatch } from '@/types/tree.types.ts';
+
+/**
+ * Буквы, которые при поиске без учета диакритики сохраняются: в русском это отдельные буквы.
+ * Остальная диакритика отбрасывается через NFD, в том числе ё приводится к е
+ */
+const PRESERVED_LETTERS = new Set(['й', 'Й']);
+
+/**
+ * Буквы и цифры: граница слова для поиска по префиксу
+ */
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Приводит текст к виду для сравнения и запоминает, из какой позиции исходной строки
+ * получен каждый символ. По позициям найденный фрагмент переносится обратно в исходный текст
+ *
+ * @param {string} text - Исходный текст
+ * @param {ITreeSearchOptions} [options] - Параметры поиска
+ * @returns {{ text: string, positions: number[] }} Нормализованный текст и позиции символов
+ */
+export function normalizeSearchText(
+  text: string,
+  options: ITreeSearchOptions = {}
+): { text: string; positions: number[] } {
+  let normalized = '';
+  const positions: number[] = [];
+
+  for (let index = 0; index < text.length; index++) {
+    let chunk = text[index]!;
+
+    if (!options.diacriticSensitive && !PRESERVED_LETTERS.has(chunk)) {
+      chunk = chunk.normalize('NFD').replace(/\p{M}/gu, '');
+    }
+
+    if (!options.caseSensitive) {
+      chunk = chunk.toLowerCase();
+    }
+
+    normalized += chunk;
+    positions.push(...Array.from(chunk, () => index));
+  }
+
+  return { text: normalized, positions };
+}
+
+/**
+ * Ищет первое вхождение запроса в тексте
+ *
+ * @param {string} text - Текст, например наименование элемента
+ * @param {string} query - Поисковый запрос
+ * @param {ITreeSearchOptions} [options] - Параметры поиска
+ * @returns {ITreeTextMatch | null} Фрагмент исходного текста или null
+ */
+export function findTextMatch(
+  text: string,
+  query: string,
+  options: ITreeSearchOptions = {}
+): ITreeTextMatch | null {
+  const needle = normalizeSearchText(query.trim(), options).text;
+
+  if (!needle) {
+    return null;
+  }
+
+  const haystack = normalizeSearchText(text, options);
+
+  for (
+    let index = haystack.text.indexOf(needle);
+    index > -1;
+    index = haystack.text.indexOf(needle, index + 1)
+  ) {
+    if (options.prefix && index > 0 && WORD_CHAR.test(haystack.text[index - 1]!)) {
+      continue;
+    }
+
+    const start = haystack.positions[index]!;
+    const end = haystack.positions[index + needle.length - 1]! + 1;
+
+    return { start, length: end - start };
+  }
+
+  return null;
+}
+
+/**
+ * Экранирует текст для вставки в HTML
+ *
+ * @param {string} text - Исходный текст
+ * @returns {string} Безопасный HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Формирует HTML текста с выделенным фрагментом
+ *
+ * @param {string} text - Исходный текст
+ * @param {ITreeTextMatch | null} match - Выделяемый фрагмент
+ * @returns {string} Экранированный HTML с фрагментом в <mark>
+ */
+export function highlightTextMatch(text: string, match: ITreeTextMatch | null): string {
+  if (!match) {
+    return escapeHtml(text);
+  }
+
+  const end = match.start + match.length;
+
+  return [
+    escapeHtml(text.slice(0, match.start)),
+    `<mark class="tree-grid__match">${escapeHtml(text.slice(match.start, end))}</mark>`,
+    escapeHtml(text.slice(end)),
+  ].join('');
+}
@@ -0,0 +1,148 @@
+import type { ITreeItem, TreeItemId } from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+import type { Reactive } from 'vue';
+
+/**
+ * Выравнивает выбранные группы по их детям снизу вверх
+ * @private
+ */
+function syncAncestors<T extends ITreeItem>(
+  selected: Set<TreeItemId>,
+  id: TreeItemId,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): void {
+  for (const parent of treeStore.getAllParents(id).slice(1)) {
+    const allSelected = treeStore.getChildren(parent.id).every((child) => selected.has(child.id));
+
+    if (allSelected) {
+      selected.add(parent.id);
+    } else {
+      selected.delete(parent.id);
+    }
+  }
+}
+
+/**
+ * Выбирает элемент вместе с потомками или снимает выбор.
+ * Выбор остается согласованным: группа с загруженными детьми выбрана
+ * тогда и только тогда, когда выбраны все ее дети
+ *
+ * @param {Iterable<TreeItemId>} selected - Текущий выбор
+ * @param {TreeItemId} id - Идентификатор элемента
+ * @param {boolean} checked - Выбрать или снять выбор
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {TreeItemId[]} Новый выбор
+ */
+export function toggleSelection<T extends ITreeItem>(
+  selected: Iterable<TreeItemId>,
+  id: TreeItemId,
+  checked: boolean,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): TreeItemId[] {
+  const result = new Set(selected);
+
+  for (const itemId of [id, ...treeStore.getAllChildren(id).map((item) => item.id)]) {
+    if (checked) {
+      result.add(itemId);
+    } else {
+      result.delete(itemId);
+    }
+  }
+
+  syncAncestors(result, id, treeStore);
+
+  return [...result];
+}
+
+/**
+ * Приводит произвольный список id к согласованному выбору:
+ * отбрасывает отсутствующие элементы, добавляет потомков выбранных групп
+ * и пересчитывает группы по их детям
+ *
+ * @param {Iterable<TreeItemId>} ids - Идентификаторы, например из v-model
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {TreeItemId[]} Согласованный выбор
+ */
+export function normalizeSelection<T extends ITreeItem>(
+  ids: Iterable<TreeItemId>,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): TreeItemId[] {
+  const result = new Set<TreeItemId>();
+
+  for (const id of ids) {
+    if (treeStore.getItem(id)) {
+      result.add(id);
+      treeStore.getAllChildren(id).forEach((item) => result.add(item.id));
+    }
+  }
+
+  // Обход в глубину с пересчетом группы после ее детей
+  const visit = (item: T) => {
+    const children = treeStore.getChildren(item.id);
+
+    if (children.length === 0) {
+      return;
+    }
+
+    children.forEach(visit);
+
+    if (children.every((child) => result.has(child.id))) {
+      result.add(item.id);
+    } else {
+      result.delete(item.id);
+    }
+  };
+
+  treeStore.getRoots().forEach(visit);
+
+  return [...result];
+}
+
+/**
+ * Возвращает верхние выбранные элементы, чьи родители не выбраны.
+ * Массовые удаление и перенос применяются к ним: потомки следуют за родителем
+ *
+ * @param {Iterable<TreeItemId>} selected - Текущий выбор
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {T[]} Верхние выбранные элементы в порядке обхода дерева
+ */
+export function getSelectionRoots<T extends ITreeItem>(
+  selected: Iterable<TreeItemId>,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): T[] {
+  const ids = new Set(selected);
+  const roots: T[] = [];
+
+  const visit = (items: T[]) => {
+    for (const item of items) {
+      if (ids.has(item.id)) {
+        roots.push(item);
+      } else {
+        visit(treeStore.getChildren(item.id));
+      }
+    }
+  };
+
+  visit(treeStore.getRoots());
+
+  return roots;
+}
+
+/**
+ * Возвращает выбранные элементы в порядке обхода дерева в глубину
+ *
+ * @param {Iterable<TreeItemId>} selected - Текущий выбор
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {T[]} Выбранные элементы
+ */
+export function getSelectedItems<T extends ITreeItem>(
+  selected: Iterable<TreeItemId>,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): T[] {
+  const ids = new Set(selected);
+
+  return getSelectionRoots(ids, treeStore).flatMap((item) => [
+    item,
+    ...treeStore.getAllChildren(item.id).filter((child) => ids.has(child.id)),
+  ]);
+}
@@ -0,0 +1,47 @@
+/**
+ * Префикс ключей localStorage для состояния дерева
+ */
+export const STORAGE_PREFIX = 'tree-grid';
+
+/**
+ * Формирует ключ localStorage для раздела состояния дерева
+ *
+ * @param {string} section - Раздел состояния (например, 'columns')
+ * @param {string} id - Идентификатор дерева
+ * @returns {string} Ключ localStorage
+ */
+export function getStorageKey(section: string, id: string): string {
+  return `${STORAGE_PREFIX}:${section}:${id}`;
+}
+
+/**
+ * Читает JSON-значение из localStorage.
+ * Недоступное хранилище (приватный режим, SSR) и поврежденные данные дают null
+ *
+ * @param {string} key - Ключ localStorage
+ * @returns {V | null} Прочитанное значение
+ */
+export function readStorage<V>(key: string): V | null {
+  try {
+    const raw = globalThis.localStorage?.getItem(key);
+
+    return raw ? JSON.parse(raw) as V : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Записывает JSON-значение в localStorage. Ошибки записи (квота, недоступность) игнорируются:
+ * потеря сохраненного состояния не должна ломать работу таблицы
+ *
+ * @param {string} key - Ключ localStorage
+ * @param {unknown} value - Сохраняемое значение
+ */
+export function writeStorage(key: string, value: unknown): void {
+  try {
+    globalThis.localStorage?.setItem(key, JSON.stringify(value));
+  } catch {
+    // Состояние просто не сохранится
+  }
+}
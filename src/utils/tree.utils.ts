@@ -1,39 +1,64 @@
 import type {
+  ITreeFlattenOptions,
   ITreeItem,
+  ITreeDropTarget,
   ITreeItemWithCategory,
+  ITreeNestedItem,
+  ITreeNestedKeys,
+  ITreeRowTransaction,
+  TreeDropPosition,
   TreeItemCategory,
   TreeItemId,
+  TreeLoadState,
+  TreeNestedNode,
+  TreeStoreEvent,
 } from '@/types/tree.types.ts';
 import type TreeStore from '@/core/TreeStore.ts';
+import TreeValidationError from '@/core/TreeValidationError.ts';
+import { validateTreeItems } from '@/utils/tree.validation.ts';
 import type { Reactive } from 'vue';
 
 /**
- * Определяет категорию элемента на основе наличия дочерних элементов
+ * Префикс идентификаторов строк-заглушек незагруженных веток
+ */
+export const PLACEHOLDER_ID_PREFIX = '__placeholder__:';
+
+/**
+ * Наименования строк-заглушек по состоянию загрузки
+ */
+const PLACEHOLDER_LABELS: Record<TreeLoadState, string> = {
+  unloaded: 'Загрузка...',
+  loading: 'Загрузка...',
+  loaded: '',
+  error: 'Ошибка загрузки',
+};
+
+/**
+ * Определяет категорию элемента на основе наличия дочерних элементов.
+ * Ветка с еще не загруженными детьми тоже считается группой
  *
- * @param {ITreeItem} item - Элемент дерева
+ * @param {T} item - Элемент дерева
  * @param {TreeStore} treeStore - Экземпляр хранилища
  * @returns {TreeItemCategory} 'Группа' если есть дети, 'Элемент' если нет
  */
-export function determineCategory(
-  item: ITreeItem,
-  treeStore: Reactive<TreeStore> | TreeStore
+export function determineCategory<T extends ITreeItem>(
+  item: T,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
 ): TreeItemCategory {
-  const children = treeStore.getChildren(item.id);
-
-  return children.length > 0 ? 'Группа' : 'Элемент';
+  return treeStore.hasChildren(item.id) ? 'Группа' : 'Элемент';
 }
 
 /**
  * Получает путь элемента в дереве для AgGrid tree data
  * Путь представлен в виде массива меток от корня до элемента
  *
- * @param {ITreeItem} item - Элемент дерева
+ * @param {T} item - Элемент дерева
  * @param {TreeStore} treeStore - Экземпляр хранилища
  * @returns {string[]} Массив меток элементов от корня к текущему элементу
  */
-export function getItemPath(
-  item: ITreeItem,
-  treeStore: Reactive<TreeStore> | TreeStore
+export function getItemPath<T extends ITreeItem>(
+  item: T,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
 ): string[] {
   const parents = treeStore.getAllParents(item.id);
 
@@ -45,13 +70,13 @@ export function getItemPath(
  * Вычисляет уровень вложенности элемента в дереве
  * Корневые элементы имеют уровень 0
  *
- * @param {ITreeItem} item - Элемент дерева
+ * @param {T} item - Элемент дерева
  * @param {TreeStore} treeStore - Экземпляр хранилища
  * @returns {number} Уровень вложенности (0 для корня)
  */
-export function getItemLevel(
-  item: ITreeItem,
-  treeStore: Reactive<TreeStore> | TreeStore
+export function getItemLevel<T extends ITreeItem>(
+  item: T,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
 ): number {
   const parents = treeStore.getAllParents(item.id);
 
@@ -62,15 +87,15 @@ export function getItemLevel(
 /**
  * Преобразует элемент дерева в расширенный формат с дополнительными полями
  *
- * @param {ITreeItem} item - Исходный элемент
+ * @param {T} item - Исходный элемент
  * @param {TreeStore} treeStore - Экземпляр хранилища
- * @returns {ITreeItemWithCategory} Элемент с дополнительными полями
+ * @returns {ITreeItemWithCategory<T>} Элемент с дополнительными полями
  */
-export function enrichTreeItem(
-  item: ITreeItem,
-  treeStore: Reactive<TreeStore> | TreeStore
-): ITreeItemWithCategory {
-  const hasChildren = treeStore.getChildren(item.id).length > 0;
+export function enrichTreeItem<T extends ITreeItem>(
+  item: T,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): ITreeItemWithCategory<T> {
+  const hasChildren = treeStore.hasChildren(item.id);
 
   return {
     ...item,
@@ -85,14 +110,14 @@ export function enrichTreeItem(
  * Преобразует все элементы дерева в формат для отображения в AgGrid.
  * Добавляет вычисляемые поля: category, hasChildren, path, level
  *
- * @param {ITreeItem[]} items - Массив элементов дерева
+ * @param {T[]} items - Массив элементов дерева
  * @param {TreeStore} treeStore - Экземпляр хранилища
- * @returns {ITreeItemWithCategory[]} Массив обогащенных элементов
+ * @returns {ITreeItemWithCategory<T>[]} Массив обогащенных элементов
  */
-export function convertToAgGridFormat(
-  items: ITreeItem[],
-  treeStore: Reactive<TreeStore> | TreeStore
-): ITreeItemWithCategory[] {
+export function convertToAgGridFormat<T extends ITreeItem>(
+  items: T[],
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): ITreeItemWithCategory<T>[] {
   return items.map((item) => enrichTreeItem(item, treeStore));
 }
 
@@ -100,15 +125,15 @@ export function convertToAgGridFormat(
  * Сортирует элементы дерева в порядке обхода в глубину (DFS)
  * Корневые элементы первыми, затем их дети, и так далее
  *
- * @param {ITreeItem[]} items - Массив элементов для сортировки
+ * @param {T[]} items - Массив элементов для сортировки
  * @param {TreeStore} treeStore - Экземпляр хранилища
- * @returns {ITreeItem[]} Отсортированный массив элементов
+ * @returns {T[]} Отсортированный массив элементов
  */
-export function sortTreeItemsDFS(
-  items: ITreeItem[],
-  treeStore: Reactive<TreeStore> | TreeStore
-): ITreeItem[] {
-  const result: ITreeItem[] = [];
+export function sortTreeItemsDFS<T extends ITreeItem>(
+  items: T[],
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): T[] {
+  const result: T[] = [];
   const visited = new Set<TreeItemId>();
 
   // Рекурсивная функция обхода
@@ -129,8 +154,9 @@ export function sortTreeItemsDFS(
     }
   }
 
-  // Начинаем с корневых элементов (parent === null)
-  const rootItems = items.filter((item) => item.parent === null);
+  // Начинаем с корневых элементов (parent === null) в порядке хранилища
+  const rootIds = new Set(items.filter((item) => item.parent === null).map((item) => item.id));
+  const rootItems = treeStore.getRoots().filter((item) => rootIds.has(item.id));
   for (const rootItem of rootItems) {
     traverse(rootItem.id);
   }
@@ -138,4 +164,343 @@ export function sortTreeItemsDFS(
   return result;
 }
 
+/**
+ * Генерирует идентификатор для нового элемента: генератором хранилища, если он задан
+ * (см. TreeStore.setItemIdGenerator), иначе максимальный числовой id + 1.
+ * Строковые идентификаторы не учитываются
+ *
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {TreeItemId} Свободный идентификатор
+ */
+export function generateTreeItemId<T extends ITreeItem>(
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): TreeItemId {
+  const generated = treeStore.createItemId();
+
+  if (generated !== undefined) {
+    return generated;
+  }
+
+  let maxId = 0;
+
+  for (const item of treeStore.getAll()) {
+    if (typeof item.id === 'number' && item.id > maxId) {
+      maxId = item.id;
+    }
+  }
+
+  return maxId + 1;
+}
+
+/**
+ * Формирует идентификатор строки-заглушки ветки
+ *
+ * @param {TreeItemId | null} parentId - Идентификатор ветки (null - корень)
+ * @returns {string} Идентификатор строки
+ */
+export function getPlaceholderId(parentId: TreeItemId | null): string {
+  return `${PLACEHOLDER_ID_PREFIX}${parentId ?? ''}`;
+}
+
+/**
+ * Создает строку-заглушку незагруженной ветки.
+ * Заглушка содержит только базовые поля и не хранится в TreeStore
+ *
+ * @param {TreeItemId | null} parentId - Идентификатор ветки (null - корень)
+ * @param {TreeLoadState} state - Состояние загрузки ветки
+ * @returns {ITreeItemWithCategory<T>} Строка таблицы
+ */
+export function createPlaceholderRow<T extends ITreeItem>(
+  parentId: TreeItemId | null,
+  state: TreeLoadState
+): ITreeItemWithCategory<T> {
+  return {
+    id: getPlaceholderId(parentId),
+    parent: parentId,
+    label: PLACEHOLDER_LABELS[state],
+    hasChildren: false,
+    placeholder: state,
+  } as ITreeItemWithCategory<T>;
+}
+
+/**
+ * Создает строки-заглушки для незагруженных веток из списка
+ *
+ * @param {Array<TreeItemId | null>} parentIds - Идентификаторы веток (null - корень)
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {ITreeItemWithCategory<T>[]} Строки-заглушки
+ */
+export function getPlaceholderRows<T extends ITreeItem>(
+  parentIds: Array<TreeItemId | null>,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): ITreeItemWithCategory<T>[] {
+  return parentIds
+    .map((parentId) => ({ parentId, state: treeStore.getLoadState(parentId) }))
+    .filter(({ state }) => state !== 'loaded')
+    .map(({ parentId, state }) => createPlaceholderRow<T>(parentId, state));
+}
+
+/**
+ * Формирует транзакцию строк AgGrid по событию хранилища.
+ * Затрагиваются только строки, чьи вычисляемые поля изменились:
+ * сам элемент, его потомки (при смене пути) и родители (при смене категории).
+ * Для события reset возвращает null - таблицу нужно перестроить целиком
+ *
+ * @param {TreeStoreEvent} event - Событие хранилища
+ * @param {TreeStore} treeStore - Экземпляр хранилища (уже после мутации)
+ * @returns {ITreeRowTransaction | null} Транзакция строк
+ */
+export function buildRowTransaction<T extends ITreeItem>(
+  event: TreeStoreEvent<T>,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): ITreeRowTransaction<T> | null {
+  const transaction: ITreeRowTransaction<T> = { add: [], update: [], remove: [] };
+
+  // Родитель мог стать группой или элементом
+  const updateParent = (parentId: TreeItemId | null) => {
+    const parent = parentId === null ? undefined : treeStore.getItem(parentId);
+
+    if (parent) {
+      transaction.update.push(enrichTreeItem(parent, treeStore));
+    }
+  };
+
+  // Заглушки незагруженных веток элементов
+  const placeholdersOf = (items: T[]) => getPlaceholderRows(items.map((item) => item.id), treeStore);
+
+  switch (event.type) {
+    case 'reset':
+      return null;
+    case 'added':
+      transaction.add.push(enrichTreeItem(event.payload.item, treeStore));
+      updateParent(event.payload.item.parent);
+      break;
+    case 'removed':
+      transaction.remove.push(...event.payload.items, ...placeholdersOf(event.payload.items));
+      updateParent(event.payload.item.parent);
+      break;
+    case 'updated': {
+      const { oldItem, newItem } = event.payload;
+      // Наименование входит в path всех потомков
+      const affected = oldItem.label === newItem.label
+        ? [newItem]
+        : [newItem, ...treeStore.getAllChildren(newItem.id)];
+
+      transaction.update.push(...convertToAgGridFormat(affected, treeStore));
+      break;
+    }
+    case 'moved': {
+      const { newItem, oldParent, newParent, reordered } = event.payload;
+      // Соседи, получившие новые ранги при нормализации, тоже обновляются
+      const subtree = [newItem, ...treeStore.getAllChildren(newItem.id)];
+      const affected = [...subtree, ...reordered.map((change) => change.newItem)];
+
+      // Путь заглушек строится от родителя и меняется вместе с ним
+      transaction.update.push(...convertToAgGridFormat(affected, treeStore), ...placeholdersOf(subtree));
+      updateParent(oldParent);
+
+      if (newParent !== oldParent) {
+        updateParent(newParent);
+      }
+
+      break;
+    }
+    case 'loaded': {
+      const { items, parent } = event.payload;
+
+      transaction.add.push(...convertToAgGridFormat(items, treeStore), ...placeholdersOf(items));
+      updateParent(parent);
+      break;
+    }
+    case 'loadStateChanged': {
+      const { parent, state } = event.payload;
+      const placeholder = createPlaceholderRow<T>(parent, state);
+
+      // Заглушка существует, пока ветка не загружена
+      if (state === 'loaded') {
+        transaction.remove.push(placeholder);
+      } else {
+        transaction.update.push(placeholder);
+      }
+
+      break;
+    }
+  }
+
+  return transaction;
+}
+
+/**
+ * Определяет позицию сброса по вертикальному смещению курсора внутри строки:
+ * верхняя четверть - перед строкой, нижняя - после, середина - внутрь
+ *
+ * @param {number} offsetY - Смещение курсора от верхней границы строки
+ * @param {number} rowHeight - Высота строки
+ * @returns {TreeDropPosition} Позиция сброса
+ */
+export function getDropPosition(offsetY: number, rowHeight: number): TreeDropPosition {
+  const ratio = rowHeight > 0 ? offsetY / rowHeight : 0.5;
+
+  if (ratio < 0.25) {
+    return 'before';
+  }
+
+  if (ratio > 0.75) {
+    return 'after';
+  }
+
+  return 'inside';
+}
+
+/**
+ * Вычисляет нового родителя и позицию для переносимого элемента.
+ * Возвращает null, если сброс невозможен: на самого себя или внутрь собственного поддерева
+ *
+ * @param {TreeItemId} draggedId - Идентификатор переносимого элемента
+ * @param {TreeItemId} targetId - Идентификатор строки, над которой отпущен элемент
+ * @param {TreeDropPosition} position - Позиция сброса относительно целевой строки
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {ITreeDropTarget | null} Место переноса
+ */
+export function resolveDropTarget<T extends ITreeItem>(
+  draggedId: TreeItemId,
+  targetId: TreeItemId,
+  position: TreeDropPosition,
+  treeStore: Reactive<TreeStore<T>> | TreeStore<T>
+): ITreeDropTarget | null {
+  const dragged = treeStore.getItem(draggedId);
+  const target = treeStore.getItem(targetId);
+
+  if (!dragged || !target) {
+    return null;
+  }
+
+  // Цель совпадает с переносимым элементом или лежит в его поддереве
+  if (treeStore.getAllParents(targetId).some((item) => item.id === draggedId)) {
+    return null;
+  }
+
+  const parent = position === 'inside' ? target.id : target.parent;
+  const siblings = (parent === null ? treeStore.getRoots() : treeStore.getChildren(parent))
+    .filter((item) => item.id !== draggedId);
+
+  if (position === 'inside') {
+    return { parent, index: siblings.length };
+  }
+
+  const targetIndex = siblings.findIndex((item) => item.id === targetId);
+
+  return {
+    parent,
+    index: position === 'before' ? targetIndex : targetIndex + 1,
+  };
+}
+
+/**
+ * Проверяет, задан ли идентификатор узла
+ *
+ * @param {unknown} id - Значение ключа идентификатора
+ * @returns {boolean} true если идентификатор отсутствует
+ */
+function isMissingId(id: unknown): boolean {
+  return id === undefined || id === null || id === '';
+}
+
+/**
+ * Преобразует вложенное дерево в плоский список для TreeStore.update.
+ * Элементы идут в порядке обхода в глубину, дети - в порядке массива детей.
+ * Ссылка на родителя берется из вложенности; ключ parentId узла, если он есть, не учитывается.
+ * Узлы без идентификатора получают id из generateId, по умолчанию - следующий числовой
+ * после максимального числового id дерева
+ *
+ * @param {TreeNestedNode[]} nodes - Корневые узлы
+ * @param {ITreeFlattenOptions} [options] - Имена ключей и генератор идентификаторов
+ * @returns {T[]} Плоский список элементов с полями id и parent
+ */
+export function flattenTree<T extends ITreeItem = ITreeItem>(
+  nodes: readonly TreeNestedNode[],
+  options: ITreeFlattenOptions = {}
+): T[] {
+  const { id: idKey = 'id', parentId: parentKey = 'parent', children: childrenKey = 'children' } = options;
+  const result: T[] = [];
+  let generateId = options.generateId;
+
+  if (!generateId) {
+    let maxId = 0;
+
+    const scan = (list: readonly TreeNestedNode[]) => {
+      for (const node of list) {
+        const id = node[idKey];
+
+        if (typeof id === 'number' && id > maxId) {
+          maxId = id;
+        }
+
+        if (Array.isArray(node[childrenKey])) {
+          scan(node[childrenKey]);
+        }
+      }
+    };
+
+    scan(nodes);
+    generateId = () => ++maxId;
+  }
+
+  const visit = (list: readonly TreeNestedNode[], parent: TreeItemId | null) => {
+    for (const node of list) {
+      const fields = { ...node };
+      const id = isMissingId(node[idKey]) ? generateId(node, parent) : node[idKey] as TreeItemId;
+
+      delete fields[idKey];
+      delete fields[parentKey];
+      delete fields[childrenKey];
+      result.push({ ...fields, id, parent } as T);
+
+      if (Array.isArray(node[childrenKey])) {
+        visit(node[childrenKey], id);
+      }
+    }
+  };
+
+  visit(nodes, null);
+
+  return result;
+}
+
+/**
+ * Преобразует плоский список во вложенное дерево. Дети идут в порядке списка.
+ * Элемент с несуществующим родителем (например, из частичной выборки) становится корнем
+ * и сохраняет ссылку на родителя
+ *
+ * @param {T[]} items - Плоский список элементов
+ * @param {ITreeNestedKeys} [keys] - Имена ключей вложенного представления
+ * @returns {N[]} Корневые узлы
+ * @throws {TreeValidationError} При дубликатах id, циклах и ссылках элемента на самого себя
+ */
+export function nestTree<T extends ITreeItem, N = ITreeNestedItem<T>>(
+  items: readonly T[],
+  keys: ITreeNestedKeys = {}
+): N[] {
+  const { id: idKey = 'id', parentId: parentKey = 'parent', children: childrenKey = 'children' } = keys;
+  const issues = validateTreeItems([...items]).issues.filter((issue) => issue.type !== 'danglingParent');
+
+  if (issues.length > 0) {
+    throw new TreeValidationError({ valid: false, issues });
+  }
 
+  const nodes = new Map<TreeItemId, TreeNestedNode>();
+  const roots: TreeNestedNode[] = [];
+
+  for (const { id, parent, ...fields } of items) {
+    nodes.set(id, { ...fields, [idKey]: id, [parentKey]: parent, [childrenKey]: [] });
+  }
+
+  for (const item of items) {
+    const parentNode = item.parent === null ? undefined : nodes.get(item.parent);
+    const siblings = parentNode ? parentNode[childrenKey] as TreeNestedNode[] : roots;
+
+    siblings.push(nodes.get(item.id)!);
+  }
+
+  return roots as N[];
+}
@@ -0,0 +1,254 @@
+import type {
+  ITreeItem,
+  ITreeQuarantineEntry,
+  ITreeValidationIssue,
+  ITreeValidationReport,
+  TreeItemId,
+  TreeValidationIssueType,
+} from '@/types/tree.types.ts';
+import type TreeStore from '@/core/TreeStore.ts';
+import type { Reactive } from 'vue';
+
+/**
+ * Формирует описание нарушения для элемента
+ *
+ * @param {TreeValidationIssueType} type - Тип нарушения
+ * @param {ITreeItem} item - Проблемный элемент
+ * @param {TreeItemId[]} [cycle] - Элементы цикла
+ * @returns {ITreeValidationIssue} Описание нарушения
+ */
+export function createValidationIssue(
+  type: TreeValidationIssueType,
+  item: ITreeItem,
+  cycle?: TreeItemId[]
+): ITreeValidationIssue {
+  const messages: Record<TreeValidationIssueType, string> = {
+    duplicate: `Элемент с id=${item.id} уже существует`,
+    cycle: `Элемент с id=${item.id} образует цикл: ${cycle?.join(' → ')}`,
+    danglingParent: `Родитель id=${item.parent} элемента id=${item.id} не найден`,
+    selfParent: `Элемент с id=${item.id} указан родителем самого себя`,
+  };
+
+  const issue: ITreeValidationIssue = {
+    type,
+    id: item.id,
+    parent: item.parent,
+    message: messages[type],
+  };
+
+  if (cycle) {
+    issue.cycle = cycle;
+  }
+
+  return issue;
+}
+
+/**
+ * Собирает отчет из списка нарушений
+ *
+ * @param {ITreeValidationIssue[]} issues - Найденные нарушения
+ * @returns {ITreeValidationReport} Отчет о проверке
+ */
+function createReport(issues: ITreeValidationIssue[]): ITreeValidationReport {
+  return {
+    valid: issues.length === 0,
+    issues,
+  };
+}
+
+/**
+ * Проверяет плоский массив элементов на дубликаты, циклы,
+ * несуществующих родителей и ссылки на самого себя
+ * Сложность: O(n)
+ *
+ * @param {ITreeItem[]} items - Массив элементов дерева
+ * @returns {ITreeValidationReport} Отчет о проверке
+ */
+export function validateTreeItems(items: ITreeItem[]): ITreeValidationReport {
+  const issues: ITreeValidationIssue[] = [];
+  const itemsMap = new Map<TreeItemId, ITreeItem>();
+
+  for (const item of items) {
+    if (itemsMap.has(item.id)) {
+      issues.push(createValidationIssue('duplicate', item));
+
+      continue;
+    }
+
+    itemsMap.set(item.id, item);
+  }
+
+  for (const item of itemsMap.values()) {
+    if (item.parent === null) {
+      continue;
+    }
+
+    if (item.parent === item.id) {
+      issues.push(createValidationIssue('selfParent', item));
+    } else if (!itemsMap.has(item.parent)) {
+      issues.push(createValidationIssue('danglingParent', item));
+    }
+  }
+
+  // Поиск циклов: 1 - элемент на текущем пути обхода, 2 - элемент уже обработан
+  const state = new Map<TreeItemId, 1 | 2>();
+
+  for (const start of itemsMap.values()) {
+    const path: ITreeItem[] = [];
+    let current: ITreeItem | undefined = start;
+
+    while (current && !state.has(current.id)) {
+      state.set(current.id, 1);
+      path.push(current);
+
+      // Ссылка на самого себя уже учтена как selfParent
+      current = current.parent === null || current.parent === current.id
+        ? undefined
+        : itemsMap.get(current.parent);
+    }
+
+    // Обход уперся в элемент текущего пути - найден цикл
+    if (current && state.get(current.id) === 1) {
+      const cycleItems = path.slice(path.indexOf(current));
+      const cycle = cycleItems.map((item) => item.id);
+
+      for (const cycleItem of cycleItems) {
+        issues.push(createValidationIssue('cycle', cycleItem, cycle));
+      }
+    }
+
+    for (const item of path) {
+      state.set(item.id, 2);
+    }
+  }
+
+  return createReport(issues);
+}
+
+/**
+ * Разделяет элементы на корректные и отклоненные.
+ * Потомки отклоненных элементов также отклоняются, т.к. их родитель не попадет в дерево
+ *
+ * @param {T[]} items - Массив элементов дерева
+ * @returns {{ accepted: T[], rejected: ITreeQuarantineEntry<T>[], report: ITreeValidationReport }}
+ */
+export function partitionTreeItems<T extends ITreeItem>(items: T[]): {
+  accepted: T[];
+  rejected: ITreeQuarantineEntry<T>[];
+  report: ITreeValidationReport;
+} {
+  const report = validateTreeItems(items);
+
+  if (report.valid) {
+    return { accepted: items, rejected: [], report };
+  }
+
+  const rejected = new Map<T, ITreeValidationIssue[]>();
+  const firstById = new Map<TreeItemId, T>();
+
+  for (const item of items) {
+    if (firstById.has(item.id)) {
+      // Дубликат: первое вхождение остается, последующие отклоняются
+      rejected.set(item, [createValidationIssue('duplicate', item)]);
+    } else {
+      firstById.set(item.id, item);
+    }
+  }
+
+  for (const issue of report.issues) {
+    if (issue.type === 'duplicate') {
+      continue;
+    }
+
+    const item = firstById.get(issue.id)!;
+    rejected.set(item, [...(rejected.get(item) || []), issue]);
+  }
+
+  // Каскадно отклоняем элементы, чей родитель оказался в карантине
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+
+    for (const item of firstById.values()) {
+      if (rejected.has(item) || item.parent === null) {
+        continue;
+      }
+
+      const parent = firstById.get(item.parent);
+
+      if (parent && rejected.has(parent)) {
+        rejected.set(item, [createValidationIssue('danglingParent', item)]);
+        changed = true;
+      }
+    }
+  }
+
+  return {
+    accepted: items.filter((item) => !rejected.has(item)),
+    rejected: [...rejected].map(([item, itemIssues]) => ({ item, issues: itemIssues })),
+    report,
+  };
+}
+
+/**
+ * Проверяет элемент перед добавлением в хранилище
+ *
+ * @param {ITreeItem} item - Новый элемент
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {ITreeValidationReport} Отчет о проверке
+ */
+export function validateNewItem(
+  item: ITreeItem,
+  treeStore: Reactive<TreeStore> | TreeStore
+): ITreeValidationReport {
+  const issues: ITreeValidationIssue[] = [];
+
+  if (treeStore.getItem(item.id)) {
+    issues.push(createValidationIssue('duplicate', item));
+  }
+
+  if (item.parent !== null) {
+    if (item.parent === item.id) {
+      issues.push(createValidationIssue('selfParent', item));
+    } else if (!treeStore.getItem(item.parent)) {
+      issues.push(createValidationIssue('danglingParent', item));
+    }
+  }
+
+  return createReport(issues);
+}
+
+/**
+ * Проверяет обновление существующего элемента.
+ * Перенос элемента под собственного потомка считается циклом
+ *
+ * @param {ITreeItem} item - Обновленные данные элемента
+ * @param {TreeStore} treeStore - Экземпляр хранилища
+ * @returns {ITreeValidationReport} Отчет о проверке
+ */
+export function validateItemUpdate(
+  item: ITreeItem,
+  treeStore: Reactive<TreeStore> | TreeStore
+): ITreeValidationReport {
+  const issues: ITreeValidationIssue[] = [];
+
+  if (item.parent === null) {
+    return createReport(issues);
+  }
+
+  if (item.parent === item.id) {
+    issues.push(createValidationIssue('selfParent', item));
+  } else if (!treeStore.getItem(item.parent)) {
+    issues.push(createValidationIssue('danglingParent', item));
+  } else {
+    const chain = treeStore.getAllParents(item.parent).map((parent) => parent.id);
+    const index = chain.indexOf(item.id);
+
+    if (index > -1) {
+      issues.push(createValidationIssue('cycle', item, chain.slice(0, index + 1).reverse()));
+    }
+  }
+
+  return createReport(issues);
+}
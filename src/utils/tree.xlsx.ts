@@ -0,0 +1,503 @@
+/**
+ * Сигнатуры записей ZIP-архива
+ */
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Метод сжатия deflate
+ */
+const ZIP_METHOD_DEFLATE = 8;
+
+/**
+ * Пространства имен атрибута r:id связи листа (Transitional и Strict OOXML): префикс в книге может быть любым
+ */
+const RELATIONSHIP_NAMESPACES = [
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  'http://purl.oclc.org/ooxml/officeDocument/relationships',
+];
+
+/**
+ * Распаковывает данные, сжатые raw deflate, средствами платформы (Compression Streams API)
+ *
+ * @param {Uint8Array} data - Сжатые данные
+ * @returns {Promise<Uint8Array>} Распакованные данные
+ */
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  }).pipeThrough(new DecompressionStream('deflate-raw') as unknown as TransformStream<Uint8Array, Uint8Array>);
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    chunks.push(chunk.value);
+    length += chunk.value.length;
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return result;
+}
+
+/**
+ * Читает файлы ZIP-архива по центральному каталогу
+ *
+ * @param {ArrayBuffer} data - Содержимое архива
+ * @returns {Promise<Map<string, string>>} Содержимое файлов (UTF-8) по путям внутри архива
+ * @throws {Error} Если данные не являются ZIP-архивом или метод сжатия не поддерживается
+ */
+async function readZipEntries(data: ArrayBuffer): Promise<Map<string, string>> {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const decoder = new TextDecoder();
+  let end = -1;
+
+  // Запись конца центрального каталога находится в конце архива, перед комментарием
+  for (let offset = data.byteLength - 22; offset >= 0; offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+
+      break;
+    }
+  }
+
+  if (end < 0) {
+    throw new Error('Файл не является книгой Excel (XLSX)');
+  }
+
+  const entries = new Map<string, string>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Поврежден каталог книги Excel (XLSX)');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    // Длины имени и доп. поля в локальном заголовке могут отличаться от центрального каталога
+    const dataOffset = localOffset + 30
+      + view.getUint16(localOffset + 26, true)
+      + view.getUint16(localOffset + 28, true);
+    const compressed = bytes.subarray(dataOffset, dataOffset + compressedSize);
+
+    if (method !== 0 && method !== ZIP_METHOD_DEFLATE) {
+      throw new Error(`Неподдерживаемый метод сжатия ${method} в файле ${name}`);
+    }
+
+    const content = method === ZIP_METHOD_DEFLATE ? await inflateRaw(compressed) : compressed;
+
+    entries.set(name, decoder.decode(content));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Разбирает XML-часть книги
+ *
+ * @param {string | undefined} xml - Содержимое файла
+ * @param {string} name - Путь файла для сообщения об ошибке
+ * @returns {Document} Документ
+ * @throws {Error} Если файл отсутствует
+ */
+function parseXml(xml: string | undefined, name: string): Document {
+  if (xml === undefined) {
+    throw new Error(`В книге Excel (XLSX) нет файла ${name}`);
+  }
+
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+/**
+ * Возвращает потомков по локальному имени тега независимо от префикса пространства имен
+ *
+ * @param {ParentNode} node - Родительский узел
+ * @param {string} name - Локальное имя тега
+ * @returns {Element[]} Найденные элементы в порядке документа
+ */
+function getElements(node: Document | Element, name: string): Element[] {
+  return Array.from(node.getElementsByTagNameNS('*', name));
+}
+
+/**
+ * Возвращает текст строки Excel: элемент <t> или фрагменты форматированного текста <r><t>.
+ * Фонетические подсказки <rPh> не входят в значение и пропускаются
+ *
+ * @param {Element} item - Элемент общей (<si>) или встроенной (<is>) строки
+ * @returns {string} Текст строки
+ */
+function getStringText(item: Element): string {
+  const isPhonetic = (text: Element) => {
+    for (let node = text.parentElement; node && node !== item; node = node.parentElement) {
+      if (node.localName === 'rPh') {
+        return true;
+      }
+    }
+
+    return false;
+  };
+
+  return getElements(item, 't')
+    .filter((text) => !isPhonetic(text))
+    .map((text) => text.textContent ?? '')
+    .join('');
+}
+
+/**
+ * Находит путь к файлу листа по имени или индексу
+ *
+ * @param {Map<string, string>} entries - Файлы книги
+ * @param {string | number} sheet - Имя или индекс листа
+ * @returns {string} Путь к файлу листа внутри архива
+ * @throws {Error} Если лист не найден
+ */
+function resolveSheetPath(entries: Map<string, string>, sheet: string | number): string {
+  const workbook = parseXml(entries.get('xl/workbook.xml'), 'xl/workbook.xml');
+  const relations = parseXml(entries.get('xl/_rels/workbook.xml.rels'), 'xl/_rels/workbook.xml.rels');
+  const sheets = getElements(workbook, 'sheet');
+  const target = typeof sheet === 'number'
+    ? sheets[sheet]
+    : sheets.find((element) => element.getAttribute('name') === sheet);
+
+  if (!target) {
+    throw new Error(`Лист ${sheet} не найден в книге Excel (XLSX)`);
+  }
+
+  const relationId = RELATIONSHIP_NAMESPACES
+    .map((namespace) => target.getAttributeNS(namespace, 'id'))
+    .find((id) => id !== null);
+  const relation = getElements(relations, 'Relationship')
+    .find((element) => element.getAttribute('Id') === relationId);
+  const path = relation?.getAttribute('Target');
+
+  if (!path) {
+    throw new Error(`Лист ${sheet} не найден в книге Excel (XLSX)`);
+  }
+
+  // Путь задается относительно каталога xl/ либо абсолютно от корня архива
+  return path.startsWith('/') ? path.slice(1) : `xl/${path}`;
+}
+
+/**
+ * Преобразует буквенное обозначение столбца ячейки (A, B, ..., AA) в индекс с нуля
+ *
+ * @param {string} reference - Адрес ячейки (например, 'AB12')
+ * @returns {number} Индекс столбца
+ */
+function getColumnIndex(reference: string): number {
+  let index = 0;
+
+  for (const char of reference.replace(/\d+$/, '')) {
+    index = index * 26 + char.charCodeAt(0) - 64;
+  }
+
+  return index - 1;
+}
+
+/**
+ * Возвращает текст ячейки с учетом ее типа
+ *
+ * @param {Element} cell - Элемент ячейки
+ * @param {string[]} sharedStrings - Общие строки книги
+ * @returns {string} Текст ячейки
+ */
+function getCellText(cell: Element, sharedStrings: string[]): string {
+  const type = cell.getAttribute('t');
+
+  if (type === 'inlineStr') {
+    return getStringText(cell);
+  }
+
+  const value = getElements(cell, 'v')[0]?.textContent ?? '';
+
+  if (type === 's') {
+    return sharedStrings[Number(value)] ?? '';
+  }
+
+  if (type === 'b') {
+    return value === '1' ? 'TRUE' : 'FALSE';
+  }
+
+  return value;
+}
+
+/**
+ * Читает лист книги Excel (XLSX) как таблицу строк.
+ * Значения возвращаются текстом, как в CSV; пропущенные ячейки заполняются пустыми строками
+ *
+ * @param {ArrayBuffer} data - Содержимое файла XLSX
+ * @param {string | number} [sheet] - Имя или индекс листа (по умолчанию первый)
+ * @returns {Promise<string[][]>} Строки таблицы
+ * @throws {Error} Если файл поврежден или лист не найден
+ */
+export async function readXlsx(data: ArrayBuffer, sheet: string | number = 0): Promise<string[][]> {
+  const entries = await readZipEntries(data);
+  const sharedStringsXml = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml === undefined
+    ? []
+    : getElements(parseXml(sharedStringsXml, 'xl/sharedStrings.xml'), 'si').map(getStringText);
+
+  const sheetPath = resolveSheetPath(entries, sheet);
+  const rows: string[][] = [];
+
+  for (const rowElement of getElements(parseXml(entries.get(sheetPath), sheetPath), 'row')) {
+    const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1;
+    const row: string[] = [];
+
+    for (const cell of getElements(rowElement, 'c')) {
+      const reference = cell.getAttribute('r');
+      const columnIndex = reference ? getColumnIndex(reference) : row.length;
+
+      while (row.length < columnIndex) {
+        row.push('');
+      }
+
+      row[columnIndex] = getCellText(cell, sharedStrings);
+    }
+
+    // Пустые строки в XML листа не хранятся
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Наибольший уровень группировки строк, который поддерживает Excel
+ */
+export const XLSX_MAX_OUTLINE_LEVEL = 7;
+
+/**
+ * Таблица CRC-32 (полином 0xEDB88320), строится при первом использовании
+ */
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Вычисляет CRC-32 данных: Excel отказывается открывать архив с неверной контрольной суммой
+ *
+ * @param {Uint8Array} data - Данные
+ * @returns {number} Контрольная сумма
+ */
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+
+    for (let index = 0; index < 256; index++) {
+      let value = index;
+
+      for (let bit = 0; bit < 8; bit++) {
+        value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+      }
+
+      crcTable[index] = value >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Собирает ZIP-архив без сжатия
+ *
+ * @param {Array<[string, string]>} files - Пути и содержимое файлов (UTF-8)
+ * @returns {Uint8Array} Содержимое архива
+ */
+function createZip(files: Array<[string, string]>): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries = files.map(([name, content]) => {
+    const data = encoder.encode(content);
+
+    return { name: encoder.encode(name), data, crc: crc32(data) };
+  });
+
+  const localSize = entries.reduce((size, entry) => size + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = entries.reduce((size, entry) => size + 46 + entry.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  let centralOffset = localSize;
+
+  for (const { name, data, crc } of entries) {
+    // Общая часть локального заголовка и записи каталога: версия, флаги, метод, время, CRC и размеры
+    const writeCommon = (at: number) => {
+      view.setUint16(at, 20, true);
+      view.setUint16(at + 2, 0, true);
+      view.setUint16(at + 4, 0, true);
+      view.setUint32(at + 6, 0, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, data.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, name.length, true);
+      view.setUint16(at + 24, 0, true);
+    };
+
+    view.setUint32(centralOffset, ZIP_CENTRAL_DIRECTORY_ENTRY, true);
+    view.setUint16(centralOffset + 4, 20, true);
+    writeCommon(centralOffset + 6);
+    view.setUint32(centralOffset + 42, offset, true);
+    bytes.set(name, centralOffset + 46);
+    centralOffset += 46 + name.length;
+
+    view.setUint32(offset, ZIP_LOCAL_FILE_HEADER, true);
+    writeCommon(offset + 4);
+    bytes.set(name, offset + 30);
+    bytes.set(data, offset + 30 + name.length);
+    offset += 30 + name.length + data.length;
+  }
+
+  view.setUint32(centralOffset, ZIP_END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(centralOffset + 8, entries.length, true);
+  view.setUint16(centralOffset + 10, entries.length, true);
+  view.setUint32(centralOffset + 12, centralSize, true);
+  view.setUint32(centralOffset + 16, localSize, true);
+
+  return bytes;
+}
+
+/**
+ * Экранирует текст для XML. Управляющие символы, недопустимые в XML 1.0, удаляются
+ *
+ * @param {string} text - Исходный текст
+ * @returns {string} Экранированный текст
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Преобразует индекс столбца с нуля в буквенное обозначение (A, B, ..., AA)
+ *
+ * @param {number} index - Индекс столбца
+ * @returns {string} Обозначение столбца
+ */
+function getColumnName(index: number): string {
+  let name = '';
+
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    name = String.fromCharCode(65 + ((value - 1) % 26)) + name;
+  }
+
+  return name;
+}
+
+/**
+ * Формирует XML ячейки. Пустые значения не записываются
+ *
+ * @param {unknown} value - Значение ячейки
+ * @param {string} reference - Адрес ячейки
+ * @returns {string} XML ячейки
+ */
+function createCellXml(value: unknown, reference: string): string {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${reference}"><v>${value}</v></c>`;
+  }
+
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+/**
+ * Формирует книгу Excel (XLSX) из одной таблицы.
+ * Уровни группировки строк позволяют сворачивать ветки кнопками структуры Excel;
+ * итоговая строка группы находится над ее строками, как в дереве
+ *
+ * @param {unknown[][]} rows - Строки таблицы
+ * @param {object} [options] - Параметры книги
+ * @param {string} [options.sheetName] - Имя листа (по умолчанию 'Лист1')
+ * @param {number[]} [options.outlineLevels] - Уровень группировки каждой строки (ограничивается 7)
+ * @returns {Uint8Array} Содержимое файла XLSX
+ */
+export function writeXlsx(
+  rows: unknown[][],
+  options: { sheetName?: string; outlineLevels?: number[] } = {}
+): Uint8Array {
+  const { outlineLevels = [] } = options;
+  // Имя листа Excel ограничено 31 символом и не может содержать []:*?/\
+  const sheetName = (options.sheetName || 'Лист1').replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+  const levels = rows.map((_, index) => Math.min(Math.max(outlineLevels[index] ?? 0, 0), XLSX_MAX_OUTLINE_LEVEL));
+  // Разворот массива в аргументы Math.max переполняет стек на больших таблицах
+  const maxLevel = levels.reduce((max, level) => Math.max(max, level), 0);
+
+  const rowsXml = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      return createCellXml(value, `${getColumnName(columnIndex)}${rowIndex + 1}`);
+    }).join('');
+    const level = levels[rowIndex]! > 0 ? ` outlineLevel="${levels[rowIndex]}"` : '';
+
+    return `<row r="${rowIndex + 1}"${level}>${cells}</row>`;
+  }).join('');
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  const mainNamespace = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const relationshipNamespace = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const packageNamespace = 'http://schemas.openxmlformats.org/package/2006';
+
+  return createZip([
+    ['[Content_Types].xml', `${xmlHeader}<Types xmlns="${packageNamespace}/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" '
+      + 'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" '
+      + 'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '</Types>'],
+    ['_rels/.rels', `${xmlHeader}<Relationships xmlns="${packageNamespace}/relationships">`
+      + `<Relationship Id="rId1" Type="${relationshipNamespace}/officeDocument" Target="xl/workbook.xml"/>`
+      + '</Relationships>'],
+    ['xl/workbook.xml', `${xmlHeader}<workbook xmlns="${mainNamespace}" xmlns:r="${relationshipNamespace}">`
+      + `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>`
+      + '</workbook>'],
+    ['xl/_rels/workbook.xml.rels', `${xmlHeader}<Relationships xmlns="${packageNamespace}/relationships">`
+      + `<Relationship Id="rId1" Type="${relationshipNamespace}/worksheet" Target="worksheets/sheet1.xml"/>`
+      + '</Relationships>'],
+    ['xl/worksheets/sheet1.xml', `${xmlHeader}<worksheet xmlns="${mainNamespace}">`
+      + '<sheetPr><outlinePr summaryBelow="0"/></sheetPr>'
+      + `<sheetFormatPr defaultRowHeight="15"${maxLevel > 0 ? ` outlineLevelRow="${maxLevel}"` : ''}/>`
+      + `<sheetData>${rowsXml}</sheetData>`
+      + '</worksheet>'],
+  ]);
+}